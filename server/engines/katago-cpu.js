@@ -5,6 +5,7 @@ const fs = require('fs');
 class KataGoCPUEngine {
   constructor(options = {}) {
     this.boardSize = options.boardSize || 9;
+    this.komi = typeof options.komi === 'number' ? options.komi : 6.5;
     this.maxVisits = options.maxVisits || 100; // Very low for 9x9 CPU
     this.maxTime = options.maxTime || 3.0; // 3 seconds max per move
     this.threads = options.threads || 1; // Single thread for low RAM
@@ -203,7 +204,7 @@ rules = tromp-taylor
       console.log(`📋 KataGo boardsize response: ${boardSizeResponse}`);
       
       await this.sendCommand('clear_board');
-      await this.sendCommand('komi', '6.5');
+      await this.sendCommand('komi', String(this.komi));
       
       this.isInitialized = true;
       console.log('✅ KataGo CPU engine initialized successfully');
@@ -396,6 +397,7 @@ rules = tromp-taylor
       // Ensure board size is maintained when clearing
       await this.sendCommand('boardsize', this.boardSize);
       await this.sendCommand('clear_board');
+      await this.sendCommand('komi', String(this.komi));
       console.log(`🧹 KataGo board cleared (${this.boardSize}x${this.boardSize})`);
     } catch (error) {
       console.error('❌ Failed to clear board:', error);
@@ -34,6 +34,9 @@ class AIGameManager {
       if (gameState.board.size > 19) {
         throw new Error(`Board size ${gameState.board.size}x${gameState.board.size} not supported for AI games (maximum 19x19)`);
       }
+      if (gameState.board.width && gameState.board.width !== gameState.board.height) {
+        throw new Error(`Rectangular boards (${gameState.board.width}x${gameState.board.height}) are not supported for AI games`);
+      }
       
       // Determine AI settings based on level and board size
       const aiSettings = this.getAISettings(aiLevel, gameState.board.size);
@@ -59,6 +62,7 @@ class AIGameManager {
       // Create KataGo engine instance
       const engine = new KataGoCPUEngine({
         boardSize: gameState.board.size,
+        komi: gameState.komi,
         ...aiSettings
       });
 
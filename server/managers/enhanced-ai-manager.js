@@ -65,6 +65,7 @@ class EnhancedAIManager {
       
       const engine = new KataGoCPUEngine({
         boardSize: gameState.board.size,
+        komi: gameState.komi,
         modelPath: modelPath,
         ...computationalSettings
       });
@@ -124,6 +125,7 @@ class EnhancedAIManager {
       
       const engine = new KataGoCPUEngine({
         boardSize: gameState.board.size,
+        komi: gameState.komi,
         modelPath: modelPath,
         ...computationalSettings
       });
@@ -133,12 +133,62 @@ setupRedisAdapter().catch(err => {
 const activeGames = new Map();
 // Map socket IDs to game IDs for quick lookup
 const socketToGame = new Map();
+// Map socket IDs to player IDs, for messages meant for one rengo team
+const socketToPlayer = new Map();
+// Simuls by id: the host and the ids of the boards' games, in board order
+const activeSimuls = new Map();
 // Debug flag
 const DEBUG = true;
 
 // Import captcha validation utilities
 const { validateGameCreation } = require('./utils/captcha');
 
+// Import correspondence game storage
+const { loadCorrespondenceGames, saveCorrespondenceGames } = require('./utils/gameStore');
+
+// Import the shared rules engine (compiled from src/rules by `npm run build`)
+const {
+  findStoneAt,
+  getConnectedGroup,
+  resolveCaptures,
+  playMove,
+  getPlacementError,
+  getKoRule,
+  recordPosition,
+  getHandicapStones,
+  getStartingColor,
+  getHandicapPlacementError,
+  placeHandicapStone,
+  isValidKomi,
+  getKomi,
+  hasDeadStoneAgreement,
+  getBoardDimensions,
+  isWithinBounds,
+  MOVE_REJECTION_MESSAGES,
+  checkMove,
+  isRengoPlayerToMove,
+  canStartRengo,
+  isTeacher,
+  getColorRejection,
+  playVariation,
+  isMoveOverdue,
+  getMoveDeadline,
+  isAwaitingMove,
+  getSimulBoard,
+  MIN_SIMUL_BOARDS,
+  MAX_SIMUL_BOARDS,
+  isValidCaptureTarget,
+  MAX_CAPTURE_TARGET,
+  getCaptureWinner,
+  getCaptureResult,
+  isPassAllowed
+} = require('./shared/rules');
+
+// Correspondence games survive restarts: load the ones saved before
+loadCorrespondenceGames().forEach(gameState => {
+  activeGames.set(gameState.id, gameState);
+});
+
 // Initialize Enhanced AI Game Manager
 const aiGameManager = new EnhancedAIManager();
 
@@ -218,6 +268,83 @@ function broadcastGameUpdate(gameId, gameState) {
   
   // Store the game state
   activeGames.set(gameId, gameState);
+  
+  if (gameState.gameType === 'correspondence') {
+    scheduleCorrespondenceSave();
+  }
+  
+  if (gameState.simulId) {
+    broadcastSimulUpdate(gameState.simulId);
+  }
+}
+
+// Correspondence games are written to disk shortly after they change, once per burst of updates
+let correspondenceSaveTimeout = null;
+function scheduleCorrespondenceSave() {
+  if (correspondenceSaveTimeout) return;
+  correspondenceSaveTimeout = setTimeout(() => {
+    correspondenceSaveTimeout = null;
+    saveCorrespondenceGames(activeGames);
+  }, 1000);
+}
+
+// Correspondence games in progress stay on the server while their players are away,
+// and simul boards stay for the simul's results table
+function isKeptWhileAway(gameState) {
+  if (!gameState) return false;
+  if (gameState.simulId && activeSimuls.has(gameState.simulId)) return true;
+  return gameState.gameType === 'correspondence' && gameState.status !== 'finished';
+}
+
+// How long a simul's boards are kept once every board has finished
+const SIMUL_RESULTS_KEPT_MS = 60 * 60 * 1000;
+
+// The simul with a summary of each board, as the host's dashboard shows it
+function getSimulSession(simul) {
+  const boards = simul.gameIds
+    .map((gameId, index) => {
+      const gameState = activeGames.get(gameId);
+      return gameState ? getSimulBoard(gameState, simul.hostId, index + 1) : null;
+    })
+    .filter(Boolean);
+  
+  return {
+    id: simul.id,
+    hostId: simul.hostId,
+    hostName: simul.hostName,
+    boards
+  };
+}
+
+// Send the simul's boards to everyone watching it, and clear it away a while after the last board ends
+function broadcastSimulUpdate(simulId) {
+  const simul = activeSimuls.get(simulId);
+  if (!simul) return;
+  
+  const session = getSimulSession(simul);
+  io.to(`simul:${simulId}`).emit('simulState', session);
+  
+  if (!simul.removeTimeout && session.boards.every(board => board.status === 'finished')) {
+    log(`All boards of simul ${simulId} have finished`);
+    simul.removeTimeout = setTimeout(() => {
+      log(`Removing finished simul ${simulId}`);
+      activeSimuls.delete(simulId);
+      simul.gameIds.forEach(gameId => activeGames.delete(gameId));
+    }, SIMUL_RESULTS_KEPT_MS);
+  }
+}
+
+// Send an event to the sockets of one team in a rengo game
+function emitToTeam(gameState, color, event, data) {
+  const room = io.sockets.adapter.rooms.get(gameState.id);
+  if (!room) return;
+  
+  room.forEach(socketId => {
+    const player = gameState.players.find(p => p.id === socketToPlayer.get(socketId));
+    if (player && player.color === color) {
+      io.to(socketId).emit(event, data);
+    }
+  });
 }
 
 function processUndo(gameState, moveIndex, gameId) {
@@ -231,15 +358,23 @@ function processUndo(gameState, moveIndex, gameId) {
   let currentTurn = 'black'; // Black always starts first
   let capturedStones = { black: 0, white: 0 };
   
-  // ONLY add handicap stones if this is actually a handicap game AND we're going back to the beginning
-  if (gameState.gameType === 'handicap' && gameState.handicap > 0 && historyToKeep.length === 0) {
-    // Find handicap stones from the original board setup
-    const handicapStones = getHandicapStones(gameState.board.size, gameState.handicap);
+  // Handicap games (and teaching games with handicap stones) replay from the
+  // handicap stones, with white moving first
+  if (gameState.handicap > 0) {
+    // Free handicap games keep the points black actually chose
+    const handicapStones = gameState.handicapPositions && gameState.handicapPositions.length > 0
+      ? gameState.handicapPositions.map(position => ({ position, color: 'black' }))
+      : getHandicapStones(getBoardDimensions(gameState.board), gameState.handicap);
     stones = handicapStones;
-    currentTurn = 'white'; // White plays first in handicap games
+    if (handicapStones.length > 0) {
+      currentTurn = 'white'; // White plays first in handicap games
+    }
     log(`Added ${handicapStones.length} handicap stones for handicap game`);
   }
   
+  // Rebuild the superko position history alongside the board
+  let positionHistory = recordPosition([], { ...gameState.board, stones }, currentTurn);
+  
   // Replay each move in the history with proper capture logic
   historyToKeep.forEach((move, index) => {
     if (!move.pass) {
@@ -257,7 +392,7 @@ function processUndo(gameState, moveIndex, gameId) {
       }
       
       // Validate position is within bounds
-      if (position.x < 0 || position.x >= gameState.board.size || position.y < 0 || position.y >= gameState.board.size) {
+      if (!isWithinBounds(position, getBoardDimensions(gameState.board))) {
         log(`ERROR: Invalid position during undo replay at index ${index}: (${position.x}, ${position.y})`);
         return; // Skip this invalid move
       }
@@ -271,46 +406,37 @@ function processUndo(gameState, moveIndex, gameId) {
       
       // Apply capture logic (simplified version)
       const updatedStones = [...stones];
-      const captureResult = captureDeadStones(
-        { ...gameState, board: { ...gameState.board, stones: updatedStones } },
+      const captureResult = resolveCaptures(
         updatedStones,
+        getBoardDimensions(gameState.board),
         newStone.position,
         currentTurn
       );
       
       stones = captureResult.remainingStones;
       
-      // Update captured count
+      // Update captured count (suicided stones count for the opponent)
       capturedStones[currentTurn] += captureResult.capturedCount;
+      capturedStones[currentTurn === 'black' ? 'white' : 'black'] += captureResult.suicidePositions.length;
       
       log(`Replayed move ${index + 1}: ${currentTurn} at (${newStone.position.x}, ${newStone.position.y}), captured ${captureResult.capturedCount} stones`);
     }
     
     // Toggle turn for next move
     currentTurn = currentTurn === 'black' ? 'white' : 'black';
+    positionHistory = recordPosition(positionHistory, { ...gameState.board, stones }, currentTurn);
   });
   
-  // Calculate the current turn after undo
-  let nextTurn;
-  if (gameState.gameType === 'handicap' && gameState.handicap > 0) {
-    // In handicap games, white starts first, so:
-    // historyToKeep.length = 0 -> white's turn
-    // historyToKeep.length = 1 -> black's turn  
-    // historyToKeep.length = 2 -> white's turn
-    nextTurn = historyToKeep.length % 2 === 0 ? 'white' : 'black';
-  } else {
-    // In normal games, black starts first, so:
-    // historyToKeep.length = 0 -> black's turn
-    // historyToKeep.length = 1 -> white's turn
-    // historyToKeep.length = 2 -> black's turn
-    nextTurn = historyToKeep.length % 2 === 0 ? 'black' : 'white';
-  }
+  // The turn after undo is the one the replay ended on: white only moves first
+  // when handicap stones were placed (a handicap of one has none)
+  const nextTurn = currentTurn;
   
   // Update game state
   gameState.board.stones = stones;
   gameState.currentTurn = nextTurn;
   gameState.history = historyToKeep;
   gameState.capturedStones = capturedStones;
+  gameState.positionHistory = positionHistory;
   
   // Clear KO position since board state changed
   gameState.koPosition = undefined;
@@ -334,6 +460,85 @@ function processUndo(gameState, moveIndex, gameId) {
   log(`Undo completed: Board has ${stones.length} stones, next turn: ${nextTurn}`);
 }
 
+// Whether a rengo game is still in its lobby, where players pick teams
+function isRengoLobby(gameState) {
+  return gameState.gameType === 'rengo' && gameState.status === 'waiting';
+}
+
+// Checks shared by moves and passes: the game is in progress and the sender may
+// play this color now. playerId is the one the socket joined with, never what a
+// request claims. Returns a rejection reason or null.
+function getPlayerRejection(gameState, color, playerId) {
+  if (gameState.status !== 'playing') {
+    return 'game-not-active';
+  }
+  
+  const player = playerId && gameState.players.find(p => p.id === playerId);
+  if (!player) {
+    return 'not-a-player';
+  }
+  
+  // Own color only, unless the teacher has taken over the student's stones
+  const colorRejection = getColorRejection(gameState, player, color);
+  if (colorRejection) {
+    return colorRejection;
+  }
+  
+  // In rengo the members of a team take turns playing its color
+  if (color === gameState.currentTurn && !isRengoPlayerToMove(gameState, playerId)) {
+    return 'teammate-turn';
+  }
+  
+  return null;
+}
+
+// Check whether a move request is legal. Returns a rejection reason or null.
+function getMoveRejection(gameState, position, color, playerId) {
+  const playerRejection = getPlayerRejection(gameState, color, playerId);
+  if (playerRejection) {
+    return playerRejection;
+  }
+  
+  // Turn, pending free handicap stones and placement; handicap stones go through placeHandicapStone
+  const check = checkMove(gameState, position, color);
+  return check.legal ? null : check.reason;
+}
+
+// Check whether a pass request is allowed. Returns a rejection reason or null.
+function getPassRejection(gameState, color, playerId) {
+  const playerRejection = getPlayerRejection(gameState, color, playerId);
+  if (playerRejection) {
+    return playerRejection;
+  }
+  
+  if (color !== gameState.currentTurn) {
+    return 'not-your-turn';
+  }
+  
+  // Black cannot pass away the free handicap placement phase
+  if (gameState.pendingHandicap > 0) {
+    return 'handicap-pending';
+  }
+  
+  // Capture games have no passing and no scoring
+  return isPassAllowed(gameState) ? null : 'no-passing';
+}
+
+// Tell the sender why a move was refused and resync its (optimistically updated) board
+function rejectMove(socket, gameId, gameState, position, color, reason) {
+  const message = MOVE_REJECTION_MESSAGES[reason];
+  log(`❌ MOVE REJECTED - ${color} at ${position ? `(${position.x}, ${position.y})` : 'unknown position'} in game ${gameId}: ${reason}`);
+  
+  socket.emit('moveRejected', {
+    gameId,
+    position,
+    color,
+    reason,
+    message
+  });
+  socket.emit('gameState', gameState);
+}
+
 // Improved timer handling function
 function handlePlayerTimeout(gameState, player) {
   gameState.status = 'finished';
@@ -353,6 +558,8 @@ function handlePlayerTimeout(gameState, player) {
   let timeoutDetails;
   if (gameState.gameType === 'blitz') {
     timeoutDetails = `${player.color} exceeded time limit of ${gameState.timePerMove} seconds per move in Blitz game`;
+  } else if (gameState.gameType === 'correspondence') {
+    timeoutDetails = `${player.color} did not move within ${gameState.timeControl.correspondenceDays} days`;
   } else if (player.isInByoYomi) {
     timeoutDetails = `${player.color} used all ${gameState.timeControl.byoYomiPeriods} byo-yomi periods`;
   } else {
@@ -386,6 +593,149 @@ function handlePlayerTimeout(gameState, player) {
   broadcastGameUpdate(gameState.id, gameState);
 }
 
+// Ends a capture game once a color has captured enough stones. The caller
+// broadcasts the finished game. Returns whether the game ended.
+function finishCaptureGame(gameState) {
+  const winner = getCaptureWinner(gameState);
+  if (!winner) return false;
+  
+  gameState.status = 'finished';
+  gameState.winner = winner;
+  const result = getCaptureResult(winner);
+  gameState.result = result;
+  
+  const winnerName = winner === 'black' ? 'Black' : 'White';
+  const captured = gameState.capturedStones[winner];
+  const captureMessage = `${winnerName} captured ${captured} ${captured === 1 ? 'stone' : 'stones'} - ${winnerName} wins (${result})`;
+  log(`Game ${gameState.id}: ${captureMessage}`);
+  
+  io.to(gameState.id).emit('chatMessage', {
+    id: Date.now().toString(),
+    playerId: 'system',
+    username: 'System',
+    message: captureMessage,
+    timestamp: Date.now(),
+    isSystem: true
+  });
+  
+  return true;
+}
+
+// Settles the rules and clocks of a game its creator sent: komi, handicap placement,
+// ko rule, colors and starting times. Returns why the game was refused, if it was.
+function setupNewGame(gameState, playerId) {
+  // The server's clock dates the game record (SGF DT)
+  gameState.createdAt = Date.now();
+  
+  // Komi is chosen by the creator but must be a whole or half point
+  if (gameState.komi !== undefined && gameState.komi !== null && !isValidKomi(gameState.komi)) {
+    log(`Game creation rejected: invalid komi ${gameState.komi}`);
+    return 'Komi must be a whole or half point (e.g. 6.5, 0 or -5)';
+  }
+  gameState.komi = getKomi(gameState.komi, gameState.handicap || 0, gameState.scoringRule);
+  
+  // Capture games are won by the first color to capture the chosen number of stones
+  if (gameState.gameType === 'capture' && !isValidCaptureTarget(gameState.captureTarget)) {
+    log(`Game creation rejected: invalid capture target ${gameState.captureTarget}`);
+    return `Choose how many stones to capture, from 1 to ${MAX_CAPTURE_TARGET}`;
+  }
+  
+  // Free handicap: black places the stones one by one before white's first move
+  if (gameState.handicapPlacement === 'free' && gameState.handicap >= 2 && !gameState.vsAI) {
+    gameState.pendingHandicap = gameState.handicap;
+    gameState.handicapPositions = [];
+    gameState.board.stones = [];
+    gameState.currentTurn = 'black';
+    gameState.positionHistory = undefined;
+  } else {
+    gameState.pendingHandicap = 0;
+  }
+  
+  // Resolve the ko rule and seed the position history used for superko checks
+  gameState.koRule = getKoRule(gameState.koRule, gameState.scoringRule);
+  if (!Array.isArray(gameState.positionHistory)) {
+    gameState.positionHistory = recordPosition([], gameState.board, gameState.currentTurn);
+  }
+  
+  // Check for color preference if provided
+  if (gameState.colorPreference) {
+    log(`Owner requested color preference: ${gameState.colorPreference}`);
+    
+    // Find the owner player
+    const ownerPlayer = gameState.players.find(p => p.id === playerId);
+    
+    if (ownerPlayer) {
+      if (gameState.colorPreference === 'black') {
+        ownerPlayer.color = 'black';
+      } else if (gameState.colorPreference === 'white') {
+        ownerPlayer.color = 'white';
+      }
+      // If 'random', keep the default assignment
+    }
+  }
+  
+  // Initialize time control settings
+  if (gameState.timeControl) {
+    log(`Setting up time control: Main time: ${gameState.timeControl.timeControl} minutes, ` +
+        `Byoyomi: ${gameState.timeControl.byoYomiPeriods} periods of ${gameState.timeControl.byoYomiTime} seconds`);
+    
+    gameState.lastMoveTime = Date.now();
+    
+    // Initialize time remaining for each player with full time control
+    gameState.players.forEach(player => {
+      // Convert minutes to seconds for main time
+      player.timeRemaining = gameState.timeControl.timeControl * 60;
+      
+      // Initialize byo-yomi state
+      if (gameState.timeControl.byoYomiPeriods > 0) {
+        player.byoYomiPeriodsLeft = gameState.timeControl.byoYomiPeriods;
+        player.byoYomiTimeLeft = gameState.timeControl.byoYomiTime;
+        player.isInByoYomi = false; // Start in main time
+      }
+      
+      log(`Initialized time for player ${player.id}: ${player.timeRemaining} seconds main time, ` +
+          `${player.byoYomiPeriodsLeft || 0} byoyomi periods of ${player.byoYomiTimeLeft || 0} seconds`);
+    });
+  }
+  
+  // Initialize blitz game settings if applicable
+  if (gameState.gameType === 'blitz') {
+    const timePerMove = gameState.timePerMove || GAME_CONFIGURATIONS.blitz.defaultTimePerMove;
+    log(`Setting up blitz game with ${timePerMove} seconds per move`);
+    
+    gameState.timePerMove = timePerMove;
+    gameState.lastMoveTime = Date.now();
+    
+    // Initialize time remaining for each player with time per move
+    gameState.players.forEach(player => {
+      player.timeRemaining = timePerMove;
+      log(`Initialized blitz time for player ${player.id}: ${timePerMove} seconds per move`);
+    });
+  }
+  
+  return null;
+}
+
+// Ends a correspondence game whose player to move let the deadline pass.
+// Returns true when the game was ended.
+function endOverdueGame(gameState, now) {
+  if (!isMoveOverdue(gameState, now)) return false;
+  
+  const currentPlayer = gameState.players.find(p => p.color === gameState.currentTurn);
+  if (!currentPlayer) return false;
+  
+  log(`💀 CORRESPONDENCE TIMEOUT - Player ${currentPlayer.color} did not move within ${gameState.timeControl.correspondenceDays} days in game ${gameState.id}`);
+  handlePlayerTimeout(gameState, currentPlayer);
+  return true;
+}
+
+// Correspondence clocks run out while nobody is connected, so they are checked
+// here rather than in the per-connection timer loop (moves and passes check on arrival)
+setInterval(() => {
+  const now = Date.now();
+  activeGames.forEach(gameState => endOverdueGame(gameState, now));
+}, 60 * 1000);
+
 io.on('connection', (socket) => {
   log(`New client connected: ${socket.id}`);
 
@@ -416,60 +766,10 @@ io.on('connection', (socket) => {
     
     log(`Captcha validation passed for game creation`);
     
-    // Check for color preference if provided
-    if (gameState.colorPreference) {
-      log(`Owner requested color preference: ${gameState.colorPreference}`);
-      
-      // Find the owner player
-      const ownerPlayer = gameState.players.find(p => p.id === playerId);
-      
-      if (ownerPlayer) {
-        if (gameState.colorPreference === 'black') {
-          ownerPlayer.color = 'black';
-        } else if (gameState.colorPreference === 'white') {
-          ownerPlayer.color = 'white';
-        }
-        // If 'random', keep the default assignment
-      }
-    }
-    
-    // Initialize time control settings
-    if (gameState.timeControl) {
-      log(`Setting up time control: Main time: ${gameState.timeControl.timeControl} minutes, ` +
-          `Byoyomi: ${gameState.timeControl.byoYomiPeriods} periods of ${gameState.timeControl.byoYomiTime} seconds`);
-      
-      gameState.lastMoveTime = Date.now();
-      
-      // Initialize time remaining for each player with full time control
-      gameState.players.forEach(player => {
-        // Convert minutes to seconds for main time
-        player.timeRemaining = gameState.timeControl.timeControl * 60;
-        
-        // Initialize byo-yomi state
-        if (gameState.timeControl.byoYomiPeriods > 0) {
-          player.byoYomiPeriodsLeft = gameState.timeControl.byoYomiPeriods;
-          player.byoYomiTimeLeft = gameState.timeControl.byoYomiTime;
-          player.isInByoYomi = false; // Start in main time
-        }
-        
-        log(`Initialized time for player ${player.id}: ${player.timeRemaining} seconds main time, ` +
-            `${player.byoYomiPeriodsLeft || 0} byoyomi periods of ${player.byoYomiTimeLeft || 0} seconds`);
-      });
-    }
-    
-    // Initialize blitz game settings if applicable
-    if (gameState.gameType === 'blitz') {
-      const timePerMove = gameState.timePerMove || GAME_CONFIGURATIONS.blitz.defaultTimePerMove;
-      log(`Setting up blitz game with ${timePerMove} seconds per move`);
-      
-      gameState.timePerMove = timePerMove;
-      gameState.lastMoveTime = Date.now();
-      
-      // Initialize time remaining for each player with time per move
-      gameState.players.forEach(player => {
-        player.timeRemaining = timePerMove;
-        log(`Initialized blitz time for player ${player.id}: ${timePerMove} seconds per move`);
-      });
+    const setupError = setupNewGame(gameState, playerId);
+    if (setupError) {
+      socket.emit('gameCreationError', { error: setupError });
+      return;
     }
     
     // Store the game state
@@ -478,6 +778,7 @@ io.on('connection', (socket) => {
     // Join the socket to the game's room
     socket.join(gameState.id);
     socketToGame.set(socket.id, gameState.id);
+    socketToPlayer.set(socket.id, playerId);
     
     log(`Player ${playerId} created and joined game ${gameState.id}`);
     
@@ -570,6 +871,86 @@ io.on('connection', (socket) => {
     broadcastGameUpdate(gameState.id, gameState);
   });
 
+  // Host a simul: one game per board, each waiting for a student to join
+  socket.on('createSimul', ({ simul, gameStates, playerId, captcha, captchaAnswer, multiCaptcha, captchaAnswers, playerName }) => {
+    log(`Creating simul ${simul.id} with ${gameStates.length} boards`);
+    
+    const clientIP = socket.handshake.address || socket.conn.remoteAddress || 'unknown';
+    const validation = validateGameCreation({
+      playerName: playerName || simul.hostName,
+      captcha,
+      captchaAnswer,
+      multiCaptcha,
+      captchaAnswers
+    }, clientIP);
+    
+    if (!validation.valid) {
+      log(`Simul creation validation failed: ${validation.error}`);
+      socket.emit('gameCreationError', {
+        error: validation.error,
+        resetTime: validation.resetTime
+      });
+      return;
+    }
+    
+    if (!Array.isArray(gameStates) || gameStates.length < MIN_SIMUL_BOARDS || gameStates.length > MAX_SIMUL_BOARDS) {
+      socket.emit('gameCreationError', {
+        error: `A simul has ${MIN_SIMUL_BOARDS} to ${MAX_SIMUL_BOARDS} boards`
+      });
+      return;
+    }
+    
+    for (const gameState of gameStates) {
+      const setupError = setupNewGame(gameState, playerId);
+      if (setupError) {
+        socket.emit('gameCreationError', { error: setupError });
+        return;
+      }
+    }
+    
+    activeSimuls.set(simul.id, {
+      id: simul.id,
+      hostId: playerId,
+      hostName: simul.hostName,
+      gameIds: gameStates.map(gameState => gameState.id)
+    });
+    gameStates.forEach(gameState => {
+      gameState.simulId = simul.id;
+      activeGames.set(gameState.id, gameState);
+    });
+    
+    // The host starts on the first board and watches the others from the dashboard
+    const firstBoard = gameStates[0];
+    socket.join(firstBoard.id);
+    socket.join(`simul:${simul.id}`);
+    socketToGame.set(socket.id, firstBoard.id);
+    socketToPlayer.set(socket.id, playerId);
+    
+    log(`Player ${playerId} is hosting simul ${simul.id}`);
+    broadcastGameUpdate(firstBoard.id, firstBoard);
+  });
+  
+  // Follow a simul's boards (the host's dashboard, or students picking a board)
+  socket.on('watchSimul', ({ simulId }) => {
+    const simul = activeSimuls.get(simulId);
+    if (!simul) {
+      socket.emit('simulNotFound', { simulId });
+      return;
+    }
+    
+    socket.join(`simul:${simulId}`);
+    socket.emit('simulState', getSimulSession(simul));
+  });
+  
+  // The simul host moves on to another board: stop receiving this board's updates,
+  // without telling the student anyone left
+  socket.on('leaveSimulBoard', ({ gameId }) => {
+    socket.leave(gameId);
+    if (socketToGame.get(socket.id) === gameId) {
+      socketToGame.delete(socket.id);
+    }
+  });
+
   // Join an existing game
   socket.on('joinGame', ({ gameId, playerId, username, isReconnect, asSpectator }) => {
     log(`Player ${playerId} (${username}) joining game ${gameId}${asSpectator ? ' as spectator' : ''}`);
@@ -577,6 +958,7 @@ io.on('connection', (socket) => {
     // Add socket to the game's room
     socket.join(gameId);
     socketToGame.set(socket.id, gameId);
+    socketToPlayer.set(socket.id, playerId);
     
     // Get the current game state
     const gameState = activeGames.get(gameId);
@@ -625,8 +1007,9 @@ io.on('connection', (socket) => {
           log(`Warning: Reconnecting player/spectator ${playerId} not found in game ${gameId}`);
           socket.emit('gameState', gameState);
         }
-      } else if (asSpectator || gameState.players.length >= 2) {
+      } else if (asSpectator || (gameState.players.length >= 2 && !isRengoLobby(gameState))) {
         // Join as spectator if explicitly requested or if game already has 2 players
+        // (rengo games take any number of players until the host starts them)
         const spectator = {
           id: playerId,
           username,
@@ -674,7 +1057,11 @@ io.on('connection', (socket) => {
           
           // Check if the owner had a color preference
           const ownerPlayer = gameState.players[0];
-          if (ownerPlayer && ownerPlayer.color) {
+          if (gameState.gameType === 'rengo') {
+            // Rengo players join the smaller team; the host can rearrange them in the lobby
+            const blackCount = gameState.players.filter(p => p.color === 'black').length;
+            newPlayerColor = blackCount > gameState.players.length - blackCount ? 'white' : 'black';
+          } else if (ownerPlayer && ownerPlayer.color) {
             // Assign opposite color to second player
             newPlayerColor = ownerPlayer.color === 'black' ? 'white' : 'black';
           }
@@ -704,8 +1091,8 @@ io.on('connection', (socket) => {
           
           gameState.players.push(newPlayer);
           
-          // If we now have 2 players, set status to playing
-          if (gameState.players.length >= 2) {
+          // If we now have 2 players, set status to playing (rengo games wait for the host)
+          if (gameState.players.length >= 2 && gameState.gameType !== 'rengo') {
             log(`Game ${gameId} now has 2 players, changing status to playing`);
             gameState.status = 'playing';
             
@@ -721,7 +1108,7 @@ io.on('connection', (socket) => {
             
             // Keep the current turn as is for handicap games (should be 'white')
             // Only set to 'black' for non-handicap games
-            if (gameState.gameType !== 'handicap') {
+            if (!(gameState.handicap > 0)) {
               gameState.currentTurn = 'black';
             } else {
               log(`This is a handicap game. Current turn remains: ${gameState.currentTurn}`);
@@ -767,9 +1154,254 @@ io.on('connection', (socket) => {
     }
   });
 
+  // Rengo lobby: move a player to a team. The host (first player) can move anyone,
+  // everyone else only themselves. The lobby events trust the player on the socket,
+  // never an id sent by the client.
+  socket.on('assignTeam', ({ gameId, targetPlayerId, color }) => {
+    const gameState = activeGames.get(gameId);
+    const playerId = socketToPlayer.get(socket.id);
+    if (!gameState || !isRengoLobby(gameState)) {
+      log(`Team assignment ignored: game ${gameId} is not a rengo lobby`);
+      return;
+    }
+    
+    const target = gameState.players.find(p => p.id === targetPlayerId);
+    const isHost = gameState.players[0].id === playerId;
+    if (!target || (color !== 'black' && color !== 'white') || (!isHost && playerId !== targetPlayerId)) {
+      log(`Team assignment refused for ${targetPlayerId} by ${playerId} in game ${gameId}`);
+      return;
+    }
+    
+    target.color = color;
+    log(`${target.username} moved to the ${color} team in game ${gameId}`);
+    broadcastGameUpdate(gameId, gameState);
+  });
+  
+  // Rengo lobby: the host names a team
+  socket.on('setTeamName', ({ gameId, color, name }) => {
+    const gameState = activeGames.get(gameId);
+    const playerId = socketToPlayer.get(socket.id);
+    if (!gameState || !isRengoLobby(gameState) || gameState.players[0].id !== playerId) {
+      log(`Team name ignored for game ${gameId}`);
+      return;
+    }
+    if (color !== 'black' && color !== 'white') return;
+    
+    gameState.teamNames = {
+      ...gameState.teamNames,
+      [color]: String(name || '').trim().slice(0, 40)
+    };
+    broadcastGameUpdate(gameId, gameState);
+  });
+  
+  // Rengo lobby: the host starts the game once both teams have the same number of players
+  socket.on('startRengo', ({ gameId }) => {
+    const gameState = activeGames.get(gameId);
+    const playerId = socketToPlayer.get(socket.id);
+    if (!gameState || !isRengoLobby(gameState) || gameState.players[0].id !== playerId) {
+      log(`Rengo start ignored for game ${gameId}`);
+      return;
+    }
+    if (!canStartRengo(gameState.players)) {
+      log(`Rengo start refused for game ${gameId}: teams are uneven`);
+      return;
+    }
+    
+    gameState.status = 'playing';
+    gameState.lastMoveTime = Date.now();
+    log(`Rengo game ${gameId} started with ${gameState.players.length} players, ${gameState.currentTurn} to move`);
+    broadcastGameUpdate(gameId, gameState);
+  });
+
+  // Teaching games: the teacher takes back moves without asking. The moves taken
+  // back stay in the record as a variation. Like the other teacher events, the
+  // teacher is the player on this socket, never an id sent by the client.
+  socket.on('teacherUndo', ({ gameId, moveIndex }) => {
+    const gameState = activeGames.get(gameId);
+    const playerId = socketToPlayer.get(socket.id);
+    if (!gameState || !isTeacher(gameState, playerId) || gameState.status !== 'playing') {
+      log(`Teacher undo ignored in game ${gameId}`);
+      return;
+    }
+    if (!Number.isInteger(moveIndex) || moveIndex < 0 || moveIndex >= gameState.history.length) {
+      log(`Teacher undo to invalid move ${moveIndex} in game ${gameId}`);
+      return;
+    }
+    
+    // Moves alternate, so the color of an entry without one follows from the side to move
+    const lastColor = gameState.currentTurn === 'black' ? 'white' : 'black';
+    const takenBack = gameState.history.slice(moveIndex).map((move, index, moves) => ({
+      color: move.color || ((moves.length - 1 - index) % 2 === 0 ? lastColor : gameState.currentTurn),
+      position: move.pass ? null : move.position || { x: move.x, y: move.y }
+    }));
+    gameState.variations = [...(gameState.variations || []), { moveNumber: moveIndex, moves: takenBack }];
+    gameState.shownVariation = null;
+    
+    // Markup and comments on the removed moves would land on the replacement moves
+    [gameState.markup, gameState.comments].forEach(byMove => {
+      Object.keys(byMove || {}).filter(key => Number(key) > moveIndex).forEach(key => delete byMove[key]);
+    });
+    
+    log(`Teacher took back ${takenBack.length} moves in game ${gameId}`);
+    processUndo(gameState, moveIndex, gameId);
+  });
+  
+  // Teaching games: the teacher marks up the current position
+  socket.on('teacherMarkup', ({ gameId, markup }) => {
+    const gameState = activeGames.get(gameId);
+    const playerId = socketToPlayer.get(socket.id);
+    if (!gameState || !isTeacher(gameState, playerId) || !Array.isArray(markup)) {
+      log(`Teacher markup ignored in game ${gameId}`);
+      return;
+    }
+    
+    const markupByMove = { ...gameState.markup };
+    if (markup.length > 0) {
+      markupByMove[gameState.history.length] = markup;
+    } else {
+      delete markupByMove[gameState.history.length];
+    }
+    gameState.markup = markupByMove;
+    broadcastGameUpdate(gameId, gameState);
+  });
+  
+  // Teaching games: the teacher shows a variation from the current position on
+  // everyone's board. Each update replaces the variation being shown.
+  socket.on('teacherVariation', ({ gameId, moves }) => {
+    const gameState = activeGames.get(gameId);
+    const playerId = socketToPlayer.get(socket.id);
+    if (!gameState || !isTeacher(gameState, playerId) || !Array.isArray(moves)) {
+      log(`Teacher variation ignored in game ${gameId}`);
+      return;
+    }
+    if (playVariation(gameState.board, moves).error) {
+      log(`Teacher variation refused in game ${gameId}: illegal move`);
+      socket.emit('gameState', gameState);
+      return;
+    }
+    
+    const variations = [...(gameState.variations || [])];
+    const shown = gameState.shownVariation;
+    const isUpdate = shown !== null && shown !== undefined &&
+      variations[shown] && variations[shown].moveNumber === gameState.history.length;
+    
+    if (moves.length === 0) {
+      // An emptied variation is dropped
+      if (isUpdate) variations.splice(shown, 1);
+      gameState.shownVariation = null;
+    } else if (isUpdate) {
+      variations[shown] = { moveNumber: gameState.history.length, moves };
+    } else {
+      variations.push({ moveNumber: gameState.history.length, moves });
+      gameState.shownVariation = variations.length - 1;
+    }
+    gameState.variations = variations;
+    broadcastGameUpdate(gameId, gameState);
+  });
+  
+  // Teaching games: back to the game position for everyone (the variation stays in the record)
+  socket.on('teacherCloseVariation', ({ gameId }) => {
+    const gameState = activeGames.get(gameId);
+    const playerId = socketToPlayer.get(socket.id);
+    if (!gameState || !isTeacher(gameState, playerId)) return;
+    
+    gameState.shownVariation = null;
+    broadcastGameUpdate(gameId, gameState);
+  });
+  
+  // Teaching games: the teacher takes over (or hands back) the student's stones
+  socket.on('teacherControl', ({ gameId, enabled }) => {
+    const gameState = activeGames.get(gameId);
+    const playerId = socketToPlayer.get(socket.id);
+    if (!gameState || !isTeacher(gameState, playerId)) return;
+    
+    gameState.teacherControl = !!enabled;
+    log(`Teacher ${enabled ? 'took over' : 'handed back'} the student's stones in game ${gameId}`);
+    broadcastGameUpdate(gameId, gameState);
+  });
+
   // Handle a move
-  socket.on('makeMove', ({ gameId, position, color, playerId }) => {
+  // Place one free handicap stone (black only, before white's first move)
+  socket.on('placeHandicapStone', ({ gameId, position }) => {
+    const gameState = activeGames.get(gameId);
+    if (!gameState) {
+      log(`Handicap stone received for unknown game ${gameId}`);
+      socket.emit('moveRejected', {
+        gameId,
+        position,
+        color: 'black',
+        reason: 'game-not-active',
+        message: MOVE_REJECTION_MESSAGES['game-not-active']
+      });
+      return;
+    }
+    
+    // Only the black player on this socket places the stones, whatever id the client sends
+    let rejection = null;
+    const playerId = socketToPlayer.get(socket.id);
+    const player = gameState.players.find(p => p.id === playerId);
+    if (gameState.status !== 'playing') {
+      rejection = 'game-not-active';
+    } else if (!player) {
+      rejection = 'not-a-player';
+    } else if (player.color !== 'black') {
+      rejection = 'wrong-color';
+    } else if (!position || typeof position !== 'object') {
+      rejection = 'out-of-bounds';
+    } else {
+      rejection = getHandicapPlacementError(gameState.board, position, gameState.pendingHandicap);
+    }
+    
+    if (rejection) {
+      rejectMove(socket, gameId, gameState, position, 'black', rejection);
+      return;
+    }
+    
+    const placement = placeHandicapStone(gameState.board, position, gameState.pendingHandicap);
+    gameState.board = placement.board;
+    gameState.pendingHandicap = placement.pendingHandicap;
+    gameState.handicapPositions = [...(gameState.handicapPositions || []), position];
+    gameState.currentTurn = placement.nextTurn;
+    log(`Handicap stone placed at (${position.x}, ${position.y}) in game ${gameId}, ${placement.pendingHandicap} remaining`);
+    
+    if (placement.pendingHandicap === 0) {
+      // Placement is over: white's clock starts and superko history begins here
+      gameState.lastMoveTime = Date.now();
+      gameState.positionHistory = recordPosition([], gameState.board, gameState.currentTurn);
+      log(`Free handicap placement finished in game ${gameId}, white to move`);
+    }
+    
+    broadcastGameUpdate(gameId, gameState);
+  });
+
+  socket.on('makeMove', ({ gameId, position, color }) => {
     const gameState = activeGames.get(gameId);
+    const playerId = socketToPlayer.get(socket.id);
+    if (!gameState) {
+      log(`Move received for unknown game ${gameId}`);
+      socket.emit('moveRejected', {
+        gameId,
+        position,
+        color,
+        reason: 'game-not-active',
+        message: MOVE_REJECTION_MESSAGES['game-not-active']
+      });
+      return;
+    }
+    
+    // A move that arrives after the correspondence deadline loses on time, even before the sweep sees it
+    if (endOverdueGame(gameState, Date.now())) {
+      rejectMove(socket, gameId, gameState, position, color, 'game-not-active');
+      return;
+    }
+    
+    // The server is authoritative: refuse anything the rules engine does not allow
+    const rejection = getMoveRejection(gameState, position, color, playerId);
+    if (rejection) {
+      rejectMove(socket, gameId, gameState, position, color, rejection);
+      return;
+    }
+    
     if (gameState) {
       // For blitz games, start timer on first move if not already started
       if (gameState.gameType === 'blitz' && !gameState.lastMoveTime) {
@@ -790,45 +1422,16 @@ io.on('connection', (socket) => {
       } else {
         log(`Player ${playerId} made move at (${position.x}, ${position.y}) in game ${gameId}`);
       }
-    } else {
-      log(`Player ${playerId} made move at (${position.x}, ${position.y}) in game ${gameId}`);
     }
     
     if (gameState) {
-        
-        // Validate move - check if position is already occupied
-      const isOccupied = gameState.board.stones.some(
-        stone => stone.position.x === position.x && stone.position.y === position.y
-      );
-      
-      if (isOccupied) {
-        log(`Invalid move - position already occupied`);
-        socket.emit('error', 'Invalid move - position already occupied');
-        return;
-      }
-      
-      // Check for KO rule violation
-      if (gameState.koPosition && 
-          position.x === gameState.koPosition.x && 
-          position.y === gameState.koPosition.y) {
-        log(`Invalid move - KO rule violation at (${position.x}, ${position.y})`);
-        socket.emit('error', 'Invalid move - KO rule violation');
-        return;
-      }
-      
       // Track last move for immediate updates
       gameState.lastMove = position;
       gameState.lastMoveColor = color;
       gameState.lastMovePlayerId = playerId;
       
-      // Add the stone
-      const updatedStones = [...gameState.board.stones, {
-        position,
-        color
-      }];
-      
-      // Capture opponent stones
-      const capturedStones = captureDeadStones(gameState, updatedStones, position, color);
+      // Add the stone and capture opponent stones
+      const capturedStones = playMove(gameState.board, position, color);
       gameState.lastMoveCapturedCount = capturedStones.capturedCount;
       
       // Update game state (but don't change turn yet if byo-yomi reset needed)
@@ -856,6 +1459,16 @@ io.on('connection', (socket) => {
       
       gameState.history.push(moveHistoryEntry);
       
+      // Teaching games: note moves the teacher played for the student, and return
+      // everyone's board to the game from any variation being shown
+      if (gameState.gameType === 'teaching') {
+        const mover = gameState.players.find(p => p.id === playerId);
+        if (mover && mover.color !== color) {
+          gameState.comments = { ...gameState.comments, [gameState.history.length]: 'Played by the teacher' };
+        }
+        gameState.shownVariation = null;
+      }
+      
       // Set KO position if a single stone was captured
       // Clear existing KO position if we moved elsewhere
       if (capturedStones.koPosition) {
@@ -866,6 +1479,8 @@ io.on('connection', (socket) => {
         gameState.koPosition = undefined;
       }
       
+      gameState.positionHistory = recordPosition(gameState.positionHistory, gameState.board, color === 'black' ? 'white' : 'black');
+      
       // Deduct time spent from player's remaining time
       if (movingPlayer && timeSpentOnMove > 0) {
         if (gameState.gameType === 'blitz') {
@@ -1060,9 +1675,16 @@ io.on('connection', (socket) => {
       if (capturedStones.capturedCount > 0) {
         gameState.capturedStones[color] += capturedStones.capturedCount;
       }
+      // Stones removed by a legal suicide (Tromp-Taylor, New Zealand) count for the opponent
+      if (capturedStones.suicidePositions.length > 0) {
+        gameState.capturedStones[color === 'black' ? 'white' : 'black'] += capturedStones.suicidePositions.length;
+      }
       
       // Change turn immediately - no delay needed since byo-yomi reset events are sent immediately
       gameState.currentTurn = color === 'black' ? 'white' : 'black';
+      
+      // In a capture game the move that reaches the target wins at once
+      finishCaptureGame(gameState);
       broadcastGameUpdate(gameId, gameState);
       
       // Check if AI should make a move after human move
@@ -1262,7 +1884,7 @@ io.on('connection', (socket) => {
   setInterval(() => {
     // Send timer updates for all active games every 500ms
     activeGames.forEach((gameState, gameId) => {
-      if (gameState.status === 'playing' && (gameState.timeControl || gameState.gameType === 'blitz')) {
+      if (gameState.status === 'playing' && gameState.gameType !== 'correspondence' && (gameState.timeControl || gameState.gameType === 'blitz')) {
         const currentPlayer = gameState.players.find(p => p.color === gameState.currentTurn);
         
         if (currentPlayer && gameState.lastMoveTime) {
@@ -1408,8 +2030,32 @@ io.on('connection', (socket) => {
   }, 1000); // Update every second for better precision
 
   // Handle a pass
-  socket.on('passTurn', ({ gameId, color, playerId, endGame }) => {
+  socket.on('passTurn', ({ gameId, color, endGame }) => {
     const gameState = activeGames.get(gameId);
+    if (!gameState) {
+      log(`Pass received for unknown game ${gameId}`);
+      socket.emit('moveRejected', {
+        gameId,
+        position: null,
+        color,
+        reason: 'game-not-active',
+        message: MOVE_REJECTION_MESSAGES['game-not-active']
+      });
+      return;
+    }
+    
+    // Passes go through the same checks as moves: deadline, status, turn, ownership, rengo and teaching
+    if (endOverdueGame(gameState, Date.now())) {
+      rejectMove(socket, gameId, gameState, null, color, 'game-not-active');
+      return;
+    }
+    const playerId = socketToPlayer.get(socket.id);
+    const rejection = getPassRejection(gameState, color, playerId);
+    if (rejection) {
+      rejectMove(socket, gameId, gameState, null, color, rejection);
+      return;
+    }
+    
     if (gameState) {
       // Enhanced pass tracking with detailed timing information
       const passingPlayer = gameState.players.find(p => p.color === color);
@@ -1429,8 +2075,9 @@ io.on('connection', (socket) => {
     
     // Update the game state if it exists in memory
     if (gameState) {
-      // Update turn
+      // Update turn; a pass ends the ko, so either color may fill the point again
       gameState.currentTurn = color === 'black' ? 'white' : 'black';
+      gameState.koPosition = undefined;
       
       // Enhanced pass history tracking with timing information
       const playerForHistory = gameState.players.find(p => p.color === color);
@@ -1450,6 +2097,7 @@ io.on('connection', (socket) => {
       };
       
       gameState.history.push(passHistoryEntry);
+      gameState.positionHistory = recordPosition(gameState.positionHistory, gameState.board, gameState.currentTurn);
       
       // Deduct time spent from player's remaining time for pass
       const passingPlayerForTime = gameState.players.find(p => p.color === color);
@@ -1669,6 +2317,12 @@ io.on('connection', (socket) => {
       const leavingPlayer = gameState.players.find(p => p.id === playerId);
       if (leavingPlayer && leavingPlayer.username) {
         username = leavingPlayer.username;
+        
+        // Players leaving a rengo lobby give up their seat (the host stays as the game's owner)
+        if (isRengoLobby(gameState) && gameState.players[0].id !== playerId) {
+          gameState.players = gameState.players.filter(p => p.id !== playerId);
+          broadcastGameUpdate(gameId, gameState);
+        }
       } else {
         // Check if it's a spectator leaving
         const leavingSpectator = gameState.spectators?.find(s => s.id === playerId);
@@ -1688,6 +2342,7 @@ io.on('connection', (socket) => {
     // Leave the socket room
     socket.leave(gameId);
     socketToGame.delete(socket.id);
+    socketToPlayer.delete(socket.id);
     
     // Notify other players/spectators with username included
     if (isSpectator) {
@@ -1709,10 +2364,15 @@ io.on('connection', (socket) => {
     log(`Game ${gameId} has ${clientsCount} clients remaining after ${isSpectator ? 'spectator' : 'player'} left`);
     
     // If no players left in the room, remove the game immediately
-    if (!room || clientsCount === 0) {
+    if (isKeptWhileAway(gameState)) {
+      log(`Keeping correspondence game ${gameId} for its players to return`);
+    } else if (!room || clientsCount === 0) {
       log(`No players remaining in game ${gameId}, removing it immediately`);
       cleanupAIGame(gameId);
       activeGames.delete(gameId);
+      if (gameState && gameState.gameType === 'correspondence') {
+        scheduleCorrespondenceSave();
+      }
     }
   });
 
@@ -1730,14 +2390,19 @@ io.on('connection', (socket) => {
       
       // Clean up
       socketToGame.delete(socket.id);
+      socketToPlayer.delete(socket.id);
       
       // If no more clients in the game, remove it after a timeout
       setTimeout(() => {
         const room = io.sockets.adapter.rooms.get(gameId);
-        if (!room || room.size === 0) {
+        const inactiveGame = activeGames.get(gameId);
+        if ((!room || room.size === 0) && !isKeptWhileAway(inactiveGame)) {
           log(`Removing inactive game ${gameId}`);
             cleanupAIGame(gameId);
           activeGames.delete(gameId);
+          if (inactiveGame && inactiveGame.gameType === 'correspondence') {
+            scheduleCorrespondenceSave();
+          }
         }
       }, 5 * 60 * 1000); // 5 minutes timeout
     }
@@ -1805,7 +2470,7 @@ io.on('connection', (socket) => {
   });
 
   // Handle game end after scoring
-  socket.on('gameEnded', ({ gameId, score, winner, territory }) => {
+  socket.on('gameEnded', ({ gameId, score, winner, territory, seki }) => {
     log(`Game ${gameId} has ended. Winner: ${winner}`);
     
     // Update the game state if it exists in memory
@@ -1816,6 +2481,7 @@ io.on('connection', (socket) => {
       gameState.score = score;
       gameState.winner = winner;
       gameState.territory = territory;
+      gameState.seki = seki;
       
       // Store updated game state
       activeGames.set(gameId, gameState);
@@ -1856,6 +2522,7 @@ io.on('connection', (socket) => {
       gameState.status = 'playing';
       gameState.deadStones = []; // Clear dead stones
       gameState.territory = undefined; // Clear territory visualization
+      gameState.seki = undefined;
       gameState.scoreConfirmation = undefined; // Clear score confirmations
       
       // Store updated game state
@@ -2006,12 +2673,33 @@ io.on('connection', (socket) => {
   });
 
   // Handle chat messages
-  socket.on('chatMessage', ({ gameId, playerId, username, message }) => {
+  socket.on('chatMessage', ({ gameId, playerId, username, message, team }) => {
     log(`Chat message from ${username} (${playerId}) in game ${gameId}: ${message}`);
     
     // Get the current game state
     const gameState = activeGames.get(gameId);
     
+    // Rengo team chat: only the sender's teammates receive it. The team comes from the
+    // player on this socket, so nobody can read another team's chat by sending their id.
+    const sender = gameState && gameState.players.find(p => p.id === socketToPlayer.get(socket.id));
+    if (team && gameState && gameState.gameType === 'rengo') {
+      if (!sender) {
+        log(`Team chat ignored in game ${gameId}: the sender is not a player`);
+        return;
+      }
+      emitToTeam(gameState, sender.color, 'chatMessage', {
+        id: Date.now().toString(),
+        playerId: sender.id,
+        username,
+        message,
+        timestamp: Date.now(),
+        team: true
+      });
+      
+      log(`Sent team chat message to the ${sender.color} team in game ${gameId}`);
+      return;
+    }
+    
     if (gameState) {
       // Broadcast the message to all clients in the game room
       io.to(gameId).emit('chatMessage', {
@@ -2129,6 +2817,8 @@ io.on('connection', (socket) => {
           })),
           board: {
             size: originalGame.board.size,
+            width: originalGame.board.width,
+            height: originalGame.board.height,
             stones: []
           },
           currentTurn: 'black',
@@ -2137,8 +2827,11 @@ io.on('connection', (socket) => {
           capturedStones: { black: 0, white: 0 },
           komi: originalGame.komi,
           scoringRule: originalGame.scoringRule,
+          koRule: originalGame.koRule,
           gameType: originalGame.gameType,
+          captureTarget: originalGame.captureTarget,
           handicap: originalGame.handicap || 0,
+          handicapPlacement: originalGame.handicapPlacement,
           timeControl: originalGame.timeControl,
           timePerMove: originalGame.timePerMove,
           lastMoveTime: Date.now(),
@@ -2155,11 +2848,16 @@ io.on('connection', (socket) => {
         activeGames.set(newGameId, newGameState);
 
         // Add handicap stones if it's a handicap game
-        if (newGameState.gameType === 'handicap' && newGameState.handicap > 0) {
-          const handicapStones = getHandicapStones(newGameState.board.size, newGameState.handicap);
+        if (newGameState.handicapPlacement === 'free' && newGameState.handicap >= 2 && !newGameState.vsAI) {
+          // Black places the free handicap stones again from an empty board
+          newGameState.pendingHandicap = newGameState.handicap;
+          newGameState.handicapPositions = [];
+        } else if (newGameState.gameType === 'handicap' && newGameState.handicap > 0) {
+          const handicapStones = getHandicapStones(getBoardDimensions(newGameState.board), newGameState.handicap);
           newGameState.board.stones = handicapStones;
-          newGameState.currentTurn = 'white';
+          newGameState.currentTurn = getStartingColor(newGameState.handicap);
         }
+        newGameState.positionHistory = recordPosition([], newGameState.board, newGameState.currentTurn);
 
         // Create AI engine for the new game (players are already copied over)
         if (aiGameManager && originalGame.vsAI) {
@@ -2262,6 +2960,8 @@ io.on('connection', (socket) => {
           })),
           board: {
             size: originalGame.board.size,
+            width: originalGame.board.width,
+            height: originalGame.board.height,
             stones: []
           },
           currentTurn: 'black',
@@ -2270,8 +2970,11 @@ io.on('connection', (socket) => {
           capturedStones: { black: 0, white: 0 },
           komi: originalGame.komi,
           scoringRule: originalGame.scoringRule,
+          koRule: originalGame.koRule,
           gameType: originalGame.gameType,
+          captureTarget: originalGame.captureTarget,
           handicap: originalGame.handicap || 0,
+          handicapPlacement: originalGame.handicapPlacement,
           timeControl: originalGame.timeControl,
           timePerMove: originalGame.timePerMove,
           lastMoveTime: Date.now(),
@@ -2279,12 +2982,17 @@ io.on('connection', (socket) => {
         };
 
         // Add handicap stones if it's a handicap game
-        if (newGameState.gameType === 'handicap' && newGameState.handicap > 0) {
+        if (newGameState.handicapPlacement === 'free' && newGameState.handicap >= 2) {
+          // Black places the free handicap stones again from an empty board
+          newGameState.pendingHandicap = newGameState.handicap;
+          newGameState.handicapPositions = [];
+        } else if (newGameState.gameType === 'handicap' && newGameState.handicap > 0) {
           // Add handicap stones based on board size and handicap count
-          const handicapStones = getHandicapStones(newGameState.board.size, newGameState.handicap);
+          const handicapStones = getHandicapStones(getBoardDimensions(newGameState.board), newGameState.handicap);
           newGameState.board.stones = handicapStones;
-          newGameState.currentTurn = 'white'; // White plays first in handicap games
+          newGameState.currentTurn = getStartingColor(newGameState.handicap); // White plays first after handicap stones
         }
+        newGameState.positionHistory = recordPosition([], newGameState.board, newGameState.currentTurn);
 
         // Store the new game
         activeGames.set(newGameId, newGameState);
@@ -2355,6 +3063,13 @@ io.on('connection', (socket) => {
         return;
       }
       
+      // Tromp-Taylor counts every stone on the board as alive
+      if (!hasDeadStoneAgreement(gameState.scoringRule)) {
+        log(`Cannot toggle dead stone: game ${gameId} uses ${gameState.scoringRule} rules`);
+        socket.emit('error', 'Cannot toggle dead stone: every stone counts as alive under these rules');
+        return;
+      }
+      
       // Initialize deadStones array if it doesn't exist
       if (!gameState.deadStones) {
         gameState.deadStones = [];
@@ -2369,7 +3084,7 @@ io.on('connection', (socket) => {
       }
       
       // Get the connected group of stones
-      const connectedGroup = getConnectedGroup(position, gameState.board.stones, gameState.board.size);
+      const connectedGroup = getConnectedGroup(position, gameState.board.stones, getBoardDimensions(gameState.board));
       
       // Count how many stones in the group are already marked as dead
       const alreadyMarkedCount = connectedGroup.filter(pos => 
@@ -2636,8 +3351,10 @@ async function makeAIMove(gameId) {
         byoYomiPeriodsLeft: aiPlayer.byoYomiPeriodsLeft
       });
 
-      // Switch turn
+      // Switch turn; the pass ends any ko
       gameState.currentTurn = currentColor === 'black' ? 'white' : 'black';
+      gameState.koPosition = undefined;
+      gameState.positionHistory = recordPosition(gameState.positionHistory, gameState.board, gameState.currentTurn);
       
       // Check for double pass (game end)
       const historyLength = gameState.history.length;
@@ -2669,32 +3386,15 @@ async function makeAIMove(gameId) {
       const { position } = aiMoveResult;
       log(`🤖 AI (${currentColor}) plays at (${position.x}, ${position.y})`);
 
-      // Validate move
-      const isOccupied = gameState.board.stones.some(
-        stone => stone.position.x === position.x && stone.position.y === position.y
-      );
-      
-      if (isOccupied) {
-        log(`❌ AI generated invalid move - position occupied`);
-        return;
-      }
-
-      // Check KO rule
-      if (gameState.koPosition && 
-          position.x === gameState.koPosition.x && 
-          position.y === gameState.koPosition.y) {
-        log(`❌ AI generated invalid move - KO violation`);
+      // Validate move with the same rules as human moves
+      const rejection = getPlacementError(gameState.board, position, currentColor, gameState);
+      if (rejection) {
+        log(`❌ AI generated invalid move - ${rejection}`);
         return;
       }
 
-      // Add the stone
-      const updatedStones = [...gameState.board.stones, {
-        position,
-        color: currentColor
-      }];
-
-      // Capture opponent stones
-      const capturedStones = captureDeadStones(gameState, updatedStones, position, currentColor);
+      // Add the stone and capture opponent stones
+      const capturedStones = playMove(gameState.board, position, currentColor);
       gameState.board.stones = capturedStones.remainingStones;
 
       // Track move
@@ -2733,14 +3433,20 @@ async function makeAIMove(gameId) {
       if (capturedStones.capturedCount > 0) {
         gameState.capturedStones[currentColor] += capturedStones.capturedCount;
       }
+      if (capturedStones.suicidePositions.length > 0) {
+        gameState.capturedStones[currentColor === 'black' ? 'white' : 'black'] += capturedStones.suicidePositions.length;
+      }
 
       // Switch turn
       gameState.currentTurn = currentColor === 'black' ? 'white' : 'black';
+      gameState.positionHistory = recordPosition(gameState.positionHistory, gameState.board, gameState.currentTurn);
       
       // Reset timer for next player's move (only for standard games, not blitz)
       if (gameState.gameType !== 'blitz') {
         gameState.lastMoveTime = Date.now();
       }
+      
+      finishCaptureGame(gameState);
     }
 
     // Update stored game state
@@ -2880,226 +3586,37 @@ app.post('/api/ai/create-game', (req, res) => {
   aiGameAPI.createAIGame(req, res);
 });
 
+// Correspondence games of a browser: it sends the games it has joined with its
+// player id in each, and gets back where each game stands
+app.post('/api/correspondence-games', (req, res) => {
+  const entries = Array.isArray(req.body && req.body.games) ? req.body.games : [];
+  
+  const games = entries
+    .map(({ gameId, playerId }) => {
+      const gameState = activeGames.get(gameId);
+      const player = gameState && gameState.players.find(p => p.id === playerId);
+      if (!gameState || !player || gameState.gameType !== 'correspondence') return null;
+      
+      const opponent = gameState.players.find(p => p.id !== playerId && !p.isSpectator);
+      return {
+        gameId,
+        code: gameState.code,
+        color: player.color,
+        opponent: opponent ? opponent.username : null,
+        status: gameState.status,
+        result: gameState.result,
+        moveCount: gameState.history.length,
+        awaitingMove: isAwaitingMove(gameState, playerId),
+        deadline: getMoveDeadline(gameState)
+      };
+    })
+    .filter(Boolean);
+  
+  res.json({ games });
+});
+
 const PORT = process.env.PORT || 3001;
 const HOST = process.env.HOST || '0.0.0.0';
 server.listen(PORT, HOST, () => {
   log(`Socket server listening on ${HOST}:${PORT}`);
 });
-
-// Helper function to get handicap stone positions
-function getHandicapStones(boardSize, handicap) {
-  if (handicap < 2 || handicap > 9) return [];
-  
-  // Standard handicap stone positions for different board sizes
-  const HANDICAP_POSITIONS = {
-    21: [
-      { x: 3, y: 3 },     // bottom left
-      { x: 17, y: 17 },   // top right
-      { x: 17, y: 3 },    // bottom right
-      { x: 3, y: 17 },    // top left
-      { x: 10, y: 10 },   // center
-      { x: 10, y: 3 },    // bottom center
-      { x: 10, y: 17 },   // top center
-      { x: 3, y: 10 },    // left center
-      { x: 17, y: 10 },   // right center
-    ],
-    19: [
-      { x: 3, y: 3 },    // bottom left
-      { x: 15, y: 15 },  // top right
-      { x: 15, y: 3 },   // bottom right
-      { x: 3, y: 15 },   // top left
-      { x: 9, y: 9 },    // center
-      { x: 9, y: 3 },    // bottom center
-      { x: 9, y: 15 },   // top center
-      { x: 3, y: 9 },    // left center
-      { x: 15, y: 9 },   // right center
-    ],
-    15: [
-      { x: 3, y: 3 },     // bottom left
-      { x: 11, y: 11 },   // top right
-      { x: 11, y: 3 },    // bottom right
-      { x: 3, y: 11 },    // top left
-      { x: 7, y: 7 },     // center
-      { x: 7, y: 3 },     // bottom center
-      { x: 7, y: 11 },    // top center
-      { x: 3, y: 7 },     // left center
-      { x: 11, y: 7 },    // right center
-    ],
-    13: [
-      { x: 3, y: 3 },    // bottom left
-      { x: 9, y: 9 },    // top right
-      { x: 9, y: 3 },    // bottom right
-      { x: 3, y: 9 },    // top left
-      { x: 6, y: 6 },    // center
-      { x: 6, y: 3 },    // bottom center
-      { x: 6, y: 9 },    // top center
-      { x: 3, y: 6 },    // left center
-      { x: 9, y: 6 },    // right center
-    ],
-    9: [
-      { x: 2, y: 2 },    // bottom left
-      { x: 6, y: 6 },    // top right
-      { x: 6, y: 2 },    // bottom right
-      { x: 2, y: 6 },    // top left
-      { x: 4, y: 4 },    // center
-      { x: 4, y: 2 },    // bottom center
-      { x: 4, y: 6 },    // top center
-      { x: 2, y: 4 },    // left center
-      { x: 6, y: 4 },    // right center
-    ]
-  };
-  
-  const positions = HANDICAP_POSITIONS[boardSize];
-  if (!positions) return [];
-  
-  // Get the handicap positions (limit to requested handicap)
-  const handicapPositions = positions.slice(0, handicap);
-  
-  // Create stones for each position
-  return handicapPositions.map(position => ({
-    position,
-    color: 'black'
-  }));
-}
-
-// Helper function to get adjacent positions
-function getAdjacentPositions(position) {
-  return [
-    { x: position.x, y: position.y - 1 }, // up
-    { x: position.x + 1, y: position.y }, // right
-    { x: position.x, y: position.y + 1 }, // down
-    { x: position.x - 1, y: position.y }, // left
-  ];
-}
-
-// Check if a position is within the bounds of the board
-function isWithinBounds(position, boardSize) {
-  return position.x >= 0 && position.x < boardSize && position.y >= 0 && position.y < boardSize;
-}
-
-// Find stone at a position
-function findStoneAt(position, stones) {
-  return stones.find(
-    stone => stone.position.x === position.x && stone.position.y === position.y
-  );
-}
-
-// Get connected group of stones
-function getConnectedGroup(position, stones, boardSize) {
-  const stone = findStoneAt(position, stones);
-  if (!stone) return [];
-  
-  const color = stone.color;
-  const visited = new Set();
-  const group = [];
-  
-  function visit(pos) {
-    const key = `${pos.x},${pos.y}`;
-    if (visited.has(key)) return;
-    
-    visited.add(key);
-    
-    const stoneAtPos = findStoneAt(pos, stones);
-    if (!stoneAtPos || stoneAtPos.color !== color) return;
-    
-    group.push(pos);
-    
-    // Visit adjacent positions
-    const adjacentPositions = getAdjacentPositions(pos).filter(p => 
-      isWithinBounds(p, boardSize)
-    );
-    
-    adjacentPositions.forEach(visit);
-  }
-  
-  visit(position);
-  return group;
-}
-
-// Check if a position is empty
-function isEmpty(position, stones) {
-  return !stones.some(
-    stone => stone.position.x === position.x && stone.position.y === position.y
-  );
-}
-
-// Count liberties for a group of stones
-function countLiberties(group, stones, boardSize) {
-  const liberties = new Set();
-  
-  group.forEach(position => {
-    const adjacentPositions = getAdjacentPositions(position).filter(p => 
-      isWithinBounds(p, boardSize)
-    );
-    
-    adjacentPositions.forEach(adjPos => {
-      if (isEmpty(adjPos, stones)) {
-        liberties.add(`${adjPos.x},${adjPos.y}`);
-      }
-    });
-  });
-  
-  return liberties.size;
-}
-
-// Capture stones that have no liberties after a move
-function captureDeadStones(gameState, updatedStones, lastMovePosition, playerColor) {
-  const boardSize = gameState.board.size;
-  const oppositeColor = playerColor === 'black' ? 'white' : 'black';
-  
-  // Check all adjacent positions for opponent stones
-  const adjacentPositions = getAdjacentPositions(lastMovePosition).filter(p => 
-    isWithinBounds(p, boardSize)
-  );
-  
-  let capturedCount = 0;
-  let remainingStones = [...updatedStones];
-  let koPosition = undefined;
-  let capturedGroups = [];
-  
-  // Check each adjacent position for enemy groups that might be captured
-  adjacentPositions.forEach(adjPos => {
-    const stoneAtPos = findStoneAt(adjPos, remainingStones);
-    
-    // If there's an opponent's stone at this position
-    if (stoneAtPos && stoneAtPos.color === oppositeColor) {
-      // Get the entire connected group
-      const group = getConnectedGroup(adjPos, remainingStones, boardSize);
-      
-      // Check if this group has any liberties
-      const liberties = countLiberties(group, remainingStones, boardSize);
-      
-      // If the group has no liberties, remove all stones in the group
-      if (liberties === 0) {
-        // Track this group before removing
-        capturedGroups.push([...group]);
-        
-        // Remove captured stones
-        remainingStones = remainingStones.filter(stone => 
-          !group.some(pos => pos.x === stone.position.x && pos.y === stone.position.y)
-        );
-        
-        capturedCount += group.length;
-        log(`Captured ${group.length} ${oppositeColor} stones`);
-        
-        // Check for KO: if we captured exactly one stone
-        if (group.length === 1) {
-          koPosition = group[0];
-          log(`KO position set at (${koPosition.x}, ${koPosition.y})`);
-        }
-      }
-    }
-  });
-  
-  // Also check if the placed stone's group has liberties
-  const newStoneGroup = getConnectedGroup(lastMovePosition, remainingStones, boardSize);
-  const newStoneLiberties = countLiberties(newStoneGroup, remainingStones, boardSize);
-  
-  if (newStoneLiberties === 0) {
-    log(`Suicide move detected!`);
-    // In the server, we'll still allow the move even if it's suicide
-    // Client-side validation should prevent this
-  }
-  
-  return { remainingStones, capturedCount, koPosition };
-} 
\ No newline at end of file
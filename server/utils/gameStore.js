@@ -0,0 +1,55 @@
+/**
+ * File-backed storage for correspondence games
+ * Correspondence games last days or weeks, so they are written to disk and
+ * loaded again when the server restarts. Other games stay in memory only.
+ */
+
+const fs = require('fs');
+const path = require('path');
+
+const STORE_PATH = process.env.CORRESPONDENCE_STORE || path.join(__dirname, '..', 'data', 'correspondence-games.json');
+
+/**
+ * Read the stored correspondence games
+ * @returns {Array<Object>} - Saved game states, or none if the file is missing or unreadable
+ */
+function loadCorrespondenceGames() {
+  try {
+    if (!fs.existsSync(STORE_PATH)) {
+      return [];
+    }
+    const games = JSON.parse(fs.readFileSync(STORE_PATH, 'utf8'));
+    return Array.isArray(games) ? games : [];
+  } catch (error) {
+    console.error('Error loading correspondence games:', error);
+    return [];
+  }
+}
+
+/**
+ * Write the correspondence games among the active games. The file is replaced
+ * in one step, so a crash mid-write leaves the previous copy intact.
+ * @param {Map<string, Object>} activeGames - All games by id
+ */
+function saveCorrespondenceGames(activeGames) {
+  const games = [];
+  activeGames.forEach(gameState => {
+    if (gameState.gameType === 'correspondence') {
+      games.push(gameState);
+    }
+  });
+
+  try {
+    fs.mkdirSync(path.dirname(STORE_PATH), { recursive: true });
+    const tempPath = `${STORE_PATH}.tmp`;
+    fs.writeFileSync(tempPath, JSON.stringify(games));
+    fs.renameSync(tempPath, STORE_PATH);
+  } catch (error) {
+    console.error('Error saving correspondence games:', error);
+  }
+}
+
+module.exports = {
+  loadCorrespondenceGames,
+  saveCorrespondenceGames
+};
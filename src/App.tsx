@@ -7,6 +7,9 @@ import HomePage from './pages/HomePage';
 import GamePage from './pages/GamePage';
 import BoardDemoPage from './pages/BoardDemoPage';
 import RulesPage from './pages/RulesPage';
+import ReviewPage from './pages/ReviewPage';
+import ProblemsPage from './pages/ProblemsPage';
+import SimulPage from './pages/SimulPage';
 import MultiCaptchaDemo from './components/MultiCaptchaDemo';
 import FloatingMusicPlayer from './components/FloatingMusicPlayer';
 import { initializeSoundPreferences } from './utils/soundUtils';
@@ -28,6 +31,9 @@ function App() {
               <Route path="/game/:gameId" element={<GamePage />} />
               <Route path="/board-demo" element={<BoardDemoPage />} />
               <Route path="/rules" element={<RulesPage />} />
+              <Route path="/review" element={<ReviewPage />} />
+              <Route path="/problems" element={<ProblemsPage />} />
+              <Route path="/simul/:simulId" element={<SimulPage />} />
               <Route path="/multi-captcha-demo" element={<MultiCaptchaDemo />} />
             </Routes>
             <FloatingMusicPlayer />
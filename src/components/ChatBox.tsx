@@ -1,4 +1,5 @@
 import React, { useState, useEffect, useRef } from 'react';
+import { StoneColor } from '../types/go';
 
 interface ChatMessage {
   id: string;
@@ -6,6 +7,7 @@ interface ChatMessage {
   username: string;
   message: string;
   timestamp: number;
+  team?: boolean; // Rengo team chat, seen only by the sender's team
 }
 
 interface ChatBoxProps {
@@ -14,6 +16,7 @@ interface ChatBoxProps {
   currentPlayerUsername: string;
   socket?: any;  // Use the actual socket type from your project
   messages?: ChatMessage[];
+  teamColor?: StoneColor; // Rengo players can also write to their own team
 }
 
 const ChatBox: React.FC<ChatBoxProps> = ({
@@ -21,9 +24,11 @@ const ChatBox: React.FC<ChatBoxProps> = ({
   currentPlayerId,
   currentPlayerUsername,
   socket,
-  messages = []
+  messages = [],
+  teamColor = null
 }) => {
   const [inputValue, setInputValue] = useState('');
+  const [isTeamChat, setIsTeamChat] = useState(false);
   const [chatMessages, setChatMessages] = useState<ChatMessage[]>(messages);
   const messagesEndRef = useRef<HTMLDivElement>(null);
 
@@ -55,7 +60,8 @@ const ChatBox: React.FC<ChatBoxProps> = ({
       gameId,
       playerId: currentPlayerId,
       username: currentPlayerUsername,
-      message: inputValue.trim()
+      message: inputValue.trim(),
+      team: !!teamColor && isTeamChat
     });
     
     // Clear input
@@ -84,6 +90,22 @@ const ChatBox: React.FC<ChatBoxProps> = ({
           <path d="M3 3.5a.5.5 0 0 1 .5-.5h9a.5.5 0 0 1 0 1h-9a.5.5 0 0 1-.5-.5zM3 6a.5.5 0 0 1 .5-.5h9a.5.5 0 0 1 0 1h-9A.5.5 0 0 1 3 6zm0 2.5a.5.5 0 0 1 .5-.5h5a.5.5 0 0 1 0 1h-5a.5.5 0 0 1-.5-.5z"/>
         </svg>
         Chat
+        {teamColor && (
+          <div className="ml-auto flex rounded-lg border border-slate-300 overflow-hidden text-xs font-medium">
+            <button
+              onClick={() => setIsTeamChat(false)}
+              className={`px-3 py-1 ${!isTeamChat ? 'bg-blue-600 text-white' : 'bg-white text-slate-600'}`}
+            >
+              All
+            </button>
+            <button
+              onClick={() => setIsTeamChat(true)}
+              className={`px-3 py-1 ${isTeamChat ? 'bg-blue-600 text-white' : 'bg-white text-slate-600'}`}
+            >
+              Team
+            </button>
+          </div>
+        )}
       </div>
       
       {/* Messages Container */}
@@ -104,12 +126,12 @@ const ChatBox: React.FC<ChatBoxProps> = ({
             >
               {msg.playerId !== currentPlayerId && (
                 <div className="font-medium text-sm mb-1 text-slate-600">
-                  {msg.username}
+                  {msg.username}{msg.team && ' (team)'}
                 </div>
               )}
               {msg.playerId === currentPlayerId && (
                 <div className="font-medium text-sm mb-1 text-slate-600 text-right">
-                  {msg.username} (me)
+                  {msg.username} (me){msg.team && ' (team)'}
                 </div>
               )}
               <div 
@@ -137,7 +159,7 @@ const ChatBox: React.FC<ChatBoxProps> = ({
           onChange={(e) => setInputValue(e.target.value)}
           onKeyPress={handleKeyPress}
           className="flex-1 px-4 py-3 rounded-xl border border-slate-300 resize-none text-sm leading-relaxed min-h-[2.5rem] max-h-24 bg-white text-slate-800 placeholder-slate-400 transition-all focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
-          placeholder="Type a message..."
+          placeholder={teamColor && isTeamChat ? 'Message your team...' : 'Type a message...'}
           rows={1}
         />
         <button 
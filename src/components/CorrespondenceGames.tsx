@@ -0,0 +1,88 @@
+import React, { useEffect, useState } from 'react';
+import { formatTimeLeft } from '../rules';
+import { CorrespondenceSummary, fetchCorrespondenceGames, loadCorrespondenceEntries } from '../utils/correspondenceGames';
+
+interface CorrespondenceGamesProps {
+  onOpenGame: (code: string) => void;
+}
+
+// Games waiting for a move come first, the most urgent at the top
+const compareGames = (a: CorrespondenceSummary, b: CorrespondenceSummary): number => {
+  if (a.awaitingMove !== b.awaitingMove) return a.awaitingMove ? -1 : 1;
+  return (a.deadline ?? Infinity) - (b.deadline ?? Infinity);
+};
+
+/**
+ * The correspondence games this browser plays in, with the ones awaiting the
+ * player's move first. Shows nothing for players without correspondence games.
+ */
+const CorrespondenceGames: React.FC<CorrespondenceGamesProps> = ({ onOpenGame }) => {
+  const [games, setGames] = useState<CorrespondenceSummary[]>([]);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    let cancelled = false;
+    fetchCorrespondenceGames()
+      .then(summaries => {
+        if (!cancelled) setGames([...summaries].sort(compareGames));
+      })
+      .catch(err => {
+        console.error('Error loading correspondence games:', err);
+        if (!cancelled) setError('Could not load your correspondence games. Make sure the server is running.');
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, []);
+
+  if (loadCorrespondenceEntries().length === 0 || (games.length === 0 && !error)) {
+    return null;
+  }
+
+  const awaitingCount = games.filter(game => game.awaitingMove).length;
+
+  const describeGame = (game: CorrespondenceSummary): string => {
+    if (game.status === 'finished') return game.result ? `Finished (${game.result})` : 'Finished';
+    if (game.status === 'waiting') return 'Waiting for an opponent to join';
+    if (game.status === 'scoring') return 'Scoring';
+    const timeLeft = game.deadline !== null ? `, ${formatTimeLeft(game.deadline - Date.now())} left` : '';
+    return game.awaitingMove ? `Your move${timeLeft}` : `${game.opponent || 'Opponent'} to move${timeLeft}`;
+  };
+
+  return (
+    <div className="bg-white rounded-xl shadow p-6 mt-6">
+      <h2 className="text-2xl font-bold font-display tracking-tight mb-1">Correspondence Games</h2>
+      <p className="text-neutral-600 mb-4">
+        {awaitingCount > 0 ? `${awaitingCount} ${awaitingCount === 1 ? 'game is' : 'games are'} awaiting your move` : 'No games are awaiting your move'}
+      </p>
+
+      {error && <p className="text-sm text-red-600 mb-3">{error}</p>}
+
+      <ul className="divide-y divide-neutral-200">
+        {games.map(game => (
+          <li key={game.gameId} className="flex items-center justify-between gap-4 py-3">
+            <div>
+              <p className="font-medium">
+                {game.color === 'black' ? '⚫' : '⚪'} vs {game.opponent || 'nobody yet'}
+                <span className="ml-2 text-sm text-neutral-500">move {game.moveCount}</span>
+              </p>
+              <p className={`text-sm ${game.awaitingMove ? 'text-primary-700 font-medium' : 'text-neutral-500'}`}>
+                {describeGame(game)}
+              </p>
+            </div>
+            <button
+              onClick={() => onOpenGame(game.code)}
+              className={`px-4 py-2 rounded-lg font-medium text-sm ${
+                game.awaitingMove ? 'bg-primary-600 hover:bg-primary-700 text-white' : 'bg-neutral-200 hover:bg-neutral-300 text-neutral-800'
+              }`}
+            >
+              {game.awaitingMove ? 'Play' : 'Open'}
+            </button>
+          </li>
+        ))}
+      </ul>
+    </div>
+  );
+};
+
+export default CorrespondenceGames;
@@ -7,6 +7,7 @@ import {
   captchaRateLimit 
 } from '../utils/captcha';
 import { useAppTheme } from '../context/AppThemeContext';
+import { CAPTURE_TARGET_OPTIONS, DEFAULT_CAPTURE_TARGET } from '../rules';
 
 interface CreateGameFormProps {
   onCreateGame: (playerName: string, gameOptions: GameOptions, captcha?: MultiCaptchaChallenge, captchaAnswers?: number[]) => void;
@@ -154,6 +155,50 @@ const CreateGameForm: React.FC<CreateGameFormProps> = ({
       
       <div className="space-y-6">
 
+        {/* Capture Go: how many stones win the game */}
+        {gameOptions.gameType === 'capture' && (
+          <div className={`p-4 rounded-lg border ${
+            isDarkMode 
+              ? 'border-neutral-600 bg-neutral-800' 
+              : 'border-neutral-200 bg-white'
+          }`}>
+            <h3 className={`text-sm font-medium mb-1 ${
+              isDarkMode ? 'text-neutral-200' : 'text-neutral-700'
+            }`}>
+              Stones to Capture
+            </h3>
+            <p className={`text-xs mb-3 ${
+              isDarkMode ? 'text-neutral-400' : 'text-neutral-500'
+            }`}>
+              The first player to capture this many stones wins. There is no passing and no counting.
+            </p>
+            <div className="flex flex-wrap gap-2">
+              {CAPTURE_TARGET_OPTIONS.map(target => {
+                const isSelected = (gameOptions.captureTarget || DEFAULT_CAPTURE_TARGET) === target;
+                return (
+                  <button
+                    key={target}
+                    type="button"
+                    onClick={() => onUpdateGameOptions('captureTarget', target)}
+                    disabled={isCreating || captchaVerified}
+                    className={`px-3 py-1.5 rounded-lg border-2 text-sm font-medium transition-all disabled:opacity-50 disabled:cursor-not-allowed ${
+                      isSelected
+                        ? isDarkMode
+                          ? 'border-primary-400 bg-primary-900/40 text-primary-100'
+                          : 'border-primary-500 bg-primary-50 text-primary-800'
+                        : isDarkMode
+                          ? 'border-neutral-600 text-neutral-200 hover:border-neutral-500'
+                          : 'border-neutral-200 text-neutral-800 hover:border-neutral-400'
+                    }`}
+                  >
+                    {target === 1 ? '1 (Atari Go)' : target}
+                  </button>
+                );
+              })}
+            </div>
+          </div>
+        )}
+
         {/* Anti-Bot Verification Section */}
         <div className={`p-4 rounded-lg border ${
           isDarkMode 
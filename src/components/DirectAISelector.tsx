@@ -2,6 +2,8 @@ import React, { useState, useEffect } from 'react';
 import { useAppTheme } from '../context/AppThemeContext';
 import { API_BASE_URL } from '../config';
 import { STORAGE_KEYS } from '../constants/storage';
+import { BrowserBotLevel } from '../utils/browserBot';
+import OfflineBotPicker from './OfflineBotPicker';
 
 interface NetworkInfo {
   id: string;
@@ -21,6 +23,9 @@ interface DirectAISelectorProps {
   selectedNetwork: string | null;
   onSelectNetwork: (networkId: string | null) => void;
   boardSize: number;
+  // The offline opponent, played in the browser instead of on the server
+  browserBotLevel?: BrowserBotLevel | null;
+  onSelectBrowserBot?: (level: BrowserBotLevel | null) => void;
 }
 
 const DirectAISelector: React.FC<DirectAISelectorProps> = ({
@@ -28,7 +33,9 @@ const DirectAISelector: React.FC<DirectAISelectorProps> = ({
   onToggle,
   selectedNetwork,
   onSelectNetwork,
-  boardSize
+  boardSize,
+  browserBotLevel = null,
+  onSelectBrowserBot
 }) => {
   const { isDarkMode } = useAppTheme();
   const [networks, setNetworks] = useState<NetworkInfo[]>([]);
@@ -164,6 +171,14 @@ const DirectAISelector: React.FC<DirectAISelectorProps> = ({
           <div className={`pl-4 border-l-2 ${
             isDarkMode ? 'border-primary-400' : 'border-primary-200'
           }`}>
+            {onSelectBrowserBot && (
+              <OfflineBotPicker
+                selectedLevel={browserBotLevel}
+                onSelectLevel={onSelectBrowserBot}
+                boardSize={boardSize}
+              />
+            )}
+
             {/* Category Filter */}
             <div className="mb-4">
               <label className={`block text-sm font-medium mb-2 ${
@@ -1,6 +1,8 @@
 import React, { useState, useEffect } from 'react';
 import { useAppTheme } from '../context/AppThemeContext';
 import { API_BASE_URL } from '../config';
+import { BrowserBotLevel } from '../utils/browserBot';
+import OfflineBotPicker from './OfflineBotPicker';
 
 interface AINetwork {
   file: string;
@@ -24,6 +26,9 @@ interface EnhancedAISelectorProps {
   humanPlayerRank: string;
   onRankChange: (rank: string) => void;
   boardSize: number;
+  // The offline opponent, played in the browser instead of on the server
+  browserBotLevel?: BrowserBotLevel | null;
+  onSelectBrowserBot?: (level: BrowserBotLevel | null) => void;
 }
 
 const EnhancedAISelector: React.FC<EnhancedAISelectorProps> = ({
@@ -33,7 +38,9 @@ const EnhancedAISelector: React.FC<EnhancedAISelectorProps> = ({
   onSelectOpponent,
   humanPlayerRank,
   onRankChange,
-  boardSize
+  boardSize,
+  browserBotLevel = null,
+  onSelectBrowserBot
 }) => {
   const { isDarkMode } = useAppTheme();
   const [availableOpponents, setAvailableOpponents] = useState<AIOpponent[]>([]);
@@ -215,6 +222,14 @@ const EnhancedAISelector: React.FC<EnhancedAISelectorProps> = ({
           <div className={`pl-4 border-l-2 ${
             isDarkMode ? 'border-primary-400' : 'border-primary-200'
           }`}>
+            {onSelectBrowserBot && (
+              <OfflineBotPicker
+                selectedLevel={browserBotLevel}
+                onSelectLevel={onSelectBrowserBot}
+                boardSize={boardSize}
+              />
+            )}
+
             {/* Your Rank Selection */}
             <div className="mb-4">
               <label className={`block text-sm font-medium mb-2 ${
@@ -1,6 +1,7 @@
 import React, { useState, useEffect, useRef } from 'react';
 import ChatBox from './ChatBox';
 import useDeviceDetect from '../hooks/useDeviceDetect';
+import { StoneColor } from '../types/go';
 
 interface ChatMessage {
   id: string;
@@ -16,6 +17,7 @@ interface FloatingChatBubbleProps {
   currentPlayerUsername: string;
   socket?: any;
   messages?: ChatMessage[];
+  teamColor?: StoneColor; // Rengo players also get a team chat
 }
 
 const FloatingChatBubble: React.FC<FloatingChatBubbleProps> = ({
@@ -23,7 +25,8 @@ const FloatingChatBubble: React.FC<FloatingChatBubbleProps> = ({
   currentPlayerId,
   currentPlayerUsername,
   socket,
-  messages = []
+  messages = [],
+  teamColor = null
 }) => {
   const [isOpen, setIsOpen] = useState(false);
   const [unreadCount, setUnreadCount] = useState(0);
@@ -164,6 +167,7 @@ const FloatingChatBubble: React.FC<FloatingChatBubbleProps> = ({
           currentPlayerUsername={currentPlayerUsername}
           socket={socket}
           messages={messages}
+          teamColor={teamColor}
         />
       </div>
     </div>
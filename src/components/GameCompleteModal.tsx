@@ -2,6 +2,8 @@ import React, { useEffect, useState } from 'react';
 import { createPortal } from 'react-dom';
 import { useNavigate } from 'react-router-dom';
 import { useGame } from '../context/GameContext';
+import { printKifuSheet } from '../utils/kifuSheet';
+import { downloadSGF } from '../utils/sgfUtils';
 
 interface GameCompleteModalProps {
   onClose?: () => void;
@@ -96,6 +98,9 @@ const GameCompleteModal: React.FC<GameCompleteModalProps> = ({ onClose, onPlayAg
   
   // For timeout games, there might not be a score object
   const isTimeoutGame = result && (result.includes('+T'));
+  // Capture games end without a score, as soon as a color captures enough stones (B+C or W+C)
+  const isCaptureWin = !!result && result.endsWith('+C');
+  const winnerCaptures = winner ? gameState.capturedStones[winner] : 0;
   const pointDifference = score ? Math.abs(score.black - score.white).toFixed(1) : '0';
   
   // Determine if the current player won
@@ -279,6 +284,13 @@ const GameCompleteModal: React.FC<GameCompleteModalProps> = ({ onClose, onPlayAg
                   <div className="text-2xl font-bold">{score.white.toFixed(1)}</div>
                 </div>
               </div>
+            ) : isCaptureWin ? (
+              <div className="text-center">
+                <div className="text-xl font-semibold">{result}</div>
+                <div className="text-sm opacity-80 mt-1">
+                  Won by captures: {winnerCaptures} {winnerCaptures === 1 ? 'stone' : 'stones'} taken
+                </div>
+              </div>
             ) : (
               <div className="flex justify-center items-center">
                 <div className="text-xl font-semibold">
@@ -288,7 +300,13 @@ const GameCompleteModal: React.FC<GameCompleteModalProps> = ({ onClose, onPlayAg
             )}
             
             {/* Personal result message */}
-            {playerColor && !isDraw && (
+            {/* A local game has no "you": name the winner instead */}
+            {gameState.isLocal && !gameState.browserBot && !isDraw && (
+              <div className="mt-4 font-medium text-base">
+                {gameState.players.find(p => p.color === winner)?.username} wins!
+              </div>
+            )}
+            {playerColor && !isDraw && (!gameState.isLocal || gameState.browserBot) && (
               <div className="mt-4 font-medium text-base">
                 {isTimeoutGame ? (
                   playerWon 
@@ -305,6 +323,24 @@ const GameCompleteModal: React.FC<GameCompleteModalProps> = ({ onClose, onPlayAg
             )}
           </div>
           
+          {/* Printed game record for tournament paperwork, or the SGF file */}
+          {gameState && gameState.history.length > 0 && (
+            <div className="flex gap-4 mb-4">
+              <button
+                onClick={() => printKifuSheet(gameState)}
+                className="flex-1 px-4 py-2 border border-gray-300 dark:border-gray-600 text-gray-700 dark:text-gray-200 hover:bg-gray-100 dark:hover:bg-gray-700 rounded-md transition-colors"
+              >
+                Print Kifu / Save as PDF
+              </button>
+              <button
+                onClick={() => downloadSGF(gameState)}
+                className="flex-1 px-4 py-2 border border-gray-300 dark:border-gray-600 text-gray-700 dark:text-gray-200 hover:bg-gray-100 dark:hover:bg-gray-700 rounded-md transition-colors"
+              >
+                Download SGF
+              </button>
+            </div>
+          )}
+          
           {/* Show status if play again request was sent */}
           {playAgainRequestSent && (
             <div className="mb-4 p-3 bg-blue-100 dark:bg-blue-900 text-blue-800 dark:text-blue-200 rounded-md text-center">
@@ -323,6 +359,7 @@ const GameCompleteModal: React.FC<GameCompleteModalProps> = ({ onClose, onPlayAg
             >
               Return Home
             </button>
+            {!gameState.isLocal && (
             <button
               onClick={handlePlayAgain}
               disabled={playAgainRequestSent}
@@ -330,6 +367,7 @@ const GameCompleteModal: React.FC<GameCompleteModalProps> = ({ onClose, onPlayAg
             >
               {playAgainRequestSent ? 'Request Sent' : gameState?.players.some(p => p.isAI) ? 'New AI Game' : 'Play Again'}
             </button>
+            )}
           </div>
           </div>
         </div>
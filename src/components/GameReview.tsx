@@ -1,178 +1,111 @@
 import React, { useState, useEffect, useRef } from 'react';
-import { GameState, GameMove, Position, StoneColor, Stone } from '../types/go';
+import { BoardMarkup, GameState, MarkupShape, MoveTree, Position, Stone } from '../types/go';
+import { getBoardDimensions } from '../rules';
 import { useAppTheme } from '../context/AppThemeContext';
+import { useBoardTheme } from '../context/BoardThemeContext';
+import { getBoardTheme } from './go-board/boardThemes';
 import useDeviceDetect from '../hooks/useDeviceDetect';
 import { downloadSGF, copySGFToClipboard } from '../utils/sgfUtils';
-
-// Helper function to check if a move is a pass
-function isPassMove(move: GameMove): move is { pass: true } {
-  return (move as any).pass === true;
+import { getMoveMessage } from '../utils/moveMessages';
+import { diagramToPNG, downloadBlob, renderBoardDiagram } from '../utils/boardDiagram';
+import { createGameAnimation } from '../utils/gameAnimation';
+import { printKifuSheet } from '../utils/kifuSheet';
+import {
+  createMoveTree,
+  deleteBranch,
+  getCurrentLine,
+  getMoveNumber,
+  getPathToNode,
+  getTreePosition,
+  getVariations,
+  goToNode,
+  goToEnd as goToTreeEnd,
+  goToNextMove as goToNextTreeMove,
+  goToPreviousMove as goToPreviousTreeMove,
+  goToStart as goToTreeStart,
+  playTreeMove,
+  setTreeComment,
+  switchVariation,
+  toggleTreeMarkup
+} from '../utils/gameTree';
+
+// Board shown while reviewing; clickPoint plays a move (or a variation) or marks the point,
+// returning true when a stone was played
+export interface ReviewBoardState {
+  stones: Stone[];
+  currentMoveIndex: number;
+  isReviewing: boolean;
+  markup?: BoardMarkup[];
+  clickPoint?: (position: Position) => boolean;
 }
 
+// Markup tools offered while reviewing; null plays moves instead
+const MARKUP_TOOLS: { shape: MarkupShape | null; symbol: string; title: string }[] = [
+  { shape: null, symbol: '●', title: 'Play moves' },
+  { shape: 'triangle', symbol: '△', title: 'Triangle' },
+  { shape: 'square', symbol: '□', title: 'Square' },
+  { shape: 'circle', symbol: '○', title: 'Circle' },
+  { shape: 'cross', symbol: '✕', title: 'Cross' },
+  { shape: 'label', symbol: 'A', title: 'Letter label' }
+];
+
 interface GameReviewProps {
   gameState: GameState;
-  onBoardStateChange: (boardState: {
-    stones: Stone[];
-    currentMoveIndex: number;
-    isReviewing: boolean;
-  }) => void;
+  onBoardStateChange: (boardState: ReviewBoardState) => void;
 }
 
+// The tree is built once; give the component a key per game so a new game starts a fresh review
 const GameReview: React.FC<GameReviewProps> = ({ gameState, onBoardStateChange }) => {
   const { isDarkMode } = useAppTheme();
+  const { currentTheme } = useBoardTheme();
   const { isMobile, isTablet } = useDeviceDetect();
   
-  const [currentMoveIndex, setCurrentMoveIndex] = useState<number>(gameState.history.length);
+  const [tree, setTree] = useState<MoveTree>(() => goToTreeEnd(createMoveTree(gameState)));
   const [isPlaying, setIsPlaying] = useState<boolean>(false);
   const [playSpeed, setPlaySpeed] = useState<number>(1000); // milliseconds between moves
   const [isExporting, setIsExporting] = useState<boolean>(false);
   const [showExportSuccess, setShowExportSuccess] = useState<boolean>(false);
   const [showFinalPosition, setShowFinalPosition] = useState<boolean>(true);
+  const [reviewError, setReviewError] = useState<string | null>(null);
+  const [markupTool, setMarkupTool] = useState<MarkupShape | null>(null);
+  const [diagramCoordinates, setDiagramCoordinates] = useState<boolean>(true);
+  const [diagramNumbers, setDiagramNumbers] = useState<boolean>(false);
+  const [diagramNumberFrom, setDiagramNumberFrom] = useState<number>(1);
+  const [animationProgress, setAnimationProgress] = useState<string | null>(null);
   const playIntervalRef = useRef<NodeJS.Timeout | null>(null);
 
-  // Calculate board state for the current move index
-  const calculateBoardState = (moveIndex: number): Stone[] => {
-    let stones: Stone[] = [];
-    let currentTurn: StoneColor = 'black';
-    
-    // Add handicap stones first if this is a handicap game
-    if (gameState.gameType === 'handicap' && gameState.handicap > 0) {
-      // Get handicap stones from the initial board state
-      // These are typically black stones that were placed before any moves
-      const handicapStones = gameState.board.stones.filter(stone => {
-        // Check if this stone position matches any move in the history
-        return !gameState.history.some(move => {
-          if (isPassMove(move)) return false;
-          
-          // Extract position from move
-          let pos: Position;
-          if ((move as any).position) {
-            pos = (move as any).position;
-          } else if (typeof move === 'object' && 'x' in move && 'y' in move) {
-            pos = move as Position;
-          } else {
-            return false;
-          }
-          
-          return pos.x === stone.position.x && pos.y === stone.position.y;
-        });
-      });
-      
-      stones = [...handicapStones];
-      currentTurn = 'white'; // White plays first in handicap games
-      
-      console.log('GameReview - Handicap stones found:', handicapStones.length);
-    }
-
-    // Replay moves up to the current index
-    for (let i = 0; i < moveIndex && i < gameState.history.length; i++) {
-      const move = gameState.history[i];
-      
-      if (!isPassMove(move)) {
-        // Extract position from different move formats
-        let pos: Position;
-        if ((move as any).position) {
-          // Server format: { position: { x, y }, color, ... }
-          pos = (move as any).position;
-        } else if (typeof move === 'object' && 'x' in move && 'y' in move) {
-          // Direct position format: { x, y }
-          pos = move as Position;
-        } else {
-          console.warn('Unknown move format during replay:', move);
-          continue; // Skip this move
-        }
-        
-        // Validate coordinates
-        if (typeof pos.x !== 'number' || typeof pos.y !== 'number') {
-          console.warn('Invalid coordinates during replay:', pos);
-          continue; // Skip this move
-        }
-        
-        // Add the stone
-        stones.push({
-          position: pos,
-          color: currentTurn
-        });
-        
-        // Simple capture logic - remove opponent stones with no liberties
-        // This is a simplified version for review purposes
-        const opponentColor: StoneColor = currentTurn === 'black' ? 'white' : 'black';
-        const adjacentPositions = getAdjacentPositions(pos, gameState.board.size);
-        
-        // Check each adjacent position for opponent groups to capture
-        for (const adjPos of adjacentPositions) {
-          const adjStone = stones.find(s => s.position.x === adjPos.x && s.position.y === adjPos.y);
-          if (adjStone && adjStone.color === opponentColor) {
-            const group = getGroup(adjStone.position, stones, gameState.board.size);
-            if (hasNoLiberties(group, stones, gameState.board.size)) {
-              // Remove captured stones
-              stones = stones.filter(s => !group.some(g => g.x === s.position.x && g.y === s.position.y));
-            }
-          }
-        }
-      }
-      
-      // Toggle turn
-      currentTurn = currentTurn === 'black' ? 'white' : 'black';
-    }
-    
-    return stones;
-  };
-
-  // Helper function to get adjacent positions
-  const getAdjacentPositions = (pos: Position, boardSize: number): Position[] => {
-    const positions: Position[] = [];
-    if (pos.y > 0) positions.push({ x: pos.x, y: pos.y - 1 });
-    if (pos.x < boardSize - 1) positions.push({ x: pos.x + 1, y: pos.y });
-    if (pos.y < boardSize - 1) positions.push({ x: pos.x, y: pos.y + 1 });
-    if (pos.x > 0) positions.push({ x: pos.x - 1, y: pos.y });
-    return positions;
-  };
-
-  // Helper function to get a group of connected stones
-  const getGroup = (pos: Position, stones: Stone[], boardSize: number): Position[] => {
-    const targetStone = stones.find(s => s.position.x === pos.x && s.position.y === pos.y);
-    if (!targetStone) return [];
-    
-    const group: Position[] = [];
-    const visited = new Set<string>();
-    const stack = [pos];
-    
-    while (stack.length > 0) {
-      const current = stack.pop()!;
-      const key = `${current.x},${current.y}`;
-      
-      if (visited.has(key)) continue;
-      visited.add(key);
-      
-      const stone = stones.find(s => s.position.x === current.x && s.position.y === current.y);
-      if (stone && stone.color === targetStone.color) {
-        group.push(current);
-        
-        // Add adjacent positions to check
-        const adjacent = getAdjacentPositions(current, boardSize);
-        stack.push(...adjacent);
-      }
+  const currentLine = getCurrentLine(tree);
+  const currentMoveIndex = getMoveNumber(tree);
+  const lastMoveIndex = currentLine.length - 1;
+  const currentNode = tree.nodes[tree.currentId];
+  const variations = getVariations(tree);
+  const hasVariations = Object.keys(tree.nodes).some(id => tree.nodes[Number(id)].children.length > 1);
+  const isMainLine = currentLine.every(id => {
+    const { parentId } = tree.nodes[id];
+    return parentId === null || tree.nodes[parentId].children[0] === id;
+  });
+
+  // Mark the point with the selected tool, or play a move at the reviewed position,
+  // branching off when it differs from the record
+  const handleReviewClick = (position: Position): boolean => {
+    setIsPlaying(false);
+    if (markupTool) {
+      setTree(toggleTreeMarkup(tree, position, markupTool));
+      return false;
     }
-    
-    return group;
-  };
 
-  // Helper function to check if a group has no liberties
-  const hasNoLiberties = (group: Position[], stones: Stone[], boardSize: number): boolean => {
-    for (const pos of group) {
-      const adjacent = getAdjacentPositions(pos, boardSize);
-      for (const adjPos of adjacent) {
-        const hasStone = stones.some(s => s.position.x === adjPos.x && s.position.y === adjPos.y);
-        if (!hasStone) {
-          return false; // Found a liberty
-        }
-      }
+    const result = playTreeMove(tree, gameState, position);
+    if (result.reason) {
+      setReviewError(getMoveMessage(result.reason));
+      setTimeout(() => setReviewError(null), 3000);
+      return false;
     }
-    return true; // No liberties found
+    setReviewError(null);
+    setTree(result.tree);
+    return true;
   };
 
-  // Update board state when move index changes or final position toggle changes
+  // Update board state when the reviewed node changes or final position toggle changes
   useEffect(() => {
     if (showFinalPosition) {
       // Show final position with original board state (not reviewing)
@@ -182,35 +115,28 @@ const GameReview: React.FC<GameReviewProps> = ({ gameState, onBoardStateChange }
         isReviewing: false
       });
     } else {
-      // Show calculated board state for current move (reviewing)
-      const stones = calculateBoardState(currentMoveIndex);
-      
-      // Debug: Log some information about the current state
-      console.log('GameReview - Move Index:', currentMoveIndex);
-      console.log('GameReview - Total moves:', gameState.history.length);
-      console.log('GameReview - Calculated stones:', stones.length);
-      if (currentMoveIndex > 0 && currentMoveIndex <= gameState.history.length) {
-        console.log('GameReview - Current move:', gameState.history[currentMoveIndex - 1]);
-      }
-      
+      // Show the position reached at the current node (reviewing)
+      const { board } = getTreePosition(tree, gameState);
       onBoardStateChange({
-        stones,
+        stones: board.stones,
         currentMoveIndex,
-        isReviewing: true
+        isReviewing: true,
+        markup: tree.nodes[tree.currentId].markup,
+        clickPoint: handleReviewClick
       });
     }
-  }, [currentMoveIndex, gameState, onBoardStateChange, showFinalPosition]);
+  }, [tree, gameState, onBoardStateChange, showFinalPosition, markupTool]);
 
   // Handle play/pause functionality
   useEffect(() => {
     if (isPlaying) {
       playIntervalRef.current = setInterval(() => {
-        setCurrentMoveIndex(prev => {
-          if (prev >= gameState.history.length) {
+        setTree(prev => {
+          const next = goToNextTreeMove(prev);
+          if (next === prev) {
             setIsPlaying(false);
-            return prev;
           }
-          return prev + 1;
+          return next;
         });
       }, playSpeed);
     } else {
@@ -226,7 +152,7 @@ const GameReview: React.FC<GameReviewProps> = ({ gameState, onBoardStateChange }
         playIntervalRef.current = null;
       }
     };
-  }, [isPlaying, playSpeed, gameState.history.length]);
+  }, [isPlaying, playSpeed]);
 
   // Add keyboard controls for review navigation
   useEffect(() => {
@@ -236,8 +162,13 @@ const GameReview: React.FC<GameReviewProps> = ({ gameState, onBoardStateChange }
         return;
       }
 
+      // Leave the keys alone while a comment is being typed
+      if (event.target instanceof HTMLTextAreaElement) {
+        return;
+      }
+
       // Prevent default behavior for the keys we handle
-      if (event.code === 'ArrowLeft' || event.code === 'ArrowRight' || event.code === 'Space') {
+      if (['ArrowLeft', 'ArrowRight', 'ArrowUp', 'ArrowDown', 'Space'].includes(event.code)) {
         event.preventDefault();
       }
 
@@ -250,6 +181,14 @@ const GameReview: React.FC<GameReviewProps> = ({ gameState, onBoardStateChange }
           goToNextMove();
           break;
         
+        case 'ArrowUp':
+          changeVariation(-1);
+          break;
+        
+        case 'ArrowDown':
+          changeVariation(1);
+          break;
+        
         case 'Space':
           togglePlay();
           break;
@@ -263,51 +202,57 @@ const GameReview: React.FC<GameReviewProps> = ({ gameState, onBoardStateChange }
     return () => {
       window.removeEventListener('keydown', handleKeyDown);
     };
-  }, [showFinalPosition, currentMoveIndex, gameState.history.length, isPlaying]);
+  }, [showFinalPosition, tree, isPlaying]);
 
   // Navigation functions
   const goToPreviousMove = () => {
     setIsPlaying(false);
-    setCurrentMoveIndex(prev => Math.max(0, prev - 1));
+    setTree(goToPreviousTreeMove);
   };
 
   const goToNextMove = () => {
     setIsPlaying(false);
-    setCurrentMoveIndex(prev => Math.min(gameState.history.length, prev + 1));
+    setTree(goToNextTreeMove);
   };
 
   const togglePlay = () => {
-    if (currentMoveIndex >= gameState.history.length) {
-      // If at the end, restart from beginning
-      setCurrentMoveIndex(0);
+    if (currentMoveIndex >= lastMoveIndex) {
+      // If at the end, restart from the start of this line
+      setTree(goToTreeStart);
     }
     setIsPlaying(!isPlaying);
   };
 
   const goToStart = () => {
     setIsPlaying(false);
-    setCurrentMoveIndex(0);
+    setTree(goToTreeStart);
   };
 
   const goToEnd = () => {
     setIsPlaying(false);
-    setCurrentMoveIndex(gameState.history.length);
+    setTree(goToTreeEnd);
+  };
+
+  const changeVariation = (direction: 1 | -1) => {
+    setIsPlaying(false);
+    setTree(prev => switchVariation(prev, direction));
+  };
+
+  const handleDeleteBranch = () => {
+    setIsPlaying(false);
+    setTree(prev => deleteBranch(prev));
   };
 
   const toggleFinalPosition = () => {
     setIsPlaying(false);
     setShowFinalPosition(!showFinalPosition);
-    if (!showFinalPosition) {
-      // When switching to final position, set to end
-      setCurrentMoveIndex(gameState.history.length);
-    }
   };
 
-  // SGF Export handlers
+  // SGF Export handlers (every variation is exported)
   const handleDownloadSGF = () => {
     try {
       setIsExporting(true);
-      downloadSGF(gameState);
+      downloadSGF({ ...gameState, moveTree: tree });
       setShowExportSuccess(true);
       setTimeout(() => setShowExportSuccess(false), 3000);
     } catch (error) {
@@ -320,7 +265,7 @@ const GameReview: React.FC<GameReviewProps> = ({ gameState, onBoardStateChange }
   const handleCopySGF = async () => {
     try {
       setIsExporting(true);
-      await copySGFToClipboard(gameState);
+      await copySGFToClipboard({ ...gameState, moveTree: tree });
       setShowExportSuccess(true);
       setTimeout(() => setShowExportSuccess(false), 3000);
     } catch (error) {
@@ -330,55 +275,78 @@ const GameReview: React.FC<GameReviewProps> = ({ gameState, onBoardStateChange }
     }
   };
 
+  // Diagram of the reviewed position (the end of the main line when showing the final position)
+  const handleExportDiagram = async (format: 'svg' | 'png') => {
+    const diagramTree = showFinalPosition ? goToTreeEnd(goToTreeStart(tree)) : tree;
+    const { board, lastMove } = getTreePosition(diagramTree, gameState);
+    const moves = getPathToNode(diagramTree).slice(1).map(id => diagramTree.nodes[id]);
+    const diagram = renderBoardDiagram(board, {
+      theme: getBoardTheme(currentTheme),
+      showCoordinates: diagramCoordinates,
+      moves,
+      numberFrom: diagramNumbers ? diagramNumberFrom : undefined,
+      lastMove
+    });
+    const filename = `gosei-diagram-move-${getMoveNumber(diagramTree)}.${format}`;
+
+    try {
+      const blob = format === 'svg'
+        ? new Blob([diagram.svg], { type: 'image/svg+xml' })
+        : await diagramToPNG(diagram);
+      downloadBlob(blob, filename);
+    } catch (error) {
+      console.error('Error exporting diagram:', error);
+    }
+  };
+
+  // Animated GIF of the main line, one frame per move
+  const handleExportAnimation = async () => {
+    setIsPlaying(false);
+    setAnimationProgress('Preparing...');
+    try {
+      const blob = await createGameAnimation(gameState, tree, {
+        theme: getBoardTheme(currentTheme),
+        frameDelay: playSpeed,
+        onProgress: (frame, total) => setAnimationProgress(`Rendering ${frame} / ${total}`)
+      });
+      const blackName = gameState.players.find(p => p.color === 'black')?.username || 'Black';
+      const whiteName = gameState.players.find(p => p.color === 'white')?.username || 'White';
+      downloadBlob(blob, `${blackName}_vs_${whiteName}.gif`);
+    } catch (error) {
+      console.error('Error exporting animation:', error);
+    } finally {
+      setAnimationProgress(null);
+    }
+  };
+
   // Get current move info for display
   const getCurrentMoveInfo = () => {
+    if (showFinalPosition) {
+      return `End of game (${gameState.history.length} moves played)`;
+    }
     if (currentMoveIndex === 0) {
-      return gameState.gameType === 'handicap' && gameState.handicap > 0 
+      if (gameState.setupStones && gameState.setupStones.length > 0) {
+        return `Start of game (${gameState.setupStones.length} setup stones)`;
+      }
+      return gameState.handicap >= 2 
         ? `Start of game (${gameState.handicap} handicap stones placed)`
         : 'Start of game';
     }
-    if (currentMoveIndex >= gameState.history.length) {
-      return `End of game (${gameState.history.length} moves played)`;
-    }
-    
-    const move = gameState.history[currentMoveIndex - 1];
-    const moveNumber = currentMoveIndex;
-    const color = (gameState.gameType === 'handicap' && gameState.handicap > 0) 
-      ? (moveNumber % 2 === 1 ? 'white' : 'black')
-      : (moveNumber % 2 === 1 ? 'black' : 'white');
     
-    if (isPassMove(move)) {
-      return `Move ${moveNumber}: ${color === 'black' ? 'Black' : 'White'} passes`;
-    } else {
-      // Handle different move formats
-      let pos: Position;
-      if ((move as any).position) {
-        // Server format: { position: { x, y }, color, ... }
-        pos = (move as any).position;
-      } else if (typeof move === 'object' && 'x' in move && 'y' in move) {
-        // Direct position format: { x, y }
-        pos = move as Position;
-      } else {
-        // Fallback for unknown format
-        console.warn('Unknown move format:', move);
-        return `Move ${moveNumber}: ${color === 'black' ? 'Black' : 'White'} plays at unknown position`;
-      }
-      
-      // Validate coordinates
-      if (typeof pos.x !== 'number' || typeof pos.y !== 'number') {
-        console.warn('Invalid coordinates in move:', pos);
-        return `Move ${moveNumber}: ${color === 'black' ? 'Black' : 'White'} plays at invalid position`;
-      }
-      
-      // Convert to Go coordinates (A-T, 1-19)
-      const colLetter = String.fromCharCode(65 + pos.x); // A, B, C, etc.
-      const rowNumber = gameState.board.size - pos.y; // Convert from 0-based array to 1-based Go coordinates
-      const coord = `${colLetter}${rowNumber}`;
-      
-      return `Move ${moveNumber}: ${color === 'black' ? 'Black' : 'White'} plays ${coord}`;
+    const colorName = currentNode.color === 'black' ? 'Black' : 'White';
+    const variationNote = isMainLine ? '' : ' (variation)';
+    const pos = currentNode.position;
+    if (!pos) {
+      return `Move ${currentMoveIndex}: ${colorName} passes${variationNote}`;
     }
+    
+    // Convert to Go coordinates (A-T, 1-19)
+    const colLetter = String.fromCharCode(65 + pos.x); // A, B, C, etc.
+    const rowNumber = getBoardDimensions(gameState.board).height - pos.y; // Convert from 0-based array to 1-based Go coordinates
+    return `Move ${currentMoveIndex}: ${colorName} plays ${colLetter}${rowNumber}${variationNote}`;
   };
 
+
   const buttonSize = isTablet ? 'text-base px-4 py-3' : isMobile ? 'text-sm px-3 py-2' : 'text-sm px-3 py-2';
   const iconSize = isTablet ? 'h-5 w-5' : 'h-4 w-4';
 
@@ -434,12 +402,12 @@ const GameReview: React.FC<GameReviewProps> = ({ gameState, onBoardStateChange }
           <input
             type="range"
             min="0"
-            max={gameState.history.length}
+            max={lastMoveIndex}
             value={currentMoveIndex}
             disabled={showFinalPosition}
             onChange={(e) => {
               setIsPlaying(false);
-              setCurrentMoveIndex(parseInt(e.target.value));
+              setTree(goToNode(tree, currentLine[parseInt(e.target.value)]));
             }}
             className={`w-full h-2 rounded-lg appearance-none cursor-pointer ${
               showFinalPosition ? 'opacity-50 cursor-not-allowed' : ''
@@ -454,7 +422,7 @@ const GameReview: React.FC<GameReviewProps> = ({ gameState, onBoardStateChange }
               Start
             </span>
             <span className={isDarkMode ? 'text-neutral-400' : 'text-neutral-500'}>
-              Move {currentMoveIndex} / {gameState.history.length}
+              Move {currentMoveIndex} / {lastMoveIndex}
             </span>
             <span className={isDarkMode ? 'text-neutral-400' : 'text-neutral-500'}>
               End
@@ -499,7 +467,7 @@ const GameReview: React.FC<GameReviewProps> = ({ gameState, onBoardStateChange }
           {/* Play/Pause */}
           <button
             onClick={togglePlay}
-            disabled={showFinalPosition || (currentMoveIndex >= gameState.history.length && !isPlaying)}
+            disabled={showFinalPosition || (currentMoveIndex >= lastMoveIndex && !isPlaying)}
             className={`${buttonSize} ${
               isDarkMode 
                 ? 'bg-green-700 hover:bg-green-600 text-white disabled:opacity-50' 
@@ -521,7 +489,7 @@ const GameReview: React.FC<GameReviewProps> = ({ gameState, onBoardStateChange }
           {/* Next move */}
           <button
             onClick={goToNextMove}
-            disabled={showFinalPosition || currentMoveIndex >= gameState.history.length}
+            disabled={showFinalPosition || currentMoveIndex >= lastMoveIndex}
             className={`${buttonSize} ${
               isDarkMode 
                 ? 'bg-neutral-800 hover:bg-neutral-700 text-neutral-300 border border-neutral-600 disabled:opacity-50' 
@@ -537,7 +505,7 @@ const GameReview: React.FC<GameReviewProps> = ({ gameState, onBoardStateChange }
           {/* Go to end */}
           <button
             onClick={goToEnd}
-            disabled={showFinalPosition || currentMoveIndex >= gameState.history.length}
+            disabled={showFinalPosition || currentMoveIndex >= lastMoveIndex}
             className={`${buttonSize} ${
               isDarkMode 
                 ? 'bg-neutral-800 hover:bg-neutral-700 text-neutral-300 border border-neutral-600 disabled:opacity-50' 
@@ -551,6 +519,102 @@ const GameReview: React.FC<GameReviewProps> = ({ gameState, onBoardStateChange }
           </button>
         </div>
 
+        {/* Variations: try a move on the board to branch off, then switch or delete branches */}
+        {!showFinalPosition && (
+          <div className="mt-4 flex items-center gap-2 flex-wrap">
+            <button
+              onClick={() => changeVariation(-1)}
+              disabled={variations.length < 2}
+              className={`${buttonSize} ${
+                isDarkMode 
+                  ? 'bg-neutral-800 hover:bg-neutral-700 text-neutral-300 border border-neutral-600 disabled:opacity-50' 
+                  : 'bg-neutral-100 hover:bg-neutral-200 text-neutral-700 border border-neutral-300 disabled:opacity-50'
+              } rounded-lg disabled:cursor-not-allowed transition-colors duration-200`}
+              title="Previous variation (↑)"
+            >
+              ▲
+            </button>
+            <span className={`text-sm ${isDarkMode ? 'text-neutral-300' : 'text-neutral-700'}`}>
+              Variation {variations.indexOf(tree.currentId) + 1} / {variations.length}
+            </span>
+            <button
+              onClick={() => changeVariation(1)}
+              disabled={variations.length < 2}
+              className={`${buttonSize} ${
+                isDarkMode 
+                  ? 'bg-neutral-800 hover:bg-neutral-700 text-neutral-300 border border-neutral-600 disabled:opacity-50' 
+                  : 'bg-neutral-100 hover:bg-neutral-200 text-neutral-700 border border-neutral-300 disabled:opacity-50'
+              } rounded-lg disabled:cursor-not-allowed transition-colors duration-200`}
+              title="Next variation (↓)"
+            >
+              ▼
+            </button>
+            <button
+              onClick={handleDeleteBranch}
+              disabled={currentMoveIndex === 0}
+              className={`${buttonSize} ml-auto ${
+                isDarkMode 
+                  ? 'bg-red-800 hover:bg-red-700 text-white border border-red-700 disabled:opacity-50' 
+                  : 'bg-red-50 hover:bg-red-100 text-red-700 border border-red-300 disabled:opacity-50'
+              } rounded-lg disabled:cursor-not-allowed transition-colors duration-200`}
+              title="Delete this move and everything after it"
+            >
+              Delete Branch
+            </button>
+            <p className={`w-full text-xs ${isDarkMode ? 'text-neutral-400' : 'text-neutral-500'}`}>
+              {hasVariations ? 'This game has variations. ' : ''}{markupTool ? 'Click the board to mark a point.' : 'Click the board to try a different move.'}
+            </p>
+            {reviewError && (
+              <p className="w-full text-sm text-red-600">{reviewError}</p>
+            )}
+          </div>
+        )}
+
+        {/* Markup tools: click the board to mark points instead of playing */}
+        {!showFinalPosition && (
+          <div className="mt-4 flex items-center gap-2 flex-wrap">
+            <span className={`text-sm font-medium ${isDarkMode ? 'text-neutral-300' : 'text-neutral-700'}`}>
+              Mark:
+            </span>
+            {MARKUP_TOOLS.map(({ shape, symbol, title }) => (
+              <button
+                key={title}
+                onClick={() => setMarkupTool(shape)}
+                className={`${buttonSize} ${
+                  markupTool === shape
+                    ? 'bg-blue-600 text-white border border-blue-600'
+                    : isDarkMode
+                      ? 'bg-neutral-800 hover:bg-neutral-700 text-neutral-300 border border-neutral-600'
+                      : 'bg-neutral-100 hover:bg-neutral-200 text-neutral-700 border border-neutral-300'
+                } rounded-lg transition-colors duration-200 min-w-[2.5rem]`}
+                title={title}
+              >
+                {symbol}
+              </button>
+            ))}
+          </div>
+        )}
+
+        {/* Comment on the reviewed move, exported with the SGF */}
+        {!showFinalPosition && (
+          <div className="mt-4">
+            <label className={`block text-sm font-medium mb-1 ${isDarkMode ? 'text-neutral-300' : 'text-neutral-700'}`}>
+              Comment
+            </label>
+            <textarea
+              value={currentNode.comment || ''}
+              onChange={(e) => setTree(setTreeComment(tree, e.target.value))}
+              placeholder="Add a comment on this move"
+              rows={3}
+              className={`w-full text-sm px-3 py-2 rounded border whitespace-pre-wrap ${
+                isDarkMode 
+                  ? 'bg-neutral-800 border-neutral-600 text-neutral-200' 
+                  : 'bg-white border-neutral-300 text-neutral-700'
+              } focus:outline-none focus:ring-2 focus:ring-green-500`}
+            />
+          </div>
+        )}
+
         {/* Playback speed control */}
         <div className="mt-4 flex items-center gap-3">
           <label className={`text-sm font-medium ${isDarkMode ? 'text-neutral-300' : 'text-neutral-700'} ${showFinalPosition ? 'opacity-50' : ''}`}>
@@ -611,6 +675,78 @@ const GameReview: React.FC<GameReviewProps> = ({ gameState, onBoardStateChange }
               </svg>
               <span>{isExporting ? 'Copying...' : 'Copy SGF'}</span>
             </button>
+
+            {/* Export Animation Button */}
+            <button
+              onClick={handleExportAnimation}
+              disabled={animationProgress !== null}
+              className={`${buttonSize} flex-1 ${
+                isDarkMode 
+                  ? 'bg-teal-700 hover:bg-teal-600 text-white border border-teal-600 disabled:opacity-50' 
+                  : 'bg-teal-600 hover:bg-teal-700 text-white border border-teal-600 disabled:opacity-50'
+              } rounded-lg disabled:cursor-not-allowed transition-colors duration-200 flex items-center justify-center gap-2`}
+              title="Download the main line as an animated GIF (uses the playback speed)"
+            >
+              <svg xmlns="http://www.w3.org/2000/svg" className={iconSize} fill="none" viewBox="0 0 24 24" stroke="currentColor">
+                <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M15 10l4.553-2.276A1 1 0 0121 8.618v6.764a1 1 0 01-1.447.894L15 14M5 18h8a2 2 0 002-2V8a2 2 0 00-2-2H5a2 2 0 00-2 2v8a2 2 0 002 2z" />
+              </svg>
+              <span>{animationProgress || 'Export Animation'}</span>
+            </button>
+
+            {/* Print Kifu Button */}
+            <button
+              onClick={() => printKifuSheet(gameState, tree)}
+              className={`${buttonSize} flex-1 ${
+                isDarkMode 
+                  ? 'bg-neutral-800 hover:bg-neutral-700 text-neutral-300 border border-neutral-600' 
+                  : 'bg-neutral-100 hover:bg-neutral-200 text-neutral-700 border border-neutral-300'
+              } rounded-lg transition-colors duration-200 flex items-center justify-center gap-2`}
+              title="Print the main line as a numbered kifu sheet or save it as PDF"
+            >
+              <svg xmlns="http://www.w3.org/2000/svg" className={iconSize} fill="none" viewBox="0 0 24 24" stroke="currentColor">
+                <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M17 17h2a2 2 0 002-2v-4a2 2 0 00-2-2H5a2 2 0 00-2 2v4a2 2 0 002 2h2m2 4h6a2 2 0 002-2v-4a2 2 0 00-2-2H9a2 2 0 00-2 2v4a2 2 0 002 2zm8-12V5a2 2 0 00-2-2H9a2 2 0 00-2 2v4h10z" />
+              </svg>
+              <span>Print Kifu</span>
+            </button>
+          </div>
+
+          {/* Diagram export: the reviewed position as an image */}
+          <div className={`mt-3 flex items-center gap-3 flex-wrap text-sm ${isDarkMode ? 'text-neutral-300' : 'text-neutral-700'}`}>
+            <span className="font-medium">Diagram:</span>
+            <label className="flex items-center gap-1">
+              <input type="checkbox" checked={diagramCoordinates} onChange={(e) => setDiagramCoordinates(e.target.checked)} />
+              Coordinates
+            </label>
+            <label className="flex items-center gap-1">
+              <input type="checkbox" checked={diagramNumbers} onChange={(e) => setDiagramNumbers(e.target.checked)} />
+              Number moves from
+            </label>
+            <input
+              type="number"
+              min={1}
+              value={diagramNumberFrom}
+              disabled={!diagramNumbers}
+              onChange={(e) => setDiagramNumberFrom(Math.max(1, parseInt(e.target.value) || 1))}
+              className={`w-16 px-2 py-1 rounded border disabled:opacity-50 ${
+                isDarkMode ? 'bg-neutral-800 border-neutral-600' : 'bg-white border-neutral-300'
+              }`}
+            />
+            <div className="flex gap-2 ml-auto">
+              {(['svg', 'png'] as const).map(format => (
+                <button
+                  key={format}
+                  onClick={() => handleExportDiagram(format)}
+                  className={`${buttonSize} ${
+                    isDarkMode 
+                      ? 'bg-neutral-800 hover:bg-neutral-700 text-neutral-300 border border-neutral-600' 
+                      : 'bg-neutral-100 hover:bg-neutral-200 text-neutral-700 border border-neutral-300'
+                  } rounded-lg transition-colors duration-200`}
+                  title={`Download the position as ${format.toUpperCase()}`}
+                >
+                  {format.toUpperCase()}
+                </button>
+              ))}
+            </div>
           </div>
 
           {/* Export success message */}
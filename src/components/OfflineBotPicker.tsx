@@ -0,0 +1,70 @@
+import React from 'react';
+import { useAppTheme } from '../context/AppThemeContext';
+import { BROWSER_BOT_BOARD_SIZES, BROWSER_BOT_PLAYOUTS, BrowserBotLevel } from '../utils/browserBot';
+
+interface OfflineBotPickerProps {
+  selectedLevel: BrowserBotLevel | null;
+  onSelectLevel: (level: BrowserBotLevel | null) => void;
+  boardSize: number;
+}
+
+const levels: { level: BrowserBotLevel; icon: string; name: string; description: string }[] = [
+  { level: 'easy', icon: '🐣', name: 'Easy', description: 'Plays loosely; good for a first game' },
+  { level: 'normal', icon: '🙂', name: 'Normal', description: 'Sees simple captures and ataris' },
+  { level: 'hard', icon: '🔥', name: 'Hard', description: 'Reads further before each move' },
+  { level: 'expert', icon: '🧠', name: 'Expert', description: 'Strongest; thinks a second or two per move' }
+];
+
+// The bot that runs in the browser, for AI games without the server or KataGo
+const OfflineBotPicker: React.FC<OfflineBotPickerProps> = ({ selectedLevel, onSelectLevel, boardSize }) => {
+  const { isDarkMode } = useAppTheme();
+  const supported = BROWSER_BOT_BOARD_SIZES.indexOf(boardSize) !== -1;
+
+  return (
+    <div className="mb-4">
+      <label className={`block text-sm font-medium mb-1 ${
+        isDarkMode ? 'text-neutral-200' : 'text-neutral-700'
+      }`}>
+        Offline Opponent
+      </label>
+      <p className={`text-xs mb-2 ${
+        isDarkMode ? 'text-neutral-400' : 'text-neutral-500'
+      }`}>
+        {supported
+          ? 'Runs in your browser, so it plays even when the server or KataGo is unavailable'
+          : `The offline opponent plays on ${BROWSER_BOT_BOARD_SIZES.map(size => `${size}x${size}`).join(' and ')} boards only`}
+      </p>
+      <div className="grid grid-cols-2 gap-2">
+        {levels.map(({ level, icon, name, description }) => {
+          const isSelected = supported && selectedLevel === level;
+          return (
+            <button
+              key={level}
+              type="button"
+              disabled={!supported}
+              onClick={() => onSelectLevel(isSelected ? null : level)}
+              className={`p-3 border-2 rounded-lg text-left transition-all disabled:opacity-50 disabled:cursor-not-allowed ${
+                isSelected
+                  ? isDarkMode
+                    ? 'border-primary-400 bg-primary-900/40 text-primary-100 shadow-sm'
+                    : 'border-primary-500 bg-primary-50 text-primary-800 shadow-sm'
+                  : isDarkMode
+                    ? 'border-neutral-600 bg-neutral-800/50 text-neutral-200 hover:border-neutral-500'
+                    : 'border-neutral-200 bg-white text-neutral-800 hover:border-neutral-400'
+              }`}
+            >
+              <div className="flex items-center gap-2 font-medium text-sm">
+                <span>{icon}</span>
+                {name}
+              </div>
+              <p className="text-xs mt-1 opacity-75">{description}</p>
+              <p className="text-xs opacity-60">{BROWSER_BOT_PLAYOUTS[level]} playouts per move on 9x9</p>
+            </button>
+          );
+        })}
+      </div>
+    </div>
+  );
+};
+
+export default OfflineBotPicker;
@@ -0,0 +1,123 @@
+import React, { useEffect, useState } from 'react';
+import { GameState, Player } from '../types/go';
+import { canStartRengo, getTeamMembers, getTeamName } from '../rules';
+import { useAppTheme } from '../context/AppThemeContext';
+
+type TeamColor = 'black' | 'white';
+
+interface RengoLobbyProps {
+  gameState: GameState;
+  currentPlayer?: Player;
+  onAssignTeam: (playerId: string, color: TeamColor) => void;
+  onSetTeamName: (color: TeamColor, name: string) => void;
+  onStart: () => void;
+  onShare: () => void;
+}
+
+/**
+ * Team assignment before a rengo game starts. Players can switch teams themselves;
+ * the host (the game's creator) can move anyone, name the teams and start the game.
+ */
+const RengoLobby: React.FC<RengoLobbyProps> = ({
+  gameState,
+  currentPlayer,
+  onAssignTeam,
+  onSetTeamName,
+  onStart,
+  onShare
+}) => {
+  const { isDarkMode } = useAppTheme();
+  const isHost = !!currentPlayer && gameState.players[0]?.id === currentPlayer.id;
+  const canStart = canStartRengo(gameState.players);
+
+  // Team names are edited locally and sent when the field loses focus
+  const [teamNames, setTeamNames] = useState({
+    black: gameState.teamNames?.black || '',
+    white: gameState.teamNames?.white || ''
+  });
+  useEffect(() => {
+    setTeamNames({ black: gameState.teamNames?.black || '', white: gameState.teamNames?.white || '' });
+  }, [gameState.teamNames]);
+
+  const renderTeam = (color: TeamColor) => {
+    const members = getTeamMembers(gameState.players, color);
+    const otherColor: TeamColor = color === 'black' ? 'white' : 'black';
+
+    return (
+      <div className={`flex-1 rounded-xl border p-4 ${isDarkMode ? 'border-gray-600 bg-gray-800' : 'border-slate-200 bg-white'}`}>
+        <div className="flex items-center gap-2 mb-3">
+          <div className={`w-4 h-4 rounded-full border border-slate-500 ${color === 'black' ? 'bg-black' : 'bg-white'}`} />
+          {isHost ? (
+            <input
+              type="text"
+              value={teamNames[color]}
+              maxLength={40}
+              placeholder={getTeamName({ players: gameState.players }, color) || `${color === 'black' ? 'Black' : 'White'} team`}
+              onChange={(e) => setTeamNames(prev => ({ ...prev, [color]: e.target.value }))}
+              onBlur={() => onSetTeamName(color, teamNames[color])}
+              className="form-input flex-1 text-sm"
+            />
+          ) : (
+            <span className="font-semibold">{getTeamName(gameState, color) || `${color === 'black' ? 'Black' : 'White'} team`}</span>
+          )}
+        </div>
+
+        {members.length === 0 ? (
+          <p className="text-sm text-neutral-500">No players yet</p>
+        ) : (
+          <ol className="space-y-2">
+            {members.map((member, index) => (
+              <li key={member.id} className="flex items-center justify-between gap-2 text-sm">
+                <span>
+                  {index + 1}. {member.username}
+                  {member.id === currentPlayer?.id && ' (you)'}
+                  {member.id === gameState.players[0]?.id && ' - host'}
+                </span>
+                {(isHost || member.id === currentPlayer?.id) && (
+                  <button
+                    onClick={() => onAssignTeam(member.id, otherColor)}
+                    className="btn text-xs py-1 px-2 bg-neutral-200 text-neutral-800 hover:bg-neutral-300"
+                  >
+                    Move to {otherColor}
+                  </button>
+                )}
+              </li>
+            ))}
+          </ol>
+        )}
+      </div>
+    );
+  };
+
+  return (
+    <div className={`w-full mb-4 rounded-xl border p-4 ${isDarkMode ? 'border-gray-600 bg-gray-900 text-gray-100' : 'border-slate-200 bg-slate-50 text-slate-800'}`}>
+      <div className="flex items-center justify-between gap-2 mb-3">
+        <h2 className="text-lg font-semibold">Rengo Team Lobby</h2>
+        <button onClick={onShare} className="btn text-sm bg-neutral-200 text-neutral-800 hover:bg-neutral-300">
+          Invite Players
+        </button>
+      </div>
+      <p className="text-sm text-neutral-500 mb-4">
+        Team members take turns playing their color in the order listed. The first player of each team keeps the team clock.
+      </p>
+
+      <div className="flex flex-col sm:flex-row gap-4 mb-4">
+        {renderTeam('black')}
+        {renderTeam('white')}
+      </div>
+
+      {isHost ? (
+        <div className="flex items-center gap-3">
+          <button onClick={onStart} disabled={!canStart} className="btn btn-primary disabled:opacity-50">
+            Start Game
+          </button>
+          {!canStart && <span className="text-sm text-neutral-500">Both teams need the same number of players</span>}
+        </div>
+      ) : (
+        <p className="text-sm text-neutral-500">Waiting for the host to start the game...</p>
+      )}
+    </div>
+  );
+};
+
+export default RengoLobby;
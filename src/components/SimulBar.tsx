@@ -0,0 +1,49 @@
+import React from 'react';
+import { Link } from 'react-router-dom';
+import { getNextSimulBoard } from '../rules';
+import { SimulSession } from '../types/go';
+import { useAppTheme } from '../context/AppThemeContext';
+
+interface SimulBarProps {
+  simul: SimulSession;
+  currentGameId: string;
+  onNextBoard: (gameId: string) => void;
+}
+
+/**
+ * The simul host's way round the boards while playing one: how many boards are
+ * waiting, the next of them, and the dashboard
+ */
+const SimulBar: React.FC<SimulBarProps> = ({ simul, currentGameId, onNextBoard }) => {
+  const { isDarkMode } = useAppTheme();
+  const waiting = simul.boards.filter(board => board.awaitingHost && board.gameId !== currentGameId);
+  const nextBoard = getNextSimulBoard(simul.boards, currentGameId);
+  const currentBoard = simul.boards.find(board => board.gameId === currentGameId);
+
+  return (
+    <div className={`w-full mb-4 rounded-xl border p-3 flex items-center justify-between gap-3 flex-wrap ${
+      isDarkMode ? 'border-gray-600 bg-gray-900 text-gray-100' : 'border-slate-200 bg-slate-50 text-slate-800'
+    }`}>
+      <span className="text-sm">
+        <strong>Simul</strong>
+        {currentBoard && ` - board ${currentBoard.boardNumber} of ${simul.boards.length}`}
+        {' - '}
+        {waiting.length === 0 ? 'no other board is waiting for you' : `${waiting.length} other ${waiting.length === 1 ? 'board is' : 'boards are'} waiting for you`}
+      </span>
+      <div className="flex items-center gap-2">
+        <Link to={`/simul/${simul.id}`} className="btn text-sm py-1 px-3 bg-neutral-200 text-neutral-800 hover:bg-neutral-300">
+          All Boards
+        </Link>
+        <button
+          onClick={() => nextBoard && onNextBoard(nextBoard.gameId)}
+          disabled={!nextBoard || nextBoard.gameId === currentGameId}
+          className="btn text-sm py-1 px-3 bg-blue-600 text-white hover:bg-blue-700 disabled:opacity-50"
+        >
+          Next Board{nextBoard && nextBoard.gameId !== currentGameId ? ` (${nextBoard.boardNumber})` : ''}
+        </button>
+      </div>
+    </div>
+  );
+};
+
+export default SimulBar;
@@ -0,0 +1,233 @@
+import React, { useCallback, useEffect, useMemo, useState } from 'react';
+import { BoardMarkup, GameState, MarkupShape, Player, Position, StoneColor, VariationMove } from '../types/go';
+import { isTeacher, playVariation } from '../rules';
+import { useAppTheme } from '../context/AppThemeContext';
+import { ReviewBoardState } from './GameReview';
+import { toggleMarkup } from '../utils/gameTree';
+import { getDiagramNumbers } from '../utils/boardDiagram';
+import { getMoveMessage } from '../utils/moveMessages';
+
+// What a click on the board does for the teacher: play the game move, extend the
+// variation being shown, or mark the point
+type TeachingTool = 'variation' | MarkupShape | null;
+
+const MARKUP_TOOLS: { shape: MarkupShape; symbol: string; title: string }[] = [
+  { shape: 'triangle', symbol: '△', title: 'Triangle' },
+  { shape: 'square', symbol: '□', title: 'Square' },
+  { shape: 'circle', symbol: '○', title: 'Circle' },
+  { shape: 'cross', symbol: '✕', title: 'Cross' },
+  { shape: 'label', symbol: 'A', title: 'Letter label' }
+];
+
+interface TeachingPanelProps {
+  gameState: GameState;
+  currentPlayer?: Player;
+  onTakeBack: (moveIndex: number) => void;
+  onSetMarkup: (markup: BoardMarkup[]) => void;
+  onShowVariation: (moves: VariationMove[]) => void;
+  onCloseVariation: () => void;
+  onSetControl: (enabled: boolean) => void;
+  onBoardStateChange: (boardState: ReviewBoardState | null) => void;
+}
+
+/**
+ * Teacher tools for a teaching game in progress: take back moves, mark the board,
+ * show variations on everyone's board and play the student's stones. Students and
+ * spectators see what the teacher is doing.
+ */
+const TeachingPanel: React.FC<TeachingPanelProps> = ({
+  gameState,
+  currentPlayer,
+  onTakeBack,
+  onSetMarkup,
+  onShowVariation,
+  onCloseVariation,
+  onSetControl,
+  onBoardStateChange
+}) => {
+  const { isDarkMode } = useAppTheme();
+  const [tool, setTool] = useState<TeachingTool>(null);
+  const [takeBackTo, setTakeBackTo] = useState<number>(0);
+  const [variationError, setVariationError] = useState<string | null>(null);
+
+  const isTeacherPlayer = !!currentPlayer && isTeacher(gameState, currentPlayer.id);
+  const moveCount = gameState.history.length;
+  const liveMarkup = useMemo(() => gameState.markup?.[moveCount] || [], [gameState.markup, moveCount]);
+
+  // The variation on everyone's board, if it starts from the current position
+  const shownIndex = gameState.shownVariation;
+  const shownVariation = shownIndex !== null && shownIndex !== undefined ? gameState.variations?.[shownIndex] : undefined;
+  const variation = shownVariation && shownVariation.moveNumber === moveCount ? shownVariation : undefined;
+  const variationMoves = useMemo(() => (variation ? variation.moves : []), [variation]);
+
+  // Extend the variation with the next move or mark the point, returning true when a stone was played
+  const handleTeacherClick = useCallback((position: Position): boolean => {
+    if (tool === 'variation') {
+      const lastColor = variationMoves.length > 0 ? variationMoves[variationMoves.length - 1].color : null;
+      const color: StoneColor = lastColor ? (lastColor === 'black' ? 'white' : 'black') : gameState.currentTurn;
+      const moves = [...variationMoves, { color, position }];
+      const { error } = playVariation(gameState.board, moves);
+      if (error) {
+        setVariationError(getMoveMessage(error));
+        setTimeout(() => setVariationError(null), 3000);
+        return false;
+      }
+      setVariationError(null);
+      onShowVariation(moves);
+      return true;
+    }
+
+    if (tool) {
+      onSetMarkup(toggleMarkup(liveMarkup, position, tool));
+    }
+    return false;
+  }, [tool, variationMoves, liveMarkup, gameState.board, gameState.currentTurn, onShowVariation, onSetMarkup]);
+
+  // Show the variation (numbered) or the game position with the teacher's markup
+  useEffect(() => {
+    if (variation) {
+      const { board } = playVariation(gameState.board, variation.moves);
+      const numbers: BoardMarkup[] = getDiagramNumbers(board, variation.moves, 1)
+        .map(({ position, number }) => ({ position, shape: 'label', label: String(number) }));
+      onBoardStateChange({
+        stones: board.stones,
+        currentMoveIndex: moveCount,
+        isReviewing: true,
+        markup: numbers,
+        clickPoint: isTeacherPlayer && tool === 'variation' ? handleTeacherClick : undefined
+      });
+    } else if (isTeacherPlayer && tool) {
+      onBoardStateChange({
+        stones: gameState.board.stones,
+        currentMoveIndex: moveCount,
+        isReviewing: true,
+        markup: liveMarkup,
+        clickPoint: handleTeacherClick
+      });
+    } else {
+      onBoardStateChange({
+        stones: gameState.board.stones,
+        currentMoveIndex: moveCount,
+        isReviewing: false,
+        markup: liveMarkup
+      });
+    }
+  }, [variation, gameState.board, moveCount, liveMarkup, isTeacherPlayer, tool, handleTeacherClick, onBoardStateChange]);
+
+  // Hand the board back when the panel goes away, e.g. when the game ends
+  useEffect(() => () => onBoardStateChange(null), [onBoardStateChange]);
+
+  const closeVariation = () => {
+    setTool(null);
+    if (variation) onCloseVariation();
+  };
+
+  const panelClass = `w-full mt-4 rounded-xl border p-4 ${isDarkMode ? 'border-gray-600 bg-gray-900 text-gray-100' : 'border-slate-200 bg-slate-50 text-slate-800'}`;
+  const buttonClass = 'btn text-sm py-1 px-3 bg-neutral-200 text-neutral-800 hover:bg-neutral-300 disabled:opacity-50';
+  const toolClass = (active: boolean) => `btn text-sm py-1 px-2 min-w-[2.5rem] ${
+    active ? 'bg-blue-600 text-white' : 'bg-neutral-200 text-neutral-800 hover:bg-neutral-300'
+  } disabled:opacity-50`;
+
+  if (!isTeacherPlayer) {
+    let status = 'Your teacher can take back moves, mark the board and show variations.';
+    if (variation) {
+      status = 'The teacher is showing a variation. Play continues when the teacher returns to the game.';
+    } else if (gameState.teacherControl) {
+      status = 'The teacher is playing your stones for now.';
+    }
+
+    return (
+      <div className={panelClass}>
+        <h2 className="text-lg font-semibold mb-1">Teaching Game</h2>
+        <p className="text-sm text-neutral-500">{status}</p>
+      </div>
+    );
+  }
+
+  return (
+    <div className={panelClass}>
+      <h2 className="text-lg font-semibold mb-3">Teacher Tools</h2>
+
+      {/* Takebacks: the moves taken back are kept in the record as a variation */}
+      <div className="flex items-center gap-2 flex-wrap mb-3">
+        <button onClick={() => onTakeBack(moveCount - 1)} disabled={moveCount === 0} className={buttonClass}>
+          Take Back 1 Move
+        </button>
+        <span className="text-sm">Back to move</span>
+        <input
+          type="number"
+          min={0}
+          max={Math.max(moveCount - 1, 0)}
+          value={takeBackTo}
+          onChange={(e) => setTakeBackTo(Math.max(0, Math.floor(Number(e.target.value) || 0)))}
+          className="form-input w-20 text-sm"
+        />
+        <button onClick={() => onTakeBack(takeBackTo)} disabled={takeBackTo >= moveCount} className={buttonClass}>
+          Go Back
+        </button>
+      </div>
+
+      {/* Markup on the current position, seen by everyone and saved with the game */}
+      <div className="flex items-center gap-2 flex-wrap mb-3">
+        <span className="text-sm font-medium">Mark:</span>
+        {MARKUP_TOOLS.map(({ shape, symbol, title }) => (
+          <button
+            key={shape}
+            onClick={() => setTool(tool === shape ? null : shape)}
+            disabled={!!variation}
+            className={toolClass(tool === shape)}
+            title={title}
+          >
+            {symbol}
+          </button>
+        ))}
+        <button onClick={() => onSetMarkup([])} disabled={liveMarkup.length === 0} className={buttonClass}>
+          Clear
+        </button>
+      </div>
+
+      {/* Variations from the current position */}
+      <div className="flex items-center gap-2 flex-wrap mb-3">
+        <button
+          onClick={() => (tool === 'variation' ? closeVariation() : setTool('variation'))}
+          className={toolClass(tool === 'variation')}
+        >
+          {tool === 'variation' ? 'Close Variation' : 'Show Variation'}
+        </button>
+        <button
+          onClick={() => onShowVariation(variationMoves.slice(0, -1))}
+          disabled={variationMoves.length === 0}
+          className={buttonClass}
+        >
+          Undo Variation Move
+        </button>
+        {variation && tool !== 'variation' && (
+          <button onClick={closeVariation} className={buttonClass}>
+            Back to Game
+          </button>
+        )}
+      </div>
+
+      {/* Playing the student's stones */}
+      <label className="flex items-center gap-2 text-sm">
+        <input
+          type="checkbox"
+          checked={!!gameState.teacherControl}
+          onChange={(e) => onSetControl(e.target.checked)}
+        />
+        Play the student's stones
+      </label>
+
+      <p className="text-xs text-neutral-500 mt-3">
+        {tool === 'variation'
+          ? 'Click the board to play the next move of the variation. Everyone sees it.'
+          : tool
+            ? 'Click the board to mark a point. Everyone sees the marks.'
+            : 'Choose a tool, or play on the board as usual.'}
+      </p>
+      {variationError && <p className="text-sm text-red-600 mt-1">{variationError}</p>}
+    </div>
+  );
+};
+
+export default TeachingPanel;
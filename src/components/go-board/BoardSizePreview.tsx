@@ -1,34 +1,46 @@
 import React from 'react';
+import { BoardDimensions } from '../../types/go';
+import { getStarPoints } from '../../rules';
 
 interface BoardSizePreviewProps {
   size: number;
+  dimensions?: BoardDimensions; // Rectangular boards; the preview is drawn inside the square
   className?: string;
 }
 
-const BoardSizePreview: React.FC<BoardSizePreviewProps> = ({ size, className = '' }) => {
+const BoardSizePreview: React.FC<BoardSizePreviewProps> = ({ size, dimensions, className = '' }) => {
+  const { width, height } = dimensions || { width: size, height: size };
+  const longestSide = Math.max(width, height);
+  const spacing = 100 / (longestSide - 1);
+  // Centre the shorter side within the square preview
+  const offsetX = ((longestSide - width) * spacing) / 2;
+  const offsetY = ((longestSide - height) * spacing) / 2;
+
   // Generate grid lines
   const gridLines = [];
-  for (let i = 0; i < size; i++) {
+  for (let i = 0; i < height; i++) {
     // Horizontal lines
     gridLines.push(
       <line
         key={`h${i}`}
-        x1="0"
-        y1={`${(100 / (size - 1)) * i}%`}
-        x2="100%"
-        y2={`${(100 / (size - 1)) * i}%`}
+        x1={`${offsetX}%`}
+        y1={`${offsetY + spacing * i}%`}
+        x2={`${offsetX + spacing * (width - 1)}%`}
+        y2={`${offsetY + spacing * i}%`}
         stroke="rgba(0, 0, 0, 0.3)"
         strokeWidth="0.5"
       />
     );
+  }
+  for (let i = 0; i < width; i++) {
     // Vertical lines
     gridLines.push(
       <line
         key={`v${i}`}
-        x1={`${(100 / (size - 1)) * i}%`}
-        y1="0"
-        x2={`${(100 / (size - 1)) * i}%`}
-        y2="100%"
+        x1={`${offsetX + spacing * i}%`}
+        y1={`${offsetY}%`}
+        x2={`${offsetX + spacing * i}%`}
+        y2={`${offsetY + spacing * (height - 1)}%`}
         stroke="rgba(0, 0, 0, 0.3)"
         strokeWidth="0.5"
       />
@@ -37,21 +49,13 @@ const BoardSizePreview: React.FC<BoardSizePreviewProps> = ({ size, className = '
 
   // Generate star points (hoshi)
   const starPoints: React.ReactElement[] = [];
-  const getStarPoints = (size: number): [number, number][] => {
-    if (size === 9) return [[2, 2], [2, 6], [4, 4], [6, 2], [6, 6]];
-    if (size === 13) return [[3, 3], [3, 9], [6, 6], [9, 3], [9, 9]];
-    if (size === 15) return [[3, 3], [3, 11], [7, 7], [11, 3], [11, 11]];
-    if (size === 19) return [[3, 3], [3, 9], [3, 15], [9, 3], [9, 9], [9, 15], [15, 3], [15, 9], [15, 15]];
-    if (size === 21) return [[3, 3], [3, 10], [3, 17], [10, 3], [10, 10], [10, 17], [17, 3], [17, 10], [17, 17]];
-    return [];
-  };
 
-  getStarPoints(size).forEach(([x, y]) => {
+  getStarPoints({ width, height }).forEach(({ x, y }) => {
     starPoints.push(
       <circle
-        key={`star${x}${y}`}
-        cx={`${(100 / (size - 1)) * x}%`}
-        cy={`${(100 / (size - 1)) * y}%`}
+        key={`star${x}-${y}`}
+        cx={`${offsetX + spacing * x}%`}
+        cy={`${offsetY + spacing * y}%`}
         r="3%"
         fill="rgba(0, 0, 0, 0.7)"
       />
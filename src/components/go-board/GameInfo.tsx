@@ -1,5 +1,6 @@
 import React, { useState, useEffect } from 'react';
 import { GameState, Player, GameMove, Position, StoneColor, Stone, GameType } from '../../types/go';
+import { formatTimeLeft, getBoardDimensions, getCaptureTarget, getMoveDeadline, getRengoPlayerToMove, getTeamMembers, getTeamName, hasDeadStoneAgreement, isPassAllowed } from '../../rules';
 import TimeControl from '../TimeControl';
 import SoundSettings from '../SoundSettings';
 import PlayerAvatar from '../PlayerAvatar';
@@ -69,6 +70,7 @@ const GameInfo: React.FC<GameInfoProps> = ({
   const { isMobile, isTablet, isDesktop } = useDeviceDetect();
   const { isDarkMode } = useAppTheme();
   const { players, currentTurn, status, capturedStones, history, score, deadStones, undoRequest, board } = gameState;
+  const { width: boardWidth, height: boardHeight } = getBoardDimensions(board);
   
   // State for confirmation modals
   const [showResignConfirm, setShowResignConfirm] = useState(false);
@@ -82,6 +84,35 @@ const GameInfo: React.FC<GameInfoProps> = ({
   const blackPlayer = players.find(player => player.color === 'black');
   const whitePlayer = players.find(player => player.color === 'white');
   
+  // Rengo: each card shows a team, with the member whose turn it is highlighted
+  const isRengo = gameState.gameType === 'rengo';
+  const rengoPlayerToMove = isRengo && gameState.status === 'playing' ? getRengoPlayerToMove(gameState) : undefined;
+  const getCardName = (color: 'black' | 'white', player?: Player) => {
+    if (isRengo) return getTeamName(gameState, color) || 'Waiting for players';
+    return player?.username || 'Waiting for opponent';
+  };
+  
+  // Correspondence: the days-based clock only needs to tick once a minute
+  const isCorrespondence = gameState.gameType === 'correspondence';
+  const moveDeadline = getMoveDeadline(gameState);
+  const [now, setNow] = useState<number>(Date.now());
+  useEffect(() => {
+    if (!isCorrespondence) return;
+    const interval = setInterval(() => setNow(Date.now()), 60 * 1000);
+    return () => clearInterval(interval);
+  }, [isCorrespondence]);
+  const renderTeamMembers = (color: 'black' | 'white') => isRengo && (
+    <ol className="text-xs sm:text-sm text-neutral-600 mb-1 sm:mb-2">
+      {getTeamMembers(players, color).map(member => (
+        <li key={member.id} className={member.id === rengoPlayerToMove?.id ? 'font-semibold text-blue-700' : ''}>
+          {member.username}
+          {member.id === currentPlayer?.id && ' (me)'}
+          {member.id === rengoPlayerToMove?.id && ' - to play'}
+        </li>
+      ))}
+    </ol>
+  );
+  
   // Count dead stones by color for display
   const deadStonesByColor = {
     black: 0,
@@ -111,6 +142,9 @@ const GameInfo: React.FC<GameInfoProps> = ({
   const isAIGame = players.some(player => player.isAI);
   const isHumanPlayer = currentPlayer && !currentPlayer.isAI;
   
+  // In a local game both players share this device, so the turn is never the opponent's
+  const isLocalGame = gameState.isLocal === true && !gameState.browserBot;
+  
   // Keep spectators synchronized with the latest move when new moves are made
   useEffect(() => {
     if (isSpectator && !isReviewing) {
@@ -146,6 +180,8 @@ const GameInfo: React.FC<GameInfoProps> = ({
       case 'korean': return 'Korean';
       case 'aga': return 'AGA';
       case 'ing': return 'Ing';
+      case 'tromp-taylor': return 'Tromp-Taylor';
+      case 'new-zealand': return 'New Zealand';
       default: return 'Japanese';
     }
   };
@@ -156,9 +192,11 @@ const GameInfo: React.FC<GameInfoProps> = ({
       case 'even': return 'Even Game';
       case 'handicap': return 'Handicap Game';
       case 'blitz': return 'Blitz Go';
-      case 'teaching': 
-      case 'rengo': 
-        return 'Custom Game'; // Simplify teaching and rengo to just "Custom Game"
+      case 'teaching': return 'Teaching Game';
+      case 'rengo':
+        return 'Rengo';
+      case 'correspondence': return 'Correspondence';
+      case 'capture': return getCaptureTarget(gameState) === 1 ? 'Atari Go' : 'Capture Go';
       default: return 'Standard Game';
     }
   };
@@ -173,6 +211,7 @@ const GameInfo: React.FC<GameInfoProps> = ({
           </svg>
         );
       case 'blitz':
+      case 'correspondence':
         return (
           <svg xmlns="http://www.w3.org/2000/svg" className="h-4 w-4 mr-1" fill="none" viewBox="0 0 24 24" stroke="currentColor">
             <path strokeLinecap="round" strokeLinejoin="round" strokeWidth="2" d="M12 8v4l3 3m6-3a9 9 0 11-18 0 9 9 0 0118 0z" />
@@ -180,6 +219,7 @@ const GameInfo: React.FC<GameInfoProps> = ({
         );
       case 'teaching':
       case 'rengo':
+      case 'capture':
         // Generic icon for custom games
         return (
           <svg xmlns="http://www.w3.org/2000/svg" className="h-4 w-4 mr-1" fill="none" viewBox="0 0 24 24" stroke="currentColor">
@@ -209,6 +249,10 @@ const GameInfo: React.FC<GameInfoProps> = ({
         return `${badgeClass} bg-blue-100 text-blue-800`;
       case 'rengo':
         return `${badgeClass} bg-purple-100 text-purple-800`;
+      case 'correspondence':
+        return `${badgeClass} bg-green-100 text-green-800`;
+      case 'capture':
+        return `${badgeClass} bg-orange-100 text-orange-800`;
       case 'even':
       default:
         return `${badgeClass} bg-indigo-100 text-indigo-800`;
@@ -224,9 +268,15 @@ const GameInfo: React.FC<GameInfoProps> = ({
       case 'blitz':
         return 'Fast-paced game';
       case 'teaching':
-        return 'Teaching game';
+        return gameState.handicap > 0 ? `Teaching game, ${gameState.handicap} handicap stones` : 'Teaching game';
       case 'rengo':
         return 'Team game';
+      case 'correspondence':
+        const days = gameState.timeControl.correspondenceDays || 0;
+        return `${days} ${days === 1 ? 'day' : 'days'} per move`;
+      case 'capture':
+        const target = getCaptureTarget(gameState);
+        return `First to capture ${target} ${target === 1 ? 'stone' : 'stones'} wins`;
       case 'even':
       default:
         return 'Standard rules';
@@ -257,7 +307,7 @@ const GameInfo: React.FC<GameInfoProps> = ({
   const calculateBoardState = (moveIndex: number): Stone[] => {
     // If moveIndex is 0, show empty board or only handicap stones
     if (moveIndex === 0) {
-      if (gameState.gameType === 'handicap' && gameState.handicap > 0) {
+      if (gameState.handicap > 0) {
         // For handicap games, show only the handicap stones at move 0
         const handicapStones = gameState.board.stones.filter(stone => {
           return !gameState.history.some(move => {
@@ -284,7 +334,7 @@ const GameInfo: React.FC<GameInfoProps> = ({
     let currentTurn: StoneColor = 'black';
     
     // Add handicap stones if it's a handicap game
-    if (gameState.gameType === 'handicap' && gameState.handicap > 0) {
+    if (gameState.handicap > 0) {
       const handicapStones = gameState.board.stones.filter(stone => {
         return !gameState.history.some(move => {
           if (isPassMove(move)) return false;
@@ -300,7 +350,7 @@ const GameInfo: React.FC<GameInfoProps> = ({
         });
       });
       stones = [...handicapStones];
-      currentTurn = 'white'; // White plays first in handicap games
+      if (handicapStones.length > 0) currentTurn = 'white'; // White plays first after handicap stones
     }
     
     // Add moves up to the specified moveIndex
@@ -369,16 +419,17 @@ const GameInfo: React.FC<GameInfoProps> = ({
           <div className="flex flex-col items-center">
             {/* Player Avatar */}
             <PlayerAvatar 
-              username={blackPlayer?.username || 'Waiting...'} 
+              username={isRengo ? getCardName('black', blackPlayer) : (blackPlayer?.username || 'Waiting...')} 
               size={isTablet ? 80 : 64}
             />
             <div className="text-center mt-2 sm:mt-4">
               <div className="flex items-center justify-center gap-1.5 sm:gap-2.5 mb-1 sm:mb-2">
                 <span className={`font-semibold text-neutral-900 ${isTablet ? 'text-xl' : 'text-sm sm:text-lg'} truncate max-w-[140px] sm:max-w-[180px] lg:max-w-[220px] xl:max-w-[260px]`}>
-                  {blackPlayer?.username || 'Waiting for opponent'}
-                  {blackPlayer && currentPlayer && blackPlayer.id === currentPlayer.id && ' (me)'}
+                  {getCardName('black', blackPlayer)}
+                  {!isRengo && !isLocalGame && blackPlayer && currentPlayer && blackPlayer.id === currentPlayer.id && ' (me)'}
                 </span>
               </div>
+              {renderTeamMembers('black')}
               <div className={`${isTablet ? 'text-base' : 'text-xs sm:text-base'} text-neutral-700 mt-0.5 sm:mt-1.5 font-medium bg-neutral-200 px-2 sm:px-3 py-0.5 sm:py-1 rounded-md`}>
                 Captured: {capturedStones?.white || 0}
               </div>
@@ -393,16 +444,17 @@ const GameInfo: React.FC<GameInfoProps> = ({
           <div className="flex flex-col items-center">
             {/* Player Avatar */}
             <PlayerAvatar 
-              username={whitePlayer?.username || 'Waiting...'} 
+              username={isRengo ? getCardName('white', whitePlayer) : (whitePlayer?.username || 'Waiting...')} 
               size={isTablet ? 80 : 64}
             />
             <div className="text-center mt-2 sm:mt-4">
               <div className="flex items-center justify-center gap-1.5 sm:gap-2.5 mb-1 sm:mb-2">
                 <span className={`font-semibold text-neutral-900 ${isTablet ? 'text-xl' : 'text-sm sm:text-lg'} truncate max-w-[140px] sm:max-w-[180px] lg:max-w-[220px] xl:max-w-[260px]`}>
-                  {whitePlayer?.username || 'Waiting for opponent'}
-                  {whitePlayer && currentPlayer && whitePlayer.id === currentPlayer.id && ' (me)'}
+                  {getCardName('white', whitePlayer)}
+                  {!isRengo && !isLocalGame && whitePlayer && currentPlayer && whitePlayer.id === currentPlayer.id && ' (me)'}
                 </span>
               </div>
+              {renderTeamMembers('white')}
               <div className={`${isTablet ? 'text-base' : 'text-xs sm:text-base'} text-neutral-700 mt-0.5 sm:mt-1.5 font-medium bg-neutral-200 px-2 sm:px-3 py-0.5 sm:py-1 rounded-md`}>
                 Captured: {capturedStones?.black || 0}
               </div>
@@ -411,8 +463,17 @@ const GameInfo: React.FC<GameInfoProps> = ({
         </div>
       </div>
       
+      {/* Correspondence clock: time left for the player to move */}
+      {isCorrespondence && moveDeadline !== null && (
+        <div className="mt-3 mb-4 text-center p-2.5 rounded-lg bg-neutral-50 border border-neutral-200">
+          <span className="text-neutral-700">
+            {currentTurn === 'black' ? 'Black' : 'White'} has <strong>{formatTimeLeft(moveDeadline - now)}</strong> left to move
+          </span>
+        </div>
+      )}
+
       {/* Timer component */}
-      {gameState.timeControl && (gameState.timeControl.timeControl >= 0 || gameState.gameType === 'blitz' || (gameState.timePerMove && gameState.timePerMove > 0)) && (
+      {!isCorrespondence && gameState.timeControl && (gameState.timeControl.timeControl >= 0 || gameState.gameType === 'blitz' || (gameState.timePerMove && gameState.timePerMove > 0)) && (
         <div className="mt-3 mb-4">
           <TimeControl
             timeControl={gameState.timeControl.timeControl}
@@ -451,7 +512,7 @@ const GameInfo: React.FC<GameInfoProps> = ({
                 : 'bg-white border-2 border-neutral-400 shadow-lg'
             }`}></div>
             <span className="text-neutral-900 text-base font-medium">
-              {isPlayerTurn ? "Your turn" : "Opponent's turn"}
+              {isLocalGame ? `${currentPlayer?.username} to play` : isPlayerTurn ? "Your turn" : "Opponent's turn"}
             </span>
           </div>
         ) : (
@@ -491,7 +552,7 @@ const GameInfo: React.FC<GameInfoProps> = ({
         <div className={`grid grid-cols-2 gap-2 ${isTablet ? 'gap-4' : 'sm:gap-3'}`}>
           <button
             onClick={onPassTurn}
-            disabled={status !== 'playing' || !isPlayerTurn || isSpectator}
+            disabled={status !== 'playing' || !isPlayerTurn || isSpectator || !isPassAllowed(gameState)}
             className={`flex items-center justify-center gap-1 ${
               isTablet 
                 ? 'text-base gap-3 px-6 py-4' 
@@ -506,7 +567,7 @@ const GameInfo: React.FC<GameInfoProps> = ({
           
           <button
             onClick={onRequestUndo}
-            disabled={status !== 'playing' || history.length === 0 || !!undoRequest || (isPlayerTurn && !isAIGame) || isSpectator || (isAIGame && !isHumanPlayer) || (isAIGame && history.length < 2) || (isAIGame && gameState.aiUndoUsed)}
+            disabled={status !== 'playing' || history.length === 0 || !!undoRequest || (isPlayerTurn && !isAIGame && !isLocalGame) || isSpectator || (isAIGame && !isHumanPlayer) || (isAIGame && history.length < 2) || (isAIGame && gameState.aiUndoUsed)}
             className={`flex items-center justify-center gap-2 ${
               isTablet 
                 ? 'text-base gap-4 px-6 py-4' 
@@ -608,7 +669,7 @@ const GameInfo: React.FC<GameInfoProps> = ({
           </h3>
           <div className={`grid grid-cols-1 gap-0.5 ${isTablet ? 'gap-2 text-base' : 'sm:gap-1 text-xs'} text-neutral-600`}>
             <div>Moves: {totalStones}</div>
-            <div>Board: {board.size}×{board.size}</div>
+            <div>Board: {boardWidth}×{boardHeight}</div>
             <div>Komi: {gameState.komi}</div>
             <div>Scoring: {getScoringRuleName()}</div>
             <div>Type: {getGameTypeDescription()}</div>
@@ -816,19 +877,23 @@ const GameInfo: React.FC<GameInfoProps> = ({
               {/* Komi */}
               <div className={isDarkMode ? 'text-neutral-300' : 'text-neutral-600'}>Komi</div>
               <div className={`text-center ${isDarkMode ? 'text-white' : 'text-neutral-900'}`}>0.0</div>
-              <div className={`text-center ${isDarkMode ? 'text-white' : 'text-neutral-900'}`}>{score.komi?.toFixed(1) || gameState.komi.toFixed(1)}</div>
+              <div className={`text-center ${isDarkMode ? 'text-white' : 'text-neutral-900'}`}>{(score.komi ?? gameState.komi).toFixed(1)}</div>
               
               {/* Total */}
               <div className={`font-semibold ${isDarkMode ? 'text-neutral-300' : 'text-neutral-600'}`}>Total</div>
               <div className={`text-center font-bold text-base ${isDarkMode ? 'text-white' : 'text-neutral-900'}`}>{((score.blackTerritory ?? 0) - capturedStones.black - deadStonesByColor.black).toFixed(1)}</div>
-              <div className={`text-center font-bold text-base ${isDarkMode ? 'text-white' : 'text-neutral-900'}`}>{((score.whiteTerritory ?? 0) - capturedStones.white - deadStonesByColor.white + (score.komi || gameState.komi)).toFixed(1)}</div>
+              <div className={`text-center font-bold text-base ${isDarkMode ? 'text-white' : 'text-neutral-900'}`}>{((score.whiteTerritory ?? 0) - capturedStones.white - deadStonesByColor.white + (score.komi ?? gameState.komi)).toFixed(1)}</div>
             </div>
           ) : (
             <div className={`text-center p-3 ${isTablet ? 'text-base' : 'text-sm'} ${
               isDarkMode ? 'text-white' : 'text-neutral-900'
             }`}>
               <p>Calculating score...</p>
-              <p className={`text-sm opacity-80 mt-2 ${isTablet ? 'text-base' : 'text-sm'}`}>Mark dead stones by clicking on them</p>
+              <p className={`text-sm opacity-80 mt-2 ${isTablet ? 'text-base' : 'text-sm'}`}>
+                {hasDeadStoneAgreement(gameState.scoringRule)
+                  ? 'Mark dead stones by clicking on them'
+                  : 'Every stone on the board counts as alive'}
+              </p>
             </div>
           )}
           
@@ -1,13 +1,15 @@
 import React, { useState, useEffect, useMemo, useCallback } from 'react';
-import { Board, Position, Stone, StoneColor, Territory, GameState } from '../../types/go';
+import { Board, BoardMarkup, Position, Stone, StoneColor, Territory, GameState } from '../../types/go';
 import { isHandicapPoint } from '../../utils/handicapUtils';
+import { getBoardDimensions, getStarPoints } from '../../rules';
 import { playStoneSound } from '../../utils/soundUtils';
 import { useBoardTheme } from '../../context/BoardThemeContext';
 import { useGame } from '../../context/GameContext';
 import useDeviceDetect from '../../hooks/useDeviceDetect';
+import { getBoardTheme, getBoardThemeConfig } from './boardThemes';
 import './GoBoard.css';
 
-export type BoardTheme = 'default' | 'dark-wood-3d' | 'light-wood-3d' | 'universe';
+export type { BoardTheme } from './boardThemes';
 
 interface GoBoardProps {
   board: Board;
@@ -19,11 +21,15 @@ interface GoBoardProps {
   deadStones?: Position[];
   onToggleDeadStone?: (position: Position) => void;
   territory?: Territory[];
+  seki?: Position[]; // Shown with the territory overlay
+  koHighlight?: Position | null; // Ko point the player was just refused
+  markup?: BoardMarkup[]; // Review annotations: shapes and letter labels
   showTerritory?: boolean;
   isHandicapPlacement?: boolean;
   // Review mode props
   isReviewing?: boolean;
   reviewStones?: Stone[];
+  onReviewClick?: (position: Position) => boolean; // Review click: plays a variation or marks the point; true when a stone was played
   // Mobile controls positioning
   showMobileControls?: boolean;
   onPreviewPositionChange?: (position: Position | null) => void;
@@ -32,62 +38,6 @@ interface GoBoardProps {
   showCoordinates?: boolean;
 }
 
-// Theme configurations for different board styles
-const BOARD_THEMES = {
-  'default': {
-    boardColor: '#e6c588',
-    lineColor: '#333',
-    hoshiColor: '#333',
-    borderWidth: 2,
-    stoneEffects: {
-      black: 'brightness(1.1) drop-shadow(0 1px 1px rgba(0,0,0,0.4))',
-      white: 'drop-shadow(0 1px 1px rgba(0,0,0,0.1))'
-    },
-    coordsColor: '#333',
-    stoneGradient: false,
-    woodTexture: null
-  },
-  'dark-wood-3d': {
-    boardColor: '#6b4423',
-    lineColor: '#222',
-    hoshiColor: '#222',
-    borderWidth: 2,
-    stoneEffects: {
-      black: 'brightness(1.1) drop-shadow(0 2px 3px rgba(0,0,0,0.6))',
-      white: 'drop-shadow(0 2px 3px rgba(0,0,0,0.3))'
-    },
-    coordsColor: '#ddd',
-    stoneGradient: true,
-    woodTexture: 'darkwood' as const
-  },
-  'light-wood-3d': {
-    boardColor: '#d9b383',
-    lineColor: '#333',
-    hoshiColor: '#333',
-    borderWidth: 2,
-    stoneEffects: {
-      black: 'brightness(1.1) drop-shadow(0 2px 3px rgba(0,0,0,0.6))',
-      white: 'drop-shadow(0 2px 3px rgba(0,0,0,0.2))'
-    },
-    coordsColor: '#333',
-    stoneGradient: true,
-    woodTexture: 'lightwood' as const
-  },
-  'universe': {
-    boardColor: '#1a1a2e',
-    lineColor: '#4d4d8f',
-    hoshiColor: '#7f7fc4',
-    borderWidth: 2,
-    stoneEffects: {
-      black: 'brightness(0.8) drop-shadow(0 0 5px rgba(0,0,0,0.8))',
-      white: 'brightness(1.2) drop-shadow(0 0 8px rgba(255,255,255,0.5))'
-    },
-    coordsColor: '#7f7fc4',
-    stoneGradient: false,
-    woodTexture: null
-  }
-};
-
 // Define wood texture types
 type WoodTexture = 'lightwood' | 'darkwood';
 
@@ -107,10 +57,14 @@ const GoBoard: React.FC<GoBoardProps> = ({
   deadStones = [],
   onToggleDeadStone,
   territory = [],
+  seki = [],
+  koHighlight = null,
+  markup = [],
   showTerritory = false,
   isHandicapPlacement = false,
   isReviewing = false,
   reviewStones = [],
+  onReviewClick,
   showMobileControls = false,
   onPreviewPositionChange,
   previewPosition: externalPreviewPosition,
@@ -127,12 +81,8 @@ const GoBoard: React.FC<GoBoardProps> = ({
   const previewPosition = externalPreviewPosition || internalPreviewPosition;
 
   // Map the board theme to our theme config
-  const theme: BoardTheme = currentTheme === 'wood-3d' ? 'dark-wood-3d' : 
-                           currentTheme === 'light-wood-3d' ? 'light-wood-3d' :
-                           currentTheme === 'universe' ? 'universe' : 'default';
-  
-  // Get the theme configuration
-  const themeConfig = BOARD_THEMES[theme] || BOARD_THEMES.default;
+  const theme = getBoardTheme(currentTheme);
+  const themeConfig = getBoardThemeConfig(theme);
 
   // Add effect to adjust cell size based on screen width and board size
   useEffect(() => {
@@ -181,23 +131,20 @@ const GoBoard: React.FC<GoBoardProps> = ({
     return () => window.removeEventListener('resize', handleResize);
   }, [board.size, isMobile, isTablet]);
 
-  const boardSize = (board.size - 1) * cellSize;
+  // Rectangular boards have different width and height; board.size is the longer side
+  const { width: boardWidth, height: boardHeight } = getBoardDimensions(board);
+  const gridWidth = (boardWidth - 1) * cellSize;
+  const gridHeight = (boardHeight - 1) * cellSize;
   const boardPadding = showCoordinates ? cellSize * 0.8 : cellSize * 0.3; // Reduce padding when coordinates are hidden
 
   // Calculate positions for star points (hoshi)
-  const getHoshiPoints = useCallback((boardSize: number) => {
-    if (boardSize === 21) return [3, 10, 17];
-    if (boardSize === 19) return [3, 9, 15];
-    if (boardSize === 15) return [3, 7, 11];
-    if (boardSize === 13) return [3, 6, 9];
-    if (boardSize === 9) return [2, 4, 6];
-    return [];
-  }, []);
-  
-  const hoshiPoints = useMemo(() => getHoshiPoints(board.size), [getHoshiPoints, board.size]);
+  const hoshiPoints = useMemo(
+    () => getStarPoints({ width: boardWidth, height: boardHeight }),
+    [boardWidth, boardHeight]
+  );
 
   // Use reviewStones if in review mode, otherwise use board.stones
-  const stonesToDisplay = isReviewing && reviewStones && reviewStones.length > 0 ? reviewStones : board.stones;
+  const stonesToDisplay = isReviewing ? reviewStones : board.stones;
 
   // Helper to get stone at position
   const getStoneAtPosition = (x: number, y: number): Stone | undefined => {
@@ -223,15 +170,26 @@ const GoBoard: React.FC<GoBoardProps> = ({
     return territoryPoint?.owner || null;
   };
 
+  // Check if a point (stone or empty) is part of a seki
+  const isSekiPoint = (x: number, y: number): boolean => {
+    if (!showTerritory) return false;
+    return seki.some(point => point.x === x && point.y === y);
+  };
+
   // Check if a position is valid for handicap stone placement
   const isValidHandicapPoint = (x: number, y: number): boolean => {
     if (!isHandicapPlacement) return false;
-    return isHandicapPoint({ x, y }, board.size) && !getStoneAtPosition(x, y);
+    return isHandicapPoint({ x, y }, { width: boardWidth, height: boardHeight }) && !getStoneAtPosition(x, y);
   };
 
   // Handle click on board intersection
   const handleCellClick = useCallback((x: number, y: number) => {
-    if (isReviewing) return;
+    if (isReviewing) {
+      if (onReviewClick && onReviewClick({ x, y })) {
+        playStoneSound();
+      }
+      return;
+    }
     
     if (isScoring) {
       const stone = getStoneAtPosition(x, y);
@@ -249,7 +207,7 @@ const GoBoard: React.FC<GoBoardProps> = ({
       playStoneSound();
       onPlaceStone({ x, y });
     }
-  }, [isReviewing, isScoring, isMobile, isTablet, isPlayerTurn, onToggleDeadStone, onPlaceStone, getStoneAtPosition, isValidPlacement, onPreviewPositionChange]);
+  }, [isReviewing, onReviewClick, isScoring, isMobile, isTablet, isPlayerTurn, onToggleDeadStone, onPlaceStone, getStoneAtPosition, isValidPlacement, onPreviewPositionChange]);
 
   // Handle mouse over board intersection
   const handleMouseOver = (x: number, y: number) => {
@@ -327,7 +285,7 @@ const GoBoard: React.FC<GoBoardProps> = ({
     };
     
     // Column labels (A, B, C, D, E, F, G, H, J, K, L, ...)
-    for (let x = 0; x < board.size; x++) {
+    for (let x = 0; x < boardWidth; x++) {
       const letter = getColumnLetter(x);
       coords.push(
         <text
@@ -348,7 +306,7 @@ const GoBoard: React.FC<GoBoardProps> = ({
         <text
           key={`col-bottom-${x}`}
           x={x * cellSize}
-          y={boardSize + boardPadding * 0.9 + cellSize * 0.1}
+          y={gridHeight + boardPadding * 0.9 + cellSize * 0.1}
           textAnchor="middle"
           fill={themeConfig.coordsColor}
           fontSize={cellSize * 0.35}
@@ -360,8 +318,8 @@ const GoBoard: React.FC<GoBoardProps> = ({
     }
     
     // Row labels (1, 2, 3, ...)
-    for (let y = 0; y < board.size; y++) {
-      const number = board.size - y;
+    for (let y = 0; y < boardHeight; y++) {
+      const number = boardHeight - y;
       coords.push(
         <text
           key={`row-${y}`}
@@ -380,7 +338,7 @@ const GoBoard: React.FC<GoBoardProps> = ({
       coords.push(
         <text
           key={`row-right-${y}`}
-          x={boardSize + boardPadding * 0.9}
+          x={gridWidth + boardPadding * 0.9}
           y={y * cellSize + cellSize * 0.12}
           textAnchor="middle"
           fill={themeConfig.coordsColor}
@@ -393,7 +351,7 @@ const GoBoard: React.FC<GoBoardProps> = ({
     }
     
     return coords;
-  }, [board.size, cellSize, boardSize, boardPadding, themeConfig.coordsColor]);
+  }, [boardWidth, boardHeight, cellSize, gridWidth, gridHeight, boardPadding, themeConfig.coordsColor]);
 
   // Render board grid lines
   const renderGrid = useCallback(() => {
@@ -402,14 +360,14 @@ const GoBoard: React.FC<GoBoardProps> = ({
     const gridLineWidth = (isMobile || isTablet) ? themeConfig.borderWidth * 0.6 : themeConfig.borderWidth;
     
     // Vertical lines
-    for (let x = 0; x < board.size; x++) {
+    for (let x = 0; x < boardWidth; x++) {
       lines.push(
         <line
           key={`v-${x}`}
           x1={x * cellSize}
           y1={0}
           x2={x * cellSize}
-          y2={boardSize}
+          y2={gridHeight}
           stroke={themeConfig.lineColor}
           strokeWidth={gridLineWidth}
         />
@@ -417,13 +375,13 @@ const GoBoard: React.FC<GoBoardProps> = ({
     }
     
     // Horizontal lines
-    for (let y = 0; y < board.size; y++) {
+    for (let y = 0; y < boardHeight; y++) {
       lines.push(
         <line
           key={`h-${y}`}
           x1={0}
           y1={y * cellSize}
-          x2={boardSize}
+          x2={gridWidth}
           y2={y * cellSize}
           stroke={themeConfig.lineColor}
           strokeWidth={gridLineWidth}
@@ -432,36 +390,59 @@ const GoBoard: React.FC<GoBoardProps> = ({
     }
     
     return lines;
-  }, [board.size, cellSize, boardSize, themeConfig.lineColor, themeConfig.borderWidth, isMobile, isTablet]);
+  }, [boardWidth, boardHeight, cellSize, gridWidth, gridHeight, themeConfig.lineColor, themeConfig.borderWidth, isMobile, isTablet]);
+
+  // Render review markup on top of the stones, contrasting with the stone underneath
+  const renderMarkup = () => {
+    return markup.map(({ position: { x, y }, shape, label }) => {
+      const stone = stonesToDisplay.find(s => s.position.x === x && s.position.y === y);
+      const color = stone?.color === 'black' ? '#fff' : stone?.color === 'white' ? '#000' : themeConfig.lineColor;
+      const cx = x * cellSize;
+      const cy = y * cellSize;
+      const size = cellSize * 0.25;
+      const common = { fill: 'none', stroke: color, strokeWidth: Math.max(1.5, cellSize * 0.06), pointerEvents: 'none' as const };
+      const key = `markup-${x}-${y}`;
+
+      switch (shape) {
+        case 'triangle':
+          return <polygon key={key} points={`${cx},${cy - size * 1.1} ${cx - size},${cy + size * 0.7} ${cx + size},${cy + size * 0.7}`} {...common} />;
+        case 'square':
+          return <rect key={key} x={cx - size * 0.8} y={cy - size * 0.8} width={size * 1.6} height={size * 1.6} {...common} />;
+        case 'circle':
+          return <circle key={key} cx={cx} cy={cy} r={size} {...common} />;
+        case 'cross':
+          return (
+            <path key={key} d={`M${cx - size * 0.8},${cy - size * 0.8} L${cx + size * 0.8},${cy + size * 0.8} M${cx + size * 0.8},${cy - size * 0.8} L${cx - size * 0.8},${cy + size * 0.8}`} {...common} />
+          );
+        default:
+          return (
+            <g key={key} pointerEvents="none">
+              {/* Hide the grid lines behind labels on empty points */}
+              {!stone && (
+                <rect x={cx - cellSize * 0.3} y={cy - cellSize * 0.3} width={cellSize * 0.6} height={cellSize * 0.6} fill={themeConfig.boardColor} />
+              )}
+              <text
+                x={cx}
+                y={cy}
+                textAnchor="middle"
+                dominantBaseline="central"
+                fontSize={cellSize * 0.5}
+                fontWeight="bold"
+                fill={color}
+              >
+                {label}
+              </text>
+            </g>
+          );
+      }
+    });
+  };
 
   // Render star points (hoshi)
   const renderHoshiPoints = useCallback(() => {
     const points: React.ReactElement[] = [];
     
-    // Get the standard star point positions for the board size
-    const starPoints: Array<[number, number]> = [];
-    
-    if (board.size === 9) {
-      starPoints.push([2, 2], [2, 6], [4, 4], [6, 2], [6, 6]);
-    } else if (board.size === 13) {
-      starPoints.push([3, 3], [3, 9], [6, 6], [9, 3], [9, 9]);
-    } else if (board.size === 15) {
-      starPoints.push([3, 3], [3, 11], [7, 7], [11, 3], [11, 11]);
-    } else if (board.size === 19) {
-      starPoints.push(
-        [3, 3], [3, 9], [3, 15],
-        [9, 3], [9, 9], [9, 15],
-        [15, 3], [15, 9], [15, 15]
-      );
-    } else if (board.size === 21) {
-      starPoints.push(
-        [3, 3], [3, 10], [3, 17],
-        [10, 3], [10, 10], [10, 17],
-        [17, 3], [17, 10], [17, 17]
-      );
-    }
-
-    starPoints.forEach(([x, y], index) => {
+    hoshiPoints.forEach(({ x, y }) => {
       points.push(
         <circle
           key={`hoshi-${x}-${y}`}
@@ -474,7 +455,7 @@ const GoBoard: React.FC<GoBoardProps> = ({
     });
     
     return points;
-  }, [board.size, cellSize, themeConfig.hoshiColor]);
+  }, [hoshiPoints, cellSize, themeConfig.hoshiColor]);
 
   // Render stones
   const renderStones = useCallback(() => {
@@ -559,11 +540,12 @@ const GoBoard: React.FC<GoBoardProps> = ({
   const renderCellOverlays = useCallback(() => {
     const overlays: React.ReactElement[] = [];
     
-    for (let y = 0; y < board.size; y++) {
-      for (let x = 0; x < board.size; x++) {
+    for (let y = 0; y < boardHeight; y++) {
+      for (let x = 0; x < boardWidth; x++) {
         const isHovered = !isMobile && !isTablet && hoverPosition && hoverPosition.x === x && hoverPosition.y === y;
         const isPreview = (isMobile || isTablet) && previewPosition && previewPosition.x === x && previewPosition.y === y;
         const territoryOwner = getTerritoryOwner(x, y);
+        const isSeki = isSekiPoint(x, y);
         const isValidHandicap = isValidHandicapPoint(x, y);
         const hasStone = getStoneAtPosition(x, y);
         
@@ -600,6 +582,24 @@ const GoBoard: React.FC<GoBoardProps> = ({
           );
         }
         
+        // Seki markers: groups in seki and the points they leave uncounted
+        if (isSeki && !territoryOwner) {
+          const markerSize = cellSize * (hasStone ? 0.3 : 0.26);
+          overlays.push(
+            <rect
+              key={`seki-${x}-${y}`}
+              x={x * cellSize - markerSize / 2}
+              y={y * cellSize - markerSize / 2}
+              width={markerSize}
+              height={markerSize}
+              fill={hasStone ? '#d97706' : 'none'}
+              stroke="#d97706"
+              strokeWidth={1.5}
+              pointerEvents="none"
+            />
+          );
+        }
+        
         // Hover indicator - transparent stone preview
         if (isHovered && !hasStone && !isScoring) {
           const stoneRadius = cellSize <= 15 ? cellSize * 0.48 : cellSize * 0.45;
@@ -692,13 +692,31 @@ const GoBoard: React.FC<GoBoardProps> = ({
             />
           );
         }
+        
+        // Ko point the last move attempt was refused on
+        if (koHighlight && koHighlight.x === x && koHighlight.y === y && !hasStone) {
+          overlays.push(
+            <rect
+              key={`ko-${x}-${y}`}
+              x={x * cellSize - cellSize * 0.35}
+              y={y * cellSize - cellSize * 0.35}
+              width={cellSize * 0.7}
+              height={cellSize * 0.7}
+              fill="rgba(220,38,38,0.15)"
+              stroke="#dc2626"
+              strokeWidth={2}
+              pointerEvents="none"
+              className="ko-indicator"
+            />
+          );
+        }
       }
     }
     
     return overlays;
-  }, [board.size, cellSize, isMobile, isTablet, hoverPosition, previewPosition, showTerritory, getTerritoryOwner, 
+  }, [boardWidth, boardHeight, cellSize, isMobile, isTablet, hoverPosition, previewPosition, showTerritory, getTerritoryOwner, isSekiPoint, 
       isValidHandicapPoint, getStoneAtPosition, handleCellClick, handleMouseOver, handleMouseLeave, 
-      handleTouchStart, isPlayerTurn, isValidPlacement, isScoring, currentTurn]);
+      handleTouchStart, isPlayerTurn, isValidPlacement, isScoring, currentTurn, koHighlight]);
 
   return (
     <div 
@@ -709,9 +727,9 @@ const GoBoard: React.FC<GoBoardProps> = ({
       <div className={`go-board-wrapper ${isReviewing ? 'review-mode' : ''}`}>
         <svg
           className="go-board-svg"
-          width={boardSize + boardPadding * 4}
-          height={boardSize + boardPadding * 4}
-          viewBox={`${-boardPadding * 2} ${-boardPadding * 2} ${boardSize + boardPadding * 4} ${boardSize + boardPadding * 4}`}
+          width={gridWidth + boardPadding * 4}
+          height={gridHeight + boardPadding * 4}
+          viewBox={`${-boardPadding * 2} ${-boardPadding * 2} ${gridWidth + boardPadding * 4} ${gridHeight + boardPadding * 4}`}
           preserveAspectRatio="xMidYMid meet"
           style={{ 
             backgroundColor: themeConfig.boardColor,
@@ -727,8 +745,8 @@ const GoBoard: React.FC<GoBoardProps> = ({
             <rect
               x={-boardPadding * 2}
               y={-boardPadding * 2}
-              width={boardSize + boardPadding * 4}
-              height={boardSize + boardPadding * 4}
+              width={gridWidth + boardPadding * 4}
+              height={gridHeight + boardPadding * 4}
               fill={`url(#wood-texture-${themeConfig.woodTexture})`}
               rx="8"
               ry="8"
@@ -768,6 +786,9 @@ const GoBoard: React.FC<GoBoardProps> = ({
           {/* Active stones */}
           <g>{renderStones()}</g>
           
+          {/* Review markup */}
+          {markup.length > 0 && <g>{renderMarkup()}</g>}
+          
           {/* Interactive overlays */}
           <g>{renderCellOverlays()}</g>
         </svg>
@@ -787,7 +808,7 @@ const GoBoard: React.FC<GoBoardProps> = ({
 
       {isHandicapPlacement && (
         <div className="absolute top-0 left-0 bg-neutral-800/90 text-white px-3 py-1 rounded-br-lg text-sm font-medium">
-          Handicap Mode: Place stones on highlighted points
+          Handicap Mode: Black places {gameState?.pendingHandicap || 0} more stone{gameState?.pendingHandicap === 1 ? '' : 's'} (star points highlighted)
         </div>
       )}
     </div>
@@ -11,7 +11,7 @@ interface MobileStoneControlsProps {
   isFinished?: boolean;
   previewPosition: Position | null;
   onPlaceStone: () => void;
-  boardSize: number;
+  boardSize: number; // Number of rows, used for coordinate labels
 }
 
 const MobileStoneControls: React.FC<MobileStoneControlsProps> = ({
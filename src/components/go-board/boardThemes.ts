@@ -0,0 +1,74 @@
+// Board styles shared by GoBoard and exported diagrams
+export type BoardTheme = 'default' | 'dark-wood-3d' | 'light-wood-3d' | 'universe';
+
+// Theme configurations for different board styles
+export const BOARD_THEMES = {
+  'default': {
+    boardColor: '#e6c588',
+    lineColor: '#333',
+    hoshiColor: '#333',
+    borderWidth: 2,
+    stoneEffects: {
+      black: 'brightness(1.1) drop-shadow(0 1px 1px rgba(0,0,0,0.4))',
+      white: 'drop-shadow(0 1px 1px rgba(0,0,0,0.1))'
+    },
+    coordsColor: '#333',
+    stoneGradient: false,
+    woodTexture: null
+  },
+  'dark-wood-3d': {
+    boardColor: '#6b4423',
+    lineColor: '#222',
+    hoshiColor: '#222',
+    borderWidth: 2,
+    stoneEffects: {
+      black: 'brightness(1.1) drop-shadow(0 2px 3px rgba(0,0,0,0.6))',
+      white: 'drop-shadow(0 2px 3px rgba(0,0,0,0.3))'
+    },
+    coordsColor: '#ddd',
+    stoneGradient: true,
+    woodTexture: 'darkwood' as const
+  },
+  'light-wood-3d': {
+    boardColor: '#d9b383',
+    lineColor: '#333',
+    hoshiColor: '#333',
+    borderWidth: 2,
+    stoneEffects: {
+      black: 'brightness(1.1) drop-shadow(0 2px 3px rgba(0,0,0,0.6))',
+      white: 'drop-shadow(0 2px 3px rgba(0,0,0,0.2))'
+    },
+    coordsColor: '#333',
+    stoneGradient: true,
+    woodTexture: 'lightwood' as const
+  },
+  'universe': {
+    boardColor: '#1a1a2e',
+    lineColor: '#4d4d8f',
+    hoshiColor: '#7f7fc4',
+    borderWidth: 2,
+    stoneEffects: {
+      black: 'brightness(0.8) drop-shadow(0 0 5px rgba(0,0,0,0.8))',
+      white: 'brightness(1.2) drop-shadow(0 0 8px rgba(255,255,255,0.5))'
+    },
+    coordsColor: '#7f7fc4',
+    stoneGradient: false,
+    woodTexture: null
+  }
+};
+
+export type BoardThemeConfig = typeof BOARD_THEMES[BoardTheme];
+
+/**
+ * Theme configuration for a board theme, falling back to the default board
+ */
+export const getBoardThemeConfig = (theme: BoardTheme): BoardThemeConfig => BOARD_THEMES[theme] || BOARD_THEMES.default;
+
+/**
+ * Board style for a theme chosen in BoardThemeContext
+ */
+export const getBoardTheme = (currentTheme: string): BoardTheme => {
+  return currentTheme === 'wood-3d' ? 'dark-wood-3d' :
+    currentTheme === 'light-wood-3d' ? 'light-wood-3d' :
+    currentTheme === 'universe' ? 'universe' : 'default';
+};
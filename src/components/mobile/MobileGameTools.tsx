@@ -1,5 +1,6 @@
 import React, { useState } from 'react';
 import { GameState, Player } from '../../types/go';
+import { getBoardDimensions, hasDeadStoneAgreement, isPassAllowed } from '../../rules';
 import useDeviceDetect from '../../hooks/useDeviceDetect';
 import { useAppTheme } from '../../context/AppThemeContext';
 import SoundSettings from '../SoundSettings';
@@ -44,6 +45,7 @@ const MobileGameTools: React.FC<MobileGameToolsProps> = ({
   const { isMobile, isTablet } = useDeviceDetect();
   const { isDarkMode } = useAppTheme();
   const { currentTurn, status, history, undoRequest, board } = gameState;
+  const { width: boardWidth, height: boardHeight } = getBoardDimensions(board);
   
   // State for confirmation modals
   const [showResignConfirm, setShowResignConfirm] = useState(false);
@@ -61,6 +63,7 @@ const MobileGameTools: React.FC<MobileGameToolsProps> = ({
   // Check if this is an AI game
   const isAIGame = gameState.players.some(player => player.isAI);
   const isHumanPlayer = currentPlayer && !currentPlayer.isAI;
+  const isLocalGame = gameState.isLocal === true && !gameState.browserBot;
 
   // Helper functions from GameInfo
   const getScoringRuleName = () => {
@@ -70,6 +73,8 @@ const MobileGameTools: React.FC<MobileGameToolsProps> = ({
       case 'korean': return 'Korean';
       case 'aga': return 'AGA';
       case 'ing': return 'Ing';
+      case 'tromp-taylor': return 'Tromp-Taylor';
+      case 'new-zealand': return 'New Zealand';
       default: return 'Japanese';
     }
   };
@@ -137,7 +142,7 @@ const MobileGameTools: React.FC<MobileGameToolsProps> = ({
           <div className="mb-4 text-center">
             <div className="text-sm text-neutral-600 mb-2">Game in Progress</div>
             <div className="text-xs text-neutral-500">
-              Move {history.length} • {isPlayerTurn ? "Your turn" : "Opponent's turn"}
+              Move {history.length} • {isLocalGame ? `${currentPlayer?.username} to play` : isPlayerTurn ? "Your turn" : "Opponent's turn"}
             </div>
           </div>
         )}
@@ -146,7 +151,9 @@ const MobileGameTools: React.FC<MobileGameToolsProps> = ({
           <div className="mb-4 text-center">
             <div className="text-sm text-orange-600 mb-2 font-medium">Scoring Phase</div>
             <div className="text-xs text-neutral-500">
-              {isSpectator ? "Players are scoring the game" : "Mark dead stones and confirm score"}
+              {isSpectator
+                ? "Players are scoring the game"
+                : hasDeadStoneAgreement(gameState.scoringRule) ? "Mark dead stones and confirm score" : "Confirm score"}
             </div>
           </div>
         )}
@@ -156,7 +163,7 @@ const MobileGameTools: React.FC<MobileGameToolsProps> = ({
           <div className="grid grid-cols-2 gap-3 mb-3">
             <button
               onClick={onPassTurn}
-              disabled={!isPlayerTurn || isSpectator}
+              disabled={!isPlayerTurn || isSpectator || !isPassAllowed(gameState)}
               className={`flex items-center justify-center gap-2 ${
                 isMobile ? 'py-3' : 'py-4'
               } bg-slate-100 hover:bg-slate-200 text-slate-700 border border-slate-200 hover:border-slate-300 rounded-lg disabled:opacity-50 disabled:cursor-not-allowed transition-all duration-200 font-medium shadow-sm hover:shadow-md`}
@@ -169,7 +176,7 @@ const MobileGameTools: React.FC<MobileGameToolsProps> = ({
             
             <button
               onClick={onRequestUndo}
-              disabled={history.length === 0 || !!undoRequest || (isPlayerTurn && !isAIGame) || isSpectator || (isAIGame && !isHumanPlayer) || (isAIGame && history.length < 2) || (isAIGame && gameState.aiUndoUsed)}
+              disabled={history.length === 0 || !!undoRequest || (isPlayerTurn && !isAIGame && !isLocalGame) || isSpectator || (isAIGame && !isHumanPlayer) || (isAIGame && history.length < 2) || (isAIGame && gameState.aiUndoUsed)}
               className={`flex items-center justify-center gap-2 ${
                 isMobile ? 'py-3' : 'py-4'
               } ${!!undoRequest 
@@ -352,7 +359,7 @@ const MobileGameTools: React.FC<MobileGameToolsProps> = ({
             </h3>
             <div className={`grid grid-cols-1 gap-1 ${isMobile ? 'text-xs' : 'text-sm'} text-neutral-600`}>
               <div>Moves: {totalStones}</div>
-              <div>Board: {board.size}×{board.size}</div>
+              <div>Board: {boardWidth}×{boardHeight}</div>
               <div>Komi: {gameState.komi}</div>
               <div>Scoring: {getScoringRuleName()}</div>
               <div>Type: {getGameTypeDescription()}</div>
@@ -10,5 +10,7 @@ export const STORAGE_KEYS = {
   HANDICAP: 'gosei-handicap',
   SCORING_RULE: 'gosei-scoring-rule',
   GAME_TYPE: 'gosei-game-type',
-  DIRECT_AI_FILTER_CATEGORY: 'gosei-direct-ai-filter-category'
+  DIRECT_AI_FILTER_CATEGORY: 'gosei-direct-ai-filter-category',
+  PROBLEM_PROGRESS: 'gosei-problem-progress',
+  CORRESPONDENCE_GAMES: 'gosei-correspondence-games'
 } as const; 
\ No newline at end of file
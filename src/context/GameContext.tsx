@@ -1,24 +1,47 @@
-import React, { createContext, useContext, useReducer, useEffect, ReactNode } from 'react';
+import React, { createContext, useCallback, useContext, useReducer, useEffect, useRef, ReactNode } from 'react';
 import { io, Socket } from 'socket.io-client';
 import { v4 as uuidv4 } from 'uuid';
-import { GameState, Position, Player, StoneColor, GameMove, GameOptions, Stone, ScoringRule, Territory, GameType, ColorPreference } from '../types/go';
+import { GameState, Position, Player, StoneColor, GameMove, GameOptions, Stone, ScoringRule, Territory, GameType, ColorPreference, BoardMarkup, VariationMove, SimulSession } from '../types/go';
 import { applyGoRules } from '../utils/goGameLogic';
+import {
+  MoveRejectionReason,
+  checkMove,
+  getKoRule,
+  recordPosition,
+  createBoard,
+  getBoardDimensions,
+  getHandicapPlacementError,
+  placeHandicapStone,
+  hasDeadStoneAgreement,
+  isRengoPlayerToMove,
+  isTeacher,
+  getColorRejection,
+  MIN_SIMUL_BOARDS,
+  getStartingClock,
+  hasGameClock,
+  readClock,
+  stopClock,
+  replayMoves,
+  isPassAllowed,
+  DEFAULT_CAPTURE_TARGET
+} from '../rules';
 import { SOCKET_URL } from '../config';
 import { 
   calculateChineseScore, 
   calculateJapaneseScore,
   calculateKoreanScore,
   calculateAGAScore,
-  calculateIngScore
+  calculateIngScore,
+  calculateTrompTaylorScore,
+  calculateNewZealandScore,
+  findSekiPoints
 } from '../utils/scoringUtils';
-import { getHandicapStones, getAdjustedKomi, getStartingColor } from '../utils/handicapUtils';
+import { getHandicapStones, getKomi, getStartingColor } from '../utils/handicapUtils';
 import { playStoneSound } from '../utils/soundUtils';
+import { getMoveMessage } from '../utils/moveMessages';
+import { rememberCorrespondenceGame } from '../utils/correspondenceGames';
+import { BROWSER_BOT_NAMES, BotMoveRequest } from '../utils/browserBot';
 import { 
-  isWithinBounds, 
-  getStoneAt, 
-  isKoViolation, 
-  isSuicideMove, 
-  captureDeadStones,
   getDeadStoneGroup,
   findStoneAt,
   getConnectedGroup,
@@ -41,6 +64,8 @@ interface GameContextType {
   loading: boolean;
   error: string | null;
   moveError: string | null;
+  moveErrorReason: MoveRejectionReason | null; // Set when the error is a refused move
+  moveErrorPosition: Position | null; // The refused point, e.g. to highlight a ko
   currentPlayer: Player | null;
   createGame: (options: GameOptions & { playerName?: string }) => void;
   joinGame: (gameId: string, username: string, asSpectator?: boolean) => void;
@@ -59,6 +84,17 @@ interface GameContextType {
   respondToUndoRequest: (accept: boolean) => void;
   cancelScoring: () => void;
   forceScoring: () => void; // New function to force scoring when AI doesn't respond
+  assignTeam: (playerId: string, color: 'black' | 'white') => void; // Rengo lobby
+  setTeamName: (color: 'black' | 'white', name: string) => void; // Rengo lobby, host only
+  startRengo: () => void; // Rengo lobby, host only
+  teacherUndo: (moveIndex: number) => void; // Teaching games: take back to before this move
+  setTeachingMarkup: (markup: BoardMarkup[]) => void; // Teaching games: markup on the current position
+  showVariation: (moves: VariationMove[]) => void; // Teaching games: show a line from the current position
+  closeVariation: () => void; // Teaching games: back to the game position
+  setTeacherControl: (enabled: boolean) => void; // Teaching games: play the student's stones
+  simul: SimulSession | null; // The simul being watched, with its boards
+  watchSimul: (simulId: string) => void;
+  openSimulBoard: (gameId: string) => Promise<void>; // Simul host: go to another board
 }
 
 // Create context with default values
@@ -67,6 +103,8 @@ const GameContext = createContext<GameContextType>({
   loading: false,
   error: null,
   moveError: null,
+  moveErrorReason: null,
+  moveErrorPosition: null,
   currentPlayer: null,
   createGame: () => {},
   joinGame: () => {},
@@ -85,8 +123,25 @@ const GameContext = createContext<GameContextType>({
   respondToUndoRequest: () => {},
   cancelScoring: () => {},
   forceScoring: () => {},
+  assignTeam: () => {},
+  setTeamName: () => {},
+  startRengo: () => {},
+  teacherUndo: () => {},
+  setTeachingMarkup: () => {},
+  showVariation: () => {},
+  closeVariation: () => {},
+  setTeacherControl: () => {},
+  simul: null,
+  watchSimul: () => {},
+  openSimulBoard: async () => {},
 });
 
+// A refused move: the reason is shown as a localized message
+interface MoveRejection {
+  reason: MoveRejectionReason;
+  position?: Position | null;
+}
+
 // Action types
 type GameAction =
   | { type: 'CREATE_GAME_START' }
@@ -95,11 +150,12 @@ type GameAction =
   | { type: 'JOIN_GAME_SUCCESS'; payload: { gameState: GameState; player: Player } }
   | { type: 'UPDATE_GAME_STATE'; payload: GameState }
   | { type: 'GAME_ERROR'; payload: string }
-  | { type: 'MOVE_ERROR'; payload: string }
+  | { type: 'MOVE_ERROR'; payload: string | MoveRejection }
   | { type: 'CLEAR_MOVE_ERROR' }
   | { type: 'RESET_GAME' }
   | { type: 'LEAVE_GAME' }
   | { type: 'SET_SOCKET'; payload: Socket | null }
+  | { type: 'SIMUL_UPDATE'; payload: SimulSession }
   | { type: 'UPDATE_PLAYER_TIME'; payload: { playerId: string; color: StoneColor; timeRemaining: number; byoYomiPeriodsLeft?: number; byoYomiTimeLeft?: number; isInByoYomi?: boolean } };
 
 // Reducer function
@@ -107,7 +163,7 @@ const gameReducer = (state: GameContextState, action: GameAction): GameContextSt
   switch (action.type) {
     case 'CREATE_GAME_START':
     case 'JOIN_GAME_START':
-      return { ...state, loading: true, error: null, moveError: null };
+      return { ...state, loading: true, error: null, moveError: null, moveErrorReason: null, moveErrorPosition: null };
       
     case 'CREATE_GAME_SUCCESS':
     case 'JOIN_GAME_SUCCESS':
@@ -121,18 +177,41 @@ const gameReducer = (state: GameContextState, action: GameAction): GameContextSt
         loading: false,
         error: null,
         moveError: null,
+        moveErrorReason: null,
+        moveErrorPosition: null,
       };
       
-    case 'UPDATE_GAME_STATE':
+    case 'UPDATE_GAME_STATE': {
+      // In a local game the device passes between the players: whoever is to move is playing.
+      // Against the browser bot the human keeps the board.
+      if (action.payload.isLocal) {
+        return {
+          ...state,
+          gameState: {
+            ...action.payload,
+            socket: state.socket
+          },
+          currentPlayer: action.payload.players.find(p => p.color === action.payload.currentTurn && !p.isAI) || state.currentPlayer,
+          loading: false,
+          error: null,
+        };
+      }
+      
+      // Follow the server when our color changes, e.g. after a rengo team change
+      const updatedPlayer = state.currentPlayer && action.payload.players.find(p => p.id === state.currentPlayer?.id);
       return {
         ...state,
         gameState: {
           ...action.payload,
           socket: state.socket
         },
+        currentPlayer: state.currentPlayer && updatedPlayer && updatedPlayer.color !== state.currentPlayer.color
+          ? { ...state.currentPlayer, color: updatedPlayer.color }
+          : state.currentPlayer,
         loading: false,
         error: null,
       };
+    }
       
     case 'GAME_ERROR':
       return {
@@ -142,15 +221,27 @@ const gameReducer = (state: GameContextState, action: GameAction): GameContextSt
       };
     
     case 'MOVE_ERROR':
+      if (typeof action.payload === 'string') {
+        return {
+          ...state,
+          moveError: action.payload,
+          moveErrorReason: null,
+          moveErrorPosition: null,
+        };
+      }
       return {
         ...state,
-        moveError: action.payload,
+        moveError: getMoveMessage(action.payload.reason),
+        moveErrorReason: action.payload.reason,
+        moveErrorPosition: action.payload.position || null,
       };
     
     case 'CLEAR_MOVE_ERROR':
       return {
         ...state,
         moveError: null,
+        moveErrorReason: null,
+        moveErrorPosition: null,
       };
       
     case 'RESET_GAME':
@@ -168,6 +259,12 @@ const gameReducer = (state: GameContextState, action: GameAction): GameContextSt
         socket: action.payload,
       };
       
+    case 'SIMUL_UPDATE':
+      return {
+        ...state,
+        simul: action.payload,
+      };
+      
     case 'UPDATE_PLAYER_TIME':
       // Only update if gameState exists
       if (!state.gameState) return state;
@@ -200,7 +297,10 @@ interface GameContextState {
   loading: boolean;
   error: string | null;
   moveError: string | null;
+  moveErrorReason: MoveRejectionReason | null;
+  moveErrorPosition: Position | null;
   socket: Socket | null;
+  simul: SimulSession | null;
 }
 
 const initialState: GameContextState = {
@@ -209,7 +309,10 @@ const initialState: GameContextState = {
   loading: false,
   error: null,
   moveError: null,
+  moveErrorReason: null,
+  moveErrorPosition: null,
   socket: null,
+  simul: null,
 };
 
 // Provider component
@@ -388,6 +491,21 @@ export const GameProvider: React.FC<GameProviderProps> = ({
           console.log(`Turn passed by ${passData.playerId}, next turn: ${passData.nextTurn}`);
         });
         
+        // Simul boards change whenever a move is played on any of them
+        newSocket.on('simulState', (simul: SimulSession) => {
+          dispatch({ type: 'SIMUL_UPDATE', payload: simul });
+        });
+        
+        newSocket.on('simulNotFound', () => {
+          dispatch({ type: 'GAME_ERROR', payload: 'This simul has ended or does not exist.' });
+        });
+        
+        // The server refused a move; it follows up with the authoritative game state
+        newSocket.on('moveRejected', (rejection: { reason: MoveRejectionReason; position?: Position | null; message: string }) => {
+          console.warn(`Move rejected by server: ${rejection.reason}`);
+          dispatch({ type: 'MOVE_ERROR', payload: { reason: rejection.reason, position: rejection.position } });
+        });
+        
         newSocket.on('playerJoined', (joinData) => {
           console.log(`Player ${joinData.username} (${joinData.playerId}) joined the game`);
           
@@ -815,7 +933,7 @@ export const GameProvider: React.FC<GameProviderProps> = ({
 
   // Add timer effect to component
   useEffect(() => {
-    if (state.socket && state.gameState?.status === 'playing' && 
+    if (state.socket && state.gameState?.status === 'playing' && !state.gameState.isLocal &&
         ((state.gameState.timeControl?.timePerMove ?? 0) > 0 || (state.gameState.timePerMove ?? 0) > 0)) {
       // Send timer ticks less frequently since we now have better server synchronization
       const timerInterval = setInterval(() => {
@@ -904,6 +1022,56 @@ export const GameProvider: React.FC<GameProviderProps> = ({
     }
   }, [state.socket]);
 
+  // A local game lost on time by the player to move
+  const finishOnTime = (gameState: GameState, mover: Player, clock: Partial<Player>): GameState => ({
+    ...gameState,
+    players: gameState.players.map(player => player.id === mover.id ? { ...player, ...clock } : player),
+    status: 'finished',
+    winner: mover.color === 'black' ? 'white' : 'black',
+    result: mover.color === 'black' ? 'W+T' : 'B+T'
+  });
+  
+  // Local games keep their own clock: the player to move loses once it runs out
+  useEffect(() => {
+    const gameState = state.gameState;
+    if (!gameState?.isLocal || gameState.status !== 'playing' || gameState.pendingHandicap || !hasGameClock(gameState)) {
+      return;
+    }
+    const mover = gameState.players.find(player => player.color === gameState.currentTurn);
+    if (!mover) return;
+    
+    const clockInterval = setInterval(() => {
+      const seconds = Math.floor((Date.now() - (gameState.lastMoveTime || Date.now())) / 1000);
+      const { timedOut, ...clock } = readClock(mover, gameState, seconds);
+      if (timedOut) {
+        dispatch({ type: 'UPDATE_GAME_STATE', payload: finishOnTime(gameState, mover, clock) });
+      }
+    }, 1000);
+    
+    return () => clearInterval(clockInterval);
+  }, [state.gameState]);
+  
+  // Local games: the mover's thinking time comes off their clock before the move
+  // stands. A player whose time ran out loses instead.
+  const applyLocalClock = (before: GameState, after: GameState): GameState => {
+    const now = Date.now();
+    const mover = before.players.find(player => player.color === before.currentTurn);
+    if (!mover || !hasGameClock(before)) {
+      return { ...after, lastMoveTime: now };
+    }
+    
+    const seconds = Math.floor((now - (before.lastMoveTime || now)) / 1000);
+    const { timedOut, ...clock } = stopClock(mover, before, seconds);
+    if (timedOut) {
+      return finishOnTime(before, mover, clock);
+    }
+    return {
+      ...after,
+      players: after.players.map(player => player.id === mover.id ? { ...player, ...clock } : player),
+      lastMoveTime: now
+    };
+  };
+  
   // Helper to generate a short, readable game code
   const generateGameCode = (): string => {
     // Create a short, readable code (e.g., "BLUE-STONE-42")
@@ -1059,13 +1227,17 @@ export const GameProvider: React.FC<GameProviderProps> = ({
     
     // Set default options if not provided
     const { boardSize = 19, handicap = 0, scoringRule = 'japanese', timeControlOptions } = options;
+    const boardExtent = options.boardDimensions || boardSize;
+    // Correspondence games have only the days per move on their clock
+    const isCorrespondence = options.gameType === 'correspondence';
     const {
       timeControl = 30,
       timePerMove = 0,
       byoYomiPeriods = 0,
       byoYomiTime = 30,
-      fischerTime = 0
-    } = timeControlOptions || {};
+      fischerTime = 0,
+      correspondenceDays = 3
+    } = isCorrespondence ? { ...timeControlOptions, timeControl: 0, timePerMove: 0, byoYomiPeriods: 0, fischerTime: 0 } : timeControlOptions || {};
     const playerName = options.playerName || 'Player 1';
     const colorPreference = options.colorPreference || 'random';
     
@@ -1089,22 +1261,29 @@ export const GameProvider: React.FC<GameProviderProps> = ({
       timeRemaining: timeControl > 0 ? timeControl * 60 : undefined // Initialize with full time control in seconds
     };
     
+    // With free placement black puts the handicap stones down before white's first move
+    const isFreeHandicap = options.handicapPlacement === 'free' && handicap >= 2 && !options.vsAI;
+    
     // Get handicap stones if applicable
-    const handicapStones = getHandicapStones(boardSize, handicap);
+    const handicapStones = isFreeHandicap ? [] : getHandicapStones(boardExtent, handicap);
     
     // Determine starting color based on handicap
-    const startingColor = getStartingColor(handicap);
-    
-    // Calculate adjusted komi based on handicap and rules
-    const adjustedKomi = getAdjustedKomi(handicap, scoringRule);
+    const startingColor = isFreeHandicap ? 'black' : getStartingColor(handicap);
     
-    // Create the initial game state
-    const gameId = uuidv4(); // Generate unique game ID
-    const gameCode = generateGameCode();
+    // Use the chosen komi, or the usual komi for the handicap and rules
+    const adjustedKomi = getKomi(options.komi, handicap, scoringRule);
     
     // Determine game type based on settings
     let gameType: GameType;
-    if (timePerMove > 0) {
+    if (options.gameType === 'rengo') {
+      gameType = 'rengo';
+    } else if (isCorrespondence) {
+      gameType = 'correspondence';
+    } else if (options.gameType === 'teaching' || options.isTeachingMode) {
+      gameType = 'teaching';
+    } else if (options.gameType === 'capture') {
+      gameType = 'capture';
+    } else if (timePerMove > 0) {
       gameType = 'blitz';
     } else if (handicap > 0) {
       gameType = 'handicap';
@@ -1112,43 +1291,110 @@ export const GameProvider: React.FC<GameProviderProps> = ({
       gameType = 'even';
     }
     
-    // Create new game state
-    const gameState: GameState = {
-      id: gameId,
-      code: gameCode,
-      board: {
-        size: boardSize,
-        stones: handicapStones
-      },
-      players: [player],
-      currentTurn: handicap > 0 ? 'white' : 'black',
-      history: [],
-      capturedStones: {
-        black: 0,
-        white: 0
-      },
-      status: 'waiting',
-      winner: null,
-      scoringRule: scoringRule,
-      timeControl: {
-        timeControl,
-        timePerMove,
-        byoYomiPeriods,
-        byoYomiTime,
-        fischerTime
-      },
-      komi: adjustedKomi,
-      gameType: gameType,
-      handicap: handicap,
-      timePerMove: timePerMove, // Add timePerMove field to gameState
-      // AI Game Properties
-      vsAI: options.vsAI,
-      aiLevel: options.aiLevel,
-      selectedNetworkId: options.selectedNetworkId
+    // Create new game state; a simul gets one for each board, with its own id and code
+    const buildGameState = (): GameState => {
+      const initialBoard = createBoard(boardExtent, handicapStones);
+      return {
+        id: uuidv4(), // Generate unique game ID
+        code: generateGameCode(),
+        board: initialBoard,
+        players: [player],
+        currentTurn: startingColor,
+        history: [],
+        capturedStones: {
+          black: 0,
+          white: 0
+        },
+        status: 'waiting',
+        winner: null,
+        scoringRule: scoringRule,
+        koRule: getKoRule(options.koRule, scoringRule),
+        positionHistory: recordPosition([], initialBoard, startingColor),
+        timeControl: {
+          timeControl,
+          timePerMove,
+          byoYomiPeriods,
+          byoYomiTime,
+          fischerTime,
+          correspondenceDays: isCorrespondence ? correspondenceDays : 0
+        },
+        komi: adjustedKomi,
+        gameType: gameType,
+        teacherId: gameType === 'teaching' ? playerId : undefined,
+        captureTarget: gameType === 'capture' ? options.captureTarget || DEFAULT_CAPTURE_TARGET : undefined,
+        handicap: handicap,
+        handicapPlacement: isFreeHandicap ? 'free' : 'fixed',
+        pendingHandicap: isFreeHandicap ? handicap : undefined,
+        handicapPositions: handicapStones.map(stone => stone.position),
+        timePerMove: timePerMove, // Add timePerMove field to gameState
+        createdAt: Date.now(),
+        // AI Game Properties
+        vsAI: options.vsAI,
+        aiLevel: options.aiLevel,
+        selectedNetworkId: options.selectedNetworkId
+      };
     };
+    const gameState = buildGameState();
+    const gameId = gameState.id;
+    
+    // A local game needs no server: both players sit at this device and play starts at once.
+    // The browser bot is a local game too, with the bot in the second seat.
+    const browserBot = !!options.vsAI && !!options.browserBot;
+    if (options.localGame || browserBot) {
+      const botLevel = options.aiLevel || 'normal';
+      const opponent: Player = browserBot ? {
+        id: uuidv4(),
+        username: BROWSER_BOT_NAMES[botLevel],
+        color: playerColor === 'black' ? 'white' : 'black',
+        isAI: true
+      } : {
+        id: uuidv4(),
+        username: options.opponentName || 'Player 2',
+        color: playerColor === 'black' ? 'white' : 'black'
+      };
+      const localGameState: GameState = {
+        ...gameState,
+        isLocal: true,
+        browserBot,
+        aiLevel: browserBot ? botLevel : gameState.aiLevel,
+        status: 'playing',
+        players: [player, opponent].map(seated => ({ ...seated, ...getStartingClock(gameState) })),
+        lastMoveTime: Date.now()
+      };
+      dispatch({
+        type: 'CREATE_GAME_SUCCESS',
+        payload: {
+          gameState: localGameState,
+          player: browserBot ? player : localGameState.players.find(seated => seated.color === startingColor) || player
+        }
+      });
+      return;
+    }
     
     // Send the game data to the server
-    if (state.socket) {
+    const simulBoards = options.simulBoards || 1;
+    if (state.socket && simulBoards >= MIN_SIMUL_BOARDS) {
+      const simulId = uuidv4();
+      const gameStates = [gameState];
+      while (gameStates.length < simulBoards) {
+        gameStates.push(buildGameState());
+      }
+      gameStates.forEach(board => {
+        board.simulId = simulId;
+      });
+      
+      console.log(`Sending createSimul request to server with ${gameStates.length} boards`);
+      state.socket.emit('createSimul', {
+        simul: { id: simulId, hostName: playerName },
+        gameStates,
+        playerId,
+        captcha: options.captcha,
+        captchaAnswer: options.captchaAnswer,
+        multiCaptcha: options.multiCaptcha,
+        captchaAnswers: options.captchaAnswers,
+        playerName: playerName
+      });
+    } else if (state.socket) {
       console.log('Sending createGame request to server with game state:', gameState.id);
       console.log('AI Game settings:', { vsAI: options.vsAI, aiLevel: options.aiLevel });
       state.socket.emit('createGame', {
@@ -1186,6 +1432,10 @@ export const GameProvider: React.FC<GameProviderProps> = ({
     } catch (e) {
       console.warn('Failed to save game to localStorage:', e);
     }
+    
+    if (gameType === 'correspondence') {
+      rememberCorrespondenceGame(gameId, playerId);
+    }
   };
   
   // Join an existing game
@@ -1231,8 +1481,11 @@ export const GameProvider: React.FC<GameProviderProps> = ({
         foundGame.spectators = [];
       }
       
+      // Rengo games take any number of players until the host starts them
+      const isRengoLobby = foundGame.gameType === 'rengo' && foundGame.status === 'waiting';
+      
       // Check if game already has two players and is in progress
-      if (foundGame.players.length >= 2 && !asSpectator) {
+      if (foundGame.players.length >= 2 && !asSpectator && !isRengoLobby) {
         // If the player is trying to rejoin (e.g., after refresh)
         const existingPlayer = foundGame.players.find(p => 
           p.username.toLowerCase() === username.toLowerCase());
@@ -1251,6 +1504,10 @@ export const GameProvider: React.FC<GameProviderProps> = ({
             });
           }
           
+          if (foundGame.gameType === 'correspondence') {
+            rememberCorrespondenceGame(foundGame.id, existingPlayer.id);
+          }
+          
           dispatch({
             type: 'JOIN_GAME_SUCCESS',
             payload: { 
@@ -1267,7 +1524,7 @@ export const GameProvider: React.FC<GameProviderProps> = ({
       }
       
       // Handle spectator joining
-      if (asSpectator || foundGame.players.length >= 2) {
+      if (asSpectator || (foundGame.players.length >= 2 && !isRengoLobby)) {
         // Check if already a spectator
         const existingSpectator = foundGame.spectators.find(s => 
           s.username.toLowerCase() === username.toLowerCase());
@@ -1326,7 +1583,11 @@ export const GameProvider: React.FC<GameProviderProps> = ({
         // Determine color based on existing players
         let playerColor: StoneColor = 'white'; // Default for second player
         
-        if (foundGame.players.length > 0) {
+        if (isRengoLobby) {
+          // Join the smaller team; the server has the final say
+          const blackCount = foundGame.players.filter(p => p.color === 'black').length;
+          playerColor = blackCount > foundGame.players.length - blackCount ? 'white' : 'black';
+        } else if (foundGame.players.length > 0) {
           const firstPlayerColor = foundGame.players[0].color;
           playerColor = firstPlayerColor === 'black' ? 'white' : 'black';
         }
@@ -1340,15 +1601,15 @@ export const GameProvider: React.FC<GameProviderProps> = ({
         updatedPlayers.push(player);
       }
       
-      // Update game status to playing if we now have 2 players
-      const newStatus = updatedPlayers.length >= 2 ? 'playing' : 'waiting';
+      // Update game status to playing if we now have 2 players (rengo games wait for the host)
+      const newStatus = updatedPlayers.length >= 2 && !isRengoLobby ? 'playing' : 'waiting';
       
       const updatedGameState: GameState = {
         ...foundGame,
         players: updatedPlayers,
         status: newStatus,
-        // Preserve white's turn for handicap games
-        currentTurn: foundGame.gameType === 'handicap' ? 'white' : 'black'
+        // Preserve white's turn for handicap games (black still starts with a handicap of one)
+        currentTurn: getStartingColor(foundGame.handicap)
       };
       
       // Update the game in localStorage
@@ -1382,6 +1643,10 @@ export const GameProvider: React.FC<GameProviderProps> = ({
         console.warn('Socket not connected, game state will only be synchronized locally');
       }
       
+      if (updatedGameState.gameType === 'correspondence') {
+        rememberCorrespondenceGame(updatedGameState.id, player.id);
+      }
+      
       dispatch({
         type: 'JOIN_GAME_SUCCESS',
         payload: { gameState: updatedGameState, player },
@@ -1408,50 +1673,69 @@ export const GameProvider: React.FC<GameProviderProps> = ({
       console.log(`Handicap stones on board: ${gameState.board.stones.filter(s => s.color === 'black').length}`);
     }
     
-    // Prevent playing if game status is not 'playing' (still waiting for opponent)
-    if (gameState.status !== 'playing') {
-      console.log("Cannot play - waiting for opponent to join");
-      dispatch({ type: 'MOVE_ERROR', payload: 'Waiting for opponent to join' });
+    // A teacher in control plays whichever color is to move
+    const color = gameState.teacherControl && isTeacher(gameState, currentPlayer.id)
+      ? gameState.currentTurn
+      : currentPlayer.color;
+    const colorRejection = getColorRejection(gameState, currentPlayer, color);
+    if (colorRejection) {
+      dispatch({ type: 'MOVE_ERROR', payload: { reason: colorRejection, position } });
       return;
     }
     
-    // Check if it's the player's turn
-    if (currentPlayer.color !== gameState.currentTurn) {
-      console.log(`Not your turn - current turn: ${gameState.currentTurn}, player color: ${currentPlayer.color}`);
-      dispatch({ type: 'MOVE_ERROR', payload: `Not your turn - waiting for ${gameState.currentTurn} to play` });
+    // Check the game is in progress, it is our turn and the point is legal
+    const check = checkMove(gameState, position, color);
+    
+    // During free handicap placement black's stones go down without alternating turns
+    if (!check.legal && check.reason === 'handicap-pending') {
+      placeFreeHandicapStone(position);
+      return;
+    }
+    
+    if (!check.legal) {
+      console.log(`Invalid move: ${check.reason}`);
+      dispatch({ type: 'MOVE_ERROR', payload: { reason: check.reason, position } });
       return;
     }
     
-    // Apply Go rules to validate and process the move
-    const result = applyGoRules(position, currentPlayer.color, gameState);
+    // In rengo our team's turn may belong to a teammate
+    if (!isRengoPlayerToMove(gameState, currentPlayer.id)) {
+      dispatch({ type: 'MOVE_ERROR', payload: { reason: 'teammate-turn', position } });
+      return;
+    }
+    
+    // Apply Go rules to process the move
+    const result = applyGoRules(position, color, gameState);
     
     if (!result.valid || !result.updatedGameState) {
       console.log(`Invalid move: ${result.error}`);
-      dispatch({ type: 'MOVE_ERROR', payload: result.error || 'Invalid move' });
+      dispatch({ type: 'MOVE_ERROR', payload: result.reason ? { reason: result.reason, position } : 'Invalid move' });
       return;
     }
     
     // Clear any previous move errors
     dispatch({ type: 'CLEAR_MOVE_ERROR' });
     
-    const updatedGameState = result.updatedGameState;
+    const updatedGameState = gameState.isLocal
+      ? applyLocalClock(gameState, result.updatedGameState)
+      : result.updatedGameState;
     
     // Update local state immediately for responsive UI
     dispatch({ type: 'UPDATE_GAME_STATE', payload: updatedGameState });
     
     // Emit move to server if socket is available
-    if (state.socket && state.socket.connected) {
+    if (state.socket && state.socket.connected && !gameState.isLocal) {
       const moveData = {
         gameId: gameState.id,
         position,
-        color: currentPlayer.color,
+        color,
         playerId: currentPlayer.id
       };
       
       console.log('Emitting move to server:', moveData);
       
       state.socket.emit('makeMove', moveData);
-    } else {
+    } else if (!gameState.isLocal) {
       console.warn('Socket not connected, updating state locally only');
       
       // Try to reconnect
@@ -1469,43 +1753,60 @@ export const GameProvider: React.FC<GameProviderProps> = ({
     }
   };
   
-  // Pass the current turn (allow player to skip their move)
-  const passTurn = () => {
-    if (!state.gameState || !state.currentPlayer) {
-      console.log("Cannot pass turn: no game state or current player");
-      dispatch({ type: 'MOVE_ERROR', payload: 'Game not started properly' });
-      return;
-    }
+  // Place one free handicap stone; the server checks the count and ends the phase
+  const placeFreeHandicapStone = (position: Position) => {
+    if (!state.gameState || !state.currentPlayer) return;
     
     const { gameState, currentPlayer } = state;
-    
-    // Prevent playing if game status is not 'playing' (still waiting for opponent)
-    if (gameState.status !== 'playing') {
-      console.log("Cannot pass - waiting for opponent to join");
-      dispatch({ type: 'MOVE_ERROR', payload: 'Waiting for opponent to join' });
+    const rejection = getHandicapPlacementError(gameState.board, position, gameState.pendingHandicap);
+    if (rejection) {
+      dispatch({ type: 'MOVE_ERROR', payload: { reason: rejection, position } });
       return;
     }
     
-    // Check if it's the player's turn
-    if (currentPlayer.color !== gameState.currentTurn) {
-      console.log("Not your turn");
-      dispatch({ type: 'MOVE_ERROR', payload: `Not your turn - waiting for ${gameState.currentTurn} to play` });
-      return;
-    }
-    
-    // Clear any previous move errors
     dispatch({ type: 'CLEAR_MOVE_ERROR' });
     
+    const placement = placeHandicapStone(gameState.board, position, gameState.pendingHandicap || 0);
+    const updatedGameState: GameState = {
+      ...gameState,
+      board: placement.board,
+      pendingHandicap: placement.pendingHandicap,
+      handicapPositions: [...(gameState.handicapPositions || []), position],
+      currentTurn: placement.nextTurn,
+      positionHistory: placement.pendingHandicap > 0
+        ? gameState.positionHistory
+        : recordPosition([], placement.board, placement.nextTurn),
+      // A local game's clock starts once the handicap stones are down
+      lastMoveTime: gameState.isLocal ? Date.now() : gameState.lastMoveTime
+    };
+    
+    dispatch({ type: 'UPDATE_GAME_STATE', payload: updatedGameState });
+    
+    if (state.socket && state.socket.connected && !gameState.isLocal) {
+      state.socket.emit('placeHandicapStone', {
+        gameId: gameState.id,
+        position,
+        playerId: currentPlayer.id
+      });
+    }
+  };
+  
+  // The game after the player to move passes: two passes in a row start scoring
+  const buildPassState = (gameState: GameState): GameState => {
     // Create the pass move
     const passMove = createPassMove();
     
     // Update the game state for the pass move
-    const updatedGameState: GameState = {
+    const nextTurn: StoneColor = gameState.currentTurn === 'black' ? 'white' : 'black';
+    const passedGameState: GameState = {
       ...gameState,
-      currentTurn: gameState.currentTurn === 'black' ? 'white' : 'black',
+      currentTurn: nextTurn,
       history: [...gameState.history, passMove],
+      positionHistory: recordPosition(gameState.positionHistory, gameState.board, nextTurn),
+      koPosition: undefined,  // A pass ends the ko: either color may fill the point again
       lastMove: undefined  // Clear lastMove for pass moves since there's no position to highlight
     };
+    const updatedGameState = gameState.isLocal ? applyLocalClock(gameState, passedGameState) : passedGameState;
     
     // Check for two consecutive passes to transition to scoring phase
     const historyLength = updatedGameState.history.length;
@@ -1524,7 +1825,7 @@ export const GameProvider: React.FC<GameProviderProps> = ({
         // This is just for UI feedback and will be recalculated when scoring is confirmed
         const deadStonePositions = new Set<string>();
         const scoringRule = updatedGameState.scoringRule || 'japanese';
-        const komi = updatedGameState.komi || (scoringRule === 'chinese' ? 7.5 : 6.5);
+        const komi = getKomi(updatedGameState.komi, updatedGameState.handicap, scoringRule);
         
         try {
           // Get territories and preliminary score for visual feedback
@@ -1537,11 +1838,16 @@ export const GameProvider: React.FC<GameProviderProps> = ({
             scoringUtils = calculateAGAScore(updatedGameState.board, deadStonePositions, updatedGameState.capturedStones, komi);
           } else if (scoringRule === 'ing') {
             scoringUtils = calculateIngScore(updatedGameState.board, deadStonePositions, updatedGameState.capturedStones, komi);
+          } else if (scoringRule === 'tromp-taylor') {
+            scoringUtils = calculateTrompTaylorScore(updatedGameState.board, deadStonePositions, updatedGameState.capturedStones, komi);
+          } else if (scoringRule === 'new-zealand') {
+            scoringUtils = calculateNewZealandScore(updatedGameState.board, deadStonePositions, updatedGameState.capturedStones, komi);
           } else {
             scoringUtils = calculateJapaneseScore(updatedGameState.board, deadStonePositions, updatedGameState.capturedStones, komi);
           }
           
           updatedGameState.territory = scoringUtils.territories;
+          updatedGameState.seki = findSekiPoints(updatedGameState.board, deadStonePositions);
           // Set preliminary score for display
           updatedGameState.score = { 
             ...scoringUtils.score,
@@ -1554,22 +1860,79 @@ export const GameProvider: React.FC<GameProviderProps> = ({
       }
     }
     
+    return updatedGameState;
+  };
+  
+  // Pass the current turn (allow player to skip their move)
+  const passTurn = () => {
+    if (!state.gameState || !state.currentPlayer) {
+      console.log("Cannot pass turn: no game state or current player");
+      dispatch({ type: 'MOVE_ERROR', payload: 'Game not started properly' });
+      return;
+    }
+    
+    const { gameState, currentPlayer } = state;
+    
+    // Prevent playing if game status is not 'playing' (still waiting for opponent)
+    if (gameState.status !== 'playing') {
+      console.log("Cannot pass - waiting for opponent to join");
+      dispatch({ type: 'MOVE_ERROR', payload: 'Waiting for opponent to join' });
+      return;
+    }
+    
+    // While the teacher controls the student's stones only the teacher passes, for either side
+    const colorRejection = getColorRejection(gameState, currentPlayer, gameState.currentTurn);
+    if (gameState.teacherControl && colorRejection) {
+      dispatch({ type: 'MOVE_ERROR', payload: { reason: colorRejection } });
+      return;
+    }
+    
+    // Check if it's the player's turn
+    if (!gameState.teacherControl && currentPlayer.color !== gameState.currentTurn) {
+      console.log("Not your turn");
+      dispatch({ type: 'MOVE_ERROR', payload: `Not your turn - waiting for ${gameState.currentTurn} to play` });
+      return;
+    }
+    
+    // Black cannot pass while free handicap stones are still to be placed
+    if (gameState.pendingHandicap) {
+      dispatch({ type: 'MOVE_ERROR', payload: { reason: 'handicap-pending' } });
+      return;
+    }
+    
+    // In rengo only the team member whose turn it is may pass
+    if (!isRengoPlayerToMove(gameState, currentPlayer.id)) {
+      dispatch({ type: 'MOVE_ERROR', payload: { reason: 'teammate-turn' } });
+      return;
+    }
+    
+    // Capture games are played until someone captures enough stones
+    if (!isPassAllowed(gameState)) {
+      dispatch({ type: 'MOVE_ERROR', payload: { reason: 'no-passing' } });
+      return;
+    }
+    
+    // Clear any previous move errors
+    dispatch({ type: 'CLEAR_MOVE_ERROR' });
+    
+    const updatedGameState = buildPassState(gameState);
+    
     // Update local state immediately for responsive UI
     dispatch({ type: 'UPDATE_GAME_STATE', payload: updatedGameState });
     
     // Emit move to server if socket is available
-    if (state.socket && state.socket.connected) {
+    if (state.socket && state.socket.connected && !gameState.isLocal) {
       const passData = {
         gameId: gameState.id,
         pass: true,
-        color: currentPlayer.color,
+        color: gameState.currentTurn,
         playerId: currentPlayer.id,
         endGame: updatedGameState.status === 'scoring' // Signal if this pass triggered end game
       };
       
       console.log('Emitting pass to server:', passData);
       state.socket.emit('passTurn', passData);
-    } else {
+    } else if (!gameState.isLocal) {
       console.warn('Socket not connected, updating state locally only');
       
       // Try to reconnect
@@ -1587,10 +1950,86 @@ export const GameProvider: React.FC<GameProviderProps> = ({
     }
   };
   
+  // The browser bot's worker, started with the first offline AI game
+  const botWorkerRef = useRef<Worker | null>(null);
+  // Numbers each move request, so only the reply to the latest one is played
+  const botRequestRef = useRef(0);
+  // The latest game and move helpers, read when the bot's reply arrives
+  const botTurnRef = useRef({ gameState: state.gameState, applyLocalClock, buildPassState });
+  botTurnRef.current = { gameState: state.gameState, applyLocalClock, buildPassState };
+  
+  useEffect(() => () => botWorkerRef.current?.terminate(), []);
+  
+  // The position the bot is asked to move in, or null when it is not the bot's turn.
+  // Other game updates (chat, clocks) leave it unchanged, so they do not restart the bot.
+  const botGame = state.gameState;
+  const botColor = botGame?.browserBot && botGame.status === 'playing' && !botGame.pendingHandicap &&
+    botGame.players.some(player => player.isAI && player.color === botGame.currentTurn)
+    ? botGame.currentTurn
+    : null;
+  const botPositionKey = botGame && botColor ? `${botGame.id}:${botGame.history.length}:${botColor}` : null;
+  
+  // On the browser bot's turn, ask its worker for a move and play it for the bot's color.
+  // A reply that arrives after the game has moved on (an undo, a resignation) is dropped.
+  useEffect(() => {
+    const gameState = botTurnRef.current.gameState;
+    if (!botPositionKey || !gameState) return;
+    
+    if (!botWorkerRef.current) {
+      botWorkerRef.current = new Worker(new URL('../utils/browserBot.worker.ts', import.meta.url));
+    }
+    const worker = botWorkerRef.current;
+    const requestId = ++botRequestRef.current;
+    
+    const handleReply = (event: MessageEvent<{ requestId: number; move: Position | null }>) => {
+      if (event.data.requestId !== requestId) return;
+      
+      const { gameState: current, applyLocalClock, buildPassState } = botTurnRef.current;
+      if (!current) return;
+      const { move } = event.data;
+      const result = move ? applyGoRules(move, current.currentTurn, current) : null;
+      let updatedGameState: GameState;
+      if (result?.valid && result.updatedGameState) {
+        updatedGameState = applyLocalClock(current, result.updatedGameState);
+        playStoneSound();
+      } else if (isPassAllowed(current)) {
+        updatedGameState = buildPassState(current);
+      } else {
+        // Capture games cannot be passed: a bot with no legal move left resigns
+        updatedGameState = {
+          ...current,
+          status: 'finished',
+          winner: current.currentTurn === 'black' ? 'white' : 'black',
+          result: current.currentTurn === 'black' ? 'W+R' : 'B+R'
+        };
+      }
+      dispatch({ type: 'UPDATE_GAME_STATE', payload: updatedGameState });
+    };
+    
+    worker.addEventListener('message', handleReply);
+    const request: BotMoveRequest = {
+      position: {
+        board: gameState.board,
+        currentTurn: gameState.currentTurn,
+        koPosition: gameState.koPosition,
+        koRule: gameState.koRule,
+        positionHistory: gameState.positionHistory,
+        scoringRule: gameState.scoringRule,
+        komi: gameState.komi,
+        history: gameState.history,
+        gameType: gameState.gameType
+      },
+      level: gameState.aiLevel || 'normal'
+    };
+    worker.postMessage({ ...request, requestId });
+    
+    return () => worker.removeEventListener('message', handleReply);
+  }, [botPositionKey]);
+  
   // Leave the current game
   const leaveGame = () => {
     // Notify server if socket is connected
-    if (state.socket && state.socket.connected && state.gameState && state.currentPlayer) {
+    if (state.socket && state.socket.connected && state.gameState && state.currentPlayer && !state.gameState.isLocal) {
       console.log(`Emitting leaveGame event for game ${state.gameState.id}`);
       
       // Find the opponent player
@@ -1626,7 +2065,7 @@ export const GameProvider: React.FC<GameProviderProps> = ({
   
   // Function to manually sync game state with server
   const syncGameState = () => {
-    if (!state.gameState || !state.currentPlayer || !state.socket) {
+    if (!state.gameState || !state.currentPlayer || !state.socket || state.gameState.isLocal) {
       console.log('Cannot sync game state: missing required data');
       return;
     }
@@ -1646,7 +2085,7 @@ export const GameProvider: React.FC<GameProviderProps> = ({
 
   // Function to sync dead stones with server
   const syncDeadStones = () => {
-    if (!state.gameState || !state.currentPlayer || !state.socket || state.gameState.status !== 'scoring') {
+    if (!state.gameState || !state.currentPlayer || !state.socket || state.gameState.isLocal || state.gameState.status !== 'scoring') {
       console.log('Cannot sync dead stones: not in scoring mode or missing data');
       return;
     }
@@ -1713,7 +2152,7 @@ export const GameProvider: React.FC<GameProviderProps> = ({
     dispatch({ type: 'UPDATE_GAME_STATE', payload: updatedGameState });
     
     // Emit resignation to server if socket is available
-    if (state.socket && state.socket.connected) {
+    if (state.socket && state.socket.connected && !gameState.isLocal) {
       const resignData = {
         gameId: gameState.id,
         playerId: currentPlayer.id,
@@ -1722,7 +2161,7 @@ export const GameProvider: React.FC<GameProviderProps> = ({
       
       console.log('Emitting resign to server:', resignData);
       state.socket.emit('resignGame', resignData);
-    } else {
+    } else if (!gameState.isLocal) {
       console.warn('Socket not connected, updating state locally only');
       
       // Try to reconnect
@@ -1755,6 +2194,12 @@ export const GameProvider: React.FC<GameProviderProps> = ({
       return;
     }
     
+    // Tromp-Taylor counts every stone on the board as alive
+    if (!hasDeadStoneAgreement(gameState.scoringRule)) {
+      console.log(`Cannot toggle dead stone: no dead stone agreement under ${gameState.scoringRule} rules`);
+      return;
+    }
+    
     // Get the board stones
     const { stones } = gameState.board;
     
@@ -1766,7 +2211,8 @@ export const GameProvider: React.FC<GameProviderProps> = ({
     }
     
     // Get all stones in the connected group
-    const connectedGroup = getDeadStoneGroup(position, stones, gameState.board.size);
+    const boardDimensions = getBoardDimensions(gameState.board);
+    const connectedGroup = getDeadStoneGroup(position, stones, boardDimensions);
     
     // If this is an auto-detection request, scan for other likely dead groups
     // of the same color that are connected or nearby
@@ -1785,10 +2231,10 @@ export const GameProvider: React.FC<GameProviderProps> = ({
         .map(s => s.position)
         .filter(p => {
           // Use a more efficient check for likely dead groups
-          const group = getConnectedGroup(p, stones, gameState.board.size);
-          return group.length <= 5 && isGroupLikelyDead(group, stones, gameState.board.size);
+          const group = getConnectedGroup(p, stones, boardDimensions);
+          return group.length <= 5 && isGroupLikelyDead(group, stones, boardDimensions);
         })
-        .map(p => getConnectedGroup(p, stones, gameState.board.size))
+        .map(p => getConnectedGroup(p, stones, boardDimensions))
         .flat();
       
       // Add the newly found potential dead groups
@@ -1848,7 +2294,7 @@ export const GameProvider: React.FC<GameProviderProps> = ({
     dispatch({ type: 'UPDATE_GAME_STATE', payload: updatedGameState });
     
     // Emit changes to the server if socket is available and connected
-    if (state.socket && state.socket.connected && state.currentPlayer) {
+    if (state.socket && state.socket.connected && state.currentPlayer && !gameState.isLocal) {
       console.log(`Emitting toggleDeadStone to server with ${updatedDeadStones.length} dead stones (${deadBlackStones} black, ${deadWhiteStones} white)`);
       state.socket.emit('toggleDeadStone', {
         gameId: gameState.id,
@@ -1858,7 +2304,7 @@ export const GameProvider: React.FC<GameProviderProps> = ({
         deadBlackStones,
         deadWhiteStones
       });
-    } else {
+    } else if (!gameState.isLocal) {
       console.warn('Socket not connected, updating dead stone state locally only');
     }
     
@@ -1888,8 +2334,8 @@ export const GameProvider: React.FC<GameProviderProps> = ({
     // Initialize score confirmation if it doesn't exist
     const currentConfirmation = gameState.scoreConfirmation || { black: false, white: false };
     
-    // Mark current player's confirmation
-    const updatedConfirmation = {
+    // Mark current player's confirmation; at a shared device both players agree at once
+    const updatedConfirmation = gameState.isLocal ? { black: true, white: true } : {
       ...currentConfirmation,
       [currentPlayer.color as string]: true
     };
@@ -1967,7 +2413,7 @@ export const GameProvider: React.FC<GameProviderProps> = ({
     
     // Calculate score based on selected scoring rule
     const scoringRule = gameState.scoringRule || 'japanese'; // Default to Japanese rules if not specified
-    const komi = gameState.komi || (scoringRule === 'chinese' ? 7.5 : 6.5); // Default komi based on rule set
+    const komi = getKomi(gameState.komi, gameState.handicap, scoringRule); // Komi 0 and reverse komi are valid
     
     let scoringResult;
     
@@ -2003,6 +2449,22 @@ export const GameProvider: React.FC<GameProviderProps> = ({
         originalCapturedStones,
         komi
       );
+    } else if (scoringRule === 'tromp-taylor') {
+      // Use Tromp-Taylor scoring rules (dead stones are ignored)
+      scoringResult = calculateTrompTaylorScore(
+        gameState.board,
+        deadStonePositions,
+        originalCapturedStones,
+        komi
+      );
+    } else if (scoringRule === 'new-zealand') {
+      // Use New Zealand scoring rules
+      scoringResult = calculateNewZealandScore(
+        gameState.board,
+        deadStonePositions,
+        originalCapturedStones,
+        komi
+      );
     } else {
       // Use Japanese scoring rules
       scoringResult = calculateJapaneseScore(
@@ -2023,6 +2485,7 @@ export const GameProvider: React.FC<GameProviderProps> = ({
         deadWhiteStones: deadWhiteStones
       },
       territory: scoringResult.territories,
+      seki: findSekiPoints(gameState.board, deadStonePositions),
       winner: scoringResult.winner,
       capturedStones: originalCapturedStones,  // Keep original captured stones count
       deadStones: deadStones,  // Ensure dead stones are preserved in the final game state
@@ -2033,12 +2496,13 @@ export const GameProvider: React.FC<GameProviderProps> = ({
     dispatch({ type: 'UPDATE_GAME_STATE', payload: updatedGameState });
     
     // Emit game end to server if socket is available
-    if (state.socket && state.socket.connected) {
+    if (state.socket && state.socket.connected && !gameState.isLocal) {
       const scoreData = {
         gameId: gameState.id,
         score: updatedGameState.score,
         winner: scoringResult.winner,
         territory: scoringResult.territories,
+        seki: updatedGameState.seki,
         capturedStones: originalCapturedStones,
         deadStones: deadStones,
         deadBlackStones: deadBlackStones,
@@ -2049,7 +2513,7 @@ export const GameProvider: React.FC<GameProviderProps> = ({
       console.log(`Emitting game end to server with ${deadStones.length} dead stones (${deadBlackStones} black, ${deadWhiteStones} white)`);
       console.log(`Final captured stones: Black ${originalCapturedStones.black}, White ${originalCapturedStones.white}`);
       state.socket.emit('gameEnded', scoreData);
-    } else {
+    } else if (!gameState.isLocal) {
       console.warn('Socket not connected, updating state locally only');
       
       // Try to reconnect
@@ -2094,6 +2558,25 @@ export const GameProvider: React.FC<GameProviderProps> = ({
     // Clear any previous move errors
     dispatch({ type: 'CLEAR_MOVE_ERROR' });
     
+    // A local game takes the last move back at once, with nobody to ask. The clock
+    // restarts for the player who gets the move back. Against the browser bot the
+    // bot's reply goes too, once per game as with KataGo.
+    if (gameState.isLocal) {
+      const takeBack = gameState.browserBot && gameState.currentTurn === currentPlayer.color ? 2 : 1;
+      const moveCount = Math.max(0, gameState.history.length - takeBack);
+      dispatch({
+        type: 'UPDATE_GAME_STATE',
+        payload: {
+          ...gameState,
+          ...replayMoves(gameState, moveCount),
+          history: gameState.history.slice(0, moveCount),
+          lastMoveTime: Date.now(),
+          aiUndoUsed: gameState.browserBot || gameState.aiUndoUsed
+        }
+      });
+      return;
+    }
+    
     // Create undo request - in AI games, undo both AI's move and human's move
     // so human can replay their move differently
     const isAIGame = gameState.players.some(player => player.isAI);
@@ -2227,21 +2710,23 @@ export const GameProvider: React.FC<GameProviderProps> = ({
       status: 'playing',
       deadStones: [], // Clear dead stones
       territory: undefined, // Clear territory visualization
-      scoreConfirmation: undefined // Clear score confirmations
+      seki: undefined,
+      scoreConfirmation: undefined, // Clear score confirmations
+      lastMoveTime: gameState.isLocal ? Date.now() : gameState.lastMoveTime // A local clock stood still while scoring
     };
     
     // Update local state immediately for responsive UI
     dispatch({ type: 'UPDATE_GAME_STATE', payload: updatedGameState });
     
     // Emit cancel scoring to server if socket is available
-    if (state.socket && state.socket.connected) {
+    if (state.socket && state.socket.connected && !gameState.isLocal) {
       const cancelData = {
         gameId: gameState.id
       };
       
       console.log('Emitting cancelScoring to server:', cancelData);
       state.socket.emit('cancelScoring', cancelData);
-    } else {
+    } else if (!gameState.isLocal) {
       console.warn('Socket not connected, updating state locally only');
       
       // Try to reconnect
@@ -2360,6 +2845,113 @@ export const GameProvider: React.FC<GameProviderProps> = ({
     }
   };
 
+  // Rengo lobby: move a player to a team (the host can move anyone, others only themselves)
+  const assignTeam = (playerId: string, color: 'black' | 'white') => {
+    if (!state.gameState || !state.currentPlayer || !state.socket) return;
+    
+    state.socket.emit('assignTeam', {
+      gameId: state.gameState.id,
+      playerId: state.currentPlayer.id,
+      targetPlayerId: playerId,
+      color
+    });
+  };
+  
+  // Rengo lobby: the host names a team
+  const setTeamName = (color: 'black' | 'white', name: string) => {
+    if (!state.gameState || !state.currentPlayer || !state.socket) return;
+    
+    state.socket.emit('setTeamName', {
+      gameId: state.gameState.id,
+      playerId: state.currentPlayer.id,
+      color,
+      name
+    });
+  };
+  
+  // Rengo lobby: the host starts the game once the teams are even
+  const startRengo = () => {
+    if (!state.gameState || !state.currentPlayer || !state.socket) return;
+    
+    state.socket.emit('startRengo', {
+      gameId: state.gameState.id,
+      playerId: state.currentPlayer.id
+    });
+  };
+
+  // Teaching games: the teacher takes back the moves from moveIndex on
+  const teacherUndo = (moveIndex: number) => {
+    if (!state.gameState || !state.currentPlayer || !state.socket) return;
+    
+    state.socket.emit('teacherUndo', {
+      gameId: state.gameState.id,
+      playerId: state.currentPlayer.id,
+      moveIndex
+    });
+  };
+  
+  // Teaching games: the teacher's markup on the current position (empty to clear it)
+  const setTeachingMarkup = (markup: BoardMarkup[]) => {
+    if (!state.gameState || !state.currentPlayer || !state.socket) return;
+    
+    state.socket.emit('teacherMarkup', {
+      gameId: state.gameState.id,
+      playerId: state.currentPlayer.id,
+      markup
+    });
+  };
+  
+  // Teaching games: show a variation from the current position on everyone's board
+  const showVariation = (moves: VariationMove[]) => {
+    if (!state.gameState || !state.currentPlayer || !state.socket) return;
+    
+    state.socket.emit('teacherVariation', {
+      gameId: state.gameState.id,
+      playerId: state.currentPlayer.id,
+      moves
+    });
+  };
+  
+  // Teaching games: stop showing the variation
+  const closeVariation = () => {
+    if (!state.gameState || !state.currentPlayer || !state.socket) return;
+    
+    state.socket.emit('teacherCloseVariation', {
+      gameId: state.gameState.id,
+      playerId: state.currentPlayer.id
+    });
+  };
+  
+  // Teaching games: the teacher takes over or hands back the student's stones
+  const setTeacherControl = (enabled: boolean) => {
+    if (!state.gameState || !state.currentPlayer || !state.socket) return;
+    
+    state.socket.emit('teacherControl', {
+      gameId: state.gameState.id,
+      playerId: state.currentPlayer.id,
+      enabled
+    });
+  };
+  
+  // Simuls: follow the boards of a simul (again once a new socket connects)
+  const { socket } = state;
+  const watchSimul = useCallback((simulId: string) => {
+    if (!socket) return;
+    socket.emit('watchSimul', { simulId });
+  }, [socket]);
+  
+  // Simuls: the host goes to another board, leaving the room of the board they were on
+  const openSimulBoard = async (gameId: string) => {
+    if (!state.simul || !state.socket) return;
+    const board = state.simul.boards.find(b => b.gameId === gameId);
+    if (!board) return;
+    
+    if (state.gameState && state.gameState.simulId === state.simul.id && state.gameState.id !== gameId) {
+      state.socket.emit('leaveSimulBoard', { gameId: state.gameState.id });
+    }
+    await joinGame(board.code, state.simul.hostName);
+  };
+
   return (
     <GameContext.Provider
       value={{
@@ -2367,6 +2959,8 @@ export const GameProvider: React.FC<GameProviderProps> = ({
         loading: state.loading,
         error: state.error,
         moveError: state.moveError,
+        moveErrorReason: state.moveErrorReason,
+        moveErrorPosition: state.moveErrorPosition,
         currentPlayer: state.currentPlayer,
         createGame,
         joinGame,
@@ -2384,7 +2978,18 @@ export const GameProvider: React.FC<GameProviderProps> = ({
         requestAIUndo,
         respondToUndoRequest,
         cancelScoring,
-        forceScoring
+        forceScoring,
+        assignTeam,
+        setTeamName,
+        startRengo,
+        teacherUndo,
+        setTeachingMarkup,
+        showVariation,
+        closeVariation,
+        setTeacherControl,
+        simul: state.simul,
+        watchSimul,
+        openSimulBoard
       }}
     >
       {children}
@@ -7,11 +7,12 @@ import ThemeToggleButton from '../components/ThemeToggleButton';
 import ConnectionStatus from '../components/ConnectionStatus';
 import { useGame } from '../context/GameContext';
 import { Position, GameMove, GameState, Stone } from '../types/go';
+import { getBoardDimensions, isKoRejection, isRengoPlayerToMove, isTeacher } from '../rules';
 import ChatBox from '../components/ChatBox';
 import FloatingChatBubble from '../components/FloatingChatBubble';
 
 import GameCompleteModal from '../components/GameCompleteModal';
-import GameReview from '../components/GameReview';
+import GameReview, { ReviewBoardState } from '../components/GameReview';
 import GoseiLogo from '../components/GoseiLogo';
 import GameNotification from '../components/GameNotification';
 import UndoNotification from '../components/UndoNotification';
@@ -20,6 +21,9 @@ import MobileStoneControls from '../components/go-board/MobileStoneControls';
 import MobilePlayerPanel from '../components/mobile/MobilePlayerPanel';
 import MobileGameTools from '../components/mobile/MobileGameTools';
 import ShareModal from '../components/ShareModal';
+import RengoLobby from '../components/RengoLobby';
+import TeachingPanel from '../components/TeachingPanel';
+import SimulBar from '../components/SimulBar';
 import { playStoneSound } from '../utils/soundUtils';
 import useDeviceDetect from '../hooks/useDeviceDetect';
 import { useAppTheme } from '../context/AppThemeContext';
@@ -65,6 +69,8 @@ const GamePage: React.FC = () => {
     currentPlayer, 
     error,
     moveError,
+    moveErrorReason,
+    moveErrorPosition,
     placeStone, 
     passTurn, 
     leaveGame, 
@@ -80,7 +86,18 @@ const GamePage: React.FC = () => {
     forceScoring,
     resetGame,
     syncDeadStones,
-    clearMoveError
+    clearMoveError,
+    assignTeam,
+    setTeamName,
+    startRengo,
+    teacherUndo,
+    setTeachingMarkup,
+    showVariation,
+    closeVariation,
+    setTeacherControl,
+    simul,
+    watchSimul,
+    openSimulBoard
   } = useGame();
   const [username, setUsername] = useState<string>(() => localStorage.getItem('gosei-player-name') || '');
   const [showJoinForm, setShowJoinForm] = useState<boolean>(true);
@@ -111,14 +128,13 @@ const GamePage: React.FC = () => {
   
   // Mobile controls preview position state
   const [previewPosition, setPreviewPosition] = useState<Position | null>(null);
+  
+  // Point of a refused ko recapture, highlighted on the board for a few seconds
+  const [koHighlight, setKoHighlight] = useState<Position | null>(null);
   const [isThinking, setIsThinking] = useState(false);
   
   // Review mode state
-  const [reviewBoardState, setReviewBoardState] = useState<{
-    stones: Stone[];
-    currentMoveIndex: number;
-    isReviewing: boolean;
-  } | null>(null);
+  const [reviewBoardState, setReviewBoardState] = useState<ReviewBoardState | null>(null);
 
   // Get device type for coordinate default
   const { isMobile, isTablet } = useDeviceDetect();
@@ -189,6 +205,12 @@ const GamePage: React.FC = () => {
     }
   }, [gameId, gameState, showJoinForm, loading]);
 
+  // Simul boards: follow the simul, so the host can move on to the next board
+  const simulId = gameState?.simulId;
+  useEffect(() => {
+    if (simulId) watchSimul(simulId);
+  }, [simulId, watchSimul]);
+
   // Show game complete modal when game finishes
   useEffect(() => {
     if (gameState?.status === 'finished') {
@@ -283,7 +305,7 @@ const GamePage: React.FC = () => {
     socket.on('connect', () => {
       setConnectionStatus('connected');
       console.log('Socket reconnected, rejoining chat room...');
-      if (gameState?.id && currentPlayer) {
+      if (gameState?.id && currentPlayer && !gameState.isLocal) {
         socket.emit('joinGame', {
           gameId: gameState.id,
           playerId: currentPlayer.id,
@@ -454,7 +476,7 @@ const GamePage: React.FC = () => {
       socket.off('playerJoined');
       socket.off('scoreConfirmationUpdate');
     };
-  }, [gameState?.socket, gameState?.id, currentPlayer, gameState?.players]);
+  }, [gameState?.socket, gameState?.id, currentPlayer, gameState?.players, gameState?.isLocal]);
 
   // Auto-scroll chat to bottom when new messages arrive
   useEffect(() => {
@@ -509,6 +531,11 @@ const GamePage: React.FC = () => {
     navigate('/');
   };
 
+  const handleNextSimulBoard = async (nextGameId: string) => {
+    await openSimulBoard(nextGameId);
+    navigate(`/game/${nextGameId}`);
+  };
+
   const handleResignGame = () => {
     resignGame();
   };
@@ -548,7 +575,8 @@ const GamePage: React.FC = () => {
     const totalDeadStones = deadBlackStones + deadWhiteStones;
     const confirmationStatus = gameState.scoreConfirmation || { black: false, white: false };
     const opponentColor = currentPlayer.color === 'black' ? 'white' : 'black';
-    const opponentConfirmed = confirmationStatus[opponentColor];
+    // At a shared device one confirmation speaks for both players
+    const opponentConfirmed = confirmationStatus[opponentColor] || gameState.isLocal;
     
     if (opponentConfirmed) {
       showNotification(`Score confirmed! Both players agreed. Dead stones: ${totalDeadStones} (${deadBlackStones} black, ${deadWhiteStones} white). Game will finish now.`, 'info');
@@ -762,13 +790,25 @@ const GamePage: React.FC = () => {
   
   // Monitor move errors and convert Ko rule violations to notifications
   useEffect(() => {
-    if (moveError && moveError.toLowerCase().includes('ko rule violation')) {
-      // Show Ko rule violation as a warning notification
-      showNotification('Ko rule violation: You cannot immediately recapture. Please play elsewhere first.', 'warning');
+    if (moveError && isKoRejection(moveErrorReason)) {
+      // Show Ko rule violation as a warning notification and mark the ko point
+      showNotification(moveError, 'warning');
+      setKoHighlight(moveErrorPosition);
       // Clear the move error so it doesn't show in GameError component
       clearMoveError();
     }
-  }, [moveError, showNotification, clearMoveError]);
+  }, [moveError, moveErrorReason, moveErrorPosition, showNotification, clearMoveError]);
+  
+  // Drop the ko highlight after a few seconds or once the board changes
+  useEffect(() => {
+    if (!koHighlight) return;
+    const timer = setTimeout(() => setKoHighlight(null), 3000);
+    return () => clearTimeout(timer);
+  }, [koHighlight]);
+  
+  useEffect(() => {
+    setKoHighlight(null);
+  }, [gameState?.history.length]);
   
   // Review mode state
 
@@ -928,6 +968,14 @@ const GamePage: React.FC = () => {
 
   // Game board and UI
   const isSpectator = currentPlayer && currentPlayer.isSpectator === true;
+  // Our color is to move and, in rengo, it is our turn in the team rotation. In a
+  // teaching game the teacher in control plays both colors and the student waits.
+  const isPlayerTurn = gameState.status === 'playing' &&
+    !!currentPlayer &&
+    (gameState.teacherControl
+      ? isTeacher(gameState, currentPlayer.id)
+      : currentPlayer.color === gameState.currentTurn) &&
+    isRengoPlayerToMove(gameState, currentPlayer.id);
   return (
     <>
       <div className="min-h-screen bg-neutral-100 relative">
@@ -977,7 +1025,13 @@ const GamePage: React.FC = () => {
                       <svg xmlns="http://www.w3.org/2000/svg" className="h-5 w-5" viewBox="0 0 20 20" fill="currentColor">
                         <path fillRule="evenodd" d="M10 18a8 8 0 100-16 8 8 0 000 16zm3.707-8.293l-3-3a1 1 0 00-1.414-1.414L9 5.586 7.707 4.293a1 1 0 00-1.414 1.414l2 2a1 1 0 001.414 0l4-4a1 1 0 00-1.414-1.414L10 4.586z" clipRule="evenodd" />
                       </svg>
-                      <span>Review Mode: Use controls below to navigate</span>
+                      <span>
+                        {gameState.gameType === 'teaching' && gameState.status === 'playing'
+                          ? (gameState.shownVariation !== null && gameState.shownVariation !== undefined
+                            ? 'Teaching: showing a variation'
+                            : 'Teaching: marking the board')
+                          : 'Review Mode: Use controls below to navigate'}
+                      </span>
                     </div>
                   </div>
                 )}
@@ -994,11 +1048,34 @@ const GamePage: React.FC = () => {
                         <div className="territory-indicator white"></div>
                         <span>White Territory</span>
                       </div>
+                      {gameState.seki && gameState.seki.length > 0 && (
+                        <div className="flex items-center gap-2">
+                          <div className="territory-indicator seki"></div>
+                          <span>Seki</span>
+                        </div>
+                      )}
                     </div>
                   </div>
                 )}
               </div>
 
+              {/* Simul host: the other boards waiting for a move */}
+              {simul && simul.id === gameState.simulId && currentPlayer?.id === simul.hostId && (
+                <SimulBar simul={simul} currentGameId={gameState.id} onNextBoard={handleNextSimulBoard} />
+              )}
+
+              {/* Rengo team lobby - shown until the host starts the game */}
+              {gameState.gameType === 'rengo' && gameState.status === 'waiting' && (
+                <RengoLobby
+                  gameState={gameState}
+                  currentPlayer={currentPlayer || undefined}
+                  onAssignTeam={assignTeam}
+                  onSetTeamName={setTeamName}
+                  onStart={startRengo}
+                  onShare={handleShareGame}
+                />
+              )}
+
               <div 
                 className={`w-full max-w-full ${
                   gameState.status === 'finished' 
@@ -1024,24 +1101,43 @@ const GamePage: React.FC = () => {
                     }
                     handleStonePlace(position);
                   }}
-                  isPlayerTurn={gameState.status === 'playing' && currentPlayer?.color === gameState.currentTurn}
+                  isPlayerTurn={isPlayerTurn}
                   lastMove={gameState.lastMove}
                   isScoring={gameState.status === 'scoring'}
                   deadStones={gameState.deadStones}
                   onToggleDeadStone={handleToggleDeadStone}
                   territory={gameState.territory}
+                  seki={gameState.seki}
+                  koHighlight={koHighlight}
                   showTerritory={(gameState.status === 'finished' || gameState.status === 'scoring') && !(reviewBoardState?.isReviewing || (isSpectator && spectatorIsReviewing && gameState.status !== 'finished'))}
                   isReviewing={reviewBoardState?.isReviewing || (isSpectator && spectatorIsReviewing && gameState.status !== 'finished') || false}
                   reviewStones={reviewBoardState?.stones || (isSpectator && spectatorIsReviewing ? (spectatorReviewStones || []) : [])}
+                  onReviewClick={reviewBoardState?.clickPoint}
+                  markup={reviewBoardState?.markup}
                   onPreviewPositionChange={(pos) => setPreviewPosition(pos)}
                   previewPosition={previewPosition}
                   showCoordinates={showCoordinates}
-                  isHandicapPlacement={gameState.gameType === 'handicap'}
+                  isHandicapPlacement={!!gameState.pendingHandicap}
                 />
                 
+                {/* Teacher tools, or what the teacher is doing for students - teaching games in progress */}
+                {gameState.gameType === 'teaching' && gameState.status === 'playing' && (
+                  <TeachingPanel
+                    gameState={gameState}
+                    currentPlayer={currentPlayer || undefined}
+                    onTakeBack={teacherUndo}
+                    onSetMarkup={setTeachingMarkup}
+                    onShowVariation={showVariation}
+                    onCloseVariation={closeVariation}
+                    onSetControl={setTeacherControl}
+                    onBoardStateChange={setReviewBoardState}
+                  />
+                )}
+                
                 {/* Game Review Controls - Only shown when game is finished */}
                 {gameState.status === 'finished' && (
                   <GameReview
+                    key={`${gameState.id}-${gameState.history.length}`}
                     gameState={gameState}
                     onBoardStateChange={setReviewBoardState}
                   />
@@ -1052,14 +1148,14 @@ const GamePage: React.FC = () => {
               <div className="w-full flex justify-center mt-4">
                 <MobileStoneControls
                   currentTurn={gameState.currentTurn}
-                  isPlayerTurn={gameState.status === 'playing' && currentPlayer?.color === gameState.currentTurn}
+                  isPlayerTurn={isPlayerTurn}
                   isScoring={gameState.status === 'scoring'}
                   isReviewing={reviewBoardState?.isReviewing || false}
                   isThinking={isThinking}
                   isFinished={gameState.status === 'finished'}
                   previewPosition={previewPosition}
                   onPlaceStone={handleMobilePlaceStone}
-                  boardSize={gameState.board.size}
+                  boardSize={getBoardDimensions(gameState.board).height}
                 />
               </div>
               </div>
@@ -1184,13 +1280,14 @@ const GamePage: React.FC = () => {
       </div>
       
       {/* Floating Chat Bubble - moved outside the positioned container to fix positioning */}
-      {currentPlayer && (
+      {currentPlayer && !gameState.isLocal && (
         <FloatingChatBubble
           gameId={gameState.id}
           currentPlayerId={currentPlayer.id}
           currentPlayerUsername={currentPlayer.username}
           socket={gameState.socket}
           messages={chatMessages}
+          teamColor={gameState.gameType === 'rengo' && !currentPlayer.isSpectator ? currentPlayer.color : null}
         />
       )}
 
@@ -2,27 +2,36 @@ import React, { useState, useEffect } from 'react';
 import { createPortal } from 'react-dom';
 import { useNavigate, Link } from 'react-router-dom';
 import { useGame } from '../context/GameContext';
-import { GameOptions, ColorPreference, ScoringRule, GameType } from '../types/go';
+import { GameOptions, ColorPreference, ScoringRule, GameType, KoRule, BoardDimensions, HandicapPlacement } from '../types/go';
 
 import BoardSizePreview from '../components/go-board/BoardSizePreview';
 import CreateGameForm from '../components/CreateGameForm';
 import GoseiLogo from '../components/GoseiLogo';
 import ThemeToggleButton from '../components/ThemeToggleButton';
 import DirectAISelector from '../components/DirectAISelector';
+import CorrespondenceGames from '../components/CorrespondenceGames';
 import { useAppTheme } from '../context/AppThemeContext';
 import { validateBlitzSettings, updateBlitzTimeControls } from '../utils/gameType';
+import { getAdjustedKomi, isValidKomi } from '../utils/handicapUtils';
 import { updateTimeControls } from '../utils/timeControl';
+import { CAPTURE_TARGET_OPTIONS, CORRESPONDENCE_DAY_OPTIONS, DEFAULT_CAPTURE_TARGET, MAX_SIMUL_BOARDS, MIN_SIMUL_BOARDS } from '../rules';
+import { BROWSER_BOT_BOARD_SIZES } from '../utils/browserBot';
 
 // Define keys for localStorage
 const STORAGE_KEYS = {
   USERNAME: 'gosei-player-name',
   BOARD_SIZE: 'gosei-board-size',
+  BOARD_DIMENSIONS: 'gosei-board-dimensions',
   COLOR_PREFERENCE: 'gosei-color-preference',
   TIME_CONTROL: 'gosei-time-control',
   TIME_PER_MOVE: 'gosei-time-per-move',
   HANDICAP: 'gosei-handicap',
+  HANDICAP_PLACEMENT: 'gosei-handicap-placement',
   SCORING_RULE: 'gosei-scoring-rule',
+  KO_RULE: 'gosei-ko-rule',
+  KOMI: 'gosei-komi',
   GAME_TYPE: 'gosei-game-type',
+  CORRESPONDENCE_DAYS: 'gosei-correspondence-days',
   VS_AI: 'gosei-vs-ai',
   AI_LEVEL: 'gosei-ai-level',
   SELECTED_NETWORK_ID: 'gosei-selected-network-id'
@@ -102,10 +111,17 @@ const HomePage: React.FC = () => {
 
   const [showCustomSizes, setShowCustomSizes] = useState(false);
   const [usernameError, setUsernameError] = useState<string | null>(null);
+  // Local game: both players at this device, created without the server
+  const [localGame, setLocalGame] = useState(false);
+  const [opponentName, setOpponentName] = useState('');
   const [gameOptions, setGameOptions] = useState<GameOptions>({
     boardSize: getStoredValue(STORAGE_KEYS.BOARD_SIZE, 19),
+    boardDimensions: getStoredValue(STORAGE_KEYS.BOARD_DIMENSIONS, null) || undefined,
     handicap: getStoredValue(STORAGE_KEYS.HANDICAP, 0),
+    handicapPlacement: getStoredValue(STORAGE_KEYS.HANDICAP_PLACEMENT, 'fixed') as HandicapPlacement,
     scoringRule: getStoredValue(STORAGE_KEYS.SCORING_RULE, 'japanese') as ScoringRule,
+    koRule: (getStoredValue(STORAGE_KEYS.KO_RULE, null) || undefined) as KoRule | undefined,
+    komi: getStoredValue(STORAGE_KEYS.KOMI, null) ?? undefined,
     gameType: getStoredValue(STORAGE_KEYS.GAME_TYPE, 'even') as GameType,
     colorPreference: getStoredValue(STORAGE_KEYS.COLOR_PREFERENCE, 'random') as ColorPreference,
     timeControl: getStoredValue(STORAGE_KEYS.TIME_CONTROL, 30),
@@ -115,7 +131,8 @@ const HomePage: React.FC = () => {
       timePerMove: getStoredValue(STORAGE_KEYS.TIME_PER_MOVE, 0),
       byoYomiPeriods: getStoredValue((STORAGE_KEYS as any).BYO_YOMI_PERIODS, 0),
       byoYomiTime: getStoredValue((STORAGE_KEYS as any).BYO_YOMI_TIME, 30),
-      fischerTime: getStoredValue((STORAGE_KEYS as any).FISCHER_TIME, 0)
+      fischerTime: getStoredValue((STORAGE_KEYS as any).FISCHER_TIME, 0),
+      correspondenceDays: getStoredValue(STORAGE_KEYS.CORRESPONDENCE_DAYS, 3)
     },
     // AI Game Options
     vsAI: getStoredValue(STORAGE_KEYS.VS_AI, false),
@@ -128,7 +145,8 @@ const HomePage: React.FC = () => {
   useEffect(() => {
     if (gameState?.id) {
       console.log('Game state updated with ID, navigating to:', gameState.id);
-      navigate(`/game/${gameState.id}`);
+      // A new simul opens on the host's dashboard
+      navigate(gameState.simulId ? `/simul/${gameState.simulId}` : `/game/${gameState.id}`);
     }
   }, [gameState, navigate]);
 
@@ -143,15 +161,20 @@ const HomePage: React.FC = () => {
   // Save game options when they change
   useEffect(() => {
     setStoredValue(STORAGE_KEYS.BOARD_SIZE, gameOptions.boardSize);
+    setStoredValue(STORAGE_KEYS.BOARD_DIMENSIONS, gameOptions.boardDimensions ?? null);
     setStoredValue(STORAGE_KEYS.COLOR_PREFERENCE, gameOptions.colorPreference);
     setStoredValue(STORAGE_KEYS.TIME_CONTROL, gameOptions.timeControl);
     setStoredValue(STORAGE_KEYS.TIME_PER_MOVE, gameOptions.timePerMove);
     setStoredValue(STORAGE_KEYS.HANDICAP, gameOptions.handicap);
+    setStoredValue(STORAGE_KEYS.HANDICAP_PLACEMENT, gameOptions.handicapPlacement);
     setStoredValue(STORAGE_KEYS.SCORING_RULE, gameOptions.scoringRule);
+    setStoredValue(STORAGE_KEYS.KO_RULE, gameOptions.koRule ?? null);
+    setStoredValue(STORAGE_KEYS.KOMI, gameOptions.komi ?? null);
     setStoredValue(STORAGE_KEYS.GAME_TYPE, gameOptions.gameType);
     setStoredValue((STORAGE_KEYS as any).BYO_YOMI_PERIODS, gameOptions.timeControlOptions.byoYomiPeriods);
     setStoredValue((STORAGE_KEYS as any).BYO_YOMI_TIME, gameOptions.timeControlOptions.byoYomiTime);
     setStoredValue((STORAGE_KEYS as any).FISCHER_TIME, gameOptions.timeControlOptions.fischerTime);
+    setStoredValue(STORAGE_KEYS.CORRESPONDENCE_DAYS, gameOptions.timeControlOptions.correspondenceDays);
     // Save AI options
     setStoredValue(STORAGE_KEYS.VS_AI, gameOptions.vsAI);
     setStoredValue(STORAGE_KEYS.AI_LEVEL, gameOptions.aiLevel);
@@ -205,12 +228,12 @@ const HomePage: React.FC = () => {
             byoYomiPeriods: 0,
             byoYomiTime: 0
           };
-        } else if (gameType === 'even' || gameType === 'handicap' || gameType === 'teaching') {
+        } else if (gameType === 'even' || gameType === 'handicap' || gameType === 'teaching' || gameType === 'rengo') {
           // Set defaults for standard games using utility function
           newState.timePerMove = 0;
           
-          // Reset handicap to 0 for even games, set default for handicap games
-          if (gameType === 'even') {
+          // Reset handicap to 0 for even and rengo games, set default for handicap games
+          if (gameType === 'even' || gameType === 'rengo') {
             newState.handicap = 0;
           } else if (gameType === 'handicap' && prev.gameType !== 'handicap') {
             // Only set default handicap when switching TO handicap from another game type
@@ -405,6 +428,13 @@ const HomePage: React.FC = () => {
     setIsCreatingGame(true);
     setLocalError(null);
 
+    // Komi must be a whole or half point; an empty field means the default
+    if (options.komi !== undefined && !isValidKomi(options.komi)) {
+      setLocalError('Komi must be a whole or half point, such as 6.5, 0 or -5.');
+      setIsCreatingGame(false);
+      return;
+    }
+
     // Validate AI game constraints
     if (options.vsAI && options.boardSize > 19) {
       setLocalError('AI opponents are not supported on boards larger than 19x19. Please choose a smaller board size or disable AI.');
@@ -412,6 +442,25 @@ const HomePage: React.FC = () => {
       return;
     }
 
+    if (options.vsAI && options.gameType === 'rengo') {
+      setLocalError('Rengo games are played between teams of people. Please disable AI or choose another game type.');
+      setIsCreatingGame(false);
+      return;
+    }
+
+    // KataGo plays to the end and passes, so capture Go is only against the offline opponent
+    if (options.vsAI && options.gameType === 'capture') {
+      setLocalError('The online AI does not play capture Go. Please choose the offline opponent or play a person.');
+      setIsCreatingGame(false);
+      return;
+    }
+
+    if ((options.simulBoards || 1) >= MIN_SIMUL_BOARDS && (options.vsAI || options.gameType === 'rengo')) {
+      setLocalError('In a simul you play a student on each board. Please disable AI and choose a game type other than Rengo.');
+      setIsCreatingGame(false);
+      return;
+    }
+
     console.log('Creating game with captcha verification:', { playerName, options, captcha: !!captcha, captchaAnswer: !!captchaAnswer });
     
     try {
@@ -451,6 +500,49 @@ const HomePage: React.FC = () => {
 
 
 
+  // A game against the offline opponent is played in the browser
+  const isOfflineBotGame = !!gameOptions.vsAI && !!gameOptions.browserBot;
+
+  // A local game never reaches the server, so there is no captcha to solve
+  const handleCreateLocalGame = () => {
+    setLocalError(null);
+
+    if (gameOptions.komi !== undefined && !isValidKomi(gameOptions.komi)) {
+      setLocalError('Komi must be a whole or half point, such as 6.5, 0 or -5.');
+      return;
+    }
+
+    if (isOfflineBotGame && (gameOptions.boardDimensions || BROWSER_BOT_BOARD_SIZES.indexOf(gameOptions.boardSize) === -1)) {
+      setLocalError('The offline opponent plays on 9x9 and 13x13 boards. Please choose one of those sizes.');
+      return;
+    }
+
+    if ((gameOptions.vsAI && !isOfflineBotGame) || (gameOptions.simulBoards || 1) >= MIN_SIMUL_BOARDS ||
+        gameOptions.gameType === 'rengo' || gameOptions.gameType === 'correspondence' || gameOptions.gameType === 'teaching') {
+      setLocalError(isOfflineBotGame
+        ? 'The offline opponent plays even, handicap, blitz and capture games. Please turn off simul and choose one of those game types.'
+        : 'A local game is two players at one device. Please disable AI and simul, and choose an even, handicap, blitz or capture game.');
+      return;
+    }
+
+    createGame({
+      ...gameOptions,
+      playerName: username.trim(),
+      localGame: !isOfflineBotGame,
+      opponentName: opponentName.trim() || undefined
+    });
+  };
+
+  // Correspondence games are rejoined by name, like any game in progress
+  const openCorrespondenceGame = (code: string) => {
+    setGameId(code);
+    if (!username.trim()) {
+      setUsernameError('Please enter your username to join the game');
+      return;
+    }
+    joinGame(code, username.trim());
+  };
+
   const handleJoinGame = async () => {
     const trimmedGameId = gameId.trim();
     
@@ -504,29 +596,36 @@ const HomePage: React.FC = () => {
   };
 
   // Board size option component
-  const BoardSizeOption = ({ size, description, isStandard = true }: { size: number, description: string, isStandard?: boolean }) => {
+  const BoardSizeOption = ({ size, dimensions, description, isStandard = true }: { size: number, dimensions?: BoardDimensions, description: string, isStandard?: boolean }) => {
+    // Rectangular options carry explicit dimensions; size is then the longer side
+    const label = dimensions ? `${dimensions.width}×${dimensions.height}` : `${size}×${size}`;
+    const isSelected = dimensions
+      ? gameOptions.boardDimensions?.width === dimensions.width && gameOptions.boardDimensions?.height === dimensions.height
+      : gameOptions.boardSize === size && !gameOptions.boardDimensions;
+
     return (
       <div 
         className={`border rounded-lg p-4 cursor-pointer transition-all duration-200 ${
-          gameOptions.boardSize === size 
+          isSelected 
             ? 'border-primary-500 bg-primary-50 shadow-md' 
             : 'border-neutral-200 hover:border-primary-300 hover:bg-primary-50/30'
         } ${isStandard ? '' : 'opacity-90 hover:opacity-100'}`}
         onClick={() => {
           // Update board size - let updateGameOption handle time control updates
           updateGameOption('boardSize', size);
+          updateGameOption('boardDimensions', dimensions);
         }}
-        title={`${size}×${size} board - ${description}`}
+        title={`${label} board - ${description}`}
       >
         <div className="flex items-center gap-4">
-          <BoardSizePreview size={size} className="w-20 h-20 rounded-lg shadow-sm" />
+          <BoardSizePreview size={size} dimensions={dimensions} className="w-20 h-20 rounded-lg shadow-sm" />
           <div className="flex-grow">
         <div className="flex items-center justify-between mb-2">
               <div>
-          <span className="font-bold text-lg">{size}×{size}</span>
+          <span className="font-bold text-lg">{label}</span>
                 {!isStandard && <span className="ml-2 text-xs px-2 py-1 bg-neutral-100 rounded-full">Custom</span>}
               </div>
-          {gameOptions.boardSize === size && (
+          {isSelected && (
             <span className="text-primary-600">
               <svg xmlns="http://www.w3.org/2000/svg" width="20" height="20" viewBox="0 0 20 20" fill="currentColor">
                 <path fillRule="evenodd" d="M10 18a8 8 0 100-16 8 8 0 000 16zm3.707-9.293a1 1 0 00-1.414-1.414L9 10.586 7.707 9.293a1 1 0 00-1.414 1.414l2 2a1 1 0 001.414 0l4-4z" clipRule="evenodd" />
@@ -536,11 +635,12 @@ const HomePage: React.FC = () => {
         </div>
         <p className="text-sm text-neutral-600">{description}</p>
             <div className="mt-2 text-xs text-neutral-500">
-              {size === 9 && "Quick games (~20-30 min)"}
-              {size === 13 && "Medium length (~45-60 min)"}
-              {size === 19 && "Full length (~90-120 min)"}
-              {size === 15 && "Traditional Korean size (~60-90 min)"}
-              {size === 21 && "Extended play (~120-150 min)"}
+              {dimensions && "Rectangular board for teaching"}
+              {!dimensions && size === 9 && "Quick games (~20-30 min)"}
+              {!dimensions && size === 13 && "Medium length (~45-60 min)"}
+              {!dimensions && size === 19 && "Full length (~90-120 min)"}
+              {!dimensions && size === 15 && "Traditional Korean size (~60-90 min)"}
+              {!dimensions && size === 21 && "Extended play (~120-150 min)"}
             </div>
           </div>
         </div>
@@ -667,6 +767,8 @@ const HomePage: React.FC = () => {
               <div className="grid grid-cols-1 md:grid-cols-2 gap-3 pl-4">
                 <BoardSizeOption size={15} description="Traditional Korean size" isStandard={false} />
                 <BoardSizeOption size={21} description="Extended board size" isStandard={false} />
+                <BoardSizeOption size={13} dimensions={{ width: 9, height: 13 }} description="Tall teaching board" isStandard={false} />
+                <BoardSizeOption size={9} dimensions={{ width: 7, height: 9 }} description="Small teaching board" isStandard={false} />
               </div>
             </div>
           )}
@@ -690,6 +792,8 @@ const HomePage: React.FC = () => {
                 <option value="korean">Korean</option>
                 <option value="aga">AGA</option>
                 <option value="ing">Ing</option>
+                <option value="tromp-taylor">Tromp-Taylor</option>
+                <option value="new-zealand">New Zealand</option>
               </select>
             </div>
             
@@ -706,8 +810,74 @@ const HomePage: React.FC = () => {
                 <option value="handicap">Handicap Game</option>
                 <option value="teaching">Teaching Game</option>
                 <option value="blitz">Blitz Game</option>
+                <option value="rengo">Rengo (Team) Game</option>
+                <option value="correspondence">Correspondence Game</option>
+                <option value="capture">Capture Go (Atari Go)</option>
+              </select>
+              {gameOptions.gameType === 'rengo' && (
+                <p className="text-xs text-neutral-500 mt-1">Players pick teams in a lobby; team members take turns playing their color</p>
+              )}
+              {gameOptions.gameType === 'correspondence' && (
+                <p className="text-xs text-neutral-500 mt-1">Play at your own pace over days; the game waits on the server between moves</p>
+              )}
+              {gameOptions.gameType === 'capture' && (
+                <p className="text-xs text-neutral-500 mt-1">A first game for beginners: no passing or counting, the first to capture enough stones wins.</p>
+              )}
+            </div>
+
+            <div>
+              <label className="block text-sm font-medium text-neutral-700 mb-1">
+                Simul
+              </label>
+              <select
+                value={gameOptions.simulBoards || 1}
+                onChange={(e) => updateGameOption('simulBoards', parseInt(e.target.value))}
+                className="form-select w-full"
+              >
+                <option value={1}>Off (one board)</option>
+                {Array.from({ length: MAX_SIMUL_BOARDS - MIN_SIMUL_BOARDS + 1 }, (_, i) => MIN_SIMUL_BOARDS + i).map(boards => (
+                  <option key={boards} value={boards}>{boards} boards</option>
+                ))}
+              </select>
+              {(gameOptions.simulBoards || 1) >= MIN_SIMUL_BOARDS && (
+                <p className="text-xs text-neutral-500 mt-1">You play every board at once; each student joins a board of their own</p>
+              )}
+            </div>
+
+            <div>
+              <label className="block text-sm font-medium text-neutral-700 mb-1">
+                Ko Rule
+              </label>
+              <select
+                value={gameOptions.koRule || ''}
+                onChange={(e) => updateGameOption('koRule', (e.target.value || undefined) as KoRule | undefined)}
+                className="form-select w-full"
+              >
+                <option value="">Ruleset Default</option>
+                <option value="simple">Simple Ko</option>
+                <option value="positional-superko">Positional Superko</option>
+                <option value="situational-superko">Situational Superko</option>
               </select>
             </div>
+
+            <div>
+              <label className="block text-sm font-medium text-neutral-700 mb-1">
+                Komi
+              </label>
+              <input
+                type="number"
+                step={0.5}
+                value={gameOptions.komi ?? ''}
+                placeholder={`Default (${getAdjustedKomi(gameOptions.handicap, gameOptions.scoringRule)})`}
+                onChange={(e) => updateGameOption('komi', e.target.value === '' ? undefined : parseFloat(e.target.value))}
+                className="form-input w-full"
+              />
+              {gameOptions.komi !== undefined && !isValidKomi(gameOptions.komi) ? (
+                <p className="text-xs text-red-600 mt-1">Use a whole or half point, e.g. 6.5, 0 or -5</p>
+              ) : (
+                <p className="text-xs text-neutral-500 mt-1">Negative komi goes to Black (reverse komi)</p>
+              )}
+            </div>
           </div>
         </div>
 
@@ -716,8 +886,19 @@ const HomePage: React.FC = () => {
           enabled={gameOptions.vsAI || false}
           onToggle={(enabled: boolean) => updateGameOption('vsAI', enabled)}
           selectedNetwork={gameOptions.selectedNetworkId || null}
-          onSelectNetwork={(networkId: string | null) => updateGameOption('selectedNetworkId', networkId || undefined)}
+          onSelectNetwork={(networkId: string | null) => {
+            updateGameOption('selectedNetworkId', networkId || undefined);
+            if (networkId) updateGameOption('browserBot', false);
+          }}
           boardSize={gameOptions.boardSize}
+          browserBotLevel={gameOptions.browserBot ? gameOptions.aiLevel || 'normal' : null}
+          onSelectBrowserBot={(level) => {
+            updateGameOption('browserBot', !!level);
+            if (level) {
+              updateGameOption('aiLevel', level);
+              updateGameOption('selectedNetworkId', undefined);
+            }
+          }}
         />
 
         {/* Handicap Settings - Only show if handicap game type is selected */}
@@ -734,12 +915,26 @@ const HomePage: React.FC = () => {
                   onChange={(e) => updateGameOption('handicap', parseInt(e.target.value))}
                   className="form-select w-full"
                 >
-                  {[2,3,4,5,6,7,8,9].map(num => (
-                    <option key={num} value={num}>{num} stones</option>
+                  {[1,2,3,4,5,6,7,8,9].map(num => (
+                    <option key={num} value={num}>{num === 1 ? 'No stones (Black first, komi only)' : `${num} stones`}</option>
                   ))}
                 </select>
               </div>
               
+              <div>
+                <label className="block text-sm font-medium text-neutral-700 mb-1">
+                  Stone Placement
+                </label>
+                <select
+                  value={gameOptions.handicapPlacement || 'fixed'}
+                  onChange={(e) => updateGameOption('handicapPlacement', e.target.value as HandicapPlacement)}
+                  className="form-select w-full"
+                >
+                  <option value="fixed">Fixed (star points)</option>
+                  <option value="free">Free (Black chooses)</option>
+                </select>
+              </div>
+              
               <div>
                 <label className="block text-sm font-medium text-neutral-700 mb-1">
                   Color Preference
@@ -761,7 +956,29 @@ const HomePage: React.FC = () => {
         {/* Time Control Settings */}
         <div className="mb-6">
           <h3 className="text-lg font-semibold mb-3">Time Control</h3>
-          <div className="grid grid-cols-1 gap-4">
+          {gameOptions.gameType === 'correspondence' && (
+            <div>
+              <label className="block text-sm font-medium text-neutral-700 mb-1">
+                Days per Move
+              </label>
+              <select
+                value={gameOptions.timeControlOptions?.correspondenceDays || 3}
+                onChange={(e) => updateGameOption('timeControlOptions', {
+                  ...gameOptions.timeControlOptions,
+                  correspondenceDays: parseInt(e.target.value)
+                })}
+                className="form-select w-full"
+              >
+                {CORRESPONDENCE_DAY_OPTIONS.map(days => (
+                  <option key={days} value={days}>{days} {days === 1 ? 'day' : 'days'}</option>
+                ))}
+              </select>
+              <p className="mt-1 text-xs text-neutral-500">
+                Each move must be played within this time, or the game is lost on time
+              </p>
+            </div>
+          )}
+          <div className={`grid grid-cols-1 gap-4 ${gameOptions.gameType === 'correspondence' ? 'hidden' : ''}`}>
             <div>
               <label className="block text-sm font-medium text-neutral-700 mb-1">
                 Main Time (minutes)
@@ -789,7 +1006,7 @@ const HomePage: React.FC = () => {
                   ) : (
                     <>
                       <p className="text-sm text-neutral-500">
-                        Recommended {getRecommendedTimeForBoardSize(gameOptions.boardSize)} minutes for {gameOptions.boardSize}×{gameOptions.boardSize} board (you can set any time you want)
+                        Recommended {getRecommendedTimeForBoardSize(gameOptions.boardSize)} minutes for {gameOptions.boardDimensions ? `${gameOptions.boardDimensions.width}×${gameOptions.boardDimensions.height}` : `${gameOptions.boardSize}×${gameOptions.boardSize}`} board (you can set any time you want)
                       </p>
                       <p className="text-xs text-neutral-400 mt-1">
                         Set to 0 minutes for unlimited time (no time counting)
@@ -985,6 +1202,24 @@ const HomePage: React.FC = () => {
               </svg>
               Learn Go
             </Link>
+            <Link 
+              to="/review" 
+              className="inline-flex items-center px-2 sm:px-4 py-2 bg-white border border-neutral-300 rounded-lg text-neutral-700 hover:bg-neutral-50 hover:border-primary-300 hover:text-primary-700 transition-all duration-200 shadow-sm hover:shadow-md text-sm sm:text-base"
+            >
+              <svg xmlns="http://www.w3.org/2000/svg" className="h-4 w-4 mr-1 sm:mr-2" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+                <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M4 16v1a3 3 0 003 3h10a3 3 0 003-3v-1m-4-8l-4-4m0 0L8 8m4-4v12" />
+              </svg>
+              Open SGF
+            </Link>
+            <Link 
+              to="/problems" 
+              className="inline-flex items-center px-2 sm:px-4 py-2 bg-white border border-neutral-300 rounded-lg text-neutral-700 hover:bg-neutral-50 hover:border-primary-300 hover:text-primary-700 transition-all duration-200 shadow-sm hover:shadow-md text-sm sm:text-base"
+            >
+              <svg xmlns="http://www.w3.org/2000/svg" className="h-4 w-4 mr-1 sm:mr-2" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+                <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M8.228 9c.549-1.165 2.03-2 3.772-2 2.21 0 4 1.343 4 3 0 1.4-1.278 2.575-3.006 2.907-.542.104-.994.54-.994 1.093m0 3h.01M21 12a9 9 0 11-18 0 9 9 0 0118 0z" />
+              </svg>
+              Problems
+            </Link>
             <a 
               href="https://kifu.gosei.xyz" 
               target="_blank" 
@@ -1183,10 +1418,67 @@ const HomePage: React.FC = () => {
                 {/* Game Options Panel */}
                 <GameOptionsPanel />
                 
+                {/* Local game, kept outside the options panel so the name field keeps its focus */}
+                <div className="mt-6 p-4 rounded-lg border border-neutral-200">
+                  <label className="flex items-center gap-2 font-medium text-neutral-700">
+                    <input
+                      type="checkbox"
+                      checked={localGame}
+                      onChange={(e) => {
+                        setLocalGame(e.target.checked);
+                        setLocalError(null);
+                      }}
+                      className="h-4 w-4 text-primary-500 focus:ring-primary-400 rounded"
+                    />
+                    Local game on this device
+                  </label>
+                  <p className="text-xs text-neutral-500 mt-1">Pass the device between moves; works without a network connection</p>
+                  {localGame && (
+                    <div className="mt-3">
+                      <label htmlFor="opponent-name" className="block text-sm font-medium text-neutral-700 mb-1">
+                        Opponent's Name
+                      </label>
+                      <input
+                        id="opponent-name"
+                        type="text"
+                        value={opponentName}
+                        onChange={(e) => setOpponentName(e.target.value)}
+                        placeholder="Player 2"
+                        maxLength={32}
+                        className="form-input w-full"
+                      />
+                    </div>
+                  )}
+                  {/* Local and offline games skip the create form, so they choose the stones to capture here */}
+                  {(localGame || isOfflineBotGame) && gameOptions.gameType === 'capture' && (
+                    <div className="mt-3">
+                      <label htmlFor="local-capture-target" className="block text-sm font-medium text-neutral-700 mb-1">
+                        Stones to Capture
+                      </label>
+                      <select
+                        id="local-capture-target"
+                        value={gameOptions.captureTarget || DEFAULT_CAPTURE_TARGET}
+                        onChange={(e) => updateGameOption('captureTarget', parseInt(e.target.value))}
+                        className="form-select w-full"
+                      >
+                        {CAPTURE_TARGET_OPTIONS.map(target => (
+                          <option key={target} value={target}>{target === 1 ? '1 stone (Atari Go)' : `${target} stones`}</option>
+                        ))}
+                      </select>
+                    </div>
+                  )}
+                </div>
+                
+                {(localGame || isOfflineBotGame) && localError && (
+                  <div className="mt-4 p-3 bg-red-100 border border-red-200 text-red-700 rounded-lg text-sm">
+                    {localError}
+                  </div>
+                )}
+                
                 {/* Create Game button */}
                 <div className="mt-8 flex justify-center md:justify-end">
                     <button
-                    onClick={() => setShowCreateForm(true)}
+                    onClick={() => localGame || isOfflineBotGame ? handleCreateLocalGame() : setShowCreateForm(true)}
                     className="bg-indigo-600 hover:bg-indigo-700 text-white font-semibold text-lg py-4 px-8 rounded-2xl transition-all duration-200 transform hover:scale-105 shadow-lg hover:shadow-xl"
                   >
                     <div className="flex items-center justify-center gap-2">
@@ -1201,6 +1493,9 @@ const HomePage: React.FC = () => {
                 </div>
             </div>
           )}
+
+          {/* Correspondence games, with the ones awaiting your move first */}
+          {!showGameSettings && <CorrespondenceGames onOpenGame={openCorrespondenceGame} />}
         </div>
       </div>
       
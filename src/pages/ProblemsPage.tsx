@@ -0,0 +1,250 @@
+import React, { useState } from 'react';
+import { Link } from 'react-router-dom';
+import GoBoard from '../components/go-board/GoBoard';
+import GoseiLogo from '../components/GoseiLogo';
+import ThemeToggleButton from '../components/ThemeToggleButton';
+import { Position } from '../types/go';
+import { useAppTheme } from '../context/AppThemeContext';
+import { getMoveMessage } from '../utils/moveMessages';
+import { playStoneSound } from '../utils/soundUtils';
+import {
+  loadProblem,
+  loadProblemProgress,
+  playProblemMove,
+  recordProblemAttempt,
+  startProblem,
+  TsumegoAttempt,
+  TsumegoProblem
+} from '../utils/tsumego';
+import { BUNDLED_PROBLEMS } from '../utils/tsumegoProblems';
+
+// Opened problems are remembered by their text, so progress survives opening them again
+const getTextId = (text: string): string => {
+  let hash = 5381;
+  for (let i = 0; i < text.length; i++) {
+    hash = ((hash << 5) + hash + text.charCodeAt(i)) | 0;
+  }
+  return `sgf-${(hash >>> 0).toString(36)}`;
+};
+
+// Life-and-death problems: play the solution, the app answers with the refutations
+const ProblemsPage: React.FC = () => {
+  const { isDarkMode } = useAppTheme();
+  const [problems, setProblems] = useState<TsumegoProblem[]>(() =>
+    BUNDLED_PROBLEMS.map(({ id, sgf }) => loadProblem(sgf, id))
+  );
+  const [problemIndex, setProblemIndex] = useState<number>(0);
+  const [attempt, setAttempt] = useState<TsumegoAttempt>(() => startProblem(problems[0]));
+  const [progress, setProgress] = useState(loadProblemProgress);
+  const [moveError, setMoveError] = useState<string | null>(null);
+  const [sgfText, setSgfText] = useState<string>('');
+  const [importError, setImportError] = useState<string | null>(null);
+
+  const problem = problems[problemIndex];
+  const toPlay = startProblem(problem).gameState.currentTurn === 'black' ? 'Black' : 'White';
+
+  const openProblem = (index: number, list: TsumegoProblem[] = problems) => {
+    setProblemIndex(index);
+    setAttempt(startProblem(list[index]));
+    setMoveError(null);
+  };
+
+  const handleMove = (position: Position) => {
+    const result = playProblemMove(problem, attempt, position);
+    if (!result.attempt) {
+      setMoveError(getMoveMessage(result.reason));
+      return;
+    }
+
+    setMoveError(null);
+    playStoneSound();
+    setAttempt(result.attempt);
+    if (result.attempt.status !== 'solving') {
+      setProgress(recordProblemAttempt(progress, problem.id, result.attempt.status === 'solved'));
+    }
+  };
+
+  const openOwnProblem = (text: string) => {
+    try {
+      const opened = loadProblem(text, getTextId(text));
+      const existing = problems.findIndex(({ id }) => id === opened.id);
+      if (existing >= 0) {
+        openProblem(existing);
+      } else {
+        const list = [...problems, opened];
+        setProblems(list);
+        openProblem(list.length - 1, list);
+      }
+      setImportError(null);
+    } catch (error) {
+      console.error('Error opening problem:', error);
+      setImportError(error instanceof Error ? error.message : 'Could not read this problem');
+    }
+  };
+
+  const handleFileChange = (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    if (!file) return;
+
+    const reader = new FileReader();
+    reader.onload = () => {
+      const text = String(reader.result || '');
+      setSgfText(text);
+      openOwnProblem(text);
+    };
+    reader.readAsText(file);
+  };
+
+  const panelClass = `p-4 rounded-xl shadow ${isDarkMode ? 'bg-neutral-800 text-white' : 'bg-white text-neutral-900'}`;
+  const buttonClass = 'px-4 py-2 rounded-lg font-medium disabled:opacity-50';
+  const solvedCount = problems.filter(({ id }) => progress[id]?.solved).length;
+
+  let statusText = `${toPlay} to play`;
+  let statusClass = isDarkMode ? 'bg-neutral-700 text-neutral-100' : 'bg-neutral-100 text-neutral-800';
+  if (attempt.status === 'solved') {
+    statusText = 'Solved!';
+    statusClass = 'bg-green-100 text-green-800';
+  } else if (attempt.status === 'failed') {
+    statusText = attempt.comment ? 'Not quite' : 'That move is not part of the solution';
+    statusClass = 'bg-red-100 text-red-800';
+  }
+
+  return (
+    <div className={`min-h-screen ${isDarkMode ? 'bg-neutral-900' : 'bg-neutral-100'}`}>
+      <div className="container mx-auto px-4 py-8">
+        {/* Header */}
+        <header className="text-center mb-8">
+          <div className="flex items-center justify-center gap-3 mb-2">
+            <GoseiLogo size={48} />
+            <h1 className="text-4xl font-bold text-primary-700 font-display tracking-tight">Problems</h1>
+          </div>
+          <p className={`text-xl ${isDarkMode ? 'text-neutral-400' : 'text-neutral-600'}`}>
+            Life-and-death problems: find the move that works
+          </p>
+        </header>
+
+        {/* Navigation */}
+        <div className="max-w-6xl mx-auto mb-6 flex items-center justify-between">
+          <Link
+            to="/"
+            className={`inline-flex items-center px-4 py-2.5 rounded-lg font-medium transition-all duration-200 ${
+              isDarkMode
+                ? 'bg-slate-700/50 hover:bg-slate-600/60 text-slate-200 hover:text-white border border-slate-600/50'
+                : 'bg-white hover:bg-gray-50 text-gray-700 hover:text-gray-900 border border-gray-200 shadow-sm'
+            }`}
+          >
+            <svg className="w-5 h-5 mr-2" fill="currentColor" viewBox="0 0 20 20">
+              <path fillRule="evenodd" d="M9.707 16.707a1 1 0 01-1.414 0l-6-6a1 1 0 010-1.414l6-6a1 1 0 011.414 1.414L5.414 9H17a1 1 0 110 2H5.414l4.293 4.293a1 1 0 010 1.414z" clipRule="evenodd" />
+            </svg>
+            Back to Home
+          </Link>
+          <ThemeToggleButton />
+        </div>
+
+        <div className="max-w-6xl mx-auto grid grid-cols-1 lg:grid-cols-3 gap-8">
+          <div className="lg:col-span-2">
+            <div className={panelClass}>
+              <div className="flex items-center justify-between gap-3 mb-3">
+                <h2 className="text-lg font-semibold">{problem.title}</h2>
+                <span className={`px-3 py-1 rounded-full text-sm font-medium ${statusClass}`}>{statusText}</span>
+              </div>
+
+              <GoBoard
+                board={attempt.gameState.board}
+                currentTurn={attempt.gameState.currentTurn}
+                onPlaceStone={handleMove}
+                isPlayerTurn={attempt.status === 'solving'}
+                lastMove={attempt.gameState.lastMove}
+              />
+
+              {attempt.comment && (
+                <p className={`mt-3 text-sm whitespace-pre-wrap ${isDarkMode ? 'text-neutral-300' : 'text-neutral-700'}`}>
+                  {attempt.comment}
+                </p>
+              )}
+              {moveError && <p className="mt-2 text-sm text-red-600">{moveError}</p>}
+
+              <div className="mt-4 flex flex-wrap gap-3">
+                <button
+                  onClick={() => openProblem(problemIndex)}
+                  className={`${buttonClass} ${isDarkMode ? 'bg-neutral-700 hover:bg-neutral-600' : 'bg-neutral-200 hover:bg-neutral-300 text-neutral-800'}`}
+                >
+                  Try Again
+                </button>
+                <button
+                  onClick={() => openProblem(problemIndex + 1)}
+                  disabled={problemIndex >= problems.length - 1}
+                  className={`${buttonClass} bg-primary-600 hover:bg-primary-700 text-white`}
+                >
+                  Next Problem
+                </button>
+              </div>
+            </div>
+          </div>
+
+          <div className="lg:col-span-1 space-y-4">
+            <div className={panelClass}>
+              <h2 className="text-lg font-semibold mb-1">Problems</h2>
+              <p className={`text-sm mb-3 ${isDarkMode ? 'text-neutral-400' : 'text-neutral-500'}`}>
+                {solvedCount} of {problems.length} solved
+              </p>
+              <ol className="space-y-1">
+                {problems.map(({ id, title }, index) => (
+                  <li key={id}>
+                    <button
+                      onClick={() => openProblem(index)}
+                      className={`w-full flex items-center justify-between gap-2 px-3 py-2 rounded-lg text-left text-sm ${
+                        index === problemIndex
+                          ? 'bg-primary-600 text-white'
+                          : isDarkMode ? 'hover:bg-neutral-700' : 'hover:bg-neutral-100'
+                      }`}
+                    >
+                      <span>{index + 1}. {title}</span>
+                      <span className="text-xs whitespace-nowrap">
+                        {progress[id]?.solved ? '✓ Solved' : progress[id] ? `${progress[id].attempts} tried` : ''}
+                      </span>
+                    </button>
+                  </li>
+                ))}
+              </ol>
+            </div>
+
+            <div className={panelClass}>
+              <h2 className="text-lg font-semibold mb-3">Open a Problem</h2>
+              <p className={`text-sm mb-3 ${isDarkMode ? 'text-neutral-400' : 'text-neutral-500'}`}>
+                SGF with the solution as variations, marked "Correct" or "RIGHT" in the comments
+              </p>
+              <input
+                type="file"
+                accept=".sgf,application/x-go-sgf"
+                onChange={handleFileChange}
+                className="block w-full text-sm mb-3"
+              />
+              <textarea
+                value={sgfText}
+                onChange={(e) => setSgfText(e.target.value)}
+                placeholder="(;GM[1]FF[4]SZ[19]AB[...]AW[...](;B[...]C[Correct]))"
+                rows={6}
+                className={`w-full p-2 rounded-md border font-mono text-xs ${
+                  isDarkMode ? 'bg-neutral-900 border-neutral-700 text-neutral-200' : 'bg-white border-neutral-300'
+                }`}
+              />
+              <button
+                onClick={() => openOwnProblem(sgfText)}
+                disabled={!sgfText.trim()}
+                className={`mt-3 w-full ${buttonClass} bg-primary-600 hover:bg-primary-700 text-white`}
+              >
+                Open Problem
+              </button>
+              {importError && (
+                <p className="mt-3 text-sm text-red-600">{importError}</p>
+              )}
+            </div>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default ProblemsPage;
@@ -0,0 +1,158 @@
+import React, { useState } from 'react';
+import { Link } from 'react-router-dom';
+import GoBoard from '../components/go-board/GoBoard';
+import GameReview, { ReviewBoardState } from '../components/GameReview';
+import GoseiLogo from '../components/GoseiLogo';
+import ThemeToggleButton from '../components/ThemeToggleButton';
+import { GameState } from '../types/go';
+import { getBoardDimensions } from '../rules';
+import { importKifu } from '../utils/kifuFormats';
+import { useAppTheme } from '../context/AppThemeContext';
+
+// Review games recorded elsewhere: paste or upload an SGF, GIB, NGF or UGF file and step through it
+const ReviewPage: React.FC = () => {
+  const { isDarkMode } = useAppTheme();
+  const [sgfText, setSgfText] = useState<string>('');
+  const [importError, setImportError] = useState<string | null>(null);
+  const [gameState, setGameState] = useState<GameState | null>(null);
+  const [reviewBoardState, setReviewBoardState] = useState<ReviewBoardState | null>(null);
+
+  const openGame = (text: string, fileName?: string) => {
+    try {
+      setGameState(importKifu(text, fileName));
+      setReviewBoardState(null);
+      setImportError(null);
+    } catch (error) {
+      console.error('Error importing game record:', error);
+      setImportError(error instanceof Error ? error.message : 'Could not read this game record');
+    }
+  };
+
+  const handleFileChange = (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    if (!file) return;
+
+    const reader = new FileReader();
+    reader.onload = () => {
+      const text = String(reader.result || '');
+      setSgfText(text);
+      openGame(text, file.name);
+    };
+    reader.readAsText(file);
+  };
+
+  const panelClass = `p-4 rounded-xl shadow ${isDarkMode ? 'bg-neutral-800 text-white' : 'bg-white text-neutral-900'}`;
+  const blackPlayer = gameState?.players.find(p => p.color === 'black');
+  const whitePlayer = gameState?.players.find(p => p.color === 'white');
+
+  return (
+    <div className={`min-h-screen ${isDarkMode ? 'bg-neutral-900' : 'bg-neutral-100'}`}>
+      <div className="container mx-auto px-4 py-8">
+        {/* Header */}
+        <header className="text-center mb-8">
+          <div className="flex items-center justify-center gap-3 mb-2">
+            <GoseiLogo size={48} />
+            <h1 className="text-4xl font-bold text-primary-700 font-display tracking-tight">Review a Game</h1>
+          </div>
+          <p className={`text-xl ${isDarkMode ? 'text-neutral-400' : 'text-neutral-600'}`}>
+            Open an SGF, GIB (Tygem), NGF (WBaduk) or UGF (Fox) file from any Go server
+          </p>
+        </header>
+
+        {/* Navigation */}
+        <div className="max-w-6xl mx-auto mb-6 flex items-center justify-between">
+          <Link
+            to="/"
+            className={`inline-flex items-center px-4 py-2.5 rounded-lg font-medium transition-all duration-200 ${
+              isDarkMode
+                ? 'bg-slate-700/50 hover:bg-slate-600/60 text-slate-200 hover:text-white border border-slate-600/50'
+                : 'bg-white hover:bg-gray-50 text-gray-700 hover:text-gray-900 border border-gray-200 shadow-sm'
+            }`}
+          >
+            <svg className="w-5 h-5 mr-2" fill="currentColor" viewBox="0 0 20 20">
+              <path fillRule="evenodd" d="M9.707 16.707a1 1 0 01-1.414 0l-6-6a1 1 0 010-1.414l6-6a1 1 0 011.414 1.414L5.414 9H17a1 1 0 110 2H5.414l4.293 4.293a1 1 0 010 1.414z" clipRule="evenodd" />
+            </svg>
+            Back to Home
+          </Link>
+          <ThemeToggleButton />
+        </div>
+
+        <div className="max-w-6xl mx-auto grid grid-cols-1 lg:grid-cols-3 gap-8">
+          <div className="lg:col-span-2">
+            {gameState ? (
+              <div className={panelClass}>
+                <GoBoard
+                  board={gameState.board}
+                  currentTurn={gameState.currentTurn}
+                  onPlaceStone={() => {}}
+                  isPlayerTurn={false}
+                  lastMove={reviewBoardState?.isReviewing ? undefined : gameState.lastMove}
+                  isReviewing={reviewBoardState?.isReviewing || false}
+                  reviewStones={reviewBoardState?.stones || []}
+                  onReviewClick={reviewBoardState?.clickPoint}
+                  markup={reviewBoardState?.markup}
+                />
+                <GameReview key={gameState.id} gameState={gameState} onBoardStateChange={setReviewBoardState} />
+              </div>
+            ) : (
+              <div className={`${panelClass} text-center py-16`}>
+                <p className={isDarkMode ? 'text-neutral-400' : 'text-neutral-600'}>
+                  Choose a game record file or paste its contents to start reviewing.
+                </p>
+              </div>
+            )}
+          </div>
+
+          <div className="lg:col-span-1 space-y-4">
+            <div className={panelClass}>
+              <h2 className="text-lg font-semibold mb-3">Open Game Record</h2>
+              <input
+                type="file"
+                accept=".sgf,.gib,.ngf,.ugf,application/x-go-sgf"
+                onChange={handleFileChange}
+                className="block w-full text-sm mb-3"
+              />
+              <textarea
+                value={sgfText}
+                onChange={(e) => setSgfText(e.target.value)}
+                placeholder="(;GM[1]FF[4]SZ[19];B[pd];W[dp]...)"
+                rows={8}
+                className={`w-full p-2 rounded-md border font-mono text-xs ${
+                  isDarkMode ? 'bg-neutral-900 border-neutral-700 text-neutral-200' : 'bg-white border-neutral-300'
+                }`}
+              />
+              <button
+                onClick={() => openGame(sgfText)}
+                disabled={!sgfText.trim()}
+                className="mt-3 w-full px-4 py-2 rounded-lg bg-primary-600 hover:bg-primary-700 text-white font-medium disabled:opacity-50"
+              >
+                Open Game
+              </button>
+              {importError && (
+                <p className="mt-3 text-sm text-red-600">{importError}</p>
+              )}
+            </div>
+
+            {gameState && (
+              <div className={panelClass}>
+                <h2 className="text-lg font-semibold mb-3">Game Info</h2>
+                <dl className="text-sm grid grid-cols-2 gap-y-1">
+                  <dt>Black</dt><dd>{blackPlayer?.username}{blackPlayer?.rank && ` (${blackPlayer.rank})`}</dd>
+                  <dt>White</dt><dd>{whitePlayer?.username}{whitePlayer?.rank && ` (${whitePlayer.rank})`}</dd>
+                  <dt>Board</dt><dd>{getBoardDimensions(gameState.board).width}×{getBoardDimensions(gameState.board).height}</dd>
+                  <dt>Komi</dt><dd>{gameState.komi}</dd>
+                  {gameState.handicap > 0 && (<><dt>Handicap</dt><dd>{gameState.handicap}</dd></>)}
+                  <dt>Rules</dt><dd className="capitalize">{gameState.scoringRule}</dd>
+                  <dt>Result</dt><dd>{gameState.result || 'Unknown'}</dd>
+                  <dt>Moves</dt><dd>{gameState.history.length}</dd>
+                </dl>
+              </div>
+            )}
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default ReviewPage;
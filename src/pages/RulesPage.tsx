@@ -236,6 +236,40 @@ const RulesPage: React.FC = () => {
             </div>
           </RulesSection>
 
+          {/* Rulesets */}
+          <RulesSection
+            title="📜 Rulesets"
+            isOpen={openSections.has('rulesets')}
+            onToggle={() => toggleSection('rulesets')}
+          >
+            <div className="space-y-4">
+              <p className="text-neutral-700">
+                Besides Japanese, Chinese, Korean, AGA and Ing rules, games can be played under two rulesets
+                that are popular for computer Go and club play:
+              </p>
+              <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                <div className="bg-sky-50 p-4 rounded-lg">
+                  <h4 className="font-semibold text-sky-800 mb-2">Tromp-Taylor</h4>
+                  <ul className="list-disc pl-5 space-y-1 text-sky-700 text-sm">
+                    <li>Area scoring: stones on the board plus empty points that reach only your color</li>
+                    <li>No dead stone agreement - every stone on the board counts as alive, so capture dead groups before passing</li>
+                    <li>Suicide of more than one stone is allowed; the stones go to your opponent</li>
+                    <li>Positional superko; default komi 7.5</li>
+                  </ul>
+                </div>
+                <div className="bg-rose-50 p-4 rounded-lg">
+                  <h4 className="font-semibold text-rose-800 mb-2">New Zealand</h4>
+                  <ul className="list-disc pl-5 space-y-1 text-rose-700 text-sm">
+                    <li>Area scoring: territory plus living stones on the board</li>
+                    <li>Players agree on dead stones before counting</li>
+                    <li>Suicide of more than one stone is allowed; the stones go to your opponent</li>
+                    <li>Situational superko; default komi 7</li>
+                  </ul>
+                </div>
+              </div>
+            </div>
+          </RulesSection>
+
           {/* Board Sizes */}
           <RulesSection
             title="📐 Board Sizes"
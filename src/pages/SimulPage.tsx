@@ -0,0 +1,217 @@
+import React, { useEffect, useState } from 'react';
+import { Link, useNavigate, useParams } from 'react-router-dom';
+import GoseiLogo from '../components/GoseiLogo';
+import ThemeToggleButton from '../components/ThemeToggleButton';
+import { useGame } from '../context/GameContext';
+import { useAppTheme } from '../context/AppThemeContext';
+import { getNextSimulBoard, getSimulResults } from '../rules';
+import { SimulBoard } from '../types/go';
+
+const describeBoard = (board: SimulBoard, forHost: boolean): string => {
+  if (board.status === 'finished') return board.result ? `Finished (${board.result})` : 'Finished';
+  if (!board.studentName) return 'Open seat';
+  if (board.status === 'scoring') return 'Scoring';
+  if (board.status === 'waiting') return 'Starting';
+  if (board.awaitingHost) return forHost ? 'Your move' : 'Host to move';
+  return 'Student to move';
+};
+
+// A simul: the host's dashboard of every board, or the seats students can take
+const SimulPage: React.FC = () => {
+  const { simulId } = useParams<{ simulId: string }>();
+  const navigate = useNavigate();
+  const { isDarkMode } = useAppTheme();
+  const { simul: watchedSimul, watchSimul, openSimulBoard, joinGame, currentPlayer, gameState, error } = useGame();
+  const [username, setUsername] = useState<string>(() => localStorage.getItem('gosei-player-name') || '');
+  const [copied, setCopied] = useState<boolean>(false);
+
+  useEffect(() => {
+    if (simulId) watchSimul(simulId);
+  }, [simulId, watchSimul]);
+
+  const simul = watchedSimul && watchedSimul.id === simulId ? watchedSimul : null;
+
+  // The host is recognized by the player id, or by name after reloading the page
+  const isHost = !!simul && (
+    currentPlayer?.id === simul.hostId ||
+    (!!username.trim() && username.trim().toLowerCase() === simul.hostName.toLowerCase())
+  );
+
+  const openBoard = async (board: SimulBoard, asSpectator: boolean = false) => {
+    if (isHost) {
+      await openSimulBoard(board.gameId);
+    } else {
+      if (!username.trim()) return;
+      localStorage.setItem('gosei-player-name', username.trim());
+      await joinGame(board.code, username.trim(), asSpectator);
+    }
+    navigate(`/game/${board.gameId}`);
+  };
+
+  const copyLink = () => {
+    navigator.clipboard.writeText(`${window.location.origin}/simul/${simulId}`).then(() => {
+      setCopied(true);
+      setTimeout(() => setCopied(false), 2000);
+    });
+  };
+
+  const panelClass = `p-4 rounded-xl shadow ${isDarkMode ? 'bg-neutral-800 text-white' : 'bg-white text-neutral-900'}`;
+  const buttonClass = 'px-4 py-2 rounded-lg font-medium disabled:opacity-50';
+  const mutedClass = isDarkMode ? 'text-neutral-400' : 'text-neutral-500';
+
+  if (!simul) {
+    return (
+      <div className={`min-h-screen flex items-center justify-center ${isDarkMode ? 'bg-neutral-900 text-white' : 'bg-neutral-100'}`}>
+        <div className={`${panelClass} text-center max-w-md`}>
+          <p className="mb-4">{error || 'Loading the simul...'}</p>
+          <Link to="/" className={`${buttonClass} bg-primary-600 hover:bg-primary-700 text-white`}>
+            Back to Home
+          </Link>
+        </div>
+      </div>
+    );
+  }
+
+  const results = getSimulResults(simul.boards);
+  const waitingCount = simul.boards.filter(board => board.awaitingHost).length;
+  const nextBoard = getNextSimulBoard(simul.boards, gameState?.id);
+  const allFinished = results.unfinished === 0;
+
+  return (
+    <div className={`min-h-screen ${isDarkMode ? 'bg-neutral-900' : 'bg-neutral-100'}`}>
+      <div className="container mx-auto px-4 py-8">
+        {/* Header */}
+        <header className="text-center mb-8">
+          <div className="flex items-center justify-center gap-3 mb-2">
+            <GoseiLogo size={48} />
+            <h1 className="text-4xl font-bold text-primary-700 font-display tracking-tight">Simul</h1>
+          </div>
+          <p className={`text-xl ${isDarkMode ? 'text-neutral-400' : 'text-neutral-600'}`}>
+            {simul.hostName} plays {simul.boards.length} boards at once
+          </p>
+        </header>
+
+        {/* Navigation */}
+        <div className="max-w-4xl mx-auto mb-6 flex items-center justify-between">
+          <Link
+            to="/"
+            className={`inline-flex items-center px-4 py-2.5 rounded-lg font-medium transition-all duration-200 ${
+              isDarkMode
+                ? 'bg-slate-700/50 hover:bg-slate-600/60 text-slate-200 hover:text-white border border-slate-600/50'
+                : 'bg-white hover:bg-gray-50 text-gray-700 hover:text-gray-900 border border-gray-200 shadow-sm'
+            }`}
+          >
+            <svg className="w-5 h-5 mr-2" fill="currentColor" viewBox="0 0 20 20">
+              <path fillRule="evenodd" d="M9.707 16.707a1 1 0 01-1.414 0l-6-6a1 1 0 010-1.414l6-6a1 1 0 011.414 1.414L5.414 9H17a1 1 0 110 2H5.414l4.293 4.293a1 1 0 010 1.414z" clipRule="evenodd" />
+            </svg>
+            Back to Home
+          </Link>
+          <ThemeToggleButton />
+        </div>
+
+        <div className="max-w-4xl mx-auto space-y-6">
+          {isHost ? (
+            <div className={`${panelClass} flex items-center justify-between gap-4 flex-wrap`}>
+              <div>
+                <h2 className="text-lg font-semibold">
+                  {waitingCount === 0 ? 'No board is waiting for you' : `${waitingCount} ${waitingCount === 1 ? 'board is' : 'boards are'} waiting for your move`}
+                </h2>
+                <p className={`text-sm ${mutedClass}`}>Share the simul link so students can take a board</p>
+              </div>
+              <div className="flex gap-3">
+                <button
+                  onClick={copyLink}
+                  className={`${buttonClass} ${isDarkMode ? 'bg-neutral-700 hover:bg-neutral-600' : 'bg-neutral-200 hover:bg-neutral-300 text-neutral-800'}`}
+                >
+                  {copied ? 'Copied!' : 'Copy Link'}
+                </button>
+                <button
+                  onClick={() => nextBoard && openBoard(nextBoard)}
+                  disabled={!nextBoard}
+                  className={`${buttonClass} bg-primary-600 hover:bg-primary-700 text-white`}
+                >
+                  Play Next Board{nextBoard ? ` (${nextBoard.boardNumber})` : ''}
+                </button>
+              </div>
+            </div>
+          ) : (
+            <div className={panelClass}>
+              <label htmlFor="simul-username" className="block text-sm font-medium mb-1">
+                Your Name
+              </label>
+              <input
+                id="simul-username"
+                type="text"
+                value={username}
+                onChange={(e) => setUsername(e.target.value)}
+                placeholder="Enter your name to take a board"
+                maxLength={32}
+                className="form-input w-full"
+              />
+            </div>
+          )}
+
+          {/* Boards, and the results table once every game has ended */}
+          <div className={panelClass}>
+            <div className="flex items-center justify-between gap-3 mb-3">
+              <h2 className="text-lg font-semibold">{allFinished ? 'Final Results' : 'Boards'}</h2>
+              <span className={`text-sm ${mutedClass}`}>
+                {simul.hostName}: {results.wins} won, {results.losses} lost
+                {results.draws > 0 && `, ${results.draws} drawn`}
+                {results.unfinished > 0 && ` (${results.unfinished} playing)`}
+              </span>
+            </div>
+            <table className="w-full text-sm">
+              <thead>
+                <tr className={`text-left ${mutedClass}`}>
+                  <th className="py-2 pr-2">Board</th>
+                  <th className="py-2 pr-2">Student</th>
+                  <th className="py-2 pr-2">{isHost ? 'Your color' : 'Host color'}</th>
+                  <th className="py-2 pr-2">Moves</th>
+                  <th className="py-2 pr-2">Status</th>
+                  <th className="py-2"></th>
+                </tr>
+              </thead>
+              <tbody>
+                {simul.boards.map(board => {
+                  const isOpenSeat = !board.studentName && board.status === 'waiting';
+                  return (
+                    <tr key={board.gameId} className={`border-t ${isDarkMode ? 'border-neutral-700' : 'border-neutral-200'}`}>
+                      <td className="py-2 pr-2">{board.boardNumber}</td>
+                      <td className="py-2 pr-2">{board.studentName || '-'}</td>
+                      <td className="py-2 pr-2">{board.hostColor === 'black' ? '⚫ Black' : '⚪ White'}</td>
+                      <td className="py-2 pr-2">{board.moveCount}</td>
+                      <td className={`py-2 pr-2 ${isHost && board.awaitingHost ? 'font-semibold text-primary-600' : ''}`}>
+                        {describeBoard(board, isHost)}
+                      </td>
+                      <td className="py-2 text-right">
+                        {isHost ? (
+                          <button
+                            onClick={() => openBoard(board)}
+                            className={`${buttonClass} py-1 ${board.awaitingHost ? 'bg-primary-600 hover:bg-primary-700 text-white' : isDarkMode ? 'bg-neutral-700 hover:bg-neutral-600' : 'bg-neutral-200 hover:bg-neutral-300 text-neutral-800'}`}
+                          >
+                            {board.awaitingHost ? 'Play' : 'Open'}
+                          </button>
+                        ) : (
+                          <button
+                            onClick={() => openBoard(board, !isOpenSeat)}
+                            disabled={!username.trim()}
+                            className={`${buttonClass} py-1 ${isOpenSeat ? 'bg-primary-600 hover:bg-primary-700 text-white' : isDarkMode ? 'bg-neutral-700 hover:bg-neutral-600' : 'bg-neutral-200 hover:bg-neutral-300 text-neutral-800'}`}
+                          >
+                            {isOpenSeat ? 'Take Seat' : 'Watch'}
+                          </button>
+                        )}
+                      </td>
+                    </tr>
+                  );
+                })}
+              </tbody>
+            </table>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default SimulPage;
@@ -0,0 +1,76 @@
+import { Position, Stone, StoneColor } from '../types/go';
+import { BoardExtent, createBoard, toBoardDimensions } from './dimensions';
+import { getIndexedBoard, getGroupAt, countGroupLiberties } from './indexedBoard';
+
+// Stones of each stones array already seen, keyed by "x,y", with the stone count they were built from
+const stoneLookups = new WeakMap<Stone[], { byPoint: Map<string, Stone>; stoneCount: number }>();
+
+/**
+ * Determines if a position is within the board boundaries
+ */
+export const isWithinBounds = (position: Position, boardSize: BoardExtent): boolean => {
+  const { width, height } = toBoardDimensions(boardSize);
+  return position.x >= 0 && position.x < width && position.y >= 0 && position.y < height;
+};
+
+/**
+ * Gets the adjacent positions (up, right, down, left) for a given position
+ */
+export const getAdjacentPositions = (position: Position): Position[] => {
+  return [
+    { x: position.x, y: position.y - 1 }, // Up
+    { x: position.x + 1, y: position.y }, // Right
+    { x: position.x, y: position.y + 1 }, // Down
+    { x: position.x - 1, y: position.y }, // Left
+  ];
+};
+
+/**
+ * Returns the color of the opponent
+ */
+export const getOppositeColor = (color: StoneColor): StoneColor => {
+  return color === 'black' ? 'white' : 'black';
+};
+
+// Gets the point lookup for a stones array, building it only the first time the array is seen
+const getStoneLookup = (stones: Stone[]): Map<string, Stone> => {
+  const cached = stoneLookups.get(stones);
+  if (cached && cached.stoneCount === stones.length) return cached.byPoint;
+
+  const byPoint = new Map<string, Stone>();
+  stones.forEach(stone => {
+    const key = `${stone.position.x},${stone.position.y}`;
+    if (!byPoint.has(key)) byPoint.set(key, stone);
+  });
+  stoneLookups.set(stones, { byPoint, stoneCount: stones.length });
+  return byPoint;
+};
+
+/**
+ * Finds the stone at a specific position, if any
+ */
+export const findStoneAt = (position: Position, stones: Stone[]): Stone | undefined => {
+  return getStoneLookup(stones).get(`${position.x},${position.y}`);
+};
+
+/**
+ * Checks if a position on the board is empty (no stone)
+ */
+export const isEmpty = (position: Position, stones: Stone[]): boolean => {
+  return !getStoneLookup(stones).has(`${position.x},${position.y}`);
+};
+
+/**
+ * Gets the positions of all stones in the group connected to the stone at the given position
+ */
+export const getConnectedGroup = (position: Position, stones: Stone[], boardSize: BoardExtent): Position[] => {
+  if (!isWithinBounds(position, boardSize)) return [];
+  return getGroupAt(getIndexedBoard(createBoard(boardSize, stones)), position);
+};
+
+/**
+ * Counts the liberties (distinct empty adjacent points) of a group of stones
+ */
+export const countLiberties = (group: Position[], stones: Stone[], boardSize: BoardExtent): number => {
+  return countGroupLiberties(getIndexedBoard(createBoard(boardSize, stones)), group);
+};
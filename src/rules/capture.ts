@@ -0,0 +1,45 @@
+import { GameState, StoneColor } from '../types/go';
+
+// Stones to capture offered when creating a capture game; 1 is Atari Go
+export const CAPTURE_TARGET_OPTIONS = [1, 3, 5, 10, 20];
+export const DEFAULT_CAPTURE_TARGET = 1;
+export const MAX_CAPTURE_TARGET = 20;
+
+type CaptureCount = Pick<GameState, 'gameType' | 'captureTarget' | 'capturedStones'>;
+
+/**
+ * Whether a capture game may be created with this target: a whole number of
+ * stones from 1 to MAX_CAPTURE_TARGET
+ */
+export const isValidCaptureTarget = (target: unknown): boolean =>
+  typeof target === 'number' && Number.isInteger(target) && target >= 1 && target <= MAX_CAPTURE_TARGET;
+
+/**
+ * Stones a player must capture to win, or 0 outside capture games
+ */
+export const getCaptureTarget = (gameState: Pick<GameState, 'gameType' | 'captureTarget'>): number =>
+  gameState.gameType === 'capture' ? gameState.captureTarget || DEFAULT_CAPTURE_TARGET : 0;
+
+/**
+ * Capture games are decided on the board, so neither player may pass
+ */
+export const isPassAllowed = (gameState: Pick<GameState, 'gameType'>): boolean =>
+  gameState.gameType !== 'capture';
+
+/**
+ * The color that has captured enough stones to win, or null while nobody has.
+ * Checked after every move, so at most one color can have just reached the target.
+ */
+export const getCaptureWinner = (gameState: CaptureCount): StoneColor => {
+  const target = getCaptureTarget(gameState);
+  if (!target || !gameState.capturedStones) return null;
+  if (gameState.capturedStones.black >= target) return 'black';
+  if (gameState.capturedStones.white >= target) return 'white';
+  return null;
+};
+
+/**
+ * Result notation for a win by captures, as written to SGF RE[]
+ */
+export const getCaptureResult = (winner: 'black' | 'white'): string =>
+  winner === 'black' ? 'B+C' : 'W+C';
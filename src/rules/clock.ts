@@ -0,0 +1,114 @@
+import { GameState, Player } from '../types/go';
+
+// The clock settings of a game, as set up by the server
+type ClockSettings = Pick<GameState, 'timeControl' | 'timePerMove'>;
+
+// What a player's clock shows
+export type ClockFields = Pick<Player, 'timeRemaining' | 'byoYomiPeriodsLeft' | 'byoYomiTimeLeft' | 'isInByoYomi'>;
+
+export interface ClockReading extends ClockFields {
+  timedOut: boolean;
+}
+
+const getTimePerMove = (settings: ClockSettings): number =>
+  settings.timePerMove || settings.timeControl?.timePerMove || 0;
+
+/**
+ * Whether the game has a clock that can run out. Main time of 0 without byo-yomi
+ * is unlimited time.
+ */
+export const hasGameClock = (settings: ClockSettings): boolean =>
+  getTimePerMove(settings) > 0 ||
+  (settings.timeControl?.timeControl || 0) > 0 ||
+  (settings.timeControl?.byoYomiPeriods || 0) > 0;
+
+/**
+ * A player's clock at the start of the game: the time per move in blitz games,
+ * otherwise the main time with every byo-yomi period still to come
+ */
+export const getStartingClock = (settings: ClockSettings): ClockFields => {
+  const timePerMove = getTimePerMove(settings);
+  if (timePerMove > 0) {
+    return { timeRemaining: timePerMove };
+  }
+
+  const { timeControl = 0, byoYomiPeriods = 0, byoYomiTime = 0 } = settings.timeControl || {};
+  return byoYomiPeriods > 0
+    ? { timeRemaining: timeControl * 60, byoYomiPeriodsLeft: byoYomiPeriods, byoYomiTimeLeft: byoYomiTime, isInByoYomi: false }
+    : { timeRemaining: timeControl * 60 };
+};
+
+/**
+ * The clock of the player to move after thinking for `seconds` since their turn
+ * began. Main time runs out first, then each byo-yomi period in turn; a player
+ * whose last period runs out (or whose time per move is used up) has timed out.
+ */
+export const readClock = (player: ClockFields, settings: ClockSettings, seconds: number): ClockReading => {
+  const timePerMove = getTimePerMove(settings);
+  if (timePerMove > 0) {
+    const left = (player.timeRemaining ?? timePerMove) - seconds;
+    return { timeRemaining: Math.max(0, left), timedOut: left <= 0 };
+  }
+
+  if (!hasGameClock(settings)) {
+    return { ...player, timedOut: false };
+  }
+
+  const { byoYomiPeriods = 0, byoYomiTime = 0 } = settings.timeControl || {};
+  let periodsLeft = player.byoYomiPeriodsLeft ?? byoYomiPeriods;
+  let overtime = seconds;
+  let periodTimeLeft = player.byoYomiTimeLeft ?? byoYomiTime;
+
+  if (!player.isInByoYomi) {
+    const mainLeft = (player.timeRemaining || 0) - seconds;
+    if (mainLeft > 0) {
+      return { ...player, timeRemaining: mainLeft, timedOut: false };
+    }
+    if (byoYomiPeriods === 0 || byoYomiTime === 0) {
+      return { ...player, timeRemaining: 0, timedOut: true };
+    }
+    // Main time has run out: byo-yomi starts with every period and a full first period
+    overtime = -mainLeft;
+    periodsLeft = byoYomiPeriods;
+    periodTimeLeft = byoYomiTime;
+  }
+
+  // Each period that runs out is used up; the last one running out loses on time
+  if (overtime >= periodTimeLeft) {
+    const periodsUsed = 1 + Math.floor((overtime - periodTimeLeft) / byoYomiTime);
+    const remainder = (overtime - periodTimeLeft) % byoYomiTime;
+    periodsLeft -= periodsUsed;
+    periodTimeLeft = byoYomiTime - remainder;
+  } else {
+    periodTimeLeft -= overtime;
+  }
+
+  return {
+    timeRemaining: 0,
+    isInByoYomi: true,
+    byoYomiPeriodsLeft: Math.max(0, periodsLeft),
+    byoYomiTimeLeft: periodsLeft > 0 ? periodTimeLeft : 0,
+    timedOut: periodsLeft <= 0
+  };
+};
+
+/**
+ * The mover's clock once their move is played after `seconds`: a byo-yomi period
+ * starts again in full, and blitz games give the full time per move again.
+ * Like the server, Fischer increments are not added.
+ */
+export const stopClock = (player: ClockFields, settings: ClockSettings, seconds: number): ClockReading => {
+  const reading = readClock(player, settings, seconds);
+  if (reading.timedOut) {
+    return reading;
+  }
+
+  const timePerMove = getTimePerMove(settings);
+  if (timePerMove > 0) {
+    return { ...reading, timeRemaining: timePerMove };
+  }
+  if (reading.isInByoYomi) {
+    return { ...reading, byoYomiTimeLeft: settings.timeControl?.byoYomiTime || 0 };
+  }
+  return reading;
+};
@@ -0,0 +1,53 @@
+import { GameState } from '../types/go';
+
+export const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Days per move offered when creating a correspondence game
+export const CORRESPONDENCE_DAY_OPTIONS = [1, 2, 3, 5, 7, 14];
+
+type CorrespondenceClock = Pick<GameState, 'gameType' | 'status' | 'timeControl' | 'lastMoveTime'>;
+
+/**
+ * When the player to move runs out of time in a correspondence game: each move
+ * gets the full allowance of days, counted from the previous move (or the start).
+ * Null when no clock is running.
+ */
+export const getMoveDeadline = (gameState: CorrespondenceClock): number | null => {
+  const days = gameState.timeControl?.correspondenceDays || 0;
+  if (gameState.gameType !== 'correspondence' || gameState.status !== 'playing' || !days || !gameState.lastMoveTime) {
+    return null;
+  }
+  return gameState.lastMoveTime + days * DAY_MS;
+};
+
+/**
+ * Whether the player to move has let the days per move run out
+ */
+export const isMoveOverdue = (gameState: CorrespondenceClock, now: number): boolean => {
+  const deadline = getMoveDeadline(gameState);
+  return deadline !== null && now >= deadline;
+};
+
+/**
+ * Whether a game in progress is waiting for this player's move
+ */
+export const isAwaitingMove = (gameState: Pick<GameState, 'status' | 'players' | 'currentTurn'>, playerId: string): boolean => {
+  if (gameState.status !== 'playing') return false;
+  const player = gameState.players.find(p => p.id === playerId);
+  return !!player && !player.isSpectator && player.color === gameState.currentTurn;
+};
+
+/**
+ * Time left on a day-based clock, to the nearest hour while days remain and to
+ * the minute on the last day, e.g. "2d 5h" or "3h 20m"
+ */
+export const formatTimeLeft = (ms: number): string => {
+  if (ms <= 0) return '0m';
+  const totalMinutes = Math.floor(ms / 60000);
+  const days = Math.floor(totalMinutes / (24 * 60));
+  const hours = Math.floor(totalMinutes / 60) % 24;
+  const minutes = totalMinutes % 60;
+  if (days > 0) return `${days}d ${hours}h`;
+  if (hours > 0) return `${hours}h ${minutes}m`;
+  return `${minutes}m`;
+};
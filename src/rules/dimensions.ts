@@ -0,0 +1,45 @@
+import { Board, BoardDimensions, Stone } from '../types/go';
+
+/**
+ * A board's extent: a single size for square boards, or explicit dimensions
+ */
+export type BoardExtent = number | BoardDimensions;
+
+/**
+ * Normalizes a board extent to width and height
+ */
+export const toBoardDimensions = (extent: BoardExtent): BoardDimensions => {
+  return typeof extent === 'number' ? { width: extent, height: extent } : extent;
+};
+
+/**
+ * Gets the width and height of a board. Boards without explicit dimensions are square.
+ */
+export const getBoardDimensions = (board: Board): BoardDimensions => {
+  return {
+    width: board.width || board.size,
+    height: board.height || board.size
+  };
+};
+
+/**
+ * Whether a board has different width and height
+ */
+export const isRectangularBoard = (board: Board): boolean => {
+  const { width, height } = getBoardDimensions(board);
+  return width !== height;
+};
+
+/**
+ * Creates a board of the given extent. `size` is set to the longer side so code
+ * that only knows about square boards still sees every point.
+ */
+export const createBoard = (extent: BoardExtent, stones: Stone[] = []): Board => {
+  const { width, height } = toBoardDimensions(extent);
+  return {
+    size: Math.max(width, height),
+    width,
+    height,
+    stones
+  };
+};
@@ -0,0 +1,130 @@
+import { Board, Position, Stone, StoneColor } from '../types/go';
+import { BoardExtent, getBoardDimensions, toBoardDimensions } from './dimensions';
+import { isEmpty, isWithinBounds } from './board';
+import { MoveRejectionReason } from './legality';
+
+// Smallest side that gets handicap and star points
+const MIN_STAR_POINT_SIDE = 7;
+
+/**
+ * Star point lines along one side: the 3-3 line (2-2 below 13 lines), the centre
+ * line on odd sides, and the far line. Null entries mark a missing centre line.
+ */
+const getStarLines = (side: number): [number, number | null, number] => {
+  const edge = side >= 13 ? 3 : 2;
+  const center = side % 2 === 1 ? (side - 1) / 2 : null;
+  return [edge, center, side - 1 - edge];
+};
+
+/**
+ * Gets the handicap points of a board in placement order: corners (bottom left,
+ * top right, bottom right, top left), centre, then the side points. Points that
+ * would need a centre line on an even side are left out.
+ */
+export const getHandicapPositions = (boardSize: BoardExtent): Position[] => {
+  const { width, height } = toBoardDimensions(boardSize);
+  if (width < MIN_STAR_POINT_SIDE || height < MIN_STAR_POINT_SIDE) return [];
+
+  const [left, centerX, right] = getStarLines(width);
+  const [top, centerY, bottom] = getStarLines(height);
+
+  const candidates: Array<[number | null, number | null]> = [
+    [left, top],         // bottom left
+    [right, bottom],     // top right
+    [right, top],        // bottom right
+    [left, bottom],      // top left
+    [centerX, centerY],  // center
+    [centerX, top],      // bottom center
+    [centerX, bottom],   // top center
+    [left, centerY],     // left center
+    [right, centerY],    // right center
+  ];
+
+  return candidates
+    .filter((point): point is [number, number] => point[0] !== null && point[1] !== null)
+    .map(([x, y]) => ({ x, y }));
+};
+
+/**
+ * Get handicap stone positions for a given board size and handicap count
+ */
+export const getHandicapStones = (boardSize: BoardExtent, handicap: number): Stone[] => {
+  if (handicap < 2 || handicap > 9) return [];
+
+  // Get the handicap positions (limit to requested handicap)
+  return getHandicapPositions(boardSize)
+    .slice(0, handicap)
+    .map(position => ({
+      position,
+      color: 'black'
+    }));
+};
+
+/**
+ * Get the starting player color based on handicap
+ * In handicap games, White always plays first after Black's handicap stones.
+ * A handicap of one places no stones: black simply moves first with reduced komi.
+ */
+export const getStartingColor = (handicap: number): 'black' | 'white' => {
+  return handicap >= 2 ? 'white' : 'black';
+};
+
+/**
+ * Check if a position is a valid handicap point for the given board size
+ */
+export const isHandicapPoint = (position: Position, boardSize: BoardExtent): boolean => {
+  return getHandicapPositions(boardSize).some(
+    p => p.x === position.x && p.y === position.y
+  );
+};
+
+/**
+ * Gets the star points (hoshi) drawn on a board: all nine handicap points on
+ * boards of 19 lines and more, otherwise the corners and the centre.
+ */
+export const getStarPoints = (boardSize: BoardExtent): Position[] => {
+  const { width, height } = toBoardDimensions(boardSize);
+  const positions = getHandicapPositions(boardSize);
+  if (width >= 19 && height >= 19) return positions;
+
+  const [, centerX] = getStarLines(width);
+  const [, centerY] = getStarLines(height);
+  return positions.filter((position, index) =>
+    index < 4 || (position.x === centerX && position.y === centerY)
+  );
+};
+
+/**
+ * Checks a free handicap stone placement. `pendingHandicap` is the number of
+ * stones black still has to place. Returns the rejection reason or null.
+ */
+export const getHandicapPlacementError = (
+  board: Board,
+  position: Position,
+  pendingHandicap: number | undefined
+): MoveRejectionReason | null => {
+  if (!pendingHandicap || pendingHandicap <= 0) return 'handicap-complete';
+  if (!Number.isInteger(position.x) || !Number.isInteger(position.y)) return 'out-of-bounds';
+  if (!isWithinBounds(position, getBoardDimensions(board))) return 'out-of-bounds';
+  if (!isEmpty(position, board.stones)) return 'occupied';
+  return null;
+};
+
+/**
+ * Places one free handicap stone. Once the last stone is down, white is to move.
+ */
+export const placeHandicapStone = (
+  board: Board,
+  position: Position,
+  pendingHandicap: number
+): { board: Board; pendingHandicap: number; nextTurn: StoneColor } => {
+  const remaining = pendingHandicap - 1;
+  return {
+    board: {
+      ...board,
+      stones: [...board.stones, { position, color: 'black' }]
+    },
+    pendingHandicap: remaining,
+    nextTurn: remaining > 0 ? 'black' : 'white'
+  };
+};
@@ -0,0 +1,24 @@
+/**
+ * Gosei rules engine
+ *
+ * Pure board logic shared by the React client and the socket server. The server
+ * consumes a CommonJS build of this directory (see tsconfig.rules.json), so code
+ * here must not depend on the browser, React or socket.io.
+ */
+export * from './dimensions';
+export * from './board';
+export * from './indexedBoard';
+export * from './moves';
+export * from './legality';
+export * from './ko';
+export * from './handicap';
+export * from './komi';
+export * from './rulesets';
+export * from './seki';
+export * from './rengo';
+export * from './teaching';
+export * from './correspondence';
+export * from './simul';
+export * from './clock';
+export * from './replay';
+export * from './capture';
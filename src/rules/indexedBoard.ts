@@ -0,0 +1,232 @@
+import { Board, Position, Stone, StoneColor } from '../types/go';
+import { getBoardDimensions } from './dimensions';
+
+// Cell values stored in IndexedBoard.cells
+export const EMPTY_CELL = 0;
+export const BLACK_CELL = 1;
+export const WHITE_CELL = 2;
+
+/**
+ * Flat, indexed view of a Board. Cells are stored row by row (index = y * width + x)
+ * and the Zobrist hash is kept up to date as stones are added and removed.
+ */
+export interface IndexedBoard {
+  width: number;
+  height: number;
+  cells: Uint8Array;
+  hashHigh: number;
+  hashLow: number;
+}
+
+// Indexed form of each stones array already seen, with the stone count it was built from
+// (a stones array that has been pushed to since is rebuilt rather than trusted)
+const indexedCache = new WeakMap<Stone[], { indexed: IndexedBoard; stoneCount: number }>();
+
+// Zobrist keys per board shape ("widthxheight"): [high, low] for black then white at each point
+const zobristTables = new Map<string, Uint32Array>();
+
+/**
+ * Small seeded PRNG (mulberry32). The keys must be identical on the client and the
+ * server, because position hashes recorded by one are compared by the other.
+ */
+const createRandom = (seed: number) => {
+  let state = seed >>> 0;
+  return (): number => {
+    state = (state + 0x6d2b79f5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return (t ^ (t >>> 14)) >>> 0;
+  };
+};
+
+const getZobristTable = (width: number, height: number): Uint32Array => {
+  const key = `${width}x${height}`;
+  let table = zobristTables.get(key);
+  if (!table) {
+    const random = createRandom(0x60e5e1 + width * 64 + height);
+    table = new Uint32Array(width * height * 4);
+    for (let i = 0; i < table.length; i++) {
+      table[i] = random();
+    }
+    zobristTables.set(key, table);
+  }
+  return table;
+};
+
+const colorToCell = (color: StoneColor): number => {
+  if (color === 'black') return BLACK_CELL;
+  if (color === 'white') return WHITE_CELL;
+  return EMPTY_CELL;
+};
+
+const cellToColor = (cell: number): StoneColor => {
+  if (cell === BLACK_CELL) return 'black';
+  if (cell === WHITE_CELL) return 'white';
+  return null;
+};
+
+// XORs the key for a stone of the given cell value at index into the hash
+const toggleZobrist = (indexed: IndexedBoard, index: number, cell: number): void => {
+  const table = getZobristTable(indexed.width, indexed.height);
+  const offset = (index * 2 + (cell - 1)) * 2;
+  indexed.hashHigh = (indexed.hashHigh ^ table[offset]) >>> 0;
+  indexed.hashLow = (indexed.hashLow ^ table[offset + 1]) >>> 0;
+};
+
+/**
+ * Calls visit with the index of each on-board neighbour of a cell
+ */
+export const forEachNeighbour = (indexed: IndexedBoard, index: number, visit: (neighbour: number) => void): void => {
+  const { width, height } = indexed;
+  const x = index % width;
+  if (index >= width) visit(index - width);
+  if (x < width - 1) visit(index + 1);
+  if (index < width * (height - 1)) visit(index + width);
+  if (x > 0) visit(index - 1);
+};
+
+/**
+ * Converts a position to its cell index
+ */
+export const toCellIndex = (position: Position, width: number): number => {
+  return position.y * width + position.x;
+};
+
+/**
+ * Converts a cell index back to a position
+ */
+export const fromCellIndex = (index: number, width: number): Position => {
+  return { x: index % width, y: Math.floor(index / width) };
+};
+
+/**
+ * Builds an indexed board from a Board
+ */
+export const createIndexedBoard = (board: Board): IndexedBoard => {
+  const { width, height } = getBoardDimensions(board);
+  const indexed: IndexedBoard = {
+    width,
+    height,
+    cells: new Uint8Array(width * height),
+    hashHigh: 0,
+    hashLow: 0
+  };
+
+  board.stones.forEach(stone => {
+    const { x, y } = stone.position;
+    if (x >= 0 && x < width && y >= 0 && y < height) {
+      setColorAt(indexed, stone.position, stone.color);
+    }
+  });
+
+  return indexed;
+};
+
+/**
+ * Gets the indexed form of a Board, building it only the first time its stones array
+ * is seen. The result is shared: copy it with cloneIndexedBoard before changing it.
+ */
+export const getIndexedBoard = (board: Board): IndexedBoard => {
+  const { width, height } = getBoardDimensions(board);
+  const cached = indexedCache.get(board.stones);
+  if (cached && cached.stoneCount === board.stones.length &&
+      cached.indexed.width === width && cached.indexed.height === height) {
+    return cached.indexed;
+  }
+
+  const indexed = createIndexedBoard(board);
+  indexedCache.set(board.stones, { indexed, stoneCount: board.stones.length });
+  return indexed;
+};
+
+/**
+ * Records indexed as the indexed form of stones, so a board derived incrementally
+ * (see playMove) never has to be rebuilt or rehashed from its stone list
+ */
+export const cacheIndexedBoard = (stones: Stone[], indexed: IndexedBoard): void => {
+  indexedCache.set(stones, { indexed, stoneCount: stones.length });
+};
+
+/**
+ * Copies an indexed board, hash included
+ */
+export const cloneIndexedBoard = (indexed: IndexedBoard): IndexedBoard => {
+  return { ...indexed, cells: new Uint8Array(indexed.cells) };
+};
+
+/**
+ * Gets the color of the stone at position in constant time (null when empty)
+ */
+export const getColorAt = (indexed: IndexedBoard, position: Position): StoneColor => {
+  return cellToColor(indexed.cells[toCellIndex(position, indexed.width)]);
+};
+
+/**
+ * Places, replaces or removes (color null) the stone at position, updating the hash
+ */
+export const setColorAt = (indexed: IndexedBoard, position: Position, color: StoneColor): void => {
+  const index = toCellIndex(position, indexed.width);
+  const previous = indexed.cells[index];
+  const next = colorToCell(color);
+  if (previous === next) return;
+
+  if (previous !== EMPTY_CELL) toggleZobrist(indexed, index, previous);
+  if (next !== EMPTY_CELL) toggleZobrist(indexed, index, next);
+  indexed.cells[index] = next;
+};
+
+/**
+ * Gets the Zobrist hash of the position as a 16-character hex string
+ */
+export const getPositionHash = (indexed: IndexedBoard): string => {
+  const toHex = (value: number) => ('00000000' + value.toString(16)).slice(-8);
+  return toHex(indexed.hashHigh) + toHex(indexed.hashLow);
+};
+
+/**
+ * Gets the positions of all stones connected to the stone at position
+ */
+export const getGroupAt = (indexed: IndexedBoard, position: Position): Position[] => {
+  const { width, cells } = indexed;
+  const start = toCellIndex(position, width);
+  const color = cells[start];
+  if (color === EMPTY_CELL) return [];
+
+  const visited = new Uint8Array(cells.length);
+  const group: Position[] = [];
+  const stack: number[] = [start];
+  visited[start] = 1;
+
+  while (stack.length > 0) {
+    const current = stack.pop() as number;
+    group.push(fromCellIndex(current, width));
+
+    forEachNeighbour(indexed, current, neighbour => {
+      if (visited[neighbour] || cells[neighbour] !== color) return;
+      visited[neighbour] = 1;
+      stack.push(neighbour);
+    });
+  }
+
+  return group;
+};
+
+/**
+ * Counts the distinct empty points next to a group
+ */
+export const countGroupLiberties = (indexed: IndexedBoard, group: Position[]): number => {
+  const { width, cells } = indexed;
+  const seen = new Uint8Array(cells.length);
+  let liberties = 0;
+
+  group.forEach(position => {
+    forEachNeighbour(indexed, toCellIndex(position, width), neighbour => {
+      if (seen[neighbour] || cells[neighbour] !== EMPTY_CELL) return;
+      seen[neighbour] = 1;
+      liberties++;
+    });
+  });
+
+  return liberties;
+};
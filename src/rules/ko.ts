@@ -0,0 +1,62 @@
+import { Board, KoRule, PositionRecord, ScoringRule, StoneColor } from '../types/go';
+import { getIndexedBoard, getPositionHash } from './indexedBoard';
+
+/**
+ * Usual ko rule for each ruleset. Chinese and Tromp-Taylor rules use positional
+ * superko, AGA and New Zealand situational superko; the rest only forbid the
+ * immediate recapture.
+ */
+export const DEFAULT_KO_RULES: Record<ScoringRule, KoRule> = {
+  japanese: 'simple',
+  korean: 'simple',
+  chinese: 'positional-superko',
+  aga: 'situational-superko',
+  ing: 'simple',
+  'tromp-taylor': 'positional-superko',
+  'new-zealand': 'situational-superko'
+};
+
+/**
+ * Gets the ko rule for a game, falling back to the ruleset's default
+ */
+export const getKoRule = (koRule: KoRule | undefined, scoringRule: ScoringRule): KoRule => {
+  return koRule || DEFAULT_KO_RULES[scoringRule] || 'simple';
+};
+
+/**
+ * Builds a key identifying the whole-board position (its Zobrist hash). Boards produced
+ * by playMove already carry their hash, so this is constant time for them.
+ */
+export const hashBoard = (board: Board): string => {
+  return getPositionHash(getIndexedBoard(board));
+};
+
+/**
+ * Returns a new position history with the given position appended
+ */
+export const recordPosition = (
+  history: PositionRecord[] | undefined,
+  board: Board,
+  toMove: StoneColor
+): PositionRecord[] => {
+  return [...(history || []), { hash: hashBoard(board), toMove }];
+};
+
+/**
+ * Checks whether reaching `board` with `toMove` to play would repeat an earlier
+ * position under the given ko rule. Simple ko never uses the history.
+ */
+export const isPositionRepeated = (
+  history: PositionRecord[] | undefined,
+  board: Board,
+  toMove: StoneColor,
+  koRule: KoRule
+): boolean => {
+  if (koRule === 'simple' || !history || history.length === 0) return false;
+
+  const hash = hashBoard(board);
+
+  return history.some(record =>
+    record.hash === hash && (koRule === 'positional-superko' || record.toMove === toMove)
+  );
+};
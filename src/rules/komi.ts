@@ -0,0 +1,46 @@
+import { ScoringRule } from '../types/go';
+
+// Largest komi (either sign) accepted for a game
+export const MAX_KOMI = 150;
+
+/**
+ * Usual komi for each ruleset in an even game
+ */
+export const DEFAULT_KOMI: Record<ScoringRule, number> = {
+  japanese: 6.5,
+  chinese: 7.5,
+  korean: 6.5,
+  aga: 7.5,
+  ing: 8.0,
+  'tromp-taylor': 7.5,
+  'new-zealand': 7
+};
+
+/**
+ * Gets the komi a game uses when none is chosen: the ruleset's komi for even
+ * games and 0.5 for handicap games, so that they cannot end in a draw
+ */
+export const getDefaultKomi = (handicap: number, scoringRule: ScoringRule): number => {
+  if (handicap > 0) {
+    return 0.5;
+  }
+  return DEFAULT_KOMI[scoringRule] ?? 6.5;
+};
+
+/**
+ * Whether a komi is a whole or half point within ±MAX_KOMI. Negative values are
+ * reverse komi (black receives the points).
+ */
+export const isValidKomi = (komi: unknown): komi is number => {
+  return typeof komi === 'number' &&
+    Number.isFinite(komi) &&
+    Number.isInteger(komi * 2) &&
+    Math.abs(komi) <= MAX_KOMI;
+};
+
+/**
+ * Gets the komi for a game: the chosen komi when valid, otherwise the default
+ */
+export const getKomi = (komi: number | undefined, handicap: number, scoringRule: ScoringRule): number => {
+  return isValidKomi(komi) ? komi : getDefaultKomi(handicap, scoringRule);
+};
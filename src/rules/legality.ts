@@ -0,0 +1,124 @@
+import { Board, GameState, KoRule, Position, PositionRecord, ScoringRule, StoneColor } from '../types/go';
+import { isWithinBounds, isEmpty, getOppositeColor } from './board';
+import { getBoardDimensions } from './dimensions';
+import { getSuicideSize, playMove } from './moves';
+import { isPositionRepeated } from './ko';
+import { getSuicideRule } from './rulesets';
+
+export type MoveRejectionReason =
+  | 'game-not-active'
+  | 'not-a-player'
+  | 'wrong-color'
+  | 'not-your-turn'
+  | 'teammate-turn'
+  | 'teacher-control'
+  | 'out-of-bounds'
+  | 'occupied'
+  | 'ko'
+  | 'superko'
+  | 'suicide'
+  | 'handicap-pending'
+  | 'handicap-complete'
+  | 'no-passing';
+
+/**
+ * Ko and ruleset state a placement is checked against. GameState satisfies it.
+ */
+export interface KoState {
+  koPosition?: Position;
+  koRule?: KoRule;
+  positionHistory?: PositionRecord[];
+  scoringRule?: ScoringRule; // Decides whether multi-stone suicide is legal
+}
+
+/**
+ * Outcome of checking a move: legal, or the reason it is refused
+ */
+export type MoveCheckResult =
+  | { legal: true }
+  | { legal: false; reason: MoveRejectionReason };
+
+/**
+ * Game state a move is checked against. GameState satisfies it.
+ */
+export type MoveCheckState = Pick<GameState, 'board' | 'status' | 'currentTurn' | 'pendingHandicap'> & KoState;
+
+/**
+ * Default English text for each rejection reason
+ */
+export const MOVE_REJECTION_MESSAGES: Record<MoveRejectionReason, string> = {
+  'game-not-active': 'The game is not in progress',
+  'not-a-player': 'Only players in this game can make moves',
+  'wrong-color': 'You cannot play stones of that color',
+  'not-your-turn': 'It is not your turn',
+  'teammate-turn': 'It is a teammate\'s turn to play',
+  'teacher-control': 'The teacher is playing your stones',
+  'out-of-bounds': 'Position is outside the board',
+  'occupied': 'Position is already occupied',
+  'ko': 'Ko rule violation',
+  'superko': 'Superko rule violation - this would repeat an earlier board position',
+  'suicide': 'Suicide move is not allowed',
+  'handicap-pending': 'Black must finish placing handicap stones first',
+  'handicap-complete': 'All handicap stones have already been placed',
+  'no-passing': 'Passing is not allowed in this game'
+};
+
+/**
+ * Checks whether a stone of the given color may be placed at position.
+ * Returns the reason the placement is illegal, or null when it is legal.
+ */
+export const getPlacementError = (
+  board: Board,
+  position: Position,
+  color: StoneColor,
+  koState: KoState = {}
+): MoveRejectionReason | null => {
+  const { koPosition, koRule = 'simple', positionHistory, scoringRule } = koState;
+
+  if (!Number.isInteger(position.x) || !Number.isInteger(position.y)) return 'out-of-bounds';
+  if (!isWithinBounds(position, getBoardDimensions(board))) return 'out-of-bounds';
+  if (!isEmpty(position, board.stones)) return 'occupied';
+  if (koPosition && koPosition.x === position.x && koPosition.y === position.y) return 'ko';
+
+  const suicideSize = getSuicideSize(board.stones, getBoardDimensions(board), position, color);
+  if (suicideSize > 0 && (getSuicideRule(scoringRule) === 'forbidden' || suicideSize === 1)) {
+    return 'suicide';
+  }
+
+  if (koRule !== 'simple') {
+    const { board: nextBoard } = playMove(board, position, color);
+    if (isPositionRepeated(positionHistory, nextBoard, getOppositeColor(color), koRule)) {
+      return 'superko';
+    }
+  }
+
+  return null;
+};
+
+/**
+ * Checks a move against the whole game state: the game must be in progress, it
+ * must be color's turn with no free handicap stones pending, and the placement
+ * must be legal on the board.
+ */
+export const checkMove = (
+  gameState: MoveCheckState,
+  position: Position,
+  color: StoneColor
+): MoveCheckResult => {
+  if (gameState.status !== 'playing') return { legal: false, reason: 'game-not-active' };
+  if (gameState.currentTurn !== color) return { legal: false, reason: 'not-your-turn' };
+  if (gameState.pendingHandicap && gameState.pendingHandicap > 0) {
+    return { legal: false, reason: 'handicap-pending' };
+  }
+  if (!position || typeof position !== 'object') return { legal: false, reason: 'out-of-bounds' };
+
+  const reason = getPlacementError(gameState.board, position, color, gameState);
+  return reason ? { legal: false, reason } : { legal: true };
+};
+
+/**
+ * Whether a rejection is for repeating a position (simple ko or superko)
+ */
+export const isKoRejection = (reason: MoveRejectionReason | null | undefined): boolean => {
+  return reason === 'ko' || reason === 'superko';
+};
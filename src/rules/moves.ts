@@ -0,0 +1,171 @@
+import { Board, Position, Stone, StoneColor } from '../types/go';
+import { isWithinBounds, getAdjacentPositions, getOppositeColor } from './board';
+import { BoardExtent, createBoard } from './dimensions';
+import {
+  IndexedBoard,
+  getIndexedBoard,
+  cacheIndexedBoard,
+  cloneIndexedBoard,
+  getColorAt,
+  setColorAt,
+  getGroupAt,
+  countGroupLiberties,
+  toCellIndex
+} from './indexedBoard';
+
+export interface CaptureResult {
+  remainingStones: Stone[];
+  capturedCount: number;
+  capturedPositions: Position[];
+  suicidePositions: Position[]; // Own stones removed by a suicide (rulesets that allow it)
+  koPosition?: Position;
+}
+
+export interface PlayMoveResult extends CaptureResult {
+  board: Board;
+}
+
+/**
+ * Removes opponent groups left without liberties by the stone just placed at lastMovePosition.
+ * `stones` must already contain the new stone. When exactly one stone is captured by a lone
+ * stone that is left in atari, the captured point is reported as the new KO position.
+ * If the move captures nothing and leaves its own group without liberties (a suicide, only
+ * legal under some rulesets), that group is removed instead.
+ */
+export const resolveCaptures = (
+  stones: Stone[],
+  boardSize: BoardExtent,
+  lastMovePosition: Position,
+  color: StoneColor
+): CaptureResult => {
+  const indexed = cloneIndexedBoard(getIndexedBoard(createBoard(boardSize, stones)));
+  return resolveOnIndexedBoard(indexed, stones, lastMovePosition, color);
+};
+
+// Resolves captures on an indexed board that already holds the new stone, and caches the
+// updated indexed board (hash included) as the indexed form of the remaining stones
+const resolveOnIndexedBoard = (
+  indexed: IndexedBoard,
+  stones: Stone[],
+  lastMovePosition: Position,
+  color: StoneColor
+): CaptureResult => {
+  const capturedPositions = captureAround(indexed, lastMovePosition, color);
+  const koPosition = getKoPosition(indexed, lastMovePosition, capturedPositions);
+  const suicidePositions = removeSuicide(indexed, lastMovePosition);
+
+  const captured = new Uint8Array(indexed.cells.length);
+  capturedPositions.concat(suicidePositions).forEach(pos => {
+    captured[toCellIndex(pos, indexed.width)] = 1;
+  });
+  const remainingStones = capturedPositions.length > 0 || suicidePositions.length > 0
+    ? stones.filter(stone => !captured[toCellIndex(stone.position, indexed.width)])
+    : [...stones];
+  cacheIndexedBoard(remainingStones, indexed);
+
+  return {
+    remainingStones,
+    capturedCount: capturedPositions.length,
+    capturedPositions,
+    suicidePositions,
+    koPosition
+  };
+};
+
+/**
+ * Removes the opponent groups next to position that have no liberties left,
+ * updating the indexed board in place. Returns the captured positions.
+ */
+export const captureAround = (indexed: IndexedBoard, position: Position, color: StoneColor): Position[] => {
+  const oppositeColor = getOppositeColor(color);
+  const capturedPositions: Position[] = [];
+
+  getAdjacentPositions(position)
+    .filter(p => isWithinBounds(p, indexed))
+    .forEach(adjPos => {
+      if (getColorAt(indexed, adjPos) !== oppositeColor) return;
+
+      const group = getGroupAt(indexed, adjPos);
+      if (countGroupLiberties(indexed, group) > 0) return;
+
+      group.forEach(pos => {
+        setColorAt(indexed, pos, null);
+        capturedPositions.push(pos);
+      });
+    });
+
+  return capturedPositions;
+};
+
+// Removes the group at position if it has no liberties left, returning its stones
+const removeSuicide = (indexed: IndexedBoard, position: Position): Position[] => {
+  const group = getGroupAt(indexed, position);
+  if (group.length === 0 || countGroupLiberties(indexed, group) > 0) return [];
+
+  group.forEach(pos => setColorAt(indexed, pos, null));
+  return group;
+};
+
+// The KO point after a capture: set only when a lone stone took exactly one stone and is left in atari
+const getKoPosition = (
+  indexed: IndexedBoard,
+  lastMovePosition: Position,
+  capturedPositions: Position[]
+): Position | undefined => {
+  if (capturedPositions.length !== 1) return undefined;
+
+  const placedGroup = getGroupAt(indexed, lastMovePosition);
+  if (placedGroup.length === 1 && countGroupLiberties(indexed, placedGroup) === 1) {
+    return capturedPositions[0];
+  }
+  return undefined;
+};
+
+/**
+ * Checks if placing a stone would leave its own group without liberties
+ * while capturing nothing
+ */
+export const isSuicideMove = (
+  stones: Stone[],
+  boardSize: BoardExtent,
+  position: Position,
+  color: StoneColor
+): boolean => {
+  return getSuicideSize(stones, boardSize, position, color) > 0;
+};
+
+/**
+ * Number of own stones a placement would remove by suicide (0 when it is not a suicide)
+ */
+export const getSuicideSize = (
+  stones: Stone[],
+  boardSize: BoardExtent,
+  position: Position,
+  color: StoneColor
+): number => {
+  const indexed = cloneIndexedBoard(getIndexedBoard(createBoard(boardSize, stones)));
+  setColorAt(indexed, position, color);
+  if (captureAround(indexed, position, color).length > 0) return 0;
+
+  const group = getGroupAt(indexed, position);
+  return countGroupLiberties(indexed, group) === 0 ? group.length : 0;
+};
+
+/**
+ * Places a stone on an empty point and resolves captures (and suicide, where the
+ * ruleset allows it). Legality is not checked here; callers validate the move first.
+ * The new board's indexed form and hash are derived from the old board's, not rebuilt.
+ */
+export const playMove = (board: Board, position: Position, color: StoneColor): PlayMoveResult => {
+  const indexed = cloneIndexedBoard(getIndexedBoard(board));
+  setColorAt(indexed, position, color);
+  const result = resolveOnIndexedBoard(indexed, [...board.stones, { position, color }], position, color);
+
+  return {
+    ...result,
+    board: {
+      ...board,
+      stones: result.remainingStones
+    }
+  };
+};
@@ -0,0 +1,51 @@
+import { GameState, Player, StoneColor } from '../types/go';
+
+/**
+ * Members of the team playing a color, in the order they take turns (the order
+ * they appear in the player list). The first member keeps the team's clock.
+ */
+export const getTeamMembers = (players: Player[], color: StoneColor): Player[] => {
+  return players.filter(player => player.color === color && !player.isSpectator);
+};
+
+/**
+ * Gets the team member whose turn it is. Moves alternate, so the side to move has
+ * played half the moves so far (rounded down), and its members take those turns
+ * in rotation.
+ */
+export const getRengoPlayerToMove = (
+  gameState: Pick<GameState, 'players' | 'history' | 'currentTurn'>
+): Player | undefined => {
+  const team = getTeamMembers(gameState.players, gameState.currentTurn);
+  if (team.length === 0) return undefined;
+  return team[Math.floor(gameState.history.length / 2) % team.length];
+};
+
+/**
+ * Whether a player may move now: always in ordinary games, and only on their own
+ * turn in the rotation in rengo games
+ */
+export const isRengoPlayerToMove = (
+  gameState: Pick<GameState, 'players' | 'history' | 'currentTurn' | 'gameType'>,
+  playerId: string
+): boolean => {
+  if (gameState.gameType !== 'rengo') return true;
+  return getRengoPlayerToMove(gameState)?.id === playerId;
+};
+
+/**
+ * Whether the teams in the lobby can start: both sides filled, with the same
+ * number of players
+ */
+export const canStartRengo = (players: Player[]): boolean => {
+  const black = getTeamMembers(players, 'black').length;
+  return black > 0 && black === getTeamMembers(players, 'white').length;
+};
+
+/**
+ * Team name shown in the game info and written to the SGF record: the name the
+ * host chose, or the members' names, e.g. "Alice & Carol"
+ */
+export const getTeamName = (gameState: Pick<GameState, 'players' | 'teamNames'>, color: 'black' | 'white'): string => {
+  return gameState.teamNames?.[color] || getTeamMembers(gameState.players, color).map(player => player.username).join(' & ');
+};
@@ -0,0 +1,42 @@
+import { GameState, Position, StoneColor } from '../types/go';
+import { recordPosition } from './ko';
+import { playMove } from './moves';
+
+export type ReplayedPosition = Pick<GameState, 'board' | 'currentTurn' | 'capturedStones' | 'koPosition' | 'positionHistory' | 'lastMove'>;
+
+/**
+ * The position after the first `moveCount` moves of a game, played again from the
+ * handicap stones (white moves first when there are any). Used to take moves
+ * back where no server keeps the game.
+ */
+export const replayMoves = (
+  gameState: Pick<GameState, 'board' | 'history' | 'handicapPositions'>,
+  moveCount: number
+): ReplayedPosition => {
+  const handicapStones = (gameState.handicapPositions || []).map(position => ({ position, color: 'black' as StoneColor }));
+  let board = { ...gameState.board, stones: handicapStones };
+  let currentTurn: 'black' | 'white' = handicapStones.length > 0 ? 'white' : 'black';
+  const capturedStones = { black: 0, white: 0 };
+  let koPosition: Position | undefined;
+  let lastMove: Position | undefined;
+  let positionHistory = recordPosition([], board, currentTurn);
+
+  gameState.history.slice(0, moveCount).forEach(move => {
+    if ('pass' in move) {
+      koPosition = undefined;
+      lastMove = undefined;
+    } else {
+      const result = playMove(board, move, currentTurn);
+      board = result.board;
+      // Stones lost to a legal suicide count for the opponent
+      capturedStones[currentTurn] += result.capturedCount;
+      capturedStones[currentTurn === 'black' ? 'white' : 'black'] += result.suicidePositions.length;
+      koPosition = result.koPosition;
+      lastMove = move;
+    }
+    currentTurn = currentTurn === 'black' ? 'white' : 'black';
+    positionHistory = recordPosition(positionHistory, board, currentTurn);
+  });
+
+  return { board, currentTurn, capturedStones, koPosition, positionHistory, lastMove };
+};
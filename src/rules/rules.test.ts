@@ -0,0 +1,666 @@
+import { GameMove, GameState, Player, SimulBoard, Stone } from '../types/go';
+import { resolveCaptures, isSuicideMove, playMove } from './moves';
+import { getPlacementError, checkMove, isKoRejection } from './legality';
+import { getKoRule, recordPosition, hashBoard } from './ko';
+import { createBoard } from './dimensions';
+import { getDefaultKomi, isValidKomi, getKomi } from './komi';
+import { getHandicapPositions, getHandicapStones, getStarPoints, getHandicapPlacementError, getStartingColor, placeHandicapStone } from './handicap';
+import { findSeki } from './seki';
+import { canStartRengo, getRengoPlayerToMove, getTeamName, isRengoPlayerToMove } from './rengo';
+import { getColorRejection, playVariation } from './teaching';
+import { DAY_MS, formatTimeLeft, getMoveDeadline, isAwaitingMove, isMoveOverdue } from './correspondence';
+import { getNextSimulBoard, getSimulBoard, getSimulResults } from './simul';
+import { getStartingClock, hasGameClock, readClock, stopClock } from './clock';
+import { replayMoves } from './replay';
+import { getCaptureResult, getCaptureTarget, getCaptureWinner, isPassAllowed, isValidCaptureTarget } from './capture';
+import { createIndexedBoard, getColorAt, getIndexedBoard, setColorAt, getPositionHash, getGroupAt, countGroupLiberties } from './indexedBoard';
+
+// Builds stones from rows of 'B', 'W' and '.' characters
+const parseStones = (rows: string[]): Stone[] => {
+  const stones: Stone[] = [];
+  rows.forEach((row, y) => {
+    row.split('').forEach((cell, x) => {
+      if (cell === 'B') stones.push({ position: { x, y }, color: 'black' });
+      if (cell === 'W') stones.push({ position: { x, y }, color: 'white' });
+    });
+  });
+  return stones;
+};
+
+describe('rules engine moves', () => {
+  it('captures a single stone and reports the ko point', () => {
+    const stones = parseStones([
+      '.BW..',
+      'BW.W.',
+      '.BW..',
+      '.....',
+      '.....'
+    ]);
+
+    const result = playMove({ size: 5, stones }, { x: 2, y: 1 }, 'black');
+
+    expect(result.capturedCount).toBe(1);
+    expect(result.capturedPositions).toEqual([{ x: 1, y: 1 }]);
+    expect(result.koPosition).toEqual({ x: 1, y: 1 });
+    expect(result.board.stones).toHaveLength(stones.length);
+  });
+
+  it('captures a whole group without setting a ko point', () => {
+    const stones = parseStones([
+      'WW...',
+      'BB...',
+      '.....',
+      '.....',
+      '.....'
+    ]);
+
+    const result = resolveCaptures(
+      [...stones, { position: { x: 2, y: 0 }, color: 'black' }],
+      5,
+      { x: 2, y: 0 },
+      'black'
+    );
+
+    expect(result.capturedCount).toBe(2);
+    expect(result.koPosition).toBeUndefined();
+  });
+
+  it('detects suicide only when nothing is captured', () => {
+    const stones = parseStones([
+      '.B...',
+      'B....',
+      '.....',
+      '.....',
+      '.....'
+    ]);
+
+    expect(isSuicideMove(stones, 5, { x: 0, y: 0 }, 'white')).toBe(true);
+    expect(isSuicideMove(stones, 5, { x: 0, y: 0 }, 'black')).toBe(false);
+
+    const capturing = parseStones([
+      '.BW..',
+      'BW...',
+      'W....',
+      '.....',
+      '.....'
+    ]);
+    expect(isSuicideMove(capturing, 5, { x: 0, y: 0 }, 'white')).toBe(false);
+  });
+
+  it('does not set a ko point when the capturing stone has other liberties', () => {
+    const stones = parseStones([
+      '.BW..',
+      'BW...',
+      '.BW..',
+      '.....',
+      '.....'
+    ]);
+
+    const result = playMove({ size: 5, stones }, { x: 2, y: 1 }, 'black');
+
+    expect(result.capturedCount).toBe(1);
+    expect(result.koPosition).toBeUndefined();
+  });
+});
+
+describe('rules engine legality', () => {
+  const board = {
+    size: 5,
+    stones: parseStones([
+      '.B...',
+      'B....',
+      '.....',
+      '.....',
+      '.....'
+    ])
+  };
+
+  it('accepts a legal placement', () => {
+    expect(getPlacementError(board, { x: 2, y: 2 }, 'white')).toBeNull();
+  });
+
+  it('reports why a placement is illegal', () => {
+    expect(getPlacementError(board, { x: 5, y: 0 }, 'white')).toBe('out-of-bounds');
+    expect(getPlacementError(board, { x: 0.5, y: 0 }, 'white')).toBe('out-of-bounds');
+    expect(getPlacementError(board, { x: 1, y: 0 }, 'white')).toBe('occupied');
+    expect(getPlacementError(board, { x: 0, y: 0 }, 'white')).toBe('suicide');
+    expect(getPlacementError(board, { x: 3, y: 3 }, 'white', { koPosition: { x: 3, y: 3 } })).toBe('ko');
+  });
+
+  it('checks a move against the game state', () => {
+    const gameState = { board, status: 'playing' as const, currentTurn: 'white' as const, koPosition: { x: 3, y: 3 } };
+
+    expect(checkMove(gameState, { x: 2, y: 2 }, 'white')).toEqual({ legal: true });
+    expect(checkMove(gameState, { x: 2, y: 2 }, 'black')).toEqual({ legal: false, reason: 'not-your-turn' });
+    expect(checkMove({ ...gameState, status: 'waiting' }, { x: 2, y: 2 }, 'white'))
+      .toEqual({ legal: false, reason: 'game-not-active' });
+    expect(checkMove({ ...gameState, pendingHandicap: 2 }, { x: 2, y: 2 }, 'white'))
+      .toEqual({ legal: false, reason: 'handicap-pending' });
+    expect(checkMove(gameState, { x: 1, y: 0 }, 'white')).toEqual({ legal: false, reason: 'occupied' });
+    expect(checkMove(gameState, { x: 3, y: 3 }, 'white')).toEqual({ legal: false, reason: 'ko' });
+    expect(isKoRejection('ko')).toBe(true);
+    expect(isKoRejection('superko')).toBe(true);
+    expect(isKoRejection('occupied')).toBe(false);
+  });
+});
+
+describe('rules engine superko', () => {
+  const board = {
+    size: 5,
+    stones: parseStones([
+      '.B...',
+      'B....',
+      '.....',
+      '.....',
+      '.....'
+    ])
+  };
+  const repeated = {
+    size: 5,
+    stones: [...board.stones, { position: { x: 2, y: 2 }, color: 'white' as const }]
+  };
+
+  it('picks the ko rule from the scoring rule unless one is given', () => {
+    expect(getKoRule(undefined, 'japanese')).toBe('simple');
+    expect(getKoRule(undefined, 'chinese')).toBe('positional-superko');
+    expect(getKoRule(undefined, 'aga')).toBe('situational-superko');
+    expect(getKoRule('positional-superko', 'japanese')).toBe('positional-superko');
+  });
+
+  it('rejects a move that repeats an earlier position under positional superko', () => {
+    const positionHistory = recordPosition([], repeated, 'white');
+
+    expect(getPlacementError(board, { x: 2, y: 2 }, 'white', { koRule: 'positional-superko', positionHistory }))
+      .toBe('superko');
+    expect(getPlacementError(board, { x: 2, y: 2 }, 'white', { koRule: 'simple', positionHistory }))
+      .toBeNull();
+  });
+
+  it('only counts a repeat with the same player to move under situational superko', () => {
+    const sameToMove = recordPosition([], repeated, 'black');
+    const otherToMove = recordPosition([], repeated, 'white');
+
+    expect(getPlacementError(board, { x: 2, y: 2 }, 'white', { koRule: 'situational-superko', positionHistory: sameToMove }))
+      .toBe('superko');
+    expect(getPlacementError(board, { x: 2, y: 2 }, 'white', { koRule: 'situational-superko', positionHistory: otherToMove }))
+      .toBeNull();
+  });
+});
+
+describe('indexed board', () => {
+  const stones = parseStones([
+    '.BW..',
+    'BW.W.',
+    '.BW..',
+    '.....',
+    '.....'
+  ]);
+
+  it('looks up stones and groups by index', () => {
+    const indexed = createIndexedBoard({ size: 5, stones });
+
+    expect(getColorAt(indexed, { x: 1, y: 0 })).toBe('black');
+    expect(getColorAt(indexed, { x: 2, y: 1 })).toBeNull();
+    expect(getGroupAt(indexed, { x: 1, y: 1 })).toEqual([{ x: 1, y: 1 }]);
+    expect(countGroupLiberties(indexed, [{ x: 1, y: 1 }])).toBe(1);
+  });
+
+  it('keeps the Zobrist hash in step with incremental updates', () => {
+    const indexed = createIndexedBoard({ size: 5, stones });
+    const before = getPositionHash(indexed);
+
+    setColorAt(indexed, { x: 4, y: 4 }, 'black');
+    expect(getPositionHash(indexed)).toBe(hashBoard({ size: 5, stones: [...stones, { position: { x: 4, y: 4 }, color: 'black' }] }));
+    expect(getPositionHash(indexed)).not.toBe(before);
+
+    setColorAt(indexed, { x: 4, y: 4 }, null);
+    expect(getPositionHash(indexed)).toBe(before);
+  });
+
+  it('carries the indexed board and hash through playMove instead of rebuilding them', () => {
+    const board = { size: 5, stones };
+    const { board: next } = playMove(board, { x: 2, y: 1 }, 'black');
+    const cached = getIndexedBoard(next);
+
+    expect(getIndexedBoard(next)).toBe(cached);
+    expect(getColorAt(cached, { x: 1, y: 1 })).toBeNull(); // The white stone was captured
+    expect(getPositionHash(cached)).toBe(getPositionHash(createIndexedBoard({ size: 5, stones: [...next.stones] })));
+    expect(getPositionHash(getIndexedBoard(board))).toBe(getPositionHash(createIndexedBoard(board)));
+  });
+
+  it('rebuilds the cached form of a stones array that has grown since', () => {
+    const grown = [...stones];
+    const before = hashBoard({ size: 5, stones: grown });
+    grown.push({ position: { x: 4, y: 4 }, color: 'black' });
+
+    expect(hashBoard({ size: 5, stones: grown })).not.toBe(before);
+    expect(hashBoard({ size: 5, stones: grown })).toBe(getPositionHash(createIndexedBoard({ size: 5, stones: grown })));
+  });
+
+  it('hashes positions independently of stone order and by color', () => {
+    expect(hashBoard({ size: 5, stones: [...stones].reverse() })).toBe(hashBoard({ size: 5, stones }));
+    expect(hashBoard({ size: 5, stones: [{ position: { x: 0, y: 0 }, color: 'black' }] }))
+      .not.toBe(hashBoard({ size: 5, stones: [{ position: { x: 0, y: 0 }, color: 'white' }] }));
+  });
+});
+
+describe('rectangular boards', () => {
+  const board = createBoard({ width: 7, height: 9 }, parseStones([
+    '.......',
+    '.......',
+    '.......',
+    '.......',
+    '.......',
+    '.......',
+    '.......',
+    '.....B.',
+    '....BW.'
+  ]));
+
+  it('checks bounds against width and height separately', () => {
+    expect(getPlacementError(board, { x: 6, y: 8 }, 'black')).toBeNull();
+    expect(getPlacementError(board, { x: 7, y: 0 }, 'black')).toBe('out-of-bounds');
+    expect(getPlacementError(board, { x: 0, y: 9 }, 'black')).toBe('out-of-bounds');
+  });
+
+  it('captures in the far corner', () => {
+    const result = playMove(board, { x: 6, y: 8 }, 'black');
+
+    expect(result.capturedPositions).toEqual([{ x: 5, y: 8 }]);
+    expect(result.board.width).toBe(7);
+    expect(result.board.height).toBe(9);
+  });
+
+  it('places handicap and star points on each axis', () => {
+    expect(getHandicapPositions(19)).toEqual([
+      { x: 3, y: 3 }, { x: 15, y: 15 }, { x: 15, y: 3 }, { x: 3, y: 15 }, { x: 9, y: 9 },
+      { x: 9, y: 3 }, { x: 9, y: 15 }, { x: 3, y: 9 }, { x: 15, y: 9 }
+    ]);
+    expect(getStarPoints({ width: 9, height: 13 })).toEqual([
+      { x: 2, y: 3 }, { x: 6, y: 9 }, { x: 6, y: 3 }, { x: 2, y: 9 }, { x: 4, y: 6 }
+    ]);
+  });
+});
+
+describe('free handicap placement', () => {
+  it('rejects points that are taken or off the board, and extra stones', () => {
+    const board = createBoard(9, [{ position: { x: 2, y: 2 }, color: 'black' }]);
+
+    expect(getHandicapPlacementError(board, { x: 6, y: 6 }, 1)).toBeNull();
+    expect(getHandicapPlacementError(board, { x: 2, y: 2 }, 1)).toBe('occupied');
+    expect(getHandicapPlacementError(board, { x: 9, y: 0 }, 1)).toBe('out-of-bounds');
+    expect(getHandicapPlacementError(board, { x: 6, y: 6 }, 0)).toBe('handicap-complete');
+  });
+
+  it('keeps black to move until the last stone is placed', () => {
+    const first = placeHandicapStone(createBoard(9), { x: 2, y: 6 }, 2);
+    expect(first.pendingHandicap).toBe(1);
+    expect(first.nextTurn).toBe('black');
+
+    const second = placeHandicapStone(first.board, { x: 6, y: 2 }, first.pendingHandicap);
+    expect(second.pendingHandicap).toBe(0);
+    expect(second.nextTurn).toBe('white');
+    expect(second.board.stones).toEqual([
+      { position: { x: 2, y: 6 }, color: 'black' },
+      { position: { x: 6, y: 2 }, color: 'black' }
+    ]);
+  });
+});
+
+describe('komi', () => {
+  it('accepts whole and half points, including zero and reverse komi', () => {
+    [6.5, 0, 0.5, -5, -7.5, 150].forEach(komi => expect(isValidKomi(komi)).toBe(true));
+    [6.25, NaN, Infinity, 150.5, undefined, '6.5'].forEach(komi => expect(isValidKomi(komi)).toBe(false));
+  });
+
+  it('falls back to the ruleset and handicap default', () => {
+    expect(getDefaultKomi(0, 'chinese')).toBe(7.5);
+    expect(getDefaultKomi(1, 'japanese')).toBe(0.5);
+    expect(getKomi(undefined, 0, 'japanese')).toBe(6.5);
+    expect(getKomi(0, 0, 'japanese')).toBe(0);
+    expect(getKomi(-5, 3, 'aga')).toBe(-5);
+  });
+});
+
+describe('ruleset-specific legality', () => {
+  // White at (1, 0) plus a white stone at (0, 0) would be a two-stone suicide
+  const board = createBoard(5, parseStones([
+    '..B..',
+    'BB...',
+    '.....',
+    '.....',
+    '.....'
+  ]).concat({ position: { x: 1, y: 0 }, color: 'white' }));
+
+  it('forbids suicide unless the ruleset allows it', () => {
+    expect(getPlacementError(board, { x: 0, y: 0 }, 'white', { scoringRule: 'japanese' })).toBe('suicide');
+    expect(getPlacementError(board, { x: 0, y: 0 }, 'white', { scoringRule: 'new-zealand' })).toBeNull();
+    expect(getPlacementError(board, { x: 0, y: 0 }, 'white', { scoringRule: 'tromp-taylor' })).toBeNull();
+  });
+
+  it('still forbids single-stone suicide under New Zealand rules', () => {
+    const lone = createBoard(5, parseStones([
+      '.B...',
+      'B....',
+      '.....',
+      '.....',
+      '.....'
+    ]));
+    expect(getPlacementError(lone, { x: 0, y: 0 }, 'white', { scoringRule: 'new-zealand' })).toBe('suicide');
+  });
+
+  it('removes the suicided group', () => {
+    const result = playMove(board, { x: 0, y: 0 }, 'white');
+
+    expect(result.capturedCount).toBe(0);
+    expect(result.suicidePositions).toHaveLength(2);
+    expect(result.board.stones.every(stone => stone.color === 'black')).toBe(true);
+  });
+});
+
+describe('seki detection', () => {
+  it('finds groups sharing a liberty neither side can fill, and their eyes', () => {
+    // Black and white each have one eye and share the liberty at (2, 0)
+    const board = createBoard({ width: 5, height: 2 }, parseStones([
+      '.B.W.',
+      'BBWWW'
+    ]));
+    const seki = findSeki(board);
+
+    expect(seki.stones).toHaveLength(7);
+    expect(seki.sharedLiberties).toEqual([{ x: 2, y: 0 }]);
+    expect(seki.eyes).toEqual(expect.arrayContaining([{ x: 0, y: 0 }, { x: 4, y: 0 }]));
+  });
+
+  it('does not treat open dame as seki', () => {
+    const board = createBoard({ width: 5, height: 2 }, parseStones([
+      '.B.W.',
+      '.B.W.'
+    ]));
+    const seki = findSeki(board);
+
+    expect(seki.stones).toEqual([]);
+    expect(seki.eyes).toEqual([]);
+  });
+
+  it('ignores stones marked dead', () => {
+    const board = createBoard({ width: 5, height: 2 }, parseStones([
+      '.B.W.',
+      'BBWWW'
+    ]));
+    const deadWhite = [{ x: 3, y: 0 }, { x: 2, y: 1 }, { x: 3, y: 1 }, { x: 4, y: 1 }];
+    expect(findSeki(board, deadWhite).stones).toEqual([]);
+  });
+});
+
+describe('rengo rotation', () => {
+  const players: Player[] = [
+    { id: 'a', username: 'Alice', color: 'black' },
+    { id: 'b', username: 'Bob', color: 'white' },
+    { id: 'c', username: 'Carol', color: 'black' },
+    { id: 'd', username: 'Dave', color: 'white' }
+  ];
+  const moves = (count: number): GameMove[] => Array.from({ length: count }, (_, x) => ({ x, y: 0 }));
+
+  it('rotates each color through its team in player order', () => {
+    const order = [0, 1, 2, 3, 4, 5].map(count => getRengoPlayerToMove({
+      players,
+      history: moves(count),
+      currentTurn: count % 2 === 0 ? 'black' : 'white'
+    })?.id);
+
+    expect(order).toEqual(['a', 'b', 'c', 'd', 'a', 'b']);
+  });
+
+  it('starts with white after handicap stones', () => {
+    const state = { players, history: moves(2), currentTurn: 'white' as const, gameType: 'rengo' as const };
+
+    expect(getRengoPlayerToMove(state)?.id).toBe('d');
+    expect(isRengoPlayerToMove(state, 'b')).toBe(false);
+    expect(isRengoPlayerToMove({ ...state, gameType: 'even' }, 'b')).toBe(true);
+  });
+
+  it('needs equal, non-empty teams to start', () => {
+    expect(canStartRengo(players)).toBe(true);
+    expect(canStartRengo(players.slice(0, 3))).toBe(false);
+    expect(canStartRengo(players.filter(player => player.color === 'black'))).toBe(false);
+  });
+
+  it('names teams after their members unless the host chose a name', () => {
+    expect(getTeamName({ players }, 'black')).toBe('Alice & Carol');
+    expect(getTeamName({ players, teamNames: { white: 'Lions' } }, 'white')).toBe('Lions');
+  });
+});
+
+describe('teaching games', () => {
+  const teacher: Player = { id: 't', username: 'Teacher', color: 'white' };
+  const student: Player = { id: 's', username: 'Student', color: 'black' };
+  const gameState = { gameType: 'teaching' as const, teacherId: 't' };
+
+  it('lets the teacher play both colors while in control', () => {
+    expect(getColorRejection(gameState, teacher, 'black')).toBe('wrong-color');
+    expect(getColorRejection({ ...gameState, teacherControl: true }, teacher, 'black')).toBeNull();
+    expect(getColorRejection({ ...gameState, teacherControl: true }, student, 'black')).toBe('teacher-control');
+    expect(getColorRejection(gameState, student, 'black')).toBeNull();
+  });
+
+  it('plays a variation and stops at an illegal move', () => {
+    const board = { size: 5, stones: parseStones(['.B...', 'BW...', '.B...', '.....', '.....']) };
+    const capture = playVariation(board, [
+      { color: 'black', position: { x: 2, y: 1 } },
+      { color: 'white', position: null }
+    ]);
+    expect(capture.error).toBeNull();
+    expect(capture.board.stones).toHaveLength(4);
+
+    const ko = playVariation(
+      { size: 5, stones: parseStones(['.BW..', 'B.BW.', '.BW..', '.....', '.....']) },
+      [{ color: 'white', position: { x: 1, y: 1 } }, { color: 'black', position: { x: 2, y: 1 } }]
+    );
+    expect(ko.error).toBe('ko');
+    expect(ko.board.stones).toHaveLength(7);
+  });
+});
+
+describe('local game clock', () => {
+  const noClock = { timeControl: 0, timePerMove: 0, byoYomiPeriods: 0, byoYomiTime: 0, fischerTime: 0, correspondenceDays: 0 };
+  const byoYomi = { timeControl: { ...noClock, timeControl: 1, byoYomiPeriods: 3, byoYomiTime: 30 } };
+  const blitz = { timeControl: noClock, timePerMove: 10 };
+
+  it('starts with the main time and every byo-yomi period', () => {
+    expect(getStartingClock(byoYomi)).toEqual({ timeRemaining: 60, byoYomiPeriodsLeft: 3, byoYomiTimeLeft: 30, isInByoYomi: false });
+    expect(getStartingClock(blitz)).toEqual({ timeRemaining: 10 });
+    expect(hasGameClock({ timeControl: noClock })).toBe(false);
+  });
+
+  it('uses up byo-yomi periods once the main time has run out', () => {
+    const start = getStartingClock(byoYomi);
+
+    expect(readClock(start, byoYomi, 50)).toMatchObject({ timeRemaining: 10, timedOut: false });
+    expect(readClock(start, byoYomi, 75)).toMatchObject({ isInByoYomi: true, byoYomiPeriodsLeft: 3, byoYomiTimeLeft: 15, timedOut: false });
+    expect(readClock(start, byoYomi, 100)).toMatchObject({ byoYomiPeriodsLeft: 2, byoYomiTimeLeft: 20, timedOut: false });
+    expect(readClock(start, byoYomi, 150)).toMatchObject({ byoYomiPeriodsLeft: 0, timedOut: true });
+  });
+
+  it('restarts the period, or the time per move, after a move', () => {
+    const start = getStartingClock(byoYomi);
+
+    expect(stopClock(start, byoYomi, 100)).toMatchObject({ byoYomiPeriodsLeft: 2, byoYomiTimeLeft: 30, timedOut: false });
+    expect(stopClock({ timeRemaining: 10 }, blitz, 4)).toMatchObject({ timeRemaining: 10, timedOut: false });
+    expect(stopClock({ timeRemaining: 10 }, blitz, 10).timedOut).toBe(true);
+  });
+});
+
+describe('replaying moves', () => {
+  const board = { size: 5, stones: [] };
+  const history: GameMove[] = [
+    { x: 1, y: 0 }, { x: 0, y: 0 },
+    { x: 0, y: 1 }, { pass: true },
+    { x: 4, y: 4 }
+  ];
+
+  it('plays the game again up to a move, with captures and the turn', () => {
+    const position = replayMoves({ board, history }, 3);
+
+    expect(position.board.stones).toHaveLength(2);
+    expect(position.capturedStones).toEqual({ black: 1, white: 0 });
+    expect(position.currentTurn).toBe('white');
+    expect(position.lastMove).toEqual({ x: 0, y: 1 });
+    expect(position.positionHistory).toHaveLength(4);
+
+    expect(replayMoves({ board, history }, 4).lastMove).toBeUndefined();
+  });
+
+  it('ends a ko with a pass, so the ko point can be filled', () => {
+    const koFight: GameMove[] = [
+      { x: 1, y: 0 }, { x: 2, y: 0 },
+      { x: 0, y: 1 }, { x: 1, y: 1 },
+      { x: 1, y: 2 }, { x: 3, y: 1 },
+      { x: 4, y: 4 }, { x: 2, y: 2 },
+      { x: 2, y: 1 }, { pass: true }
+    ];
+    const taken = replayMoves({ board, history: koFight }, 9);
+    const passed = replayMoves({ board, history: koFight }, 10);
+
+    expect(taken.koPosition).toEqual({ x: 1, y: 1 });
+    expect(passed.koPosition).toBeUndefined();
+    expect(checkMove({ ...passed, status: 'playing' }, { x: 1, y: 1 }, 'black')).toEqual({ legal: true });
+  });
+
+  it('starts from the handicap stones with white to move', () => {
+    const position = replayMoves({ board, history: [{ x: 2, y: 2 }], handicapPositions: [{ x: 1, y: 1 }, { x: 3, y: 3 }] }, 1);
+
+    expect(position.board.stones).toEqual([
+      { position: { x: 1, y: 1 }, color: 'black' },
+      { position: { x: 3, y: 3 }, color: 'black' },
+      { position: { x: 2, y: 2 }, color: 'white' }
+    ]);
+    expect(position.currentTurn).toBe('black');
+  });
+
+  it('keeps black first with a handicap of one, which places no stones', () => {
+    const handicapPositions = getHandicapStones(9, 1).map(stone => stone.position);
+    const undone = replayMoves({ board: createBoard(9), history: [{ x: 2, y: 2 }, { x: 6, y: 6 }], handicapPositions }, 1);
+
+    expect(getStartingColor(1)).toBe('black');
+    expect(getStartingColor(2)).toBe('white');
+    expect(handicapPositions).toEqual([]);
+    expect(undone.board.stones).toEqual([{ position: { x: 2, y: 2 }, color: 'black' }]);
+    expect(undone.currentTurn).toBe('white');
+    expect(replayMoves({ board: createBoard(9), history: [], handicapPositions }, 0).currentTurn).toBe(getStartingColor(1));
+  });
+});
+
+describe('capture games', () => {
+  const capture = { gameType: 'capture' as const, captureTarget: 3 };
+
+  it('is won by the first color to capture the target', () => {
+    expect(getCaptureWinner({ ...capture, capturedStones: { black: 2, white: 2 } })).toBeNull();
+    expect(getCaptureWinner({ ...capture, capturedStones: { black: 1, white: 3 } })).toBe('white');
+    expect(getCaptureWinner({ ...capture, capturedStones: { black: 4, white: 0 } })).toBe('black');
+    expect(getCaptureResult('white')).toBe('W+C');
+  });
+
+  it('is Atari Go without a target, and never decided by captures in other games', () => {
+    expect(getCaptureTarget({ gameType: 'capture' })).toBe(1);
+    expect(getCaptureWinner({ gameType: 'capture', capturedStones: { black: 1, white: 0 } })).toBe('black');
+    expect(getCaptureWinner({ gameType: 'even', captureTarget: 3, capturedStones: { black: 10, white: 0 } })).toBeNull();
+  });
+
+  it('has no passing and only accepts a whole number of stones up to the maximum', () => {
+    expect(isPassAllowed(capture)).toBe(false);
+    expect(isPassAllowed({ gameType: 'even' })).toBe(true);
+    expect(isValidCaptureTarget(5)).toBe(true);
+    expect(isValidCaptureTarget(0)).toBe(false);
+    expect(isValidCaptureTarget(2.5)).toBe(false);
+    expect(isValidCaptureTarget(21)).toBe(false);
+    expect(isValidCaptureTarget('5')).toBe(false);
+  });
+});
+
+describe('correspondence games', () => {
+  const timeControl = { timeControl: 0, timePerMove: 0, byoYomiPeriods: 0, byoYomiTime: 0, fischerTime: 0, correspondenceDays: 3 };
+  const gameState = { gameType: 'correspondence' as const, status: 'playing' as const, timeControl, lastMoveTime: 1000 };
+
+  it('gives each move the days per move from the previous one', () => {
+    expect(getMoveDeadline(gameState)).toBe(1000 + 3 * DAY_MS);
+    expect(isMoveOverdue(gameState, 1000 + 3 * DAY_MS - 1)).toBe(false);
+    expect(isMoveOverdue(gameState, 1000 + 3 * DAY_MS)).toBe(true);
+    expect(getMoveDeadline({ ...gameState, status: 'finished' })).toBeNull();
+    expect(getMoveDeadline({ ...gameState, gameType: 'even' })).toBeNull();
+  });
+
+  it('knows whose move a game is waiting for', () => {
+    const players: Player[] = [
+      { id: 'b', username: 'Alice', color: 'black' },
+      { id: 'w', username: 'Bob', color: 'white' }
+    ];
+    expect(isAwaitingMove({ status: 'playing', players, currentTurn: 'white' }, 'w')).toBe(true);
+    expect(isAwaitingMove({ status: 'playing', players, currentTurn: 'white' }, 'b')).toBe(false);
+    expect(isAwaitingMove({ status: 'finished', players, currentTurn: 'white' }, 'w')).toBe(false);
+  });
+
+  it('formats the time left in days, hours and minutes', () => {
+    expect(formatTimeLeft(2 * DAY_MS + 5.5 * 3600000)).toBe('2d 5h');
+    expect(formatTimeLeft(3 * 3600000 + 20 * 60000)).toBe('3h 20m');
+    expect(formatTimeLeft(-5)).toBe('0m');
+  });
+});
+
+describe('simuls', () => {
+  const board = (boardNumber: number, overrides: Partial<SimulBoard> = {}): SimulBoard => ({
+    gameId: `g${boardNumber}`,
+    code: `C${boardNumber}`,
+    boardNumber,
+    studentName: `Student ${boardNumber}`,
+    hostColor: 'white',
+    status: 'playing',
+    moveCount: 10,
+    awaitingHost: false,
+    winner: null,
+    ...overrides
+  });
+
+  it('summarizes a board from its game', () => {
+    const gameState = {
+      id: 'g1',
+      code: 'C1',
+      players: [
+        { id: 'host', username: 'Sensei', color: 'white' },
+        { id: 's', username: 'Student', color: 'black' }
+      ],
+      currentTurn: 'white',
+      history: [{ position: { x: 3, y: 3 }, color: 'black' }],
+      status: 'playing',
+      winner: null
+    } as unknown as GameState;
+
+    expect(getSimulBoard(gameState, 'host', 1)).toMatchObject({
+      studentName: 'Student',
+      hostColor: 'white',
+      moveCount: 1,
+      awaitingHost: true
+    });
+    expect(getSimulBoard({ ...gameState, players: gameState.players.slice(0, 1) }, 'host', 1).awaitingHost).toBe(false);
+  });
+
+  it('cycles to the next board waiting for the host', () => {
+    const boards = [board(1, { awaitingHost: true }), board(2), board(3, { awaitingHost: true })];
+
+    expect(getNextSimulBoard(boards, 'g1')?.boardNumber).toBe(3);
+    expect(getNextSimulBoard(boards, 'g3')?.boardNumber).toBe(1);
+    expect(getNextSimulBoard(boards)?.boardNumber).toBe(1);
+    expect(getNextSimulBoard([board(1, { awaitingHost: true }), board(2)], 'g1')?.boardNumber).toBe(1);
+    expect(getNextSimulBoard([board(1), board(2)], 'g1')).toBeUndefined();
+  });
+
+  it('counts the host\'s wins, losses and draws', () => {
+    const boards = [
+      board(1, { status: 'finished', winner: 'white', result: 'W+R' }),
+      board(2, { status: 'finished', winner: 'black', result: 'B+3.5' }),
+      board(3, { status: 'finished', winner: null, result: '0' }),
+      board(4)
+    ];
+    expect(getSimulResults(boards)).toEqual({ wins: 1, losses: 1, draws: 1, unfinished: 1 });
+  });
+});
@@ -0,0 +1,34 @@
+import { ScoringRule } from '../types/go';
+
+// Whether a move may leave its own group without liberties: never, or when
+// more than one stone is removed (a lone stone suicide would just repeat the position)
+export type SuicideRule = 'forbidden' | 'multi-stone';
+
+/**
+ * Suicide rule for each ruleset. Tromp-Taylor and New Zealand rules allow
+ * suicide; the suicided stones are removed and count as captures for the opponent.
+ */
+export const SUICIDE_RULES: Record<ScoringRule, SuicideRule> = {
+  japanese: 'forbidden',
+  korean: 'forbidden',
+  chinese: 'forbidden',
+  aga: 'forbidden',
+  ing: 'forbidden',
+  'tromp-taylor': 'multi-stone',
+  'new-zealand': 'multi-stone'
+};
+
+/**
+ * Gets the suicide rule for a ruleset (forbidden when unknown)
+ */
+export const getSuicideRule = (scoringRule: ScoringRule | undefined): SuicideRule => {
+  return (scoringRule && SUICIDE_RULES[scoringRule]) || 'forbidden';
+};
+
+/**
+ * Whether the players agree on dead stones before counting. Tromp-Taylor counts
+ * the board exactly as it stands: every stone is alive and disputes are played out.
+ */
+export const hasDeadStoneAgreement = (scoringRule: ScoringRule | undefined): boolean => {
+  return scoringRule !== 'tromp-taylor';
+};
@@ -0,0 +1,138 @@
+import { Board, Position, StoneColor } from '../types/go';
+import {
+  EMPTY_CELL,
+  IndexedBoard,
+  createIndexedBoard,
+  setColorAt,
+  getGroupAt,
+  countGroupLiberties,
+  toCellIndex,
+  fromCellIndex,
+  forEachNeighbour
+} from './indexedBoard';
+import { captureAround } from './moves';
+
+/**
+ * Groups in seki and the empty points around them that belong to nobody
+ */
+export interface SekiResult {
+  stones: Position[]; // Stones of the groups in seki
+  sharedLiberties: Position[]; // Empty points neither player can fill without being captured
+  eyes: Position[]; // Empty regions enclosed only by groups in seki
+}
+
+// An empty region with the colors and stones bordering it
+interface EmptyRegion {
+  points: number[];
+  borderColors: number[];
+  borderStones: number[];
+}
+
+// Splits the empty points of the board into connected regions
+const findEmptyRegions = (indexed: IndexedBoard): EmptyRegion[] => {
+  const { cells } = indexed;
+  const visited = new Uint8Array(cells.length);
+  const regions: EmptyRegion[] = [];
+
+  for (let start = 0; start < cells.length; start++) {
+    if (visited[start] || cells[start] !== EMPTY_CELL) continue;
+
+    const region: EmptyRegion = { points: [], borderColors: [], borderStones: [] };
+    const stack = [start];
+    visited[start] = 1;
+
+    while (stack.length > 0) {
+      const current = stack.pop() as number;
+      region.points.push(current);
+
+      forEachNeighbour(indexed, current, neighbour => {
+        const cell = cells[neighbour];
+        if (cell === EMPTY_CELL) {
+          if (!visited[neighbour]) {
+            visited[neighbour] = 1;
+            stack.push(neighbour);
+          }
+          return;
+        }
+        if (region.borderColors.indexOf(cell) === -1) region.borderColors.push(cell);
+        if (region.borderStones.indexOf(neighbour) === -1) region.borderStones.push(neighbour);
+      });
+    }
+
+    regions.push(region);
+  }
+
+  return regions;
+};
+
+// Whether a stone of color at position would capture nothing and leave its group in atari (or worse)
+const isSelfAtari = (indexed: IndexedBoard, position: Position, color: StoneColor): boolean => {
+  const trial: IndexedBoard = { ...indexed, cells: indexed.cells.slice() };
+  setColorAt(trial, position, color);
+  if (captureAround(trial, position, color).length > 0) return false;
+
+  return countGroupLiberties(trial, getGroupAt(trial, position)) <= 1;
+};
+
+/**
+ * Finds the groups in seki once the dead stones are taken off the board.
+ *
+ * A region between black and white is a set of shared liberties when every point in
+ * it would put the player filling it into atari without capturing anything, for both
+ * players. The live groups touching those liberties are in seki, and an empty region
+ * bordered only by groups in seki is an eye that territory rules do not count.
+ */
+export const findSeki = (board: Board, deadStones: Position[] = []): SekiResult => {
+  const isDead = (position: Position) =>
+    deadStones.some(dead => dead.x === position.x && dead.y === position.y);
+  const indexed = createIndexedBoard({
+    ...board,
+    stones: board.stones.filter(stone => !isDead(stone.position))
+  });
+  const { width, cells } = indexed;
+
+  const regions = findEmptyRegions(indexed);
+  const inSeki = new Uint8Array(cells.length);
+  const sharedLiberties: Position[] = [];
+
+  regions
+    .filter(region => region.borderColors.length === 2)
+    .forEach(region => {
+      const positions = region.points.map(index => fromCellIndex(index, width));
+      const isShared = positions.every(position =>
+        isSelfAtari(indexed, position, 'black') && isSelfAtari(indexed, position, 'white')
+      );
+      if (!isShared) return;
+
+      sharedLiberties.push(...positions);
+      region.borderStones.forEach(index => {
+        if (inSeki[index]) return;
+        getGroupAt(indexed, fromCellIndex(index, width)).forEach(stone => {
+          inSeki[toCellIndex(stone, width)] = 1;
+        });
+      });
+    });
+
+  const eyes: Position[] = [];
+  regions
+    .filter(region => region.borderColors.length === 1 && region.borderStones.every(index => inSeki[index]))
+    .forEach(region => {
+      eyes.push(...region.points.map(index => fromCellIndex(index, width)));
+    });
+
+  const stones: Position[] = [];
+  for (let index = 0; index < cells.length; index++) {
+    if (inSeki[index]) stones.push(fromCellIndex(index, width));
+  }
+
+  return { stones, sharedLiberties, eyes };
+};
+
+/**
+ * Every point a seki leaves out of the count: its stones, shared liberties and eyes
+ */
+export const getSekiPoints = (result: SekiResult): Position[] => [
+  ...result.stones,
+  ...result.sharedLiberties,
+  ...result.eyes
+];
@@ -0,0 +1,61 @@
+import { GameState, SimulBoard } from '../types/go';
+import { isAwaitingMove } from './correspondence';
+
+// Simul limits: a single board is an ordinary game
+export const MIN_SIMUL_BOARDS = 2;
+export const MAX_SIMUL_BOARDS = 10;
+
+/**
+ * Summarizes one board of a simul for the host's dashboard
+ */
+export const getSimulBoard = (gameState: GameState, hostId: string, boardNumber: number): SimulBoard => {
+  const host = gameState.players.find(player => player.id === hostId);
+  const student = gameState.players.find(player => player.id !== hostId && !player.isSpectator);
+
+  return {
+    gameId: gameState.id,
+    code: gameState.code,
+    boardNumber,
+    studentName: student ? student.username : null,
+    hostColor: host ? host.color : null,
+    status: gameState.status,
+    moveCount: gameState.history.length,
+    awaitingHost: !!student && isAwaitingMove(gameState, hostId),
+    result: gameState.result,
+    winner: gameState.winner
+  };
+};
+
+/**
+ * The next board where the host is to move, going round the boards in order
+ * from the one the host is on. The current board only comes up again when no
+ * other board is waiting.
+ */
+export const getNextSimulBoard = (boards: SimulBoard[], currentGameId?: string): SimulBoard | undefined => {
+  const currentIndex = boards.findIndex(board => board.gameId === currentGameId);
+  for (let step = 1; step <= boards.length; step++) {
+    const board = boards[(currentIndex + step + boards.length) % boards.length];
+    if (board.awaitingHost) return board;
+  }
+  return undefined;
+};
+
+/**
+ * The host's score over the finished boards. A finished board without a winner
+ * is a draw (jigo).
+ */
+export const getSimulResults = (boards: SimulBoard[]): { wins: number; losses: number; draws: number; unfinished: number } => {
+  const results = { wins: 0, losses: 0, draws: 0, unfinished: 0 };
+  boards.forEach(board => {
+    if (board.status !== 'finished') {
+      results.unfinished++;
+    } else if (!board.winner) {
+      results.draws++;
+    } else if (board.winner === board.hostColor) {
+      results.wins++;
+    } else {
+      results.losses++;
+    }
+  });
+  return results;
+};
@@ -0,0 +1,55 @@
+import { Board, GameState, Player, Position, StoneColor, VariationMove } from '../types/go';
+import { getPlacementError, MoveRejectionReason } from './legality';
+import { playMove } from './moves';
+
+/**
+ * Whether a player is the teacher of a teaching game
+ */
+export const isTeacher = (gameState: Pick<GameState, 'gameType' | 'teacherId'>, playerId: string): boolean => {
+  return gameState.gameType === 'teaching' && !!gameState.teacherId && gameState.teacherId === playerId;
+};
+
+/**
+ * Checks that a player may play stones of a color. Players play their own color,
+ * except while the teacher has taken control: then the teacher plays both colors
+ * and the student waits.
+ */
+export const getColorRejection = (
+  gameState: Pick<GameState, 'gameType' | 'teacherId' | 'teacherControl'>,
+  player: Player,
+  color: StoneColor
+): MoveRejectionReason | null => {
+  if (gameState.gameType === 'teaching' && gameState.teacherControl) {
+    return isTeacher(gameState, player.id) ? null : 'teacher-control';
+  }
+  return player.color === color ? null : 'wrong-color';
+};
+
+/**
+ * Plays the moves of a variation from a position. Stops at the first illegal
+ * move and reports why; simple ko is checked, superko is not.
+ */
+export const playVariation = (
+  board: Board,
+  moves: VariationMove[]
+): { board: Board; error: MoveRejectionReason | null } => {
+  let current = board;
+  let koPosition: Position | undefined;
+
+  for (let i = 0; i < moves.length; i++) {
+    const { color, position } = moves[i];
+    if (!position) {
+      koPosition = undefined;
+      continue;
+    }
+
+    const error = getPlacementError(current, position, color, { koPosition });
+    if (error) return { board: current, error };
+
+    const result = playMove(current, position, color);
+    current = result.board;
+    koPosition = result.koPosition;
+  }
+
+  return { board: current, error: null };
+};
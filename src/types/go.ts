@@ -13,14 +13,22 @@ export interface Stone {
 }
 
 export interface Board {
-  size: number;
+  size: number; // Longest side; the board is size x size unless width and height are set
+  width?: number;
+  height?: number;
   stones: Stone[];
 }
 
+export interface BoardDimensions {
+  width: number;
+  height: number;
+}
+
 export interface Player {
   id: string;
   username: string;
   color: StoneColor;
+  rank?: string; // Rank as recorded in imported games, e.g. "5d"
   timeRemaining?: number; // Time remaining in seconds
   byoYomiPeriodsLeft?: number; // Number of byo-yomi periods remaining
   byoYomiTimeLeft?: number; // Time remaining in current byo-yomi period (seconds)
@@ -31,10 +39,22 @@ export interface Player {
 }
 
 // Update ScoringRule to include new rule types
-export type ScoringRule = 'chinese' | 'japanese' | 'korean' | 'aga' | 'ing';
+export type ScoringRule = 'chinese' | 'japanese' | 'korean' | 'aga' | 'ing' | 'tromp-taylor' | 'new-zealand';
+
+// Ko rule variants: simple ko only, or superko based on whole-board repetition
+export type KoRule = 'simple' | 'positional-superko' | 'situational-superko';
+
+// A whole-board position seen during the game, with the color to move next
+export interface PositionRecord {
+  hash: string;
+  toMove: StoneColor;
+}
+
+// Fixed handicap uses the standard star points; free lets black choose the points
+export type HandicapPlacement = 'fixed' | 'free';
 
 // Add GameType for different game modes
-export type GameType = 'even' | 'handicap' | 'blitz' | 'teaching' | 'rengo';
+export type GameType = 'even' | 'handicap' | 'blitz' | 'teaching' | 'rengo' | 'correspondence' | 'capture';
 
 export interface Territory {
   position: Position;
@@ -50,17 +70,22 @@ export interface TimeControlOptions {
   byoYomiPeriods?: number; // number of byo-yomi periods
   byoYomiTime?: number; // seconds per byo-yomi period
   fischerTime?: number; // seconds added after each move
+  correspondenceDays?: number; // days per move in correspondence games
 }
 
 export interface GameOptions {
   boardSize: number;
+  boardDimensions?: BoardDimensions; // Rectangular boards; boardSize is then the longer side
   timeControlOptions: TimeControlOptions;
   // These direct time control properties are kept for backward compatibility
   // They are synchronized with timeControlOptions in the UI
   timeControl?: number; // minutes per player (direct property for backward compatibility)
   timePerMove?: number; // seconds per move (direct property for backward compatibility)
   handicap: number;
+  handicapPlacement?: HandicapPlacement; // Defaults to fixed
   scoringRule: ScoringRule;
+  koRule?: KoRule; // Defaults to the scoring rule's usual ko rule
+  komi?: number; // Whole or half point, negative for reverse komi; defaults from handicap and scoring rule
   gameType?: GameType;
   colorPreference?: ColorPreference;
   isTeachingMode?: boolean;
@@ -71,6 +96,13 @@ export interface GameOptions {
   aiLevel?: 'easy' | 'normal' | 'hard' | 'expert'; // AI difficulty level
   // AI Network Selection Options
   selectedNetworkId?: string; // Selected AI network ID (format: category-elo)
+  // Simul: the host plays this many boards at once; one board is an ordinary game
+  simulBoards?: number;
+  // Local game: both players take turns on this device, with no server
+  localGame?: boolean;
+  opponentName?: string; // Name of the player on the other color
+  browserBot?: boolean; // With vsAI: play the bot in this browser, at aiLevel, instead of KataGo
+  captureTarget?: number; // Capture games: the first to capture this many stones wins
 }
 
 export interface GameState {
@@ -90,11 +122,13 @@ export interface GameState {
   result?: string; // Game result notation (e.g., B+T, W+T, B+R, W+R, B+5.5, etc.)
   deadStones?: Position[];
   territory?: Territory[];
+  seki?: Position[]; // Stones in seki and the empty points they leave uncounted
   scoringRule: ScoringRule;
   gameType?: GameType;
   timeControl: Required<TimeControlOptions>;
   timePerMove?: number;
   lastMoveTime?: number;
+  createdAt?: number; // When the game was set up (ms since epoch), written to SGF as DT
   score?: {
     black: number;
     white: number;
@@ -118,8 +152,17 @@ export interface GameState {
   };
   komi: number;
   handicap: number;
+  handicapPlacement?: HandicapPlacement;
+  pendingHandicap?: number; // Free handicap stones black still has to place before white's first move
+  handicapPositions?: Position[]; // Where the handicap stones were placed
+  setupStones?: Stone[]; // Stones on the board before the first move (SGF AB/AW), replacing handicap stones in review
+  startingTurn?: StoneColor; // Color of the first move when it does not follow from the handicap
+  comments?: Record<number, string>; // Comments by move number; 0 is the starting position
+  moveTree?: MoveTree; // Every variation of the game record; history is its main line
   socket?: Socket | null;
   koPosition?: Position;
+  koRule?: KoRule;
+  positionHistory?: PositionRecord[]; // Every position reached so far, for superko checks
   lastMove?: Position; // Position of the last move made for highlighting
   // AI Game Properties
   vsAI?: boolean; // Whether this is a game against AI
@@ -127,6 +170,81 @@ export interface GameState {
   aiUndoUsed?: boolean; // Whether undo has been used in AI game (limit 1 per game)
   // AI Network Selection Options
   selectedNetworkId?: string; // Selected AI network ID (format: category-elo)
+  // Rengo: each color is a team; members take turns in player list order
+  teamNames?: { black?: string; white?: string }; // Names chosen in the team lobby
+  // Teaching games: the creator is the teacher
+  teacherId?: string;
+  teacherControl?: boolean; // The teacher is playing the student's stones
+  markup?: Record<number, BoardMarkup[]>; // Markup by move number; 0 is the starting position
+  variations?: TeachingVariation[]; // Lines the teacher showed, kept for the game record
+  shownVariation?: number | null; // Index of the variation on everyone's board
+  // Simul: one of the boards a host plays at once
+  simulId?: string;
+  // Local game: played in this browser only, the board passing between both players
+  isLocal?: boolean;
+  browserBot?: boolean; // A local game against the bot that runs in this browser
+  // Capture games: no passing or scoring, the first to capture captureTarget stones wins
+  captureTarget?: number;
+}
+
+// A board of a simul, as the host's dashboard lists it
+export interface SimulBoard {
+  gameId: string;
+  code: string;
+  boardNumber: number; // From 1, in the order the boards were created
+  studentName: string | null; // Null while the seat is open
+  hostColor: StoneColor;
+  status: GameState['status'];
+  moveCount: number;
+  awaitingHost: boolean; // The host is to move on this board
+  result?: string;
+  winner: StoneColor | null;
+}
+
+// A simultaneous exhibition: one host against a student on each board
+export interface SimulSession {
+  id: string;
+  hostId: string;
+  hostName: string;
+  boards: SimulBoard[];
+}
+
+// A move in a variation shown during a teaching game (null position for a pass)
+export interface VariationMove {
+  color: StoneColor;
+  position: Position | null;
+}
+
+// A line the teacher showed (or took back), branching after moveNumber moves of the game
+export interface TeachingVariation {
+  moveNumber: number;
+  moves: VariationMove[];
+}
+
+// Review annotations drawn on a point (SGF TR, SQ, CR, MA and LB)
+export type MarkupShape = 'triangle' | 'square' | 'circle' | 'cross' | 'label';
+
+export interface BoardMarkup {
+  position: Position;
+  shape: MarkupShape;
+  label?: string; // Text for 'label' markup
+}
+
+// A move in a tree-shaped game record; the first child continues the main line
+export interface MoveTreeNode {
+  id: number;
+  parentId: number | null; // null for the root, which stands for the starting position
+  children: number[];
+  color: StoneColor; // Color that moved; null for the root
+  position: Position | null; // null for a pass (and the root)
+  comment?: string;
+  markup?: BoardMarkup[];
+}
+
+export interface MoveTree {
+  nodes: Record<number, MoveTreeNode>;
+  currentId: number; // Node whose position is shown
+  nextId: number;
 }
 
 export type GameMove = Position | { 
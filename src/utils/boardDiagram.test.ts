@@ -0,0 +1,58 @@
+import { Board } from '../types/go';
+import { getDiagramNumbers, renderBoardDiagram, DiagramMove } from './boardDiagram';
+
+// Black 1 was captured by white 4, black passed and white 6 filled the point
+const moves: DiagramMove[] = [
+  { color: 'black', position: { x: 0, y: 0 } },
+  { color: 'white', position: { x: 1, y: 0 } },
+  { color: 'black', position: { x: 4, y: 4 } },
+  { color: 'white', position: { x: 0, y: 1 } },
+  { color: 'black', position: null },
+  { color: 'white', position: { x: 0, y: 0 } }
+];
+
+const board: Board = {
+  size: 9,
+  stones: [
+    { position: { x: 1, y: 0 }, color: 'white' },
+    { position: { x: 4, y: 4 }, color: 'black' },
+    { position: { x: 0, y: 1 }, color: 'white' },
+    { position: { x: 0, y: 0 }, color: 'white' }
+  ]
+};
+
+describe('board diagrams', () => {
+  it('numbers the stones still on the board from a given move', () => {
+    expect(getDiagramNumbers(board, moves, 1).map(({ number }) => number)).toEqual([2, 3, 4, 6]);
+    expect(getDiagramNumbers(board, moves, 4)).toEqual([
+      { position: { x: 0, y: 1 }, number: 4 },
+      { position: { x: 0, y: 0 }, number: 6 }
+    ]);
+  });
+
+  it('renders a standalone SVG with the theme colours', () => {
+    const { svg } = renderBoardDiagram(board, {
+      theme: 'dark-wood-3d',
+      showCoordinates: false,
+      moves,
+      numberFrom: 3,
+      lastMove: { x: 0, y: 0 }
+    });
+
+    expect(svg.startsWith('<svg xmlns="http://www.w3.org/2000/svg"')).toBe(true);
+    expect(svg).toContain('fill="#6b4423"');
+    expect(svg.match(/r="14.1"/g)).toHaveLength(4);
+    expect(svg).toContain('>6</text>');
+    expect(svg).not.toContain('>2</text>');
+  });
+
+  it('leaves out coordinates when asked', () => {
+    const { svg, width } = renderBoardDiagram(board);
+    const { svg: plainSvg, width: plainWidth } = renderBoardDiagram(board, { showCoordinates: false });
+
+    expect(plainWidth).toBeLessThan(width);
+    expect(svg).toContain('>J</text>');
+    expect(svg).not.toContain('>I</text>');
+    expect(plainSvg).not.toContain('>A</text>');
+  });
+});
@@ -0,0 +1,169 @@
+import { Board, Position, StoneColor } from '../types/go';
+import { getBoardDimensions, getStarPoints } from '../rules';
+import { BoardTheme, getBoardThemeConfig } from '../components/go-board/boardThemes';
+
+// A move leading to the diagram position (null position for a pass)
+export interface DiagramMove {
+  color: StoneColor;
+  position: Position | null;
+}
+
+export interface BoardDiagramOptions {
+  theme?: BoardTheme;
+  showCoordinates?: boolean;
+  moves?: DiagramMove[]; // Moves played to reach the position, first move first
+  numberFrom?: number; // Number the stones played from this move on; leave out for no numbers
+  numbers?: { position: Position; number: number }[]; // Numbers to write instead of the ones from numberFrom
+  lastMove?: Position; // Marked with a circle when it carries no number
+  cellSize?: number;
+}
+
+// A standalone SVG picture of a position
+export interface BoardDiagram {
+  svg: string;
+  width: number;
+  height: number;
+}
+
+// Column letters skip I, as on the board
+export const getColumnLetter = (index: number): string => String.fromCharCode(65 + index + (index >= 8 ? 1 : 0));
+
+/**
+ * Move numbers for the stones still on the board that were played from move
+ * numberFrom on (moves are numbered from 1). A stone captured and replayed on the
+ * same point keeps only its latest number.
+ */
+export const getDiagramNumbers = (
+  board: Board,
+  moves: DiagramMove[],
+  numberFrom: number
+): { position: Position; number: number }[] => {
+  const latest: Record<string, number> = {};
+  moves.forEach((move, index) => {
+    if (move.position) latest[`${move.position.x},${move.position.y}`] = index;
+  });
+
+  return Object.keys(latest)
+    .map(key => latest[key])
+    .filter(index => index + 1 >= numberFrom)
+    .filter(index => {
+      const { position, color } = moves[index];
+      return board.stones.some(stone =>
+        stone.color === color && stone.position.x === position!.x && stone.position.y === position!.y
+      );
+    })
+    .sort((a, b) => a - b)
+    .map(index => ({ position: moves[index].position as Position, number: index + 1 }));
+};
+
+/**
+ * Draws a position as a standalone SVG using the board theme colours. Stones are
+ * drawn flat so diagrams print and scale cleanly.
+ */
+export const renderBoardDiagram = (board: Board, options: BoardDiagramOptions = {}): BoardDiagram => {
+  const { theme = 'default', showCoordinates = true, moves = [], numberFrom, lastMove, cellSize = 30 } = options;
+  const themeConfig = getBoardThemeConfig(theme);
+  const { width: boardWidth, height: boardHeight } = getBoardDimensions(board);
+
+  const padding = showCoordinates ? cellSize * 1.2 : cellSize * 0.7;
+  const width = Math.round((boardWidth - 1) * cellSize + padding * 2);
+  const height = Math.round((boardHeight - 1) * cellSize + padding * 2);
+  const px = (index: number) => +(padding + index * cellSize).toFixed(2);
+  const fontSize = +(cellSize * 0.4).toFixed(2);
+
+  const parts: string[] = [];
+  parts.push(`<rect width="${width}" height="${height}" fill="${themeConfig.boardColor}"/>`);
+
+  // Grid and star points
+  for (let x = 0; x < boardWidth; x++) {
+    parts.push(`<line x1="${px(x)}" y1="${px(0)}" x2="${px(x)}" y2="${px(boardHeight - 1)}" stroke="${themeConfig.lineColor}" stroke-width="1"/>`);
+  }
+  for (let y = 0; y < boardHeight; y++) {
+    parts.push(`<line x1="${px(0)}" y1="${px(y)}" x2="${px(boardWidth - 1)}" y2="${px(y)}" stroke="${themeConfig.lineColor}" stroke-width="1"/>`);
+  }
+  getStarPoints({ width: boardWidth, height: boardHeight }).forEach(({ x, y }) => {
+    parts.push(`<circle cx="${px(x)}" cy="${px(y)}" r="${+(cellSize * 0.1).toFixed(2)}" fill="${themeConfig.hoshiColor}"/>`);
+  });
+
+  if (showCoordinates) {
+    const text = (x: number, y: number, label: string) =>
+      `<text x="${+x.toFixed(2)}" y="${+y.toFixed(2)}" text-anchor="middle" dominant-baseline="central" font-family="sans-serif" font-size="${fontSize}" fill="${themeConfig.coordsColor}">${label}</text>`;
+    for (let x = 0; x < boardWidth; x++) {
+      parts.push(text(px(x), padding / 2, getColumnLetter(x)), text(px(x), height - padding / 2, getColumnLetter(x)));
+    }
+    for (let y = 0; y < boardHeight; y++) {
+      const label = String(boardHeight - y);
+      parts.push(text(padding / 2, px(y), label), text(width - padding / 2, px(y), label));
+    }
+  }
+
+  // Stones, then numbers and the last move marker on top
+  const radius = +(cellSize * 0.47).toFixed(2);
+  board.stones.forEach(({ position: { x, y }, color }) => {
+    const fill = color === 'black' ? '#111' : '#fff';
+    parts.push(`<circle cx="${px(x)}" cy="${px(y)}" r="${radius}" fill="${fill}" stroke="#000" stroke-width="1"/>`);
+  });
+
+  const numbers = options.numbers || (numberFrom !== undefined ? getDiagramNumbers(board, moves, numberFrom) : []);
+  const textColor = (position: Position) =>
+    board.stones.some(stone => stone.color === 'black' && stone.position.x === position.x && stone.position.y === position.y)
+      ? '#fff'
+      : '#000';
+
+  numbers.forEach(({ position, number }) => {
+    const size = number >= 100 ? cellSize * 0.36 : fontSize * 1.1;
+    parts.push(
+      `<text x="${px(position.x)}" y="${px(position.y)}" text-anchor="middle" dominant-baseline="central" font-family="sans-serif" font-size="${+size.toFixed(2)}" fill="${textColor(position)}">${number}</text>`
+    );
+  });
+
+  if (lastMove && !numbers.some(({ position }) => position.x === lastMove.x && position.y === lastMove.y)) {
+    parts.push(`<circle cx="${px(lastMove.x)}" cy="${px(lastMove.y)}" r="${+(cellSize * 0.22).toFixed(2)}" fill="none" stroke="${textColor(lastMove)}" stroke-width="2"/>`);
+  }
+
+  const svg = `<svg xmlns="http://www.w3.org/2000/svg" width="${width}" height="${height}" viewBox="0 0 ${width} ${height}">${parts.join('')}</svg>`;
+  return { svg, width, height };
+};
+
+/**
+ * Rasterizes a diagram to a PNG in the browser (scale 2 for sharper images)
+ */
+export const diagramToPNG = (diagram: BoardDiagram, scale = 2): Promise<Blob> => {
+  return new Promise((resolve, reject) => {
+    const url = URL.createObjectURL(new Blob([diagram.svg], { type: 'image/svg+xml' }));
+    const image = new Image();
+    image.onload = () => {
+      const canvas = document.createElement('canvas');
+      canvas.width = diagram.width * scale;
+      canvas.height = diagram.height * scale;
+      const context = canvas.getContext('2d');
+      if (!context) {
+        URL.revokeObjectURL(url);
+        reject(new Error('Canvas is not supported in this browser'));
+        return;
+      }
+      context.drawImage(image, 0, 0, canvas.width, canvas.height);
+      URL.revokeObjectURL(url);
+      canvas.toBlob(blob => (blob ? resolve(blob) : reject(new Error('Could not create the PNG image'))), 'image/png');
+    };
+    image.onerror = () => {
+      URL.revokeObjectURL(url);
+      reject(new Error('Could not draw the diagram'));
+    };
+    image.src = url;
+  });
+};
+
+/**
+ * Saves a blob as a file
+ */
+export const downloadBlob = (blob: Blob, filename: string): void => {
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = filename;
+  document.body.appendChild(link);
+  link.click();
+  document.body.removeChild(link);
+  URL.revokeObjectURL(url);
+};
@@ -0,0 +1,81 @@
+import { Stone } from '../types/go';
+import { BotPosition, canPlayBrowserBot, chooseBotMove, getPlayoutCount } from './browserBot';
+
+const parseStones = (rows: string[]): Stone[] => {
+  const stones: Stone[] = [];
+  rows.forEach((row, y) => {
+    row.split('').forEach((cell, x) => {
+      if (cell === 'B') stones.push({ position: { x, y }, color: 'black' });
+      if (cell === 'W') stones.push({ position: { x, y }, color: 'white' });
+    });
+  });
+  return stones;
+};
+
+// Seeded so the playouts, and so the chosen moves, are the same on every run
+const seededRandom = (seed: number) => () => {
+  seed = (seed + 0x6d2b79f5) >>> 0;
+  let t = Math.imul(seed ^ (seed >>> 15), seed | 1);
+  t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+  return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+};
+
+const position = (rows: string[], overrides: Partial<BotPosition> = {}): BotPosition => ({
+  board: { size: rows.length, stones: parseStones(rows) },
+  currentTurn: 'black',
+  history: [{ x: 0, y: 0 }],
+  komi: 6.5,
+  scoringRule: 'chinese',
+  ...overrides
+});
+
+describe('browser bot', () => {
+  it('plays on square 9x9 and 13x13 boards, with fewer playouts on 13x13', () => {
+    expect(canPlayBrowserBot({ size: 9, stones: [] })).toBe(true);
+    expect(canPlayBrowserBot({ size: 13, stones: [] })).toBe(true);
+    expect(canPlayBrowserBot({ size: 19, stones: [] })).toBe(false);
+    expect(canPlayBrowserBot({ size: 9, width: 9, height: 13, stones: [] })).toBe(false);
+    expect(getPlayoutCount('hard', { size: 13, stones: [] })).toBeLessThan(getPlayoutCount('hard', { size: 9, stones: [] }));
+  });
+
+  it('captures a stone left in atari', () => {
+    const rows = [
+      '.........',
+      '.........',
+      '.........',
+      '....B....',
+      '...BWB...',
+      '.........',
+      '.........',
+      '.........',
+      '.........'
+    ];
+
+    expect(chooseBotMove({ position: position(rows), level: 'normal' }, seededRandom(1))).toEqual({ x: 4, y: 5 });
+  });
+
+  it('never retakes a ko at once', () => {
+    const rows = ['.BW..', 'B.BW.', '.BW..', '.....', '.....'];
+    const move = chooseBotMove({
+      position: position(rows, { currentTurn: 'white', koPosition: { x: 1, y: 1 }, history: [{ x: 2, y: 1 }] }),
+      level: 'easy'
+    }, seededRandom(2));
+
+    expect(move).not.toEqual({ x: 1, y: 1 });
+  });
+
+  it('passes back when its opponent passed and it is ahead', () => {
+    const rows = Array.from({ length: 9 }, () => '....BW...');
+
+    expect(chooseBotMove({ position: position(rows, { history: [{ pass: true }] }), level: 'easy' }, seededRandom(3))).toBeNull();
+    expect(chooseBotMove({ position: position(rows, { currentTurn: 'white', history: [{ pass: true }] }), level: 'easy' }, seededRandom(3))).not.toBeNull();
+  });
+
+  it('never passes in a capture game, filling its own eye if it must', () => {
+    const rows = ['.BBBB', 'BBBBB', 'BBBBB', 'BBBBB', 'BBBB.'];
+    const onlyEyes = position(rows, { history: [{ pass: true }, { pass: true }] });
+
+    expect(chooseBotMove({ position: onlyEyes, level: 'easy' }, seededRandom(4))).toBeNull();
+    expect(chooseBotMove({ position: { ...onlyEyes, gameType: 'capture' }, level: 'easy' }, seededRandom(4))).not.toBeNull();
+  });
+});
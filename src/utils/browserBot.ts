@@ -0,0 +1,401 @@
+import { Board, GameOptions, GameState, Position, StoneColor } from '../types/go';
+import { BLACK_CELL, EMPTY_CELL, WHITE_CELL, checkMove, createIndexedBoard, fromCellIndex, getBoardDimensions, isPassAllowed } from '../rules';
+
+export type BrowserBotLevel = NonNullable<GameOptions['aiLevel']>;
+
+// The bot is only strong enough, and quick enough, on the small boards
+export const BROWSER_BOT_BOARD_SIZES = [9, 13];
+
+// Playouts per move on 9x9. Larger boards get fewer, since each playout is longer.
+export const BROWSER_BOT_PLAYOUTS: Record<BrowserBotLevel, number> = {
+  easy: 100,
+  normal: 500,
+  hard: 2000,
+  expert: 5000
+};
+
+export const BROWSER_BOT_NAMES: Record<BrowserBotLevel, string> = {
+  easy: 'Gosei Bot (Easy)',
+  normal: 'Gosei Bot (Normal)',
+  hard: 'Gosei Bot (Hard)',
+  expert: 'Gosei Bot (Expert)'
+};
+
+// The position the bot is asked to move in
+export type BotPosition = Pick<GameState, 'board' | 'currentTurn' | 'koPosition' | 'koRule' | 'positionHistory' | 'scoringRule' | 'komi' | 'history' | 'gameType'>;
+
+export interface BotMoveRequest {
+  position: BotPosition;
+  level: BrowserBotLevel;
+}
+
+/**
+ * Whether the browser bot can play on this board: square 9x9 or 13x13
+ */
+export const canPlayBrowserBot = (board: Board): boolean => {
+  const { width, height } = getBoardDimensions(board);
+  return width === height && BROWSER_BOT_BOARD_SIZES.indexOf(width) !== -1;
+};
+
+/**
+ * Playouts per move for a level, scaled down from 9x9 for larger boards
+ */
+export const getPlayoutCount = (level: BrowserBotLevel, board: Board): number => {
+  const { width, height } = getBoardDimensions(board);
+  return Math.max(20, Math.round(BROWSER_BOT_PLAYOUTS[level] * 81 / (width * height)));
+};
+
+// A board for fast random playouts: cells as in IndexedBoard, with neighbour tables
+interface PlayoutBoard {
+  width: number;
+  height: number;
+  cells: Uint8Array;
+  ko: number; // Point retaking a single-stone ko, or -1
+}
+
+interface NeighbourTables {
+  neighbours: Int16Array; // Four per point, -1 off the board
+  diagonals: Int16Array;
+}
+
+const neighbourTables = new Map<string, NeighbourTables>();
+
+const getNeighbourTables = (width: number, height: number): NeighbourTables => {
+  const key = `${width}x${height}`;
+  let tables = neighbourTables.get(key);
+  if (!tables) {
+    const neighbours = new Int16Array(width * height * 4).fill(-1);
+    const diagonals = new Int16Array(width * height * 4).fill(-1);
+    const at = (x: number, y: number) => (x >= 0 && y >= 0 && x < width && y < height ? y * width + x : -1);
+    for (let y = 0; y < height; y++) {
+      for (let x = 0; x < width; x++) {
+        const base = (y * width + x) * 4;
+        neighbours.set([at(x, y - 1), at(x + 1, y), at(x, y + 1), at(x - 1, y)], base);
+        diagonals.set([at(x - 1, y - 1), at(x + 1, y - 1), at(x + 1, y + 1), at(x - 1, y + 1)], base);
+      }
+    }
+    tables = { neighbours, diagonals };
+    neighbourTables.set(key, tables);
+  }
+  return tables;
+};
+
+const colorToCell = (color: StoneColor): number => (color === 'black' ? BLACK_CELL : WHITE_CELL);
+
+const otherCell = (cell: number): number => (cell === BLACK_CELL ? WHITE_CELL : BLACK_CELL);
+
+// Scratch space for flood fills, reused so playouts do not allocate
+let stamps = new Int32Array(0);
+let stamp = 0;
+let stack = new Int16Array(0);
+
+const nextStamp = (size: number): number => {
+  if (stamps.length < size) {
+    stamps = new Int32Array(size);
+    stack = new Int16Array(size);
+    stamp = 0;
+  }
+  stamp += 1;
+  return stamp;
+};
+
+/**
+ * Liberties of the group at `start`, counting no further than `limit`. The last
+ * liberty found is kept in `lastLiberty`, which is the only one when the count is 1.
+ */
+let lastLiberty = -1;
+const countLiberties = (board: PlayoutBoard, tables: NeighbourTables, start: number, limit: number): number => {
+  const { cells } = board;
+  const color = cells[start];
+  const groupStamp = nextStamp(cells.length);
+  const libertyStamp = nextStamp(cells.length);
+  let liberties = 0;
+  let top = 0;
+  stack[top++] = start;
+  stamps[start] = groupStamp;
+  while (top > 0) {
+    const point = stack[--top];
+    for (let i = point * 4; i < point * 4 + 4; i++) {
+      const neighbour = tables.neighbours[i];
+      if (neighbour < 0 || stamps[neighbour] === groupStamp || stamps[neighbour] === libertyStamp) continue;
+      if (cells[neighbour] === EMPTY_CELL) {
+        stamps[neighbour] = libertyStamp;
+        lastLiberty = neighbour;
+        if (++liberties >= limit) return liberties;
+      } else if (cells[neighbour] === color) {
+        stamps[neighbour] = groupStamp;
+        stack[top++] = neighbour;
+      }
+    }
+  }
+  return liberties;
+};
+
+// Takes the group at `start` off the board and returns how many stones it had
+const removeGroup = (board: PlayoutBoard, tables: NeighbourTables, start: number): number => {
+  const { cells } = board;
+  const color = cells[start];
+  let removed = 0;
+  let top = 0;
+  stack[top++] = start;
+  cells[start] = EMPTY_CELL;
+  while (top > 0) {
+    const point = stack[--top];
+    removed++;
+    for (let i = point * 4; i < point * 4 + 4; i++) {
+      const neighbour = tables.neighbours[i];
+      if (neighbour >= 0 && cells[neighbour] === color) {
+        cells[neighbour] = EMPTY_CELL;
+        stack[top++] = neighbour;
+      }
+    }
+  }
+  return removed;
+};
+
+/**
+ * Plays `cell` at `point` if it is legal under simple ko with no suicide, and
+ * returns the number of stones captured, or -1 when the move is not allowed
+ */
+const tryPlay = (board: PlayoutBoard, tables: NeighbourTables, point: number, cell: number): number => {
+  if (board.cells[point] !== EMPTY_CELL || point === board.ko) return -1;
+
+  board.cells[point] = cell;
+  const opponent = otherCell(cell);
+  let captured = 0;
+  let capturedPoint = -1;
+  for (let i = point * 4; i < point * 4 + 4; i++) {
+    const neighbour = tables.neighbours[i];
+    if (neighbour >= 0 && board.cells[neighbour] === opponent && countLiberties(board, tables, neighbour, 1) === 0) {
+      capturedPoint = neighbour;
+      captured += removeGroup(board, tables, neighbour);
+    }
+  }
+
+  const liberties = countLiberties(board, tables, point, 2);
+  if (captured === 0 && liberties === 0) {
+    board.cells[point] = EMPTY_CELL;
+    return -1;
+  }
+
+  // A lone stone that took a lone stone and is left in atari can be retaken at once
+  let alone = true;
+  for (let i = point * 4; i < point * 4 + 4; i++) {
+    const neighbour = tables.neighbours[i];
+    if (neighbour >= 0 && board.cells[neighbour] === cell) alone = false;
+  }
+  board.ko = captured === 1 && alone && liberties === 1 ? capturedPoint : -1;
+  return captured;
+};
+
+/**
+ * A point whose neighbours are all `cell` and whose diagonals are mostly `cell` too.
+ * Playouts never fill these, so groups with two of them live.
+ */
+const isOwnEye = (board: PlayoutBoard, tables: NeighbourTables, point: number, cell: number): boolean => {
+  if (board.cells[point] !== EMPTY_CELL) return false;
+  let edges = 0;
+  for (let i = point * 4; i < point * 4 + 4; i++) {
+    const neighbour = tables.neighbours[i];
+    if (neighbour < 0) edges++;
+    else if (board.cells[neighbour] !== cell) return false;
+  }
+  let enemyDiagonals = 0;
+  for (let i = point * 4; i < point * 4 + 4; i++) {
+    const diagonal = tables.diagonals[i];
+    if (diagonal >= 0 && board.cells[diagonal] === otherCell(cell)) enemyDiagonals++;
+  }
+  return edges > 0 ? enemyDiagonals === 0 : enemyDiagonals < 2;
+};
+
+/**
+ * A move for a playout: capture a group the last move left in atari when there is
+ * one, otherwise a random legal point that does not fill one of our own eyes.
+ * Returns -1 to pass.
+ */
+const choosePlayoutMove = (board: PlayoutBoard, tables: NeighbourTables, cell: number, lastMove: number, random: () => number): number => {
+  if (lastMove >= 0 && board.cells[lastMove] === otherCell(cell) && countLiberties(board, tables, lastMove, 2) === 1) {
+    const capture = lastLiberty;
+    if (tryPlay(board, tables, capture, cell) >= 0) return capture;
+  }
+
+  const size = board.cells.length;
+  const start = Math.floor(random() * size);
+  for (let offset = 0; offset < size; offset++) {
+    const point = (start + offset) % size;
+    if (board.cells[point] === EMPTY_CELL && !isOwnEye(board, tables, point, cell) && tryPlay(board, tables, point, cell) >= 0) {
+      return point;
+    }
+  }
+  return -1;
+};
+
+/**
+ * Area score from black's side, without komi: stones plus empty points that only
+ * touch one color. At the end of a playout every empty point is an eye.
+ */
+const scoreArea = (board: PlayoutBoard, tables: NeighbourTables): number => {
+  let score = 0;
+  for (let point = 0; point < board.cells.length; point++) {
+    const cell = board.cells[point];
+    if (cell === BLACK_CELL) score++;
+    else if (cell === WHITE_CELL) score--;
+    else {
+      let touches = 0;
+      for (let i = point * 4; i < point * 4 + 4; i++) {
+        const neighbour = tables.neighbours[i];
+        if (neighbour >= 0) touches |= board.cells[neighbour];
+      }
+      if (touches === BLACK_CELL) score++;
+      else if (touches === WHITE_CELL) score--;
+    }
+  }
+  return score;
+};
+
+// Plays a game out at random and returns black's area lead, before komi
+const runPlayout = (board: PlayoutBoard, tables: NeighbourTables, toMove: number, lastMove: number, random: () => number): number => {
+  const maxMoves = board.cells.length * 3;
+  let cell = toMove;
+  let passes = 0;
+  for (let move = 0; move < maxMoves && passes < 2; move++) {
+    lastMove = choosePlayoutMove(board, tables, cell, lastMove, random);
+    passes = lastMove < 0 ? passes + 1 : 0;
+    if (lastMove < 0) board.ko = -1;
+    cell = otherCell(cell);
+  }
+  return scoreArea(board, tables);
+};
+
+/**
+ * Territory estimate of the position as it stands, from black's side: stones plus
+ * empty regions that only border one color. Used to decide whether to pass back.
+ */
+const estimateScore = (board: PlayoutBoard, tables: NeighbourTables): number => {
+  const { cells } = board;
+  let score = 0;
+  const regionStamp = nextStamp(cells.length);
+  for (let point = 0; point < cells.length; point++) {
+    if (cells[point] === BLACK_CELL) score++;
+    else if (cells[point] === WHITE_CELL) score--;
+    else if (stamps[point] !== regionStamp) {
+      let size = 0;
+      let borders = 0;
+      let top = 0;
+      stack[top++] = point;
+      stamps[point] = regionStamp;
+      while (top > 0) {
+        const current = stack[--top];
+        size++;
+        for (let i = current * 4; i < current * 4 + 4; i++) {
+          const neighbour = tables.neighbours[i];
+          if (neighbour < 0) continue;
+          if (cells[neighbour] === EMPTY_CELL) {
+            if (stamps[neighbour] !== regionStamp) {
+              stamps[neighbour] = regionStamp;
+              stack[top++] = neighbour;
+            }
+          } else {
+            borders |= cells[neighbour];
+          }
+        }
+      }
+      if (borders === BLACK_CELL) score += size;
+      else if (borders === WHITE_CELL) score -= size;
+    }
+  }
+  return score;
+};
+
+interface Candidate {
+  point: number;
+  wins: number;
+  visits: number;
+}
+
+// Prior wins and visits for a candidate, so playouts start with the likelier moves
+const getPrior = (board: PlayoutBoard, tables: NeighbourTables, point: number, cell: number): [number, number] => {
+  const trial: PlayoutBoard = { ...board, cells: new Uint8Array(board.cells) };
+  const captured = tryPlay(trial, tables, point, cell);
+  if (captured > 0) return [3, 3];
+  // Escaping from atari
+  for (let i = point * 4; i < point * 4 + 4; i++) {
+    const neighbour = tables.neighbours[i];
+    if (neighbour >= 0 && board.cells[neighbour] === cell && countLiberties(board, tables, neighbour, 2) === 1) {
+      return countLiberties(trial, tables, point, 3) >= 3 ? [3, 3] : [0, 3];
+    }
+  }
+  // Self-atari is rarely right
+  if (countLiberties(trial, tables, point, 2) === 1) return [0, 3];
+  // The first line is rarely right
+  const { x, y } = fromCellIndex(point, board.width);
+  if (x === 0 || y === 0 || x === board.width - 1 || y === board.height - 1) return [0, 2];
+  return [1, 2];
+};
+
+/**
+ * The browser bot's move: flat Monte Carlo over every legal move, sharing out the
+ * playouts by UCB1 and playing the move tried most. Returns null to pass, which
+ * the bot does when it has no sensible move left or its opponent passed while the
+ * bot is ahead on the board. Where passing is not allowed (capture games) it fills
+ * its own eyes rather than pass, and returns null only when it has no legal move.
+ */
+export const chooseBotMove = (request: BotMoveRequest, random: () => number = Math.random): Position | null => {
+  const { position, level } = request;
+  const color = position.currentTurn;
+  if (color !== 'black' && color !== 'white') return null;
+
+  const { width, height } = getBoardDimensions(position.board);
+  const tables = getNeighbourTables(width, height);
+  const cell = colorToCell(color);
+  const sign = color === 'black' ? 1 : -1;
+  const komi = position.komi || 0;
+  const root: PlayoutBoard = { width, height, cells: new Uint8Array(createIndexedBoard(position.board).cells), ko: -1 };
+
+  const mayPass = isPassAllowed(position);
+  const lastMove = position.history[position.history.length - 1];
+  if (mayPass && lastMove && 'pass' in lastMove && (estimateScore(root, tables) - komi) * sign > 0) {
+    return null;
+  }
+
+  // Every legal move under the game's own rules, except filling our own eyes unless there is nothing else
+  const moveState = { ...position, status: 'playing' as const };
+  const getCandidates = (fillEyes: boolean): Candidate[] => {
+    const candidates: Candidate[] = [];
+    for (let point = 0; point < root.cells.length; point++) {
+      if (root.cells[point] !== EMPTY_CELL || (!fillEyes && isOwnEye(root, tables, point, cell))) continue;
+      if (!checkMove(moveState, fromCellIndex(point, width), color).legal) continue;
+      const [wins, visits] = getPrior(root, tables, point, cell);
+      candidates.push({ point, wins, visits });
+    }
+    return candidates;
+  };
+  let candidates = getCandidates(false);
+  if (candidates.length === 0 && !mayPass) candidates = getCandidates(true);
+  if (candidates.length === 0) return null;
+
+  const playouts = getPlayoutCount(level, position.board);
+  let totalVisits = candidates.reduce((sum, candidate) => sum + candidate.visits, 0);
+  for (let n = 0; n < playouts; n++) {
+    let chosen = candidates[0];
+    let bestValue = -Infinity;
+    const logTotal = Math.log(totalVisits);
+    candidates.forEach(candidate => {
+      const value = candidate.wins / candidate.visits + 0.7 * Math.sqrt(logTotal / candidate.visits);
+      if (value > bestValue) {
+        bestValue = value;
+        chosen = candidate;
+      }
+    });
+
+    const board: PlayoutBoard = { ...root, cells: new Uint8Array(root.cells) };
+    tryPlay(board, tables, chosen.point, cell);
+    const lead = runPlayout(board, tables, otherCell(cell), chosen.point, random) - komi;
+    chosen.wins += lead * sign > 0 ? 1 : 0;
+    chosen.visits += 1;
+    totalVisits += 1;
+  }
+
+  const best = candidates.reduce((most, candidate) => (candidate.visits > most.visits ? candidate : most));
+  return fromCellIndex(best.point, width);
+};
@@ -0,0 +1,15 @@
+import { BotMoveRequest, chooseBotMove } from './browserBot';
+
+// The parts of the worker scope the bot uses; the app is typed against the dom lib, not webworker
+interface BotWorkerScope {
+  onmessage: ((event: MessageEvent<BotMoveRequest & { requestId: number }>) => void) | null;
+  postMessage(message: unknown): void;
+}
+
+declare const self: BotWorkerScope;
+
+// The browser bot thinks here, so its playouts never hold up the page
+self.onmessage = (event) => {
+  const { requestId, ...request } = event.data;
+  self.postMessage({ requestId, move: chooseBotMove(request) });
+};
@@ -0,0 +1,66 @@
+import { StoneColor } from '../types/go';
+import { API_BASE_URL } from '../config';
+import { STORAGE_KEYS } from '../constants/storage';
+
+// A correspondence game this browser plays in, with the player id it plays as
+export interface CorrespondenceEntry {
+  gameId: string;
+  playerId: string;
+}
+
+// Where a correspondence game stands, as reported by the server
+export interface CorrespondenceSummary {
+  gameId: string;
+  code: string;
+  color: StoneColor;
+  opponent: string | null;
+  status: 'waiting' | 'playing' | 'finished' | 'scoring';
+  result?: string;
+  moveCount: number;
+  awaitingMove: boolean;
+  deadline: number | null;
+}
+
+/**
+ * The correspondence games this browser has created or joined
+ */
+export const loadCorrespondenceEntries = (): CorrespondenceEntry[] => {
+  try {
+    return JSON.parse(localStorage.getItem(STORAGE_KEYS.CORRESPONDENCE_GAMES) || '[]');
+  } catch (e) {
+    console.error('Failed to read correspondence games:', e);
+    return [];
+  }
+};
+
+/**
+ * Remembers a correspondence game so it shows in the list on the home page
+ */
+export const rememberCorrespondenceGame = (gameId: string, playerId: string): void => {
+  const entries = loadCorrespondenceEntries().filter(entry => entry.gameId !== gameId);
+  try {
+    localStorage.setItem(STORAGE_KEYS.CORRESPONDENCE_GAMES, JSON.stringify([...entries, { gameId, playerId }]));
+  } catch (e) {
+    console.error('Failed to save correspondence games:', e);
+  }
+};
+
+/**
+ * Asks the server where this browser's correspondence games stand. Games the
+ * server no longer has are left out.
+ */
+export const fetchCorrespondenceGames = async (): Promise<CorrespondenceSummary[]> => {
+  const games = loadCorrespondenceEntries();
+  if (games.length === 0) return [];
+
+  const response = await fetch(`${API_BASE_URL}/correspondence-games`, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify({ games })
+  });
+  if (!response.ok) {
+    throw new Error(`Server responded with ${response.status}`);
+  }
+  const data = await response.json();
+  return data.games;
+};
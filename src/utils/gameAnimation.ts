@@ -0,0 +1,117 @@
+import { GameState, MoveTree } from '../types/go';
+import { BoardTheme, getBoardThemeConfig } from '../components/go-board/boardThemes';
+import { renderBoardDiagram } from './boardDiagram';
+import { createMoveTree, getCurrentLine, getTreePosition, goToStart } from './gameTree';
+import { encodeGIF, GifFrame, quantizePixels, RGB } from './gifEncoder';
+
+export interface GameAnimationOptions {
+  theme?: BoardTheme;
+  frameDelay?: number; // milliseconds per move
+  cellSize?: number;
+  onProgress?: (frame: number, total: number) => void;
+}
+
+// Space under the board for the move and capture caption
+const CAPTION_HEIGHT = 28;
+
+// Parse #rgb or #rrggbb
+const hexToRGB = (hex: string): RGB => {
+  const value = hex.replace('#', '');
+  const full = value.length === 3 ? value.split('').map(char => char + char).join('') : value;
+  return [0, 2, 4].map(offset => parseInt(full.slice(offset, offset + 2), 16)) as RGB;
+};
+
+// Theme colours plus the blends between them that anti-aliased edges produce
+const buildPalette = (theme: BoardTheme): RGB[] => {
+  const config = getBoardThemeConfig(theme);
+  const base = [config.boardColor, config.lineColor, config.hoshiColor, config.coordsColor, '#111', '#fff', '#000'].map(hexToRGB);
+  const palette: RGB[] = [...base];
+  base.forEach((from, i) => {
+    base.slice(i + 1).forEach(to => {
+      [0.25, 0.5, 0.75].forEach(ratio => {
+        palette.push(from.map((channel, c) => Math.round(channel + (to[c] - channel) * ratio)) as RGB);
+      });
+    });
+  });
+  return palette;
+};
+
+const loadImage = (svg: string): Promise<HTMLImageElement> => {
+  return new Promise((resolve, reject) => {
+    const url = URL.createObjectURL(new Blob([svg], { type: 'image/svg+xml' }));
+    const image = new Image();
+    image.onload = () => {
+      URL.revokeObjectURL(url);
+      resolve(image);
+    };
+    image.onerror = () => {
+      URL.revokeObjectURL(url);
+      reject(new Error('Could not draw the board'));
+    };
+    image.src = url;
+  });
+};
+
+/**
+ * Renders every position of the main line (starting position first) as an
+ * animated GIF, with the last move marked and a capture count caption. Runs
+ * entirely in the browser.
+ */
+export const createGameAnimation = async (
+  gameState: GameState,
+  tree: MoveTree = createMoveTree(gameState),
+  options: GameAnimationOptions = {}
+): Promise<Blob> => {
+  const { theme = 'default', frameDelay = 800, cellSize = 22, onProgress } = options;
+  const config = getBoardThemeConfig(theme);
+  const palette = buildPalette(theme);
+  const mainLine = getCurrentLine(goToStart(tree));
+
+  let canvas: HTMLCanvasElement | null = null;
+  let context: CanvasRenderingContext2D | null = null;
+  let width = 0;
+  let height = 0;
+  const frames: GifFrame[] = [];
+
+  for (let index = 0; index < mainLine.length; index++) {
+    const { board, lastMove, capturedStones } = getTreePosition(tree, gameState, mainLine[index]);
+    const diagram = renderBoardDiagram(board, { theme, lastMove, cellSize, showCoordinates: true });
+
+    if (!canvas || !context) {
+      width = diagram.width;
+      height = diagram.height + CAPTION_HEIGHT;
+      canvas = document.createElement('canvas');
+      canvas.width = width;
+      canvas.height = height;
+      context = canvas.getContext('2d');
+      if (!context) {
+        throw new Error('Canvas is not supported in this browser');
+      }
+    }
+
+    context.fillStyle = config.boardColor;
+    context.fillRect(0, 0, width, height);
+    context.drawImage(await loadImage(diagram.svg), 0, 0);
+
+    // Caption: move number and stones captured by each side
+    context.fillStyle = config.coordsColor;
+    context.font = 'bold 13px sans-serif';
+    context.textBaseline = 'middle';
+    context.textAlign = 'center';
+    const moveText = index === 0 ? 'Start' : `Move ${index}`;
+    context.fillText(
+      `${moveText}   Captures: Black ${capturedStones.black}, White ${capturedStones.white}`,
+      width / 2,
+      diagram.height + CAPTION_HEIGHT / 2
+    );
+
+    const isLast = index === mainLine.length - 1;
+    frames.push({
+      pixels: quantizePixels(context.getImageData(0, 0, width, height).data, palette),
+      delay: isLast ? Math.max(frameDelay, 3000) : frameDelay
+    });
+    onProgress?.(index + 1, mainLine.length);
+  }
+
+  return new Blob([encodeGIF(width, height, palette, frames)], { type: 'image/gif' });
+};
@@ -0,0 +1,150 @@
+import { GameState } from '../types/go';
+import {
+  MOVE_TREE_ROOT,
+  addTreeMove,
+  createMoveTree,
+  deleteBranch,
+  extractPosition,
+  getCurrentLine,
+  getFirstMoveColor,
+  getMainLineHistory,
+  getMoveNumber,
+  getNextLabel,
+  getTreePosition,
+  getVariations,
+  goToEnd,
+  goToNextMove,
+  goToPreviousMove,
+  isPassMove,
+  playTreeMove,
+  promoteVariation,
+  switchVariation,
+  toggleTreeMarkup
+} from './gameTree';
+
+const gameState = {
+  board: { size: 5, stones: [] },
+  history: [{ x: 1, y: 0 }, { x: 2, y: 0 }, { pass: true }, { x: 3, y: 0 }],
+  comments: { 0: 'Start', 2: 'White replies' },
+  gameType: 'even',
+  handicap: 0,
+  scoringRule: 'japanese'
+} as unknown as GameState;
+
+describe('move tree', () => {
+  it('builds a single line from the game history', () => {
+    const tree = createMoveTree(gameState);
+
+    expect(tree.currentId).toBe(MOVE_TREE_ROOT);
+    expect(tree.nodes[MOVE_TREE_ROOT].comment).toBe('Start');
+    expect(getMainLineHistory(tree)).toEqual([
+      { x: 1, y: 0 },
+      { x: 2, y: 0 },
+      { pass: true, color: 'black' },
+      { x: 3, y: 0 }
+    ]);
+
+    const end = goToEnd(tree);
+    expect(getMoveNumber(end)).toBe(4);
+    expect(end.nodes[end.currentId].color).toBe('white');
+    expect(goToNextMove(end)).toBe(end);
+    expect(goToPreviousMove(goToPreviousMove(end)).nodes[2].comment).toBe('White replies');
+  });
+
+  it('branches off when a different move is played and reuses recorded moves', () => {
+    const afterFirst = goToNextMove(createMoveTree(gameState));
+
+    expect(addTreeMove(afterFirst, 'white', { x: 2, y: 0 }).nodes).toBe(afterFirst.nodes);
+
+    const branched = addTreeMove(afterFirst, 'white', { x: 4, y: 4 });
+    expect(getVariations(branched)).toHaveLength(2);
+    expect(getCurrentLine(branched)).toHaveLength(3);
+    expect(getMainLineHistory(branched)).toHaveLength(4);
+
+    const switched = switchVariation(branched, 1);
+    expect(switched.nodes[switched.currentId].position).toEqual({ x: 2, y: 0 });
+    expect(switchVariation(switched, -1).currentId).toBe(branched.currentId);
+  });
+
+  it('deletes a branch with every move after it', () => {
+    const tree = goToNextMove(goToNextMove(createMoveTree(gameState)));
+    const deleted = deleteBranch(tree);
+
+    expect(getMoveNumber(deleted)).toBe(1);
+    expect(Object.keys(deleted.nodes)).toHaveLength(2);
+    expect(deleteBranch(deleted, MOVE_TREE_ROOT)).toBe(deleted);
+  });
+
+  it('promotes a variation to the main line', () => {
+    const branched = addTreeMove(goToNextMove(createMoveTree(gameState)), 'white', { x: 4, y: 4 });
+    const promoted = promoteVariation(branched);
+
+    expect(getMainLineHistory(promoted)).toEqual([{ x: 1, y: 0 }, { x: 4, y: 4 }]);
+  });
+
+  it('replays positions and refuses illegal review moves', () => {
+    const captureGame = {
+      ...gameState,
+      history: [{ x: 1, y: 0 }, { x: 0, y: 0 }, { x: 0, y: 1 }],
+      comments: undefined
+    } as GameState;
+    const tree = goToEnd(createMoveTree(captureGame));
+    const position = getTreePosition(tree, captureGame);
+
+    expect(position.board.stones).toHaveLength(2);
+    expect(position.capturedStones.black).toBe(1);
+    expect(position.toMove).toBe('white');
+    expect(playTreeMove(tree, captureGame, { x: 1, y: 0 }).reason).toBe('occupied');
+    expect(playTreeMove(tree, captureGame, { x: 0, y: 0 }).reason).toBe('suicide');
+    expect(playTreeMove(tree, captureGame, { x: 4, y: 4 }).tree).toBeDefined();
+  });
+
+  it('toggles markup and hands out the next free label', () => {
+    let tree = toggleTreeMarkup(createMoveTree(gameState), { x: 0, y: 0 }, 'triangle');
+    tree = toggleTreeMarkup(tree, { x: 1, y: 1 }, 'label');
+    tree = toggleTreeMarkup(tree, { x: 2, y: 2 }, 'label');
+
+    expect(tree.nodes[MOVE_TREE_ROOT].markup).toEqual([
+      { position: { x: 0, y: 0 }, shape: 'triangle' },
+      { position: { x: 1, y: 1 }, shape: 'label', label: 'A' },
+      { position: { x: 2, y: 2 }, shape: 'label', label: 'B' }
+    ]);
+
+    tree = toggleTreeMarkup(tree, { x: 1, y: 1 }, 'label');
+    expect(getNextLabel(tree)).toBe('A');
+
+    tree = toggleTreeMarkup(tree, { x: 0, y: 0 }, 'square');
+    expect(tree.nodes[MOVE_TREE_ROOT].markup?.map(mark => mark.shape)).toEqual(['label', 'square']);
+  });
+
+  it('adds teaching markup and variations to the record', () => {
+    const tree = createMoveTree({
+      ...gameState,
+      markup: { 1: [{ position: { x: 0, y: 0 }, shape: 'circle' }] },
+      variations: [
+        { moveNumber: 1, moves: [{ color: 'white', position: { x: 4, y: 4 } }, { color: 'black', position: { x: 3, y: 3 } }] },
+        { moveNumber: 4, moves: [{ color: 'white', position: { x: 0, y: 4 } }] }
+      ]
+    });
+    const firstMove = tree.nodes[tree.nodes[MOVE_TREE_ROOT].children[0]];
+
+    expect(firstMove.markup).toEqual([{ position: { x: 0, y: 0 }, shape: 'circle' }]);
+    expect(firstMove.children.map(id => tree.nodes[id].position)).toEqual([{ x: 2, y: 0 }, { x: 4, y: 4 }]);
+    expect(getMainLineHistory(tree)).toHaveLength(4);
+    expect(Object.keys(tree.nodes)).toHaveLength(7);
+  });
+
+  it('starts with white only when handicap stones were placed', () => {
+    expect(getFirstMoveColor({ ...gameState, gameType: 'handicap', handicap: 1 })).toBe('black');
+    expect(getFirstMoveColor({ ...gameState, gameType: 'handicap', handicap: 2 })).toBe('white');
+    expect(getFirstMoveColor({ ...gameState, gameType: 'handicap', handicap: 2, startingTurn: 'black' })).toBe('black');
+  });
+
+  it('reads moves in both the client and the server history formats', () => {
+    expect(extractPosition({ x: 3, y: 1 })).toEqual({ x: 3, y: 1 });
+    expect(extractPosition({ position: { x: 3, y: 1 }, color: 'white' })).toEqual({ x: 3, y: 1 });
+    expect(extractPosition({ pass: true, color: 'black' })).toBeNull();
+    expect(isPassMove({ pass: true })).toBe(true);
+    expect(isPassMove({ x: 0, y: 0 })).toBe(false);
+  });
+});
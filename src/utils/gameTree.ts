@@ -0,0 +1,395 @@
+import { Board, BoardMarkup, GameMove, GameState, MarkupShape, MoveTree, MoveTreeNode, Position, Stone, StoneColor } from '../types/go';
+import { createBoard, getBoardDimensions, getOppositeColor, getPlacementError, getStartingColor, MoveRejectionReason, playMove } from '../rules';
+
+// The root node stands for the starting position (setup or handicap stones)
+export const MOVE_TREE_ROOT = 0;
+
+// History entries recorded by the server carry the point under `position`
+export type RecordedMove = GameMove | { position: Position; color?: StoneColor };
+
+/**
+ * Checks if a history entry is a pass
+ */
+export const isPassMove = (move: RecordedMove): move is { pass: true; color?: StoneColor } => {
+  return 'pass' in move && move.pass === true;
+};
+
+/**
+ * Gets the point of a history entry in either format (null for a pass)
+ */
+export const extractPosition = (move: RecordedMove): Position | null => {
+  if ('pass' in move) return null;
+  if ('position' in move) return move.position;
+  return move;
+};
+
+/**
+ * Creates a tree holding only the starting position
+ */
+export const createEmptyMoveTree = (comment?: string): MoveTree => ({
+  nodes: {
+    [MOVE_TREE_ROOT]: { id: MOVE_TREE_ROOT, parentId: null, children: [], color: null, position: null, comment }
+  },
+  currentId: MOVE_TREE_ROOT,
+  nextId: MOVE_TREE_ROOT + 1
+});
+
+/**
+ * Color of the first move: recorded for imported games, otherwise white after handicap stones.
+ * Any game type may have handicap stones (teaching, correspondence and capture games too).
+ */
+export const getFirstMoveColor = (gameState: GameState): StoneColor => {
+  if (gameState.startingTurn) return gameState.startingTurn;
+  if (gameState.handicapPositions) return gameState.handicapPositions.length > 0 ? 'white' : 'black';
+  return getStartingColor(gameState.handicap || 0);
+};
+
+/**
+ * Stones on the board before the first move
+ */
+export const getStartingStones = (gameState: GameState): Stone[] => {
+  if (gameState.setupStones) return gameState.setupStones;
+  if (gameState.handicapPositions) {
+    return gameState.handicapPositions.map(position => ({ position, color: 'black' as StoneColor }));
+  }
+  if (!(gameState.handicap > 0)) return [];
+
+  // Older games only kept the final board: handicap stones are black stones never played as moves
+  return gameState.board.stones.filter(stone =>
+    stone.color === 'black' &&
+    !gameState.history.some(move => {
+      const position = extractPosition(move);
+      return position && position.x === stone.position.x && position.y === stone.position.y;
+    })
+  );
+};
+
+/**
+ * The game's move tree, positioned at the starting position. Games without a
+ * recorded tree get a single line built from their history.
+ */
+export const createMoveTree = (gameState: GameState): MoveTree => {
+  if (gameState.moveTree) {
+    return { ...gameState.moveTree, currentId: MOVE_TREE_ROOT };
+  }
+
+  let tree = createEmptyMoveTree(gameState.comments?.[0]);
+  if (gameState.markup?.[0]) tree = setTreeMarkup(tree, gameState.markup[0]);
+  const mainLine = [MOVE_TREE_ROOT];
+  let color = getFirstMoveColor(gameState);
+  gameState.history.forEach((move, index) => {
+    const moveColor = isPassMove(move) && move.color ? move.color : color;
+    tree = addTreeMove(tree, moveColor, extractPosition(move));
+    const comment = gameState.comments?.[index + 1];
+    if (comment) tree = setTreeComment(tree, comment);
+    const markup = gameState.markup?.[index + 1];
+    if (markup) tree = setTreeMarkup(tree, markup);
+    mainLine.push(tree.currentId);
+    color = getOppositeColor(moveColor);
+  });
+
+  // Lines shown or taken back in a teaching game branch off the main line. One
+  // branching at the last move would read as the game's continuation, so it is left out.
+  (gameState.variations || []).forEach(({ moveNumber, moves }) => {
+    if (moveNumber >= gameState.history.length) return;
+    tree = goToNode(tree, mainLine[moveNumber]);
+    moves.forEach(move => {
+      tree = addTreeMove(tree, move.color, move.position);
+    });
+  });
+
+  return { ...tree, currentId: MOVE_TREE_ROOT };
+};
+
+/**
+ * Plays a move (null for a pass) after the current node and moves to it. Replaying a
+ * move that already follows the current node reuses it; any other move starts a
+ * new variation.
+ */
+export const addTreeMove = (tree: MoveTree, color: StoneColor, position: Position | null): MoveTree => {
+  const current = tree.nodes[tree.currentId];
+  const existing = current.children
+    .map(id => tree.nodes[id])
+    .find(node =>
+      node.color === color &&
+      (node.position === null
+        ? position === null
+        : position !== null && node.position.x === position.x && node.position.y === position.y)
+    );
+  if (existing) {
+    return { ...tree, currentId: existing.id };
+  }
+
+  const node: MoveTreeNode = { id: tree.nextId, parentId: current.id, children: [], color, position };
+  return {
+    nodes: {
+      ...tree.nodes,
+      [current.id]: { ...current, children: [...current.children, node.id] },
+      [node.id]: node
+    },
+    currentId: node.id,
+    nextId: tree.nextId + 1
+  };
+};
+
+/**
+ * Sets the comment on the current node (an empty comment removes it)
+ */
+export const setTreeComment = (tree: MoveTree, comment: string): MoveTree => {
+  const current = tree.nodes[tree.currentId];
+  return {
+    ...tree,
+    nodes: { ...tree.nodes, [current.id]: { ...current, comment: comment || undefined } }
+  };
+};
+
+/**
+ * Replaces the markup on the current node
+ */
+export const setTreeMarkup = (tree: MoveTree, markup: BoardMarkup[]): MoveTree => {
+  const current = tree.nodes[tree.currentId];
+  return {
+    ...tree,
+    nodes: { ...tree.nodes, [current.id]: { ...current, markup: markup.length > 0 ? markup : undefined } }
+  };
+};
+
+/**
+ * The first letter from A to Z not yet used as a label
+ */
+export const getNextMarkupLabel = (markup: BoardMarkup[]): string => {
+  const used = markup.map(mark => mark.label);
+  for (let code = 65; code <= 90; code++) {
+    const letter = String.fromCharCode(code);
+    if (used.indexOf(letter) === -1) return letter;
+  }
+  return String(used.length + 1);
+};
+
+/**
+ * The first letter from A to Z not yet used as a label on the current node
+ */
+export const getNextLabel = (tree: MoveTree): string => getNextMarkupLabel(tree.nodes[tree.currentId].markup || []);
+
+/**
+ * Marks a point. Marking a point again with the same shape clears it; another
+ * shape replaces the old one. Labels get the next free letter.
+ */
+export const toggleMarkup = (markup: BoardMarkup[], position: Position, shape: MarkupShape): BoardMarkup[] => {
+  const existing = markup.find(mark => mark.position.x === position.x && mark.position.y === position.y);
+  const others = markup.filter(mark => mark !== existing);
+
+  if (existing && existing.shape === shape) {
+    return others;
+  }
+  const mark: BoardMarkup = shape === 'label'
+    ? { position, shape, label: getNextMarkupLabel(others) }
+    : { position, shape };
+  return [...others, mark];
+};
+
+/**
+ * Marks a point on the current node (see toggleMarkup)
+ */
+export const toggleTreeMarkup = (tree: MoveTree, position: Position, shape: MarkupShape): MoveTree => {
+  return setTreeMarkup(tree, toggleMarkup(tree.nodes[tree.currentId].markup || [], position, shape));
+};
+
+/**
+ * Moves to a node
+ */
+export const goToNode = (tree: MoveTree, nodeId: number): MoveTree => {
+  return tree.nodes[nodeId] ? { ...tree, currentId: nodeId } : tree;
+};
+
+/**
+ * Moves to the next move of the current variation
+ */
+export const goToNextMove = (tree: MoveTree): MoveTree => {
+  const [next] = tree.nodes[tree.currentId].children;
+  return next === undefined ? tree : { ...tree, currentId: next };
+};
+
+/**
+ * Moves back one move
+ */
+export const goToPreviousMove = (tree: MoveTree): MoveTree => {
+  const { parentId } = tree.nodes[tree.currentId];
+  return parentId === null ? tree : { ...tree, currentId: parentId };
+};
+
+/**
+ * Moves to the starting position
+ */
+export const goToStart = (tree: MoveTree): MoveTree => ({ ...tree, currentId: MOVE_TREE_ROOT });
+
+/**
+ * Moves to the last move of the current variation
+ */
+export const goToEnd = (tree: MoveTree): MoveTree => {
+  const line = getCurrentLine(tree);
+  return { ...tree, currentId: line[line.length - 1] };
+};
+
+/**
+ * Switches to the previous (-1) or next (1) alternative to the current move, wrapping around
+ */
+export const switchVariation = (tree: MoveTree, direction: 1 | -1): MoveTree => {
+  const siblings = getVariations(tree);
+  if (siblings.length < 2) return tree;
+
+  const index = siblings.indexOf(tree.currentId);
+  const next = siblings[(index + direction + siblings.length) % siblings.length];
+  return { ...tree, currentId: next };
+};
+
+/**
+ * The current move and its alternatives, main line first
+ */
+export const getVariations = (tree: MoveTree): number[] => {
+  const { parentId } = tree.nodes[tree.currentId];
+  return parentId === null ? [tree.currentId] : tree.nodes[parentId].children;
+};
+
+/**
+ * Deletes a node and every move after it, moving to its parent. The starting position cannot be deleted.
+ */
+export const deleteBranch = (tree: MoveTree, nodeId: number = tree.currentId): MoveTree => {
+  const node = tree.nodes[nodeId];
+  if (!node || node.parentId === null) return tree;
+
+  const nodes = { ...tree.nodes };
+  const stack = [nodeId];
+  while (stack.length > 0) {
+    const id = stack.pop() as number;
+    stack.push(...nodes[id].children);
+    delete nodes[id];
+  }
+
+  const parent = nodes[node.parentId];
+  nodes[parent.id] = { ...parent, children: parent.children.filter(id => id !== nodeId) };
+
+  // Keep the current node unless it was inside the deleted branch
+  const currentId = nodes[tree.currentId] ? tree.currentId : parent.id;
+  return { ...tree, nodes, currentId };
+};
+
+/**
+ * Promotes the current variation to the main line at every branch above it
+ */
+export const promoteVariation = (tree: MoveTree): MoveTree => {
+  const nodes = { ...tree.nodes };
+  let node = nodes[tree.currentId];
+  while (node.parentId !== null) {
+    const parent = nodes[node.parentId];
+    const childId = node.id;
+    nodes[parent.id] = { ...parent, children: [childId, ...parent.children.filter(id => id !== childId)] };
+    node = nodes[parent.id];
+  }
+  return { ...tree, nodes };
+};
+
+/**
+ * Node ids from the starting position to a node
+ */
+export const getPathToNode = (tree: MoveTree, nodeId: number = tree.currentId): number[] => {
+  const path: number[] = [];
+  for (let id: number | null = nodeId; id !== null && tree.nodes[id]; id = tree.nodes[id].parentId) {
+    path.unshift(id);
+  }
+  return path;
+};
+
+/**
+ * The line through the current node: the path to it, continued along first children
+ */
+export const getCurrentLine = (tree: MoveTree): number[] => {
+  const line = getPathToNode(tree);
+  let [next] = tree.nodes[tree.currentId].children;
+  while (next !== undefined) {
+    line.push(next);
+    [next] = tree.nodes[next].children;
+  }
+  return line;
+};
+
+/**
+ * Number of moves from the starting position to a node
+ */
+export const getMoveNumber = (tree: MoveTree, nodeId: number = tree.currentId): number => {
+  return getPathToNode(tree, nodeId).length - 1;
+};
+
+/**
+ * The main line as a flat history, as stored in GameState.history
+ */
+export const getMainLineHistory = (tree: MoveTree): GameMove[] => {
+  const history: GameMove[] = [];
+  let [next] = tree.nodes[MOVE_TREE_ROOT].children;
+  while (next !== undefined) {
+    const node = tree.nodes[next];
+    history.push(node.position || { pass: true, color: node.color });
+    [next] = node.children;
+  }
+  return history;
+};
+
+// The position reached at a node of the tree
+export interface TreePosition {
+  board: Board;
+  toMove: StoneColor;
+  koPosition?: Position;
+  lastMove?: Position;
+  capturedStones: { black: number; white: number };
+}
+
+/**
+ * Replays the moves leading to a node from the game's starting stones
+ */
+export const getTreePosition = (
+  tree: MoveTree,
+  gameState: GameState,
+  nodeId: number = tree.currentId
+): TreePosition => {
+  let board = createBoard(getBoardDimensions(gameState.board), getStartingStones(gameState));
+  let toMove = getFirstMoveColor(gameState);
+  let koPosition: Position | undefined;
+  let lastMove: Position | undefined;
+  const capturedStones = { black: 0, white: 0 };
+
+  getPathToNode(tree, nodeId).slice(1).forEach(id => {
+    const node = tree.nodes[id];
+    if (node.position) {
+      const result = playMove(board, node.position, node.color);
+      board = result.board;
+      koPosition = result.koPosition;
+      if (node.color === 'black' || node.color === 'white') {
+        capturedStones[node.color] += result.capturedCount;
+        capturedStones[node.color === 'black' ? 'white' : 'black'] += result.suicidePositions.length;
+      }
+    } else {
+      koPosition = undefined;
+    }
+    lastMove = node.position || undefined;
+    toMove = getOppositeColor(node.color);
+  });
+
+  return { board, toMove, koPosition, lastMove, capturedStones };
+};
+
+/**
+ * Plays a stone in review, starting a variation when it differs from the recorded move.
+ * Returns the reason when the move is illegal in the reviewed position.
+ */
+export const playTreeMove = (
+  tree: MoveTree,
+  gameState: GameState,
+  position: Position
+): { tree: MoveTree; reason?: undefined } | { tree?: undefined; reason: MoveRejectionReason } => {
+  const { board, toMove, koPosition } = getTreePosition(tree, gameState);
+  const reason = getPlacementError(board, position, toMove, { koPosition, scoringRule: gameState.scoringRule });
+  if (reason) {
+    return { reason };
+  }
+  return { tree: addTreeMove(tree, toMove, position) };
+};
@@ -0,0 +1,104 @@
+import { encodeGIF, quantizePixels, RGB } from './gifEncoder';
+
+// Reads the frames of a GIF written by encodeGIF back into palette indices
+function decodeFrames(gif: Uint8Array): { delay: number; pixels: number[] }[] {
+  const width = gif[6] | (gif[7] << 8);
+  const height = gif[8] | (gif[9] << 8);
+  let offset = 13 + 3 * (1 << ((gif[10] & 0x07) + 1));
+  const frames: { delay: number; pixels: number[] }[] = [];
+  let delay = 0;
+
+  const readBlocks = () => {
+    const data: number[] = [];
+    while (gif[offset] !== 0) {
+      const length = gif[offset];
+      data.push(...Array.from(gif.slice(offset + 1, offset + 1 + length)));
+      offset += length + 1;
+    }
+    offset++;
+    return data;
+  };
+
+  while (gif[offset] !== 0x3b) {
+    if (gif[offset] === 0x21) {
+      if (gif[offset + 1] === 0xf9) delay = (gif[offset + 4] | (gif[offset + 5] << 8)) * 10;
+      offset += 2;
+      readBlocks();
+    } else if (gif[offset] === 0x2c) {
+      offset += 10;
+      const minCodeSize = gif[offset++];
+      const data = readBlocks();
+
+      // LZW decode
+      const clearCode = 1 << minCodeSize;
+      let codeSize = minCodeSize + 1;
+      let table: number[][] = [];
+      const reset = () => {
+        table = [];
+        for (let i = 0; i < clearCode; i++) table.push([i]);
+        table.push([], []);
+        codeSize = minCodeSize + 1;
+      };
+      reset();
+
+      const pixels: number[] = [];
+      let bit = 0;
+      let previous: number[] | null = null;
+      while (bit + codeSize <= data.length * 8) {
+        let code = 0;
+        for (let i = 0; i < codeSize; i++, bit++) {
+          code |= ((data[bit >> 3] >> (bit & 7)) & 1) << i;
+        }
+        if (code === clearCode) {
+          reset();
+          previous = null;
+          continue;
+        }
+        if (code === clearCode + 1) break;
+
+        const entry: number[] = code < table.length ? table[code] : [...previous!, previous![0]];
+        pixels.push(...entry);
+        if (previous) table.push([...previous, entry[0]]);
+        previous = entry;
+        if (table.length === 1 << codeSize && codeSize < 12) codeSize++;
+      }
+      expect(pixels).toHaveLength(width * height);
+      frames.push({ delay, pixels });
+    } else {
+      throw new Error(`Unexpected block ${gif[offset]}`);
+    }
+  }
+  return frames;
+}
+
+describe('GIF encoder', () => {
+  const palette: RGB[] = [[0, 0, 0], [255, 255, 255], [230, 197, 136], [51, 51, 51], [200, 0, 0]];
+
+  it('writes frames that decode back to the same pixels', () => {
+    const width = 200;
+    const height = 150;
+    let seed = 7;
+    const noisy = new Uint8Array(width * height).map(() => {
+      seed = (seed * 1103515245 + 12345) % 2147483648;
+      return seed % palette.length;
+    });
+    const flat = new Uint8Array(width * height).fill(2);
+
+    const gif = encodeGIF(width, height, palette, [
+      { pixels: noisy, delay: 500 },
+      { pixels: flat, delay: 3000 }
+    ]);
+    const frames = decodeFrames(gif);
+
+    expect(String.fromCharCode(...Array.from(gif.slice(0, 6)))).toBe('GIF89a');
+    expect(frames).toHaveLength(2);
+    expect(frames[0].pixels).toEqual(Array.from(noisy));
+    expect(frames[1].pixels).toEqual(Array.from(flat));
+    expect(frames.map(frame => frame.delay)).toEqual([500, 3000]);
+  });
+
+  it('maps colours to the nearest palette entry', () => {
+    const rgba = new Uint8Array([250, 250, 250, 255, 10, 0, 5, 255, 220, 190, 140, 255, 220, 190, 140, 255]);
+    expect(Array.from(quantizePixels(rgba, palette))).toEqual([1, 0, 2, 2]);
+  });
+});
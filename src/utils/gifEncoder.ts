@@ -0,0 +1,147 @@
+// Minimal GIF89a encoder for animations made in the browser
+
+export type RGB = [number, number, number];
+
+// One frame: a palette index per pixel, row by row
+export interface GifFrame {
+  pixels: Uint8Array;
+  delay: number; // milliseconds
+}
+
+// LZW-compress palette indices as GIF image data
+function lzwEncode(pixels: Uint8Array, minCodeSize: number): number[] {
+  const clearCode = 1 << minCodeSize;
+  const endCode = clearCode + 1;
+  let codeSize = minCodeSize + 1;
+  let nextCode = endCode + 1;
+  let table = new Map<number, number>();
+
+  const bytes: number[] = [];
+  let buffer = 0;
+  let bufferBits = 0;
+  const write = (code: number) => {
+    buffer |= code << bufferBits;
+    bufferBits += codeSize;
+    while (bufferBits >= 8) {
+      bytes.push(buffer & 0xff);
+      buffer >>>= 8;
+      bufferBits -= 8;
+    }
+  };
+
+  write(clearCode);
+  let prefix = pixels[0];
+  for (let i = 1; i < pixels.length; i++) {
+    const pixel = pixels[i];
+    const key = (prefix << 8) | pixel;
+    const code = table.get(key);
+    if (code !== undefined) {
+      prefix = code;
+      continue;
+    }
+
+    write(prefix);
+    if (nextCode === 4096) {
+      // The table is full: start over
+      write(clearCode);
+      table = new Map<number, number>();
+      codeSize = minCodeSize + 1;
+      nextCode = endCode + 1;
+    } else {
+      if (nextCode >= 1 << codeSize) codeSize++;
+      table.set(key, nextCode++);
+    }
+    prefix = pixel;
+  }
+  write(prefix);
+  write(endCode);
+  if (bufferBits > 0) bytes.push(buffer & 0xff);
+  return bytes;
+}
+
+const writeShort = (out: number[], value: number) => out.push(value & 0xff, (value >> 8) & 0xff);
+
+/**
+ * Encodes frames sharing one palette (up to 256 colours) as a looping animated GIF
+ */
+export function encodeGIF(width: number, height: number, palette: RGB[], frames: GifFrame[]): Uint8Array {
+  if (palette.length === 0 || palette.length > 256) {
+    throw new Error('GIF palettes hold 1 to 256 colours');
+  }
+  const paletteBits = Math.max(1, Math.ceil(Math.log2(palette.length)));
+  const minCodeSize = Math.max(2, paletteBits);
+  const out: number[] = [];
+
+  // Header and logical screen with a global colour table
+  'GIF89a'.split('').forEach(char => out.push(char.charCodeAt(0)));
+  writeShort(out, width);
+  writeShort(out, height);
+  out.push(0x80 | (0x07 << 4) | (paletteBits - 1), 0, 0);
+  for (let i = 0; i < 1 << paletteBits; i++) {
+    const [r, g, b] = palette[i] || [0, 0, 0];
+    out.push(r, g, b);
+  }
+
+  // Loop forever (NETSCAPE2.0 extension)
+  out.push(0x21, 0xff, 0x0b);
+  'NETSCAPE2.0'.split('').forEach(char => out.push(char.charCodeAt(0)));
+  out.push(0x03, 0x01, 0x00, 0x00, 0x00);
+
+  frames.forEach(({ pixels, delay }) => {
+    // Graphic control extension with the frame delay in hundredths of a second
+    out.push(0x21, 0xf9, 0x04, 0x00);
+    writeShort(out, Math.round(delay / 10));
+    out.push(0x00, 0x00);
+
+    // Image descriptor covering the whole screen
+    out.push(0x2c);
+    writeShort(out, 0);
+    writeShort(out, 0);
+    writeShort(out, width);
+    writeShort(out, height);
+    out.push(0x00);
+
+    // Image data in sub-blocks of up to 255 bytes
+    out.push(minCodeSize);
+    const data = lzwEncode(pixels, minCodeSize);
+    for (let i = 0; i < data.length; i += 255) {
+      const block = data.slice(i, i + 255);
+      out.push(block.length, ...block);
+    }
+    out.push(0x00);
+  });
+
+  out.push(0x3b);
+  return new Uint8Array(out);
+}
+
+/**
+ * Maps RGBA pixels to the closest palette colours. Colours seen before are cached,
+ * since board images only hold a few distinct (anti-aliased) shades.
+ */
+export function quantizePixels(rgba: Uint8ClampedArray | Uint8Array, palette: RGB[]): Uint8Array {
+  const pixels = new Uint8Array(rgba.length / 4);
+  const cache = new Map<number, number>();
+  for (let i = 0; i < pixels.length; i++) {
+    const r = rgba[i * 4];
+    const g = rgba[i * 4 + 1];
+    const b = rgba[i * 4 + 2];
+    const key = (r << 16) | (g << 8) | b;
+    let index = cache.get(key);
+    if (index === undefined) {
+      let best = Infinity;
+      index = 0;
+      for (let p = 0; p < palette.length; p++) {
+        const [pr, pg, pb] = palette[p];
+        const distance = (r - pr) ** 2 + (g - pg) ** 2 + (b - pb) ** 2;
+        if (distance < best) {
+          best = distance;
+          index = p;
+        }
+      }
+      cache.set(key, index);
+    }
+    pixels[i] = index;
+  }
+  return pixels;
+}
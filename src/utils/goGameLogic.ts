@@ -1,100 +1,58 @@
 import { Board, Position, Stone, StoneColor, GameState, GameMove } from '../types/go';
+import {
+  isWithinBounds,
+  getAdjacentPositions,
+  findStoneAt,
+  isEmpty,
+  getConnectedGroup,
+  countLiberties,
+  resolveCaptures,
+  isSuicideMove as isSuicidePlacement,
+  playMove,
+  getPlacementError,
+  recordPosition,
+  hashBoard,
+  getBoardDimensions,
+  createBoard,
+  BoardExtent,
+  MoveRejectionReason,
+  isKoRejection,
+  getCaptureWinner,
+  getCaptureResult
+} from '../rules';
+import { getMoveMessage } from './moveMessages';
 
-// Check if a position is within the board boundaries
-export const isWithinBounds = (position: Position, boardSize: number): boolean => {
-  const { x, y } = position;
-  return x >= 0 && x < boardSize && y >= 0 && y < boardSize;
-};
-
-// Get adjacent positions (up, right, down, left)
-export const getAdjacentPositions = (position: Position): Position[] => {
-  const { x, y } = position;
-  return [
-    { x, y: y - 1 }, // up
-    { x: x + 1, y }, // right
-    { x, y: y + 1 }, // down
-    { x: x - 1, y }, // left
-  ];
-};
+// Basic board helpers live in the shared rules engine
+export { isWithinBounds, getAdjacentPositions, findStoneAt, isEmpty, getConnectedGroup, countLiberties };
 
 // Get a stone at a specific position on the board
 export const getStoneAt = (board: Board, position: Position): Stone | null => {
-  return (
-    board.stones.find(
-      (stone) => stone.position.x === position.x && stone.position.y === position.y
-    ) || null
-  );
+  return findStoneAt(position, board.stones) || null;
 };
 
-// Check if a group of stones has any liberties (empty adjacent intersections)
-export const hasLiberties = (
-  board: Board,
-  position: Position,
-  checkedPositions: Set<string> = new Set()
-): boolean => {
-  if (!isWithinBounds(position, board.size)) return false;
-  
-  const posKey = `${position.x},${position.y}`;
-  if (checkedPositions.has(posKey)) return false;
-  
-  checkedPositions.add(posKey);
-  
-  const stone = getStoneAt(board, position);
-  if (!stone) return true; // Empty intersection = liberty
-  
-  // Check adjacent positions
-  const adjacentPositions = getAdjacentPositions(position);
-  
-  for (const adjPos of adjacentPositions) {
-    if (!isWithinBounds(adjPos, board.size)) continue;
-    
-    const adjStone = getStoneAt(board, adjPos);
-    
-    // Empty adjacent position = liberty
-    if (!adjStone) return true;
-    
-    // Adjacent stone is same color, check if that group has liberties
-    if (adjStone.color === stone.color) {
-      const adjPosKey = `${adjPos.x},${adjPos.y}`;
-      if (!checkedPositions.has(adjPosKey)) {
-        if (hasLiberties(board, adjPos, checkedPositions)) {
-          return true;
-        }
-      }
-    }
-  }
-  
-  return false;
+// Check if the group containing the stone at the given position has any liberties
+export const hasLiberties = (board: Board, position: Position): boolean => {
+  const dimensions = getBoardDimensions(board);
+  if (!isWithinBounds(position, dimensions)) return false;
+  if (!findStoneAt(position, board.stones)) return true; // Empty intersection = liberty
+  
+  const group = getConnectedGroup(position, board.stones, dimensions);
+  return countLiberties(group, board.stones, dimensions) > 0;
 };
 
 // Find all stones in a group connected to the stone at the given position
 export const findConnectedGroup = (
   board: Board,
   position: Position,
-  color: StoneColor,
-  group: Position[] = [],
-  visited: Set<string> = new Set()
+  color: StoneColor
 ): Position[] => {
-  if (!isWithinBounds(position, board.size)) return group;
+  const dimensions = getBoardDimensions(board);
+  if (!isWithinBounds(position, dimensions)) return [];
   
-  const posKey = `${position.x},${position.y}`;
-  if (visited.has(posKey)) return group;
+  const stone = findStoneAt(position, board.stones);
+  if (!stone || stone.color !== color) return [];
   
-  visited.add(posKey);
-  
-  const stone = getStoneAt(board, position);
-  if (!stone || stone.color !== color) return group;
-  
-  group.push(position);
-  
-  // Check adjacent positions
-  const adjacentPositions = getAdjacentPositions(position);
-  
-  for (const adjPos of adjacentPositions) {
-    findConnectedGroup(board, adjPos, color, group, visited);
-  }
-  
-  return group;
+  return getConnectedGroup(position, board.stones, dimensions);
 };
 
 // Find stones that would be captured by a move
@@ -103,37 +61,12 @@ export const findCapturedStones = (
   position: Position,
   color: StoneColor
 ): Position[] => {
-  const oppositeColor: StoneColor = color === 'black' ? 'white' : 'black';
-  const capturedStones: Position[] = [];
-  
-  // Check adjacent positions for opponent stones
-  const adjacentPositions = getAdjacentPositions(position);
-  
-  for (const adjPos of adjacentPositions) {
-    if (!isWithinBounds(adjPos, board.size)) continue;
-    
-    const adjStone = getStoneAt(board, adjPos);
-    if (!adjStone || adjStone.color !== oppositeColor) continue;
-    
-    // Find group connected to this stone
-    const group = findConnectedGroup(board, adjPos, oppositeColor);
-    
-    // Check if this group has liberties other than the position we're placing
-    const hasOtherLiberties = group.some(groupPos => {
-      const adjacentToGroupPos = getAdjacentPositions(groupPos);
-      return adjacentToGroupPos.some(p => {
-        if (p.x === position.x && p.y === position.y) return false;
-        if (!isWithinBounds(p, board.size)) return false;
-        return !getStoneAt(board, p);
-      });
-    });
-    
-    if (!hasOtherLiberties) {
-      capturedStones.push(...group);
-    }
-  }
-  
-  return capturedStones;
+  return resolveCaptures(
+    [...board.stones, { position, color }],
+    getBoardDimensions(board),
+    position,
+    color
+  ).capturedPositions;
 };
 
 // Check if a move would be suicidal (self-capture without capturing opponent stones)
@@ -142,21 +75,7 @@ export const isSuicidalMove = (
   position: Position,
   color: StoneColor
 ): boolean => {
-  // If we capture opponent stones, it's not suicidal
-  const capturedStones = findCapturedStones(board, position, color);
-  if (capturedStones.length > 0) return false;
-  
-  // Create a temporary board with the new stone added
-  const tempBoard: Board = {
-    ...board,
-    stones: [
-      ...board.stones,
-      { position, color },
-    ],
-  };
-  
-  // Check if the group containing our new stone has liberties
-  return !hasLiberties(tempBoard, position);
+  return isSuicidePlacement(board.stones, getBoardDimensions(board), position, color);
 };
 
 // Check if a position has a stone of a specific color
@@ -166,51 +85,8 @@ export const hasStoneOfColor = (position: Position, stones: Stone[], color: Ston
   );
 };
 
-// Check if a position is empty (no stone)
-export const isEmpty = (position: Position, stones: Stone[]): boolean => {
-  return !stones.some(
-    stone => stone.position.x === position.x && stone.position.y === position.y
-  );
-};
-
-// Find a stone at a position, if any
-export const findStoneAt = (position: Position, stones: Stone[]): Stone | undefined => {
-  return stones.find(
-    stone => stone.position.x === position.x && stone.position.y === position.y
-  );
-};
-
-// Get positions of all stones in a group connected to the stone at the given position
-export const getConnectedGroup = (position: Position, stones: Stone[], boardSize: number): Position[] => {
-  const stone = findStoneAt(position, stones);
-  if (!stone) return [];
-  
-  const color = stone.color;
-  const visited = new Set<string>();
-  const group: Position[] = [];
-  
-  const visit = (pos: Position) => {
-    const key = `${pos.x},${pos.y}`;
-    if (visited.has(key)) return;
-    
-    visited.add(key);
-    
-    const stoneAtPos = findStoneAt(pos, stones);
-    if (!stoneAtPos || stoneAtPos.color !== color) return;
-    
-    group.push(pos);
-    
-    // Visit adjacent positions
-    const adjacentPositions = getAdjacentPositions(pos).filter(p => isWithinBounds(p, boardSize));
-    adjacentPositions.forEach(visit);
-  };
-  
-  visit(position);
-  return group;
-};
-
 // Advanced dead stone group detection with eye counting
-export const getDeadStoneGroup = (position: Position, stones: Stone[], boardSize: number): Position[] => {
+export const getDeadStoneGroup = (position: Position, stones: Stone[], boardSize: BoardExtent): Position[] => {
   const stone = findStoneAt(position, stones);
   if (!stone) return [];
   
@@ -230,7 +106,7 @@ export const getDeadStoneGroup = (position: Position, stones: Stone[], boardSize
 };
 
 // Extended function to detect if a stone group is likely dead
-export const isGroupLikelyDead = (group: Position[], stones: Stone[], boardSize: number): boolean => {
+export const isGroupLikelyDead = (group: Position[], stones: Stone[], boardSize: BoardExtent): boolean => {
   if (group.length === 0) return false;
   
   // Count liberties of the group
@@ -274,7 +150,7 @@ export const isGroupLikelyDead = (group: Position[], stones: Stone[], boardSize:
 };
 
 // Helper to find a single liberty position when we know there's exactly one
-function findSingleLiberty(group: Position[], stones: Stone[], boardSize: number): Position | null {
+function findSingleLiberty(group: Position[], stones: Stone[], boardSize: BoardExtent): Position | null {
   for (const pos of group) {
     const adjacentPositions = getAdjacentPositions(pos).filter(p => isWithinBounds(p, boardSize));
     
@@ -289,7 +165,7 @@ function findSingleLiberty(group: Position[], stones: Stone[], boardSize: number
 }
 
 // Helper to find all liberty positions for a group
-function findLibertyPositions(group: Position[], stones: Stone[], boardSize: number): Position[] {
+function findLibertyPositions(group: Position[], stones: Stone[], boardSize: BoardExtent): Position[] {
   const libertySet = new Set<string>();
   const libertyPositions: Position[] = [];
   
@@ -309,7 +185,7 @@ function findLibertyPositions(group: Position[], stones: Stone[], boardSize: num
 }
 
 // Helper to check if an eye is a false eye
-function isFalseEye(eyePosition: Position, stones: Stone[], boardSize: number, groupColor: StoneColor | null): boolean {
+function isFalseEye(eyePosition: Position, stones: Stone[], boardSize: BoardExtent, groupColor: StoneColor | null): boolean {
   if (!groupColor) return false;
   
   const oppositeColor = groupColor === 'black' ? 'white' : 'black';
@@ -341,74 +217,14 @@ function getStoneSampleColor(group: Position[], stones: Stone[]): StoneColor | n
   return stone ? stone.color : null;
 }
 
-// Count liberties (empty adjacent points) for a group of stones
-export const countLiberties = (group: Position[], stones: Stone[], boardSize: number): number => {
-  const liberties = new Set<string>();
-  
-  group.forEach(position => {
-    const adjacentPositions = getAdjacentPositions(position).filter(p => isWithinBounds(p, boardSize));
-    
-    adjacentPositions.forEach(adjPos => {
-      if (isEmpty(adjPos, stones)) {
-        liberties.add(`${adjPos.x},${adjPos.y}`);
-      }
-    });
-  });
-  
-  return liberties.size;
-};
-
 // Check if a move would be suicidal
 export const isSuicideMove = (position: Position, color: StoneColor, gameState: GameState): boolean => {
-  const { board } = gameState;
-  const { stones, size } = board;
-  
-  // Temporarily add the stone
-  const updatedStones = [...stones, { position, color }];
-  
-  // Get the group of the newly placed stone
-  const group = getConnectedGroup(position, updatedStones, size);
-  
-  // Check liberties for the newly formed group
-  const liberties = countLiberties(group, updatedStones, size);
-  
-  // If this move has no liberties, check if it captures any opponent groups
-  if (liberties === 0) {
-    const oppositeColor = color === 'black' ? 'white' : 'black';
-    
-    // Check if any adjacent enemy stones would be captured
-    const adjacentPositions = getAdjacentPositions(position).filter(p => isWithinBounds(p, size));
-    
-    for (const adjPos of adjacentPositions) {
-      const stoneAtPos = findStoneAt(adjPos, stones);
-      if (stoneAtPos && stoneAtPos.color === oppositeColor) {
-        const enemyGroup = getConnectedGroup(adjPos, updatedStones, size);
-        const enemyLiberties = countLiberties(enemyGroup, updatedStones, size);
-        
-        // If placing this stone would capture an enemy group, it's not a suicide move
-        if (enemyLiberties === 0) {
-          return false;
-        }
-      }
-    }
-    
-    // The move has no liberties and doesn't capture any enemy stones, so it's a suicide move
-    return true;
-  }
-  
-  // The move has liberties, so it's not a suicide move
-  return false;
+  return isSuicidePlacement(gameState.board.stones, getBoardDimensions(gameState.board), position, color);
 };
 
-// Helper function to serialize a board state for comparison
+// Helper function to serialize a board state for comparison (Zobrist hash from the rules engine)
 export const serializeBoardState = (board: Board): string => {
-  const stateArray: string[][] = Array(board.size).fill(null).map(() => Array(board.size).fill('.'));
-  
-  board.stones.forEach(stone => {
-    stateArray[stone.position.y][stone.position.x] = stone.color === 'black' ? 'B' : 'W';
-  });
-  
-  return stateArray.map(row => row.join('')).join('\n');
+  return hashBoard(board);
 };
 
 // Helper function to simulate a move and return the resulting board state
@@ -417,66 +233,29 @@ export const simulateMove = (
   position: Position,
   color: StoneColor
 ): Board => {
-  // Create a temporary board with the new stone
-  const tempStones = [...currentBoard.stones, { position, color }];
-  
-  // Check for captures and remove captured stones
-  const oppositeColor: StoneColor = color === 'black' ? 'white' : 'black';
-  const capturedPositions: Position[] = [];
-  
-  // Check adjacent positions for opponent groups that would be captured
-  const adjacentPositions = getAdjacentPositions(position);
-  
-  for (const adjPos of adjacentPositions) {
-    if (!isWithinBounds(adjPos, currentBoard.size)) continue;
-    
-    const adjStone = tempStones.find(s => 
-      s.position.x === adjPos.x && s.position.y === adjPos.y
-    );
-    
-    if (adjStone && adjStone.color === oppositeColor) {
-      // Get the connected group
-      const group = findConnectedGroup(
-        { size: currentBoard.size, stones: tempStones },
-        adjPos,
-        oppositeColor
-      );
-      
-      // Check if this group has any liberties
-      if (!hasLiberties({ size: currentBoard.size, stones: tempStones }, adjPos)) {
-        capturedPositions.push(...group);
-      }
-    }
-  }
-  
-  // Remove captured stones
-  const finalStones = tempStones.filter(stone => 
-    !capturedPositions.some(capturedPos => 
-      capturedPos.x === stone.position.x && capturedPos.y === stone.position.y
-    )
-  );
-  
-  return {
-    size: currentBoard.size,
-    stones: finalStones
-  };
+  return playMove(currentBoard, position, color).board;
 };
 
-// Original simple KO rule violation check (fallback)
+// KO rule violation check under the game's ko rule (simple ko or superko)
 export const isKoViolation = (position: Position, color: StoneColor, gameState: GameState): boolean => {
-  // If there's a KO position set and this move is at that position, it's a violation
-  // The KO position will remain restricted until another move is played
-  if (gameState.koPosition) {
-    return position.x === gameState.koPosition.x && position.y === gameState.koPosition.y;
-  }
-  
-  return false;
+  return isKoRejection(getPlacementError(gameState.board, position, color, gameState));
+};
+
+// Reads the 2D array form of a board ("B", "W" and ".") used by checkKoRule
+const boardFromRows = (rows: string[][]): Board => {
+  const stones: Stone[] = [];
+  rows.forEach((row, y) => row.forEach((cell, x) => {
+    if (cell === 'B') stones.push({ position: { x, y }, color: 'black' });
+    if (cell === 'W') stones.push({ position: { x, y }, color: 'white' });
+  }));
+  return createBoard({ width: rows.length > 0 ? rows[0].length : 0, height: rows.length }, stones);
 };
 
 /**
  * KO Rule Checking Function
  * 
- * Checks whether a move violates the KO rule according to Go game rules.
+ * Checks whether a move violates the KO rule according to Go game rules. The move is
+ * played with the rules engine and the resulting position compared with the earlier one.
  * 
  * @param currentBoardState - The current board state as a 2D array where:
  *   - "B" represents a black stone
@@ -499,135 +278,28 @@ export const checkKoRule = (
     return false;
   }
   
-  const boardSize = currentBoardState.length;
+  const board = boardFromRows(currentBoardState);
+  const previousBoard = boardFromRows(previousBoardState);
   const { position, color } = proposedMove;
   
-  // Validate board size consistency
-  if (previousBoardState.length !== boardSize) {
-    return false;
-  }
-  
-  // Validate move position is within bounds
-  if (position.x < 0 || position.x >= boardSize || position.y < 0 || position.y >= boardSize) {
+  // Boards of different shapes, points off the board and occupied points are never ko
+  const dimensions = getBoardDimensions(board);
+  const previousDimensions = getBoardDimensions(previousBoard);
+  if (dimensions.width !== previousDimensions.width || dimensions.height !== previousDimensions.height ||
+      !isWithinBounds(position, dimensions) || !isEmpty(position, board.stones)) {
     return false;
   }
   
-  // Validate position is empty
-  if (currentBoardState[position.y][position.x] !== '.') {
-    return false;
-  }
-  
-  // Create a copy of the current board and simulate the move
-  const simulatedBoard = currentBoardState.map(row => [...row]);
-  simulatedBoard[position.y][position.x] = color === 'black' ? 'B' : 'W';
-  
-  // Find and remove captured opponent stones
-  const oppositeColor = color === 'black' ? 'W' : 'B';
-  const adjacentPositions = [
-    { x: position.x - 1, y: position.y },
-    { x: position.x + 1, y: position.y },
-    { x: position.x, y: position.y - 1 },
-    { x: position.x, y: position.y + 1 }
-  ].filter(pos => pos.x >= 0 && pos.x < boardSize && pos.y >= 0 && pos.y < boardSize);
-  
-  // Check each adjacent position for opponent groups to capture
-  for (const adjPos of adjacentPositions) {
-    if (simulatedBoard[adjPos.y][adjPos.x] === oppositeColor) {
-      const group = findConnectedGroupFromArray(simulatedBoard, adjPos, oppositeColor);
-      const hasLibertiesInGroup = checkGroupLiberties(simulatedBoard, group);
-      
-      if (!hasLibertiesInGroup) {
-        // Remove captured stones
-        group.forEach(stone => {
-          simulatedBoard[stone.y][stone.x] = '.';
-        });
-      }
-    }
-  }
-  
-  // Compare the resulting board state with the previous board state
-  return boardStatesEqual(simulatedBoard, previousBoardState);
+  return hashBoard(playMove(board, position, color).board) === hashBoard(previousBoard);
 };
 
-// Helper function to find connected group from 2D array
-function findConnectedGroupFromArray(
-  board: string[][],
-  startPos: { x: number; y: number },
-  color: string
-): { x: number; y: number }[] {
-  const boardSize = board.length;
-  const visited = new Set<string>();
-  const group: { x: number; y: number }[] = [];
-  
-  function visit(pos: { x: number; y: number }) {
-    const key = `${pos.x},${pos.y}`;
-    if (visited.has(key)) return;
-    if (pos.x < 0 || pos.x >= boardSize || pos.y < 0 || pos.y >= boardSize) return;
-    if (board[pos.y][pos.x] !== color) return;
-    
-    visited.add(key);
-    group.push(pos);
-    
-    // Check adjacent positions
-    visit({ x: pos.x - 1, y: pos.y });
-    visit({ x: pos.x + 1, y: pos.y });
-    visit({ x: pos.x, y: pos.y - 1 });
-    visit({ x: pos.x, y: pos.y + 1 });
-  }
-  
-  visit(startPos);
-  return group;
-}
-
-// Helper function to check if a group has liberties
-function checkGroupLiberties(
-  board: string[][],
-  group: { x: number; y: number }[]
-): boolean {
-  const boardSize = board.length;
-  
-  for (const stone of group) {
-    const adjacentPositions = [
-      { x: stone.x - 1, y: stone.y },
-      { x: stone.x + 1, y: stone.y },
-      { x: stone.x, y: stone.y - 1 },
-      { x: stone.x, y: stone.y + 1 }
-    ];
-    
-    for (const adjPos of adjacentPositions) {
-      if (adjPos.x >= 0 && adjPos.x < boardSize && adjPos.y >= 0 && adjPos.y < boardSize) {
-        if (board[adjPos.y][adjPos.x] === '.') {
-          return true; // Found a liberty
-        }
-      }
-    }
-  }
-  
-  return false; // No liberties found
-}
-
-// Helper function to compare two board states
-function boardStatesEqual(board1: string[][], board2: string[][]): boolean {
-  if (board1.length !== board2.length) return false;
-  
-  for (let y = 0; y < board1.length; y++) {
-    if (board1[y].length !== board2[y].length) return false;
-    for (let x = 0; x < board1[y].length; x++) {
-      if (board1[y][x] !== board2[y][x]) return false;
-    }
-  }
-  
-  return true;
-}
-
 // Capture stones that have no liberties after a move
 export const captureDeadStones = (gameState: GameState, lastMovePosition: Position): { 
   updatedStones: Stone[], 
   capturedCount: number,
   koPosition?: Position
 } => {
-  const { board } = gameState;
-  const { stones, size } = board;
+  const { stones } = gameState.board;
   
   // Find the stone just placed
   const lastStone = findStoneAt(lastMovePosition, stones);
@@ -636,64 +308,15 @@ export const captureDeadStones = (gameState: GameState, lastMovePosition: Positi
     return { updatedStones: stones, capturedCount: 0 };
   }
   
-  const oppositeColor = lastStone.color === 'black' ? 'white' : 'black';
-  
-  // Check all adjacent positions for opponent stones
-  const adjacentPositions = getAdjacentPositions(lastMovePosition).filter(p => isWithinBounds(p, size));
-  console.log(`Checking ${adjacentPositions.length} adjacent positions for captures`);
+  const { remainingStones, capturedCount, koPosition } =
+    resolveCaptures(stones, getBoardDimensions(gameState.board), lastMovePosition, lastStone.color);
   
-  let capturedCount = 0;
-  let remainingStones = [...stones];
-  let capturedPositions: Position[] = [];
   // Preserve existing KO position by default unless we create a new one
-  let koPosition: Position | undefined = gameState.koPosition;
-  
-  // Check each adjacent position for enemy groups that might be captured
-  adjacentPositions.forEach(adjPos => {
-    const stoneAtPos = findStoneAt(adjPos, remainingStones);
-    
-    // If there's an opponent's stone at this position
-    if (stoneAtPos && stoneAtPos.color === oppositeColor) {
-      console.log(`Found opponent ${oppositeColor} stone at (${adjPos.x}, ${adjPos.y})`);
-      
-      // Get the entire connected group
-      const group = getConnectedGroup(adjPos, remainingStones, size);
-      console.log(`Group has ${group.length} stones`);
-      
-      // Check if this group has any liberties
-      const liberties = countLiberties(group, remainingStones, size);
-      console.log(`Group has ${liberties} liberties`);
-      
-      // If the group has no liberties, remove all stones in the group
-      if (liberties === 0) {
-        console.log(`Capturing group of ${group.length} ${oppositeColor} stones`);
-        
-        // Store the captured positions for later rendering
-        capturedPositions = [...capturedPositions, ...group];
-        
-        // Remove captured stones
-        const beforeCount = remainingStones.length;
-        remainingStones = remainingStones.filter(stone => 
-          !group.some(pos => pos.x === stone.position.x && pos.y === stone.position.y)
-        );
-        const afterCount = remainingStones.length;
-        console.log(`Removed ${beforeCount - afterCount} stones from board`);
-        
-        capturedCount += group.length;
-        
-        // Track KO position
-        if (group.length === 1) {
-          // Only update the KO position if we're capturing a single stone
-          // This will create a new KO situation
-          koPosition = group[0];
-        }
-      }
-    }
-  });
-  
-  console.log(`Total captured: ${capturedCount} ${oppositeColor} stones at positions:`, capturedPositions);
-  
-  return { updatedStones: remainingStones, capturedCount, koPosition };
+  return {
+    updatedStones: remainingStones,
+    capturedCount,
+    koPosition: koPosition || gameState.koPosition
+  };
 };
 
 // Helper function to check if a move is a pass
@@ -709,68 +332,46 @@ export const applyGoRules = (
 ): { 
   valid: boolean, 
   updatedGameState?: GameState,
-  error?: string
+  error?: string,
+  reason?: MoveRejectionReason
 } => {
-  // Check basic move validity
-  if (!isWithinBounds(position, gameState.board.size)) {
-    return { valid: false, error: 'Position is outside the board' };
+  // Check the same placement rules the server enforces
+  const rejection = getPlacementError(gameState.board, position, color, gameState);
+  if (rejection) {
+    return { valid: false, error: getMoveMessage(rejection), reason: rejection };
   }
   
-  // Check if position is already occupied
-  if (!isEmpty(position, gameState.board.stones)) {
-    return { valid: false, error: 'Position is already occupied' };
-  }
+  // Place the stone, capture any dead stones and track KO state
+  const { board: updatedBoard, capturedCount, suicidePositions, koPosition } = playMove(gameState.board, position, color);
+  const nextTurn: StoneColor = color === 'black' ? 'white' : 'black';
   
-  // Check for ko rule violation
-  if (isKoViolation(position, color, gameState)) {
-    return { valid: false, error: 'Ko rule violation' };
-  }
-  
-  // Check for suicide move
-  if (isSuicideMove(position, color, gameState)) {
-    return { valid: false, error: 'Suicide move is not allowed' };
-  }
-  
-  // Add the new stone
-  const updatedStones = [...gameState.board.stones, { position, color }];
-  
-  // Capture any dead stones and track KO state
-  const { updatedStones: afterCaptureStones, capturedCount, koPosition } = 
-    captureDeadStones({ ...gameState, board: { ...gameState.board, stones: updatedStones } }, position);
-  
-  // Update captured stones count
+  // Update captured stones count (stones lost to a legal suicide count for the opponent)
   const updatedCapturedStones = { ...gameState.capturedStones };
   if (color === 'black' || color === 'white') {
     updatedCapturedStones[color] += capturedCount;
+    updatedCapturedStones[nextTurn as 'black' | 'white'] += suicidePositions.length;
   }
   
-  // Special case: reset KO position if we just played elsewhere
-  let newKoPosition = koPosition;
-  
-  // If the KO position was set and we played somewhere else,
-  // we've satisfied the KO rule by playing elsewhere.
-  // If a new KO position was created in this move, it will be in koPosition
-  // If no new KO was created, we should clear the KO restriction for the next move
-  if (gameState.koPosition && 
-      (position.x !== gameState.koPosition.x || position.y !== gameState.koPosition.y) && 
-      !koPosition) {
-    newKoPosition = undefined;
-  }
-
-  // Update the game state
+  // A new KO position replaces the old one; playing elsewhere clears the restriction
   const updatedGameState: GameState = {
     ...gameState,
-    board: {
-      ...gameState.board,
-      stones: afterCaptureStones
-    },
+    board: updatedBoard,
     capturedStones: updatedCapturedStones,
     // Toggle turn normally after the first move
-    currentTurn: color === 'black' ? 'white' : 'black',
+    currentTurn: nextTurn,
     history: [...gameState.history, position],
-    koPosition: newKoPosition,
+    koPosition,
+    positionHistory: recordPosition(gameState.positionHistory, updatedBoard, nextTurn),
     lastMove: position  // Set the last move position to show the ring indicator
   };
   
+  // A capture game is won by the move that reaches the target, as on the server
+  const captureWinner = getCaptureWinner(updatedGameState);
+  if (captureWinner) {
+    updatedGameState.status = 'finished';
+    updatedGameState.winner = captureWinner;
+    updatedGameState.result = getCaptureResult(captureWinner);
+  }
+  
   return { valid: true, updatedGameState };
 }; 
\ No newline at end of file
@@ -0,0 +1,110 @@
+import { detectKifuFormat, importKifu, parseGIB, parseNGF, parseUGF } from './kifuFormats';
+
+const gib = `\\HS
+\\[GAMEBLACKNAME=Lee (9D)\\]
+\\[GAMEWHITENAME=Park (8D)\\]
+\\[GAMEINFOMAIN=GBKIND:3,GTYPE:0,GCDT:1,GTIME:1200-30-3,GRLT:4,ZIPSU:0,DUM:0,GONGJE:65,TCNT:3\\]
+\\HE
+\\GS
+2 1 0
+119 0 &4
+INI 0 1 0 &4
+STO 0 2 1 15 3
+STO 0 3 2 3 15
+STO 0 4 1 16 15
+\\GE`;
+
+const ngf = `Ranked game
+19
+Kim        3D*
+Choi       4D*
+www.cyberoro.com
+0
+0
+6
+20090720 [14:59]
+3
+White wins by resignation!
+3
+PMAABQE
+PMABWEQ
+PMACBRQ
+`;
+
+const ugf = `[Header]
+Lang=JP
+Size=9
+Hdcp=0,5.5
+Winner=B,2.5
+PlayerB=Sato,3d,,
+PlayerW=Ito,2d,,
+[Data]
+EE,B1,1,0
+CG,W2,2,0
+[Figure]
+`;
+
+describe('kifu formats', () => {
+  it('detects the format from the file name or the contents', () => {
+    expect(detectKifuFormat(gib)).toBe('gib');
+    expect(detectKifuFormat(ugf)).toBe('ugf');
+    expect(detectKifuFormat('(;SZ[9])')).toBe('sgf');
+    expect(detectKifuFormat(ngf, 'game.NGF')).toBe('ngf');
+  });
+
+  it('reads Tygem GIB files', () => {
+    const record = parseGIB(gib);
+
+    expect(record.black).toEqual({ name: 'Lee', rank: '9D' });
+    expect(record.white).toEqual({ name: 'Park', rank: '8D' });
+    expect(record.komi).toBe(6.5);
+    expect(record.result).toBe('W+R');
+    expect(record.moves[0]).toEqual({ color: 'black', position: { x: 15, y: 3 } });
+    expect(record.moves).toHaveLength(3);
+  });
+
+  it('reads WBaduk NGF files', () => {
+    const record = parseNGF(ngf);
+
+    expect(record.size).toBe(19);
+    expect(record.white).toEqual({ name: 'Kim', rank: '3D' });
+    expect(record.black).toEqual({ name: 'Choi', rank: '4D' });
+    expect(record.komi).toBe(6.5);
+    expect(record.result).toBe('W+R');
+    expect(record.moves[0]).toEqual({ color: 'black', position: { x: 15, y: 3 } });
+  });
+
+  it('reads UGF files with rows counted from the bottom', () => {
+    const record = parseUGF(ugf);
+
+    expect(record.size).toBe(9);
+    expect(record.komi).toBe(5.5);
+    expect(record.black).toEqual({ name: 'Sato', rank: '3d' });
+    expect(record.result).toBe('B+2.5');
+    expect(record.moves).toEqual([
+      { color: 'black', position: { x: 4, y: 4 } },
+      { color: 'white', position: { x: 2, y: 2 } }
+    ]);
+  });
+
+  it('imports every format as a finished game with player ranks', () => {
+    const gameState = importKifu(gib, 'game.gib');
+
+    expect(gameState.status).toBe('finished');
+    expect(gameState.komi).toBe(6.5);
+    expect(gameState.winner).toBe('white');
+    expect(gameState.history).toEqual([{ x: 15, y: 3 }, { x: 3, y: 15 }, { x: 16, y: 15 }]);
+    expect(gameState.players.map(player => player.rank)).toEqual(['9D', '8D']);
+
+    expect(importKifu(ngf).history).toHaveLength(3);
+    expect(importKifu(ugf).board.stones).toHaveLength(2);
+  });
+
+  it('places handicap stones before white moves first', () => {
+    const gameState = importKifu(gib.replace('INI 0 1 0', 'INI 0 1 2').replace('STO 0 2 1 15 3\n', ''));
+
+    expect(gameState.handicap).toBe(2);
+    expect(gameState.setupStones).toHaveLength(2);
+    expect(gameState.startingTurn).toBe('white');
+  });
+});
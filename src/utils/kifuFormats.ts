@@ -0,0 +1,259 @@
+import { GameState, Position, StoneColor } from '../types/go';
+import { getHandicapStones } from '../rules';
+import { importSGF } from './sgfUtils';
+
+// Kifu formats used by Asian servers, besides SGF
+export type KifuFormat = 'sgf' | 'gib' | 'ngf' | 'ugf';
+
+export interface KifuPlayer {
+  name: string;
+  rank?: string;
+}
+
+// A game read from a GIB, NGF or UGF file, before conversion to SGF
+export interface KifuRecord {
+  size: number;
+  black: KifuPlayer;
+  white: KifuPlayer;
+  komi?: number;
+  handicap: number;
+  result?: string;
+  moves: { color: StoneColor; position: Position | null }[];
+}
+
+// Escape text for an SGF property value
+function escapeText(text: string): string {
+  return text.replace(/\\/g, '\\\\').replace(/\]/g, '\\]');
+}
+
+function toSGFPoint({ x, y }: Position): string {
+  return String.fromCharCode(97 + x) + String.fromCharCode(97 + y);
+}
+
+// Write a record as SGF so it goes through the same import as SGF files.
+// Handicap stones sit on the standard points and white moves first.
+function kifuToSGF(record: KifuRecord): string {
+  let sgf = '(;GM[1]FF[4]SZ[' + record.size + ']';
+  sgf += 'PB[' + escapeText(record.black.name) + ']PW[' + escapeText(record.white.name) + ']';
+  if (record.black.rank) sgf += 'BR[' + escapeText(record.black.rank) + ']';
+  if (record.white.rank) sgf += 'WR[' + escapeText(record.white.rank) + ']';
+  if (record.komi !== undefined && !Number.isNaN(record.komi)) sgf += 'KM[' + record.komi + ']';
+  if (record.result) sgf += 'RE[' + escapeText(record.result) + ']';
+
+  const handicapStones = getHandicapStones(record.size, record.handicap);
+  if (handicapStones.length > 0) {
+    sgf += 'HA[' + record.handicap + ']AB' + handicapStones.map(stone => '[' + toSGFPoint(stone.position) + ']').join('') + 'PL[W]';
+  }
+
+  record.moves.forEach(({ color, position }) => {
+    const isOnBoard = position && position.x >= 0 && position.y >= 0 && position.x < record.size && position.y < record.size;
+    sgf += ';' + (color === 'black' ? 'B' : 'W') + '[' + (position && isOnBoard ? toSGFPoint(position) : '') + ']';
+  });
+  return sgf + ')';
+}
+
+// Split "name (rank)" or "name rank" into its parts
+function parsePlayer(text: string | undefined, fallback: string): KifuPlayer {
+  const value = (text || '').trim();
+  const match = value.match(/^(.*?)\s*\((.+)\)$/) || value.match(/^(\S+)\s+(\S+)$/);
+  if (match) {
+    return { name: match[1] || fallback, rank: match[2].replace(/\*$/, '') };
+  }
+  return { name: value || fallback };
+}
+
+/**
+ * Reads a Tygem GIB file. Header entries look like \[GAMEBLACKNAME=name (rank)\];
+ * moves are "STO 0 <number> <1 black|2 white> <x> <y>" lines on a 19×19 board.
+ */
+export function parseGIB(text: string): KifuRecord {
+  const header: Record<string, string> = {};
+  const headerPattern = /\\\[(\w+)=(.*?)\\\]/g;
+  let entry: RegExpExecArray | null;
+  while ((entry = headerPattern.exec(text)) !== null) {
+    header[entry[1]] = entry[2].trim();
+  }
+
+  // GAMEINFOMAIN packs "KEY:value," pairs, including komi (GONGJE) and the result (GRLT, ZIPSU) in tenths
+  const info: Record<string, string> = {};
+  (header.GAMEINFOMAIN || '').split(',').forEach(pair => {
+    const [key, value] = pair.split(':');
+    if (key && value !== undefined) info[key.trim()] = value.trim();
+  });
+
+  const gongje = info.GONGJE || header.GAMEGONGJE;
+  const komi = gongje !== undefined ? Number(gongje) / 10 : undefined;
+
+  const score = Number(info.ZIPSU) / 10 || '';
+  const resultCodes: Record<string, string> = {
+    '0': 'B+' + score,
+    '1': 'W+' + score,
+    '3': 'B+R',
+    '4': 'W+R',
+    '7': 'B+T',
+    '8': 'W+T'
+  };
+
+  let handicap = 0;
+  const moves: KifuRecord['moves'] = [];
+  text.split(/\r?\n/).forEach(line => {
+    const tokens = line.trim().split(/\s+/);
+    if (tokens[0] === 'INI') {
+      handicap = Number(tokens[3]) || 0;
+    } else if (tokens[0] === 'STO') {
+      const [, , , color, x, y] = tokens.map(Number);
+      moves.push({ color: color === 2 ? 'white' : 'black', position: { x, y } });
+    }
+  });
+
+  if (!header.GAMEBLACKNAME && moves.length === 0) {
+    throw new Error('Invalid GIB file: no game header or moves found');
+  }
+
+  return {
+    size: 19,
+    black: parsePlayer(header.GAMEBLACKNAME, 'Black'),
+    white: parsePlayer(header.GAMEWHITENAME, 'White'),
+    komi,
+    handicap,
+    result: resultCodes[info.GRLT],
+    moves
+  };
+}
+
+/**
+ * Reads a WBaduk NGF file: a fixed block of header lines (size, white, black,
+ * handicap, komi, result...) followed by "PM" move lines whose coordinates start at 'B'.
+ */
+export function parseNGF(text: string): KifuRecord {
+  const lines = text.split(/\r?\n/).map(line => line.trim());
+  const size = parseInt(lines[1], 10);
+  if (!Number.isInteger(size) || size < 2 || size > 25) {
+    throw new Error(`Invalid NGF file: unsupported board size ${lines[1]}`);
+  }
+
+  // Komi is stored without its half point
+  const rawKomi = parseFloat(lines[7]);
+  const komi = Number.isNaN(rawKomi) ? undefined : Math.floor(rawKomi) + 0.5;
+
+  const resultLine = (lines[10] || '').toLowerCase();
+  let result: string | undefined;
+  const winner = resultLine.includes('white win') ? 'W' : resultLine.includes('black win') ? 'B' : null;
+  if (winner) {
+    const points = resultLine.match(/(\d+(\.\d+)?)/);
+    result = winner + '+' + (resultLine.includes('resign') ? 'R' : resultLine.includes('time') ? 'T' : points ? points[1] : '');
+  }
+
+  const moves: KifuRecord['moves'] = [];
+  lines.slice(12).forEach(line => {
+    if (!line.startsWith('PM') || line.length < 7) return;
+    const color = line.charAt(4);
+    if (color !== 'B' && color !== 'W') return;
+    moves.push({
+      color: color === 'B' ? 'black' : 'white',
+      position: { x: line.charCodeAt(5) - 66, y: line.charCodeAt(6) - 66 }
+    });
+  });
+
+  return {
+    size,
+    white: parsePlayer(lines[2], 'White'),
+    black: parsePlayer(lines[3], 'Black'),
+    komi,
+    handicap: parseInt(lines[5], 10) || 0,
+    result,
+    moves
+  };
+}
+
+/**
+ * Reads a Fox/PandaNet UGF file: an ini-style [Header] section (Size, Hdcp=handicap,komi,
+ * PlayerB=name,rank, Winner=color,score) and a [Data] section of "PD,B1,..." moves
+ * with rows counted from the bottom.
+ */
+export function parseUGF(text: string): KifuRecord {
+  const header: Record<string, string> = {};
+  const data: string[] = [];
+  let section = '';
+  text.split(/\r?\n/).forEach(rawLine => {
+    const line = rawLine.trim();
+    const sectionMatch = line.match(/^\[(\w+)\]$/);
+    if (sectionMatch) {
+      section = sectionMatch[1].toLowerCase();
+    } else if (section === 'header' && line.includes('=')) {
+      const index = line.indexOf('=');
+      header[line.slice(0, index).trim()] = line.slice(index + 1).trim();
+    } else if (section === 'data' && line) {
+      data.push(line);
+    }
+  });
+
+  if (!header.Size && data.length === 0) {
+    throw new Error('Invalid UGF file: no [Header] or [Data] section found');
+  }
+
+  const size = parseInt(header.Size, 10) || 19;
+  const [handicap, komi] = (header.Hdcp || '').split(',').map(parseFloat);
+  const player = (value: string | undefined, fallback: string): KifuPlayer => {
+    const [name, rank] = (value || '').split(',').map(part => part.trim());
+    return { name: name || fallback, rank: rank || undefined };
+  };
+
+  const [winner, score] = (header.Winner || '').split(',').map(part => part.trim());
+  let result: string | undefined;
+  if (winner === 'B' || winner === 'W') {
+    result = winner + '+' + (Number(score) > 0 ? Number(score) : '');
+  }
+
+  const moves: KifuRecord['moves'] = [];
+  data.forEach(line => {
+    const [coordinates, move] = line.split(',');
+    if (!coordinates || !move || (move[0] !== 'B' && move[0] !== 'W')) return;
+    moves.push({
+      color: move[0] === 'B' ? 'black' : 'white',
+      position: { x: coordinates.charCodeAt(0) - 65, y: size - 1 - (coordinates.charCodeAt(1) - 65) }
+    });
+  });
+
+  return {
+    size,
+    black: player(header.PlayerB, 'Black'),
+    white: player(header.PlayerW, 'White'),
+    komi: Number.isNaN(komi) ? undefined : komi,
+    handicap: handicap || 0,
+    result,
+    moves
+  };
+}
+
+/**
+ * Guesses the format of a kifu from its file name, then its contents
+ */
+export function detectKifuFormat(text: string, fileName?: string): KifuFormat {
+  const extension = (fileName || '').toLowerCase().split('.').pop();
+  if (extension === 'gib' || extension === 'ngf' || extension === 'ugf' || extension === 'sgf') {
+    return extension;
+  }
+
+  const content = text.trim();
+  if (content.startsWith('(')) return 'sgf';
+  if (content.includes('\\HS') || content.includes('\\[GAME')) return 'gib';
+  if (/^\[Header\]/im.test(content)) return 'ugf';
+  return 'ngf';
+}
+
+/**
+ * Builds a finished GameState from an SGF, GIB, NGF or UGF kifu
+ */
+export function importKifu(text: string, fileName?: string): GameState {
+  switch (detectKifuFormat(text, fileName)) {
+    case 'gib':
+      return importSGF(kifuToSGF(parseGIB(text)));
+    case 'ngf':
+      return importSGF(kifuToSGF(parseNGF(text)));
+    case 'ugf':
+      return importSGF(kifuToSGF(parseUGF(text)));
+    default:
+      return importSGF(text);
+  }
+}
@@ -0,0 +1,68 @@
+import { GameState } from '../types/go';
+import { getKifuHeader, numberKifuMoves, generateKifuSheet } from './kifuSheet';
+
+const gameState = {
+  board: { size: 9, stones: [] },
+  players: [
+    { id: 'b', username: 'Alice', color: 'black', rank: '2k' },
+    { id: 'w', username: 'Bob', color: 'white' }
+  ],
+  // White 4 captures black 1; after black passes, white 6 fills the point
+  history: [{ x: 0, y: 0 }, { x: 1, y: 0 }, { x: 4, y: 4 }, { x: 0, y: 1 }, { pass: true }, { x: 0, y: 0 }],
+  status: 'finished',
+  result: 'W+R',
+  scoringRule: 'chinese',
+  gameType: 'even',
+  handicap: 0,
+  komi: 7.5,
+  createdAt: Date.UTC(2024, 2, 9, 12),
+  timeControl: { timeControl: 0, timePerMove: 0, byoYomiPeriods: 0, byoYomiTime: 0, fischerTime: 0, correspondenceDays: 0 }
+} as unknown as GameState;
+
+describe('kifu sheet', () => {
+  it('numbers moves on the first stone of each point and lists the rest', () => {
+    const { stones, numbers, legend } = numberKifuMoves(
+      [
+        { color: 'black', position: { x: 0, y: 0 } },
+        { color: 'white', position: { x: 1, y: 0 } },
+        { color: 'black', position: { x: 2, y: 2 } },
+        { color: 'white', position: null },
+        { color: 'black', position: { x: 0, y: 0 } }
+      ],
+      [{ position: { x: 2, y: 2 }, color: 'white' }],
+      9
+    );
+
+    expect(numbers.map(({ number }) => number)).toEqual([1, 2]);
+    expect(stones).toHaveLength(3);
+    expect(legend).toEqual(['3 at C7', '4 pass', '5 at 1']);
+  });
+
+  it('reads the header from the SGF record', () => {
+    const header = getKifuHeader(gameState);
+
+    expect(header).toContainEqual({ label: 'Black', value: 'Alice (2k)' });
+    expect(header).toContainEqual({ label: 'Rules', value: 'Chinese' });
+    expect(header).toContainEqual({ label: 'Komi', value: '7.5' });
+    expect(header).toContainEqual({ label: 'Result', value: 'W+R' });
+    expect(header).toContainEqual({ label: 'Date', value: '2024-03-09' });
+  });
+
+  it('keeps player names with SGF brackets in the header', () => {
+    const header = getKifuHeader({
+      ...gameState,
+      players: [{ ...gameState.players[0], username: '[Go] Club]' }, gameState.players[1]]
+    });
+
+    expect(header).toContainEqual({ label: 'Black', value: '[Go] Club] (2k)' });
+  });
+
+  it('renders a printable page with the diagram and legend', () => {
+    const html = generateKifuSheet(gameState);
+
+    expect(html).toContain('<title>Alice vs Bob</title>');
+    expect(html).toContain('<svg');
+    expect(html).toContain('<p>5 pass</p>');
+    expect(html).toContain('<p>6 at 1</p>');
+  });
+});
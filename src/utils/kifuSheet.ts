@@ -0,0 +1,135 @@
+import { GameState, MoveTree, Position, Stone } from '../types/go';
+import { createBoard, getBoardDimensions } from '../rules';
+import { DiagramMove, getColumnLetter, renderBoardDiagram } from './boardDiagram';
+import { createMoveTree, getCurrentLine, getStartingStones, goToStart } from './gameTree';
+import { generateSGF, parseSGF } from './sgfUtils';
+
+// The numbered kifu diagram: each point shows the first stone played on it
+export interface KifuNumbering {
+  stones: Stone[];
+  numbers: { position: Position; number: number }[];
+  legend: string[]; // Moves that cannot be shown on the diagram, e.g. "52 at 47" or "80 pass"
+}
+
+/**
+ * Numbers every move on one diagram. A move played on a point already used by an
+ * earlier move (after a capture) or a starting stone goes in the legend instead.
+ */
+export const numberKifuMoves = (moves: DiagramMove[], startingStones: Stone[], boardHeight: number): KifuNumbering => {
+  const stones: Stone[] = [...startingStones];
+  const numbers: KifuNumbering['numbers'] = [];
+  const legend: string[] = [];
+  const firstNumbers: Record<string, number> = {};
+
+  moves.forEach(({ color, position }, index) => {
+    const number = index + 1;
+    if (!position) {
+      legend.push(`${number} pass`);
+      return;
+    }
+
+    const key = `${position.x},${position.y}`;
+    if (firstNumbers[key] !== undefined) {
+      legend.push(`${number} at ${firstNumbers[key]}`);
+    } else if (stones.some(stone => stone.position.x === position.x && stone.position.y === position.y)) {
+      legend.push(`${number} at ${getColumnLetter(position.x)}${boardHeight - position.y}`);
+    } else {
+      firstNumbers[key] = number;
+      stones.push({ position, color });
+      numbers.push({ position, number });
+    }
+  });
+
+  return { stones, numbers, legend };
+};
+
+/**
+ * Header lines for the sheet, read from the game's SGF so they match the exported record
+ */
+export const getKifuHeader = (gameState: GameState): { label: string; value: string }[] => {
+  const [root] = parseSGF(generateSGF(gameState));
+  const prop = (identifier: string) => root.properties[identifier]?.[0] || '';
+  const player = (name: string, rank: string) => (rank ? `${name} (${rank})` : name);
+
+  return [
+    { label: 'Black', value: player(prop('PB'), prop('BR')) },
+    { label: 'White', value: player(prop('PW'), prop('WR')) },
+    { label: 'Rules', value: prop('RU') },
+    { label: 'Komi', value: prop('KM') },
+    { label: 'Handicap', value: prop('HA') },
+    { label: 'Result', value: prop('RE') || 'Unfinished' },
+    { label: 'Date', value: prop('DT') }
+  ].filter(({ value }) => value !== '');
+};
+
+const escapeHTML = (text: string): string =>
+  text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;');
+
+/**
+ * A printable HTML page with the header, the numbered diagram of the main line and the legend
+ */
+export const generateKifuSheet = (gameState: GameState, tree: MoveTree = createMoveTree(gameState)): string => {
+  const dimensions = getBoardDimensions(gameState.board);
+  const moves = getCurrentLine(goToStart(tree)).slice(1).map(id => tree.nodes[id]);
+  const { stones, numbers, legend } = numberKifuMoves(moves, getStartingStones(gameState), dimensions.height);
+  const diagram = renderBoardDiagram(createBoard(dimensions, stones), { numbers, cellSize: 32 });
+
+  const header = getKifuHeader(gameState)
+    .map(({ label, value }) => `<tr><th>${label}</th><td>${escapeHTML(value)}</td></tr>`)
+    .join('');
+  const title = escapeHTML(`${gameState.players.find(p => p.color === 'black')?.username || 'Black'} vs ${gameState.players.find(p => p.color === 'white')?.username || 'White'}`);
+
+  return `<!DOCTYPE html>
+<html>
+<head>
+<meta charset="utf-8">
+<title>${title}</title>
+<style>
+  @page { size: A4; margin: 12mm; }
+  body { font-family: sans-serif; color: #000; margin: 0; }
+  h1 { font-size: 18px; margin: 0 0 8px; }
+  table { border-collapse: collapse; margin-bottom: 12px; font-size: 13px; }
+  th { text-align: left; padding: 2px 12px 2px 0; }
+  .sheet { display: flex; gap: 16px; align-items: flex-start; }
+  .diagram svg { width: 150mm; height: auto; }
+  .legend { font-size: 12px; columns: 2; }
+  .legend p { margin: 0 0 2px; }
+</style>
+</head>
+<body>
+<h1>${title}</h1>
+<table>${header}<tr><th>Moves</th><td>${moves.length}</td></tr></table>
+<div class="sheet">
+  <div class="diagram">${diagram.svg}</div>
+  ${legend.length > 0 ? `<div class="legend">${legend.map(entry => `<p>${entry}</p>`).join('')}</div>` : ''}
+</div>
+</body>
+</html>`;
+};
+
+/**
+ * Opens the browser's print dialog for the kifu sheet, where it can be saved as PDF
+ */
+export const printKifuSheet = (gameState: GameState, tree?: MoveTree): void => {
+  const frame = document.createElement('iframe');
+  frame.style.position = 'fixed';
+  frame.style.width = '0';
+  frame.style.height = '0';
+  frame.style.border = '0';
+  document.body.appendChild(frame);
+
+  const frameWindow = frame.contentWindow;
+  if (!frameWindow) {
+    document.body.removeChild(frame);
+    throw new Error('Printing is not supported in this browser');
+  }
+
+  frameWindow.document.open();
+  frameWindow.document.write(generateKifuSheet(gameState, tree));
+  frameWindow.document.close();
+  frameWindow.focus();
+  frameWindow.print();
+
+  // The print dialog blocks until it is closed; remove the frame afterwards
+  setTimeout(() => document.body.removeChild(frame), 1000);
+};
@@ -13,7 +13,7 @@ export const testSimpleKo = (): boolean => {
     ['.', '.', '.', '.', '.', '.', '.', '.', '.'],
     ['.', '.', '.', '.', '.', '.', '.', '.', '.'],
     ['.', '.', 'B', 'W', '.', '.', '.', '.', '.'],
-    ['.', '.', 'W', '.', 'W', '.', '.', '.', '.'],
+    ['.', 'B', 'W', '.', 'W', '.', '.', '.', '.'],
     ['.', '.', 'B', 'W', '.', '.', '.', '.', '.'],
     ['.', '.', '.', '.', '.', '.', '.', '.', '.'],
     ['.', '.', '.', '.', '.', '.', '.', '.', '.'],
@@ -26,7 +26,7 @@ export const testSimpleKo = (): boolean => {
     ['.', '.', '.', '.', '.', '.', '.', '.', '.'],
     ['.', '.', '.', '.', '.', '.', '.', '.', '.'],
     ['.', '.', 'B', 'W', '.', '.', '.', '.', '.'],
-    ['.', '.', 'W', 'B', 'W', '.', '.', '.', '.'],
+    ['.', 'B', '.', 'B', 'W', '.', '.', '.', '.'],
     ['.', '.', 'B', 'W', '.', '.', '.', '.', '.'],
     ['.', '.', '.', '.', '.', '.', '.', '.', '.'],
     ['.', '.', '.', '.', '.', '.', '.', '.', '.'],
@@ -53,7 +53,7 @@ export const testLegalMove = (): boolean => {
     ['.', '.', '.', '.', '.', '.', '.', '.', '.'],
     ['.', '.', '.', '.', '.', '.', '.', '.', '.'],
     ['.', '.', 'B', 'W', '.', '.', '.', '.', '.'],
-    ['.', '.', 'W', '.', 'W', '.', '.', '.', '.'],
+    ['.', 'B', 'W', '.', 'W', '.', '.', '.', '.'],
     ['.', '.', 'B', 'W', '.', '.', '.', '.', '.'],
     ['.', '.', '.', '.', '.', '.', '.', '.', '.'],
     ['.', '.', '.', '.', '.', '.', '.', '.', '.'],
@@ -65,7 +65,7 @@ export const testLegalMove = (): boolean => {
     ['.', '.', '.', '.', '.', '.', '.', '.', '.'],
     ['.', '.', '.', '.', '.', '.', '.', '.', '.'],
     ['.', '.', 'B', 'W', '.', '.', '.', '.', '.'],
-    ['.', '.', 'W', 'B', 'W', '.', '.', '.', '.'],
+    ['.', 'B', '.', 'B', 'W', '.', '.', '.', '.'],
     ['.', '.', 'B', 'W', '.', '.', '.', '.', '.'],
     ['.', '.', '.', '.', '.', '.', '.', '.', '.'],
     ['.', '.', '.', '.', '.', '.', '.', '.', '.'],
@@ -90,9 +90,9 @@ export const testMultipleStoneCapture = (): boolean => {
   const currentBoard = [
     ['.', '.', '.', '.', '.', '.', '.', '.', '.'],
     ['.', '.', '.', '.', '.', '.', '.', '.', '.'],
-    ['.', '.', 'B', 'B', 'B', '.', '.', '.', '.'],
-    ['.', '.', 'W', '.', 'W', '.', '.', '.', '.'],
-    ['.', '.', 'B', 'B', 'B', '.', '.', '.', '.'],
+    ['.', '.', '.', 'B', 'B', 'W', '.', '.', '.'],
+    ['.', '.', 'B', '.', '.', 'B', 'W', '.', '.'],
+    ['.', '.', '.', 'B', 'B', 'W', '.', '.', '.'],
     ['.', '.', '.', '.', '.', '.', '.', '.', '.'],
     ['.', '.', '.', '.', '.', '.', '.', '.', '.'],
     ['.', '.', '.', '.', '.', '.', '.', '.', '.'],
@@ -102,18 +102,18 @@ export const testMultipleStoneCapture = (): boolean => {
   const previousBoard = [
     ['.', '.', '.', '.', '.', '.', '.', '.', '.'],
     ['.', '.', '.', '.', '.', '.', '.', '.', '.'],
-    ['.', '.', 'B', 'B', 'B', '.', '.', '.', '.'],
-    ['.', '.', 'W', 'W', 'W', '.', '.', '.', '.'],
-    ['.', '.', 'B', 'B', 'B', '.', '.', '.', '.'],
+    ['.', '.', '.', 'B', 'B', 'W', '.', '.', '.'],
+    ['.', '.', 'B', 'W', 'W', '.', 'W', '.', '.'],
+    ['.', '.', '.', 'B', 'B', 'W', '.', '.', '.'],
     ['.', '.', '.', '.', '.', '.', '.', '.', '.'],
     ['.', '.', '.', '.', '.', '.', '.', '.', '.'],
     ['.', '.', '.', '.', '.', '.', '.', '.', '.'],
     ['.', '.', '.', '.', '.', '.', '.', '.', '.']
   ];
 
-  // Proposed move: White recaptures at (3, 3)
+  // Proposed move: White takes one stone back at (4, 3)
   const proposedMove = {
-    position: { x: 3, y: 3 },
+    position: { x: 4, y: 3 },
     color: 'white' as const
   };
 
@@ -168,14 +168,14 @@ export const testDifferentBoardSizes = (): boolean => {
   const pattern1 = [
     ['.', '.', '.', '.'],
     ['.', 'B', 'W', '.'],
-    ['.', 'W', '.', 'W'],
+    ['B', 'W', '.', 'W'],
     ['.', 'B', 'W', '.']
   ];
 
   const pattern2 = [
     ['.', '.', '.', '.'],
     ['.', 'B', 'W', '.'],
-    ['.', 'W', 'B', 'W'],
+    ['B', '.', 'B', 'W'],
     ['.', 'B', 'W', '.']
   ];
 
@@ -229,7 +229,7 @@ export const exampleUsage = (): void => {
   const boardState = [
     ['.', '.', '.', '.', '.'],
     ['.', 'B', 'W', '.', '.'],
-    ['.', 'W', '.', 'W', '.'],
+    ['B', 'W', '.', 'W', '.'],
     ['.', 'B', 'W', '.', '.'],
     ['.', '.', '.', '.', '.']
   ];
@@ -237,7 +237,7 @@ export const exampleUsage = (): void => {
   const previousState = [
     ['.', '.', '.', '.', '.'],
     ['.', 'B', 'W', '.', '.'],
-    ['.', 'W', 'B', 'W', '.'],
+    ['B', '.', 'B', 'W', '.'],
     ['.', 'B', 'W', '.', '.'],
     ['.', '.', '.', '.', '.']
   ];
@@ -0,0 +1,89 @@
+import { MoveRejectionReason, MOVE_REJECTION_MESSAGES } from '../rules';
+
+// Languages with their own move messages; anything else falls back to English
+export type MessageLocale = 'en' | 'ja' | 'ko' | 'zh';
+
+// Player-facing text for each rejection reason, per language
+const MOVE_MESSAGES: Record<MessageLocale, Record<MoveRejectionReason, string>> = {
+  en: {
+    'game-not-active': 'The game is not in progress - waiting for your opponent',
+    'not-a-player': 'Only players in this game can make moves',
+    'wrong-color': 'You cannot play stones of that color',
+    'not-your-turn': 'It is not your turn - wait for your opponent to play',
+    'teammate-turn': 'It is your teammate\'s turn - wait for them to play',
+    'teacher-control': 'The teacher has taken over your stones for now',
+    'out-of-bounds': 'That point is outside the board',
+    'occupied': 'There is already a stone on that point',
+    'ko': 'Ko: you cannot retake the ko immediately. Play elsewhere first.',
+    'superko': 'Superko: this move would repeat an earlier board position',
+    'suicide': 'Suicide: the stone would have no liberties and capture nothing',
+    'handicap-pending': 'Black must finish placing the handicap stones first',
+    'handicap-complete': 'All handicap stones have already been placed',
+    'no-passing': 'There is no passing in capture Go - keep playing until someone captures enough stones'
+  },
+  ja: {
+    'game-not-active': '対局は始まっていません。相手を待っています',
+    'not-a-player': '対局者のみが着手できます',
+    'wrong-color': 'その色の石は打てません',
+    'not-your-turn': 'あなたの手番ではありません',
+    'teammate-turn': 'チームの仲間の手番です',
+    'teacher-control': '先生があなたの石を打っています',
+    'out-of-bounds': '盤の外には打てません',
+    'occupied': 'そこには既に石があります',
+    'ko': 'コウ：すぐに取り返すことはできません。先に他の場所に打ってください',
+    'superko': 'スーパーコウ：以前の局面が再現されるため打てません',
+    'suicide': '着手禁止点：呼吸点がなく、石を取ることもできません',
+    'handicap-pending': '黒が置き石を置き終えるまでお待ちください',
+    'handicap-complete': '置き石はすべて置かれています',
+    'no-passing': '石取り碁ではパスできません'
+  },
+  ko: {
+    'game-not-active': '대국이 진행 중이 아닙니다. 상대를 기다리는 중입니다',
+    'not-a-player': '대국자만 착수할 수 있습니다',
+    'wrong-color': '그 색의 돌은 둘 수 없습니다',
+    'not-your-turn': '당신의 차례가 아닙니다',
+    'teammate-turn': '팀원의 차례입니다',
+    'teacher-control': '선생님이 지금 당신의 돌을 두고 있습니다',
+    'out-of-bounds': '반상 밖에는 둘 수 없습니다',
+    'occupied': '이미 돌이 놓인 자리입니다',
+    'ko': '패: 바로 되따낼 수 없습니다. 먼저 다른 곳에 두세요',
+    'superko': '슈퍼코: 이전 국면이 반복되는 수입니다',
+    'suicide': '착수 금지: 활로가 없고 따내는 돌도 없습니다',
+    'handicap-pending': '흑이 먼저 접바둑 돌을 모두 놓아야 합니다',
+    'handicap-complete': '접바둑 돌을 이미 모두 놓았습니다',
+    'no-passing': '따내기 바둑에서는 패스할 수 없습니다'
+  },
+  zh: {
+    'game-not-active': '对局尚未开始，正在等待对手',
+    'not-a-player': '只有对局者可以落子',
+    'wrong-color': '不能下该颜色的棋子',
+    'not-your-turn': '还没轮到你',
+    'teammate-turn': '现在轮到你的队友落子',
+    'teacher-control': '老师正在代你落子',
+    'out-of-bounds': '不能下在棋盘之外',
+    'occupied': '该点已有棋子',
+    'ko': '打劫：不能立即提回，请先在别处落子',
+    'superko': '全局同形：此手会重复之前的局面',
+    'suicide': '禁着点：此子没有气，也不能提子',
+    'handicap-pending': '黑方须先摆完让子',
+    'handicap-complete': '让子已全部摆放',
+    'no-passing': '吃子棋不能停一手'
+  }
+};
+
+/**
+ * Picks the message language from a BCP 47 tag such as "ja-JP" (the browser's by default)
+ */
+export const getMessageLocale = (
+  language: string | undefined = typeof navigator !== 'undefined' ? navigator.language : undefined
+): MessageLocale => {
+  const code = (language || '').toLowerCase().split('-')[0];
+  return code === 'ja' || code === 'ko' || code === 'zh' ? code : 'en';
+};
+
+/**
+ * Localized text explaining why a move was refused
+ */
+export const getMoveMessage = (reason: MoveRejectionReason, locale: MessageLocale = getMessageLocale()): string => {
+  return MOVE_MESSAGES[locale][reason] || MOVE_REJECTION_MESSAGES[reason];
+};
@@ -1,11 +1,8 @@
 import { Board, Position, Stone, StoneColor, Territory } from '../types/go';
+import { isWithinBounds, getBoardDimensions, findSeki, getSekiPoints } from '../rules';
 
-/**
- * Determines if a position is within the board boundaries
- */
-export const isWithinBounds = (position: Position, boardSize: number): boolean => {
-  return position.x >= 0 && position.x < boardSize && position.y >= 0 && position.y < boardSize;
-};
+// Bounds checks (square and rectangular boards) come from the shared rules engine
+export { isWithinBounds };
 
 /**
  * Gets the adjacent positions (up, right, down, left) for a given position
@@ -71,7 +68,7 @@ export const findTerritoryOwner = (
   let surroundingColors = new Set<StoneColor>();
 
   const floodFill = (position: Position) => {
-    if (!isWithinBounds(position, board.size)) return;
+    if (!isWithinBounds(position, getBoardDimensions(board))) return;
     
     const posKey = `${position.x},${position.y}`;
     if (visited.has(posKey)) return;
@@ -124,18 +121,42 @@ export const findTerritoryOwner = (
 };
 
 /**
- * Calculates all territories on the board
+ * Finds the seki on the board (dead stones removed) and returns every point it leaves
+ * uncounted: the stones in seki, their shared liberties and their eyes
+ */
+export const findSekiPoints = (
+  board: Board,
+  deadStonePositions: Set<string>
+): Position[] => {
+  const deadStones: Position[] = [];
+  deadStonePositions.forEach(key => deadStones.push(keyToPosition(key)));
+  return getSekiPoints(findSeki(board, deadStones));
+};
+
+/**
+ * Calculates all territories on the board. With excludeSekiEyes, empty regions
+ * enclosed by groups in seki are not counted (territory rules).
  */
 export const calculateTerritories = (
   board: Board, 
-  deadStonePositions: Set<string>
+  deadStonePositions: Set<string>,
+  excludeSekiEyes: boolean = false
 ): Territory[] => {
   const visited = new Set<string>();
   const territories: Territory[] = [];
   
+  // Eyes inside a seki belong to nobody under territory rules
+  const sekiEyes = new Set<string>();
+  if (excludeSekiEyes) {
+    const deadStones: Position[] = [];
+    deadStonePositions.forEach(key => deadStones.push(keyToPosition(key)));
+    findSeki(board, deadStones).eyes.forEach(eye => addPositionToSet(eye, sekiEyes));
+  }
+  
   // Check each position on the board
-  for (let x = 0; x < board.size; x++) {
-    for (let y = 0; y < board.size; y++) {
+  const { width, height } = getBoardDimensions(board);
+  for (let x = 0; x < width; x++) {
+    for (let y = 0; y < height; y++) {
       const position = { x, y };
       const posKey = `${x},${y}`;
       
@@ -154,8 +175,8 @@ export const calculateTerritories = (
         visited.add(`${pos.x},${pos.y}`);
       });
       
-      // Add territories with valid owners
-      if (owner) {
+      // Add territories with valid owners (seki eyes excluded when requested)
+      if (owner && !territory.some(pos => isPositionInSet(pos, sekiEyes))) {
         territories.push(...territory.map(position => ({ position, owner })));
       }
     }
@@ -247,6 +268,7 @@ export const calculateChineseScore = (
 /**
  * Calculates score using Japanese rules: 
  * - Territory points - own prisoners - own dead stones + komi (for white)
+ * - Eyes inside a seki are not territory
  */
 export const calculateJapaneseScore = (
   board: Board,
@@ -255,7 +277,7 @@ export const calculateJapaneseScore = (
   komi: number = 6.5
 ) => {
   // Calculate territories
-  const territories = calculateTerritories(board, deadStonePositions);
+  const territories = calculateTerritories(board, deadStonePositions, true);
   const territoryPoints = countTerritoryPoints(territories);
   
   // Count dead stones by color
@@ -298,6 +320,7 @@ export const calculateJapaneseScore = (
  * - Territory points + living stones on the board + komi
  * - Default komi is 6.5 (different from Chinese rules)
  * - Captures don't affect the final score
+ * - As under Japanese rules, eyes inside a seki are not territory
  */
 export const calculateKoreanScore = (
   board: Board,
@@ -306,7 +329,7 @@ export const calculateKoreanScore = (
   komi: number = 6.5
 ) => {
   // Calculate territories
-  const territories = calculateTerritories(board, deadStonePositions);
+  const territories = calculateTerritories(board, deadStonePositions, true);
   const territoryPoints = countTerritoryPoints(territories);
   
   // Count stones on the board
@@ -451,4 +474,86 @@ export const calculateIngScore = (
     },
     winner: blackScore > whiteScore ? 'black' : blackScore < whiteScore ? 'white' : null as StoneColor
   };
-}; 
\ No newline at end of file
+}; 
+
+/**
+ * Calculates score using Tromp-Taylor rules: 
+ * - Pure area scoring: stones on the board + empty points that reach only that color
+ * - There is no dead stone agreement: every stone on the board counts as alive,
+ *   so disputed groups must be captured before the game ends
+ * - Captures don't affect the final score
+ * - Default komi is 7.5
+ */
+export const calculateTrompTaylorScore = (
+  board: Board,
+  deadStonePositions: Set<string>,
+  capturedStones: { black: number, white: number },
+  komi: number = 7.5
+) => {
+  // Dead stones are never removed under Tromp-Taylor
+  const noDeadStones = new Set<string>();
+  
+  // Calculate territories (empty regions bordered by a single color)
+  const territories = calculateTerritories(board, noDeadStones);
+  const territoryPoints = countTerritoryPoints(territories);
+  
+  // Count every stone on the board
+  const stonesOnBoard = countLiveStones(board, noDeadStones);
+  
+  // Calculate final scores
+  const blackScore = territoryPoints.black + stonesOnBoard.black;
+  const whiteScore = territoryPoints.white + stonesOnBoard.white + komi;
+  
+  return {
+    territories,
+    score: {
+      black: blackScore,
+      white: whiteScore,
+      blackTerritory: territoryPoints.black,
+      whiteTerritory: territoryPoints.white,
+      blackStones: stonesOnBoard.black,
+      whiteStones: stonesOnBoard.white,
+      komi
+    },
+    winner: blackScore > whiteScore ? 'black' : blackScore < whiteScore ? 'white' : null as StoneColor
+  };
+};
+
+/**
+ * Calculates score using New Zealand rules: 
+ * - Area scoring: territory points + living stones on the board + komi
+ * - Players agree on dead stones before counting
+ * - Multi-stone suicide is legal, so captures don't affect the final score
+ * - Default komi is 7
+ */
+export const calculateNewZealandScore = (
+  board: Board,
+  deadStonePositions: Set<string>,
+  capturedStones: { black: number, white: number },
+  komi: number = 7
+) => {
+  // Calculate territories
+  const territories = calculateTerritories(board, deadStonePositions);
+  const territoryPoints = countTerritoryPoints(territories);
+  
+  // Count stones on the board
+  const liveStones = countLiveStones(board, deadStonePositions);
+  
+  // Calculate final scores
+  const blackScore = territoryPoints.black + liveStones.black;
+  const whiteScore = territoryPoints.white + liveStones.white + komi;
+  
+  return {
+    territories,
+    score: {
+      black: blackScore,
+      white: whiteScore,
+      blackTerritory: territoryPoints.black,
+      whiteTerritory: territoryPoints.white,
+      blackStones: liveStones.black,
+      whiteStones: liveStones.white,
+      komi
+    },
+    winner: blackScore > whiteScore ? 'black' : blackScore < whiteScore ? 'white' : null as StoneColor
+  };
+};
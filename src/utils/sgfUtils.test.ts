@@ -0,0 +1,167 @@
+import { parseSGF, importSGF, generateSGF } from './sgfUtils';
+import { applyGoRules } from './goGameLogic';
+
+describe('SGF parsing', () => {
+  it('reads properties, escaped values and variations', () => {
+    const [root] = parseSGF('(;GM[1]SZ[9]C[a \\] bracket\\\nand more];B[ee](;W[cc];B[gg])(;W[gc]))');
+
+    expect(root.properties.SZ).toEqual(['9']);
+    expect(root.properties.C).toEqual(['a ] bracketand more']);
+
+    const blackMove = root.children[0];
+    expect(blackMove.properties.B).toEqual(['ee']);
+    expect(blackMove.children.map(child => child.properties.W[0])).toEqual(['cc', 'gc']);
+    expect(blackMove.children[0].children[0].properties.B).toEqual(['gg']);
+  });
+
+  it('accepts FF[3] long property names and several games', () => {
+    const games = parseSGF('(;AddBlack[aa][bb]) (;SZ[13])');
+    expect(games).toHaveLength(2);
+    expect(games[0].properties.AB).toEqual(['aa', 'bb']);
+  });
+
+  it('rejects malformed input', () => {
+    expect(() => parseSGF('')).toThrow();
+    expect(() => parseSGF('(;B[aa]')).toThrow();
+    expect(() => parseSGF('(;B[aa')).toThrow();
+  });
+});
+
+describe('SGF import', () => {
+  const sgf = `(;GM[1]FF[4]SZ[9]KM[5.5]HA[2]RU[Chinese]PB[Alice]PW[Bob]RE[W+R]DT[2023-11-05]
+    AB[cc][gg]AW[ee]C[Start]
+    ;W[dc];B[cd]C[First black move]
+    ;W[]
+    (;B[ge];W[ec])
+    (;B[aa]))`;
+
+  it('reads the game information', () => {
+    const gameState = importSGF(sgf);
+
+    expect(gameState.board.size).toBe(9);
+    expect(gameState.komi).toBe(5.5);
+    expect(gameState.handicap).toBe(2);
+    expect(gameState.gameType).toBe('handicap');
+    expect(gameState.scoringRule).toBe('chinese');
+    expect(gameState.players.map(player => player.username)).toEqual(['Alice', 'Bob']);
+    expect(gameState.result).toBe('W+R');
+    expect(gameState.winner).toBe('white');
+    expect(gameState.status).toBe('finished');
+  });
+
+  it('follows the main line from the setup stones', () => {
+    const gameState = importSGF(sgf);
+
+    expect(gameState.setupStones).toHaveLength(3);
+    expect(gameState.startingTurn).toBe('white');
+    expect(gameState.history).toEqual([
+      { x: 3, y: 2 },
+      { x: 2, y: 3 },
+      { pass: true, color: 'white' },
+      { x: 6, y: 4 },
+      { x: 4, y: 2 }
+    ]);
+    expect(gameState.board.stones).toHaveLength(7);
+    expect(gameState.comments).toEqual({ 0: 'Start', 2: 'First black move' });
+  });
+
+  it('applies captures and turns repeated colors into passes', () => {
+    const gameState = importSGF('(;SZ[5];B[ba];B[ab];W[bb];B[cb];W[ee];B[bc])');
+
+    expect(gameState.history[1]).toEqual({ pass: true, color: 'white' });
+    expect(gameState.capturedStones.black).toBe(1);
+    expect(gameState.board.stones.some(stone => stone.position.x === 1 && stone.position.y === 1)).toBe(false);
+  });
+
+  it('rejects records with moves on taken points or off the board', () => {
+    expect(() => importSGF('(;SZ[9];B[aa];W[aa])')).toThrow('Move 2 (W[aa]) is illegal: Position is already occupied');
+    expect(() => importSGF('(;SZ[9];B[ja])')).toThrow('The move B[ja] is not on the 9x9 board');
+    expect(importSGF('(;SZ[9];B[tt])').history).toEqual([{ pass: true, color: 'black' }]);
+  });
+
+  it('round-trips setup stones and the first color through export', () => {
+    const exported = generateSGF(importSGF(sgf));
+    const reimported = importSGF(exported);
+
+    expect(exported).toContain('AB[cc][gg]AW[ee]');
+    expect(exported).toContain('DT[2023-11-05]');
+    expect(reimported.history).toEqual(importSGF(sgf).history);
+    expect(reimported.board.stones).toHaveLength(7);
+  });
+
+  it('keeps every variation and exports them again', () => {
+    const gameState = importSGF(sgf);
+    const tree = gameState.moveTree!;
+    const branchPoint = Object.values(tree.nodes).find(node => node.children.length > 1);
+
+    expect(branchPoint?.position).toBeNull();
+    expect(branchPoint?.children.map(id => tree.nodes[id].position)).toEqual([{ x: 6, y: 4 }, { x: 0, y: 0 }]);
+
+    const exported = generateSGF(gameState);
+    expect(exported).toContain('(;B[ge];W[ec])(;B[aa])');
+    expect(importSGF(exported).moveTree!.nodes).toEqual(tree.nodes);
+  });
+
+  it('reads and writes board markup', () => {
+    const gameState = importSGF('(;SZ[9]TR[aa]CR[bb:cb];B[ee]SQ[ee]MA[ff]LB[gg:A][hh:x\\:y]C[Look here])');
+    const tree = gameState.moveTree!;
+    const move = tree.nodes[tree.nodes[0].children[0]];
+
+    expect(tree.nodes[0].markup).toEqual([
+      { position: { x: 0, y: 0 }, shape: 'triangle' },
+      { position: { x: 1, y: 1 }, shape: 'circle' },
+      { position: { x: 2, y: 1 }, shape: 'circle' }
+    ]);
+    expect(move.markup).toContainEqual({ position: { x: 7, y: 7 }, shape: 'label', label: 'x:y' });
+    expect(move.comment).toBe('Look here');
+
+    const exported = generateSGF(gameState);
+    expect(exported).toContain('TR[aa]');
+    expect(importSGF(exported).moveTree!.nodes).toEqual(tree.nodes);
+  });
+
+  it('lists rengo team members in turn order', () => {
+    const gameState = importSGF(sgf);
+    const exported = generateSGF({
+      ...gameState,
+      gameType: 'rengo',
+      teamNames: { white: 'Lions' },
+      players: [
+        { id: 'a', username: 'Alice', color: 'black' },
+        { id: 'b', username: 'Bob', color: 'white' },
+        { id: 'c', username: 'Carol', color: 'black' },
+        { id: 'd', username: 'Dave', color: 'white' }
+      ]
+    });
+
+    expect(exported).toContain('PB[Alice, Carol]BT[Alice & Carol]');
+    expect(exported).toContain('PW[Bob, Dave]WT[Lions]');
+  });
+
+  it('records a capture game won by its first capture as RE[B+C]', () => {
+    const gameState = { ...importSGF('(;SZ[5];B[ba];B[ab];W[bb];B[cb];W[ee])'), gameType: 'capture' as const, captureTarget: 1 };
+    const { updatedGameState } = applyGoRules({ x: 1, y: 2 }, 'black', gameState);
+
+    expect(updatedGameState?.status).toBe('finished');
+    const exported = generateSGF(updatedGameState!);
+    expect(exported).toContain('RE[B+C]');
+    expect(importSGF(exported).winner).toBe('black');
+  });
+
+  it('writes the handicap of a teaching game, with white moving first', () => {
+    const exported = generateSGF({
+      ...importSGF('(;SZ[9])'),
+      setupStones: undefined,
+      startingTurn: undefined,
+      moveTree: undefined,
+      gameType: 'teaching',
+      handicap: 2,
+      handicapPositions: [{ x: 2, y: 6 }, { x: 6, y: 2 }],
+      history: [{ x: 4, y: 4 }],
+      status: 'playing'
+    });
+
+    expect(exported).toContain('HA[2]AB[cg][gc]');
+    expect(exported).toContain(';W[ee]');
+  });
+});
@@ -1,12 +1,18 @@
-import { GameState, GameMove, Position, StoneColor } from '../types/go';
-
-// Helper function to check if a move is a pass
-function isPassMove(move: GameMove): move is { pass: true } {
-  return (move as any).pass === true;
-}
+import { Board, BoardDimensions, BoardMarkup, GameState, GameMove, MarkupShape, MoveTree, Position, ScoringRule, StoneColor } from '../types/go';
+import { MOVE_REJECTION_MESSAGES, checkMove, createBoard, getBoardDimensions, getKomi, getTeamMembers, getTeamName, isWithinBounds, playMove } from '../rules';
+import {
+  MOVE_TREE_ROOT,
+  addTreeMove,
+  createEmptyMoveTree,
+  createMoveTree,
+  extractPosition,
+  goToNode,
+  setTreeComment,
+  setTreeMarkup
+} from './gameTree';
 
 // Convert board coordinates to SGF format
-function positionToSGF(pos: Position, boardSize: number): string {
+function positionToSGF(pos: Position): string {
   // SGF uses lowercase letters for coordinates
   // a-s for 19x19 boards (skipping 'i')
   const xCoord = String.fromCharCode(97 + pos.x); // a, b, c, etc.
@@ -19,32 +25,84 @@ function colorToSGF(color: StoneColor): string {
   return color === 'black' ? 'B' : 'W';
 }
 
-// Extract position from different move formats
-function extractPosition(move: GameMove): Position | null {
-  if (isPassMove(move)) {
-    return null; // Pass moves don't have positions
-  }
+// Escape text for an SGF property value
+function escapeSGFText(text: string): string {
+  return text.replace(/\\/g, '\\\\').replace(/\]/g, '\\]');
+}
+
+// SGF RU value for each ruleset
+const SGF_RULES: Record<ScoringRule, string> = {
+  japanese: 'Japanese',
+  chinese: 'Chinese',
+  korean: 'Korean',
+  aga: 'AGA',
+  ing: 'GOE',
+  'new-zealand': 'NZ',
+  'tromp-taylor': 'Tromp-Taylor'
+};
+
+// SGF property for each markup shape
+const MARKUP_PROPERTIES: Record<MarkupShape, string> = {
+  triangle: 'TR',
+  square: 'SQ',
+  circle: 'CR',
+  cross: 'MA',
+  label: 'LB'
+};
+
+// Write a node's markup as TR/SQ/CR/MA point lists and LB point:text values
+function markupToSGF(markup: BoardMarkup[] = []): string {
+  let sgf = '';
+  (Object.keys(MARKUP_PROPERTIES) as MarkupShape[]).forEach(shape => {
+    const marks = markup.filter(mark => mark.shape === shape);
+    if (marks.length === 0) return;
+    sgf += MARKUP_PROPERTIES[shape];
+    marks.forEach(mark => {
+      const text = shape === 'label' ? ':' + escapeSGFText(mark.label || '').replace(/:/g, '\\:') : '';
+      sgf += '[' + positionToSGF(mark.position) + text + ']';
+    });
+  });
+  return sgf;
+}
+
+// Write the moves from a node onwards; alternatives become parenthesised variations
+function sequenceToSGF(tree: MoveTree, childIds: number[], dimensions: BoardDimensions): string {
+  if (childIds.length === 0) return '';
   
-  // Handle different move formats
-  if ((move as any).position) {
-    // Server format: { position: { x, y }, color, ... }
-    return (move as any).position;
-  } else if (typeof move === 'object' && 'x' in move && 'y' in move) {
-    // Direct position format: { x, y }
-    return move as Position;
-  }
+  const writeNode = (id: number): string => {
+    const node = tree.nodes[id];
+    let sgf = ';' + colorToSGF(node.color) + '[';
+    if (node.position) {
+      if (isWithinBounds(node.position, dimensions)) {
+        sgf += positionToSGF(node.position);
+      } else {
+        console.warn('Invalid coordinates in SGF export:', node.position);
+      }
+    }
+    sgf += ']';
+    if (node.comment) {
+      sgf += 'C[' + escapeSGFText(node.comment) + ']';
+    }
+    sgf += markupToSGF(node.markup);
+    return sgf + sequenceToSGF(tree, node.children, dimensions);
+  };
   
-  console.warn('Unknown move format in SGF export:', move);
-  return null;
+  if (childIds.length === 1) {
+    return writeNode(childIds[0]);
+  }
+  return childIds.map(id => '(' + writeNode(id) + ')').join('');
 }
 
 // Generate SGF content from game state
 export function generateSGF(gameState: GameState): string {
-  const boardSize = gameState.board.size;
-  const date = new Date().toISOString().split('T')[0]; // YYYY-MM-DD format
+  const dimensions = getBoardDimensions(gameState.board);
+  const date = new Date(gameState.createdAt || Date.now()).toISOString().split('T')[0]; // YYYY-MM-DD format
   
-  // Start SGF with game metadata
-  let sgf = '(;FF[4]GM[1]SZ[' + boardSize + ']';
+  // Start SGF with game metadata (rectangular boards use SZ[width:height])
+  const size = dimensions.width === dimensions.height
+    ? String(dimensions.width)
+    : dimensions.width + ':' + dimensions.height;
+  let sgf = '(;FF[4]GM[1]SZ[' + size + ']';
   
   // Add game information
   sgf += 'DT[' + date + ']';
@@ -54,11 +112,23 @@ export function generateSGF(gameState: GameState): string {
   const blackPlayer = gameState.players.find(p => p.color === 'black');
   const whitePlayer = gameState.players.find(p => p.color === 'white');
   
-  if (blackPlayer) {
-    sgf += 'PB[' + blackPlayer.username + ']';
-  }
-  if (whitePlayer) {
-    sgf += 'PW[' + whitePlayer.username + ']';
+  if (gameState.gameType === 'rengo') {
+    // Rengo: every team member in turn order, plus the team name
+    (['black', 'white'] as const).forEach(color => {
+      const members = getTeamMembers(gameState.players, color).map(member => member.username);
+      if (members.length === 0) return;
+      sgf += (color === 'black' ? 'PB[' : 'PW[') + escapeSGFText(members.join(', ')) + ']';
+      sgf += (color === 'black' ? 'BT[' : 'WT[') + escapeSGFText(getTeamName(gameState, color)) + ']';
+    });
+  } else {
+    if (blackPlayer) {
+      sgf += 'PB[' + escapeSGFText(blackPlayer.username) + ']';
+      if (blackPlayer.rank) sgf += 'BR[' + escapeSGFText(blackPlayer.rank) + ']';
+    }
+    if (whitePlayer) {
+      sgf += 'PW[' + escapeSGFText(whitePlayer.username) + ']';
+      if (whitePlayer.rank) sgf += 'WR[' + escapeSGFText(whitePlayer.rank) + ']';
+    }
   }
   
   // Add time control information if available
@@ -75,23 +145,47 @@ export function generateSGF(gameState: GameState): string {
     }
   }
   
-  // Add game type and handicap
-  if (gameState.gameType === 'handicap' && gameState.handicap > 0) {
+  // Add the rules
+  sgf += 'RU[' + SGF_RULES[gameState.scoringRule] + ']';
+  
+  // Add komi (may be zero or negative)
+  if (typeof gameState.komi === 'number') {
+    sgf += 'KM[' + gameState.komi + ']';
+  }
+  
+  // Add the handicap, whatever the game type
+  if (gameState.handicap > 0) {
     sgf += 'HA[' + gameState.handicap + ']';
+  }
+  
+  if (gameState.setupStones) {
+    // Imported games keep their own setup stones, which may include white stones
+    (['black', 'white'] as StoneColor[]).forEach(color => {
+      const stones = gameState.setupStones!.filter(stone => stone.color === color);
+      if (stones.length > 0) {
+        sgf += 'A' + colorToSGF(color);
+        stones.forEach(stone => {
+          sgf += '[' + positionToSGF(stone.position) + ']';
+        });
+      }
+    });
+  } else if (gameState.handicap > 0) {
+    // Add handicap stone positions: recorded placements (fixed or free) when available,
+    // otherwise black stones that never appear in the move history
+    const handicapPositions = gameState.handicapPositions || gameState.board.stones
+      .filter(stone => 
+        stone.color === 'black' && 
+        !gameState.history.some(move => {
+          const pos = extractPosition(move);
+          return pos && pos.x === stone.position.x && pos.y === stone.position.y;
+        })
+      )
+      .map(stone => stone.position);
     
-    // Add handicap stone positions if available
-    const handicapStones = gameState.board.stones.filter(stone => 
-      stone.color === 'black' && 
-      !gameState.history.some(move => {
-        const pos = extractPosition(move);
-        return pos && pos.x === stone.position.x && pos.y === stone.position.y;
-      })
-    );
-    
-    if (handicapStones.length > 0) {
+    if (handicapPositions.length > 0) {
       sgf += 'AB';
-      handicapStones.forEach(stone => {
-        sgf += '[' + positionToSGF(stone.position, boardSize) + ']';
+      handicapPositions.forEach(position => {
+        sgf += '[' + positionToSGF(position) + ']';
       });
     }
   }
@@ -101,34 +195,14 @@ export function generateSGF(gameState: GameState): string {
     sgf += 'RE[' + gameState.result + ']';
   }
   
-  // Determine starting color for moves
-  let currentColor: StoneColor = 'black';
-  if (gameState.gameType === 'handicap' && gameState.handicap > 0) {
-    currentColor = 'white'; // White plays first in handicap games
+  // Add moves, with every variation of the move tree
+  const tree = createMoveTree(gameState);
+  const rootComment = tree.nodes[MOVE_TREE_ROOT].comment;
+  if (rootComment) {
+    sgf += 'C[' + escapeSGFText(rootComment) + ']';
   }
-  
-  // Add moves
-  gameState.history.forEach((move, index) => {
-    if (isPassMove(move)) {
-      // Pass move
-      sgf += ';' + colorToSGF(currentColor) + '[]';
-    } else {
-      const pos = extractPosition(move);
-      if (pos && typeof pos.x === 'number' && typeof pos.y === 'number') {
-        // Validate coordinates are within board bounds
-        if (pos.x >= 0 && pos.x < boardSize && pos.y >= 0 && pos.y < boardSize) {
-          sgf += ';' + colorToSGF(currentColor) + '[' + positionToSGF(pos, boardSize) + ']';
-        } else {
-          console.warn('Invalid coordinates in SGF export:', pos);
-        }
-      } else {
-        console.warn('Could not extract position for move', index, move);
-      }
-    }
-    
-    // Toggle color for next move
-    currentColor = currentColor === 'black' ? 'white' : 'black';
-  });
+  sgf += markupToSGF(tree.nodes[MOVE_TREE_ROOT].markup);
+  sgf += sequenceToSGF(tree, tree.nodes[MOVE_TREE_ROOT].children, dimensions);
   
   // Close SGF
   sgf += ')';
@@ -166,4 +240,304 @@ export function downloadSGF(gameState: GameState, filename?: string): void {
 export function copySGFToClipboard(gameState: GameState): Promise<void> {
   const sgfContent = generateSGF(gameState);
   return navigator.clipboard.writeText(sgfContent);
-} 
\ No newline at end of file
+} 
+// A node of a parsed SGF game tree; the first child continues the main line
+export interface SGFNode {
+  properties: Record<string, string[]>;
+  children: SGFNode[];
+}
+
+// Reads SGF text into game trees (one root node per game in the collection)
+export function parseSGF(text: string): SGFNode[] {
+  let index = 0;
+  
+  const skipWhitespace = () => {
+    while (index < text.length && /\s/.test(text[index])) index++;
+  };
+  
+  const fail = (message: string): never => {
+    throw new Error(`Invalid SGF at character ${index}: ${message}`);
+  };
+  
+  const readValue = (): string => {
+    let value = '';
+    index++; // Opening bracket
+    while (index < text.length && text[index] !== ']') {
+      if (text[index] === '\\') {
+        index++;
+        // An escaped line break is a soft line break and disappears
+        if (text[index] === '\r' && text[index + 1] === '\n') index++;
+        if (text[index] !== '\n' && text[index] !== '\r') value += text[index];
+      } else {
+        value += text[index];
+      }
+      index++;
+    }
+    if (index >= text.length) fail('unterminated property value');
+    index++; // Closing bracket
+    return value;
+  };
+  
+  const readNode = (): SGFNode => {
+    const node: SGFNode = { properties: {}, children: [] };
+    index++; // Semicolon
+    skipWhitespace();
+    while (index < text.length && /[A-Za-z]/.test(text[index])) {
+      let identifier = '';
+      while (index < text.length && /[A-Za-z]/.test(text[index])) {
+        identifier += text[index];
+        index++;
+      }
+      // FF[3] files may spell properties out (AddBlack); only the capitals count
+      identifier = identifier.replace(/[a-z]/g, '');
+      skipWhitespace();
+      if (text[index] !== '[') fail(`property ${identifier} has no value`);
+      const values = node.properties[identifier] || [];
+      while (text[index] === '[') {
+        values.push(readValue());
+        skipWhitespace();
+      }
+      node.properties[identifier] = values;
+    }
+    return node;
+  };
+  
+  const readGameTree = (): SGFNode => {
+    index++; // Opening parenthesis
+    skipWhitespace();
+    if (text[index] !== ';') fail('game tree has no nodes');
+    
+    const root = readNode();
+    let last = root;
+    skipWhitespace();
+    while (text[index] === ';') {
+      const node = readNode();
+      last.children.push(node);
+      last = node;
+      skipWhitespace();
+    }
+    while (text[index] === '(') {
+      last.children.push(readGameTree());
+      skipWhitespace();
+    }
+    if (text[index] !== ')') fail('expected ")"');
+    index++;
+    return root;
+  };
+  
+  const trees: SGFNode[] = [];
+  skipWhitespace();
+  while (index < text.length) {
+    if (text[index] !== '(') fail('expected "("');
+    trees.push(readGameTree());
+    skipWhitespace();
+  }
+  if (trees.length === 0) fail('no game found');
+  
+  return trees;
+}
+
+// Convert an SGF point ("pd") to board coordinates; an empty value is a pass
+function sgfToPosition(value: string): Position | null {
+  if (value.length < 2) return null;
+  return { x: value.charCodeAt(0) - 97, y: value.charCodeAt(1) - 97 };
+}
+
+// Expand a point list value, which may be a compressed rectangle ("aa:cc")
+function sgfToPositions(values: string[]): Position[] {
+  const positions: Position[] = [];
+  values.forEach(value => {
+    const [from, to] = value.split(':').map(sgfToPosition);
+    if (!from) return;
+    if (!to) {
+      positions.push(from);
+      return;
+    }
+    for (let x = Math.min(from.x, to.x); x <= Math.max(from.x, to.x); x++) {
+      for (let y = Math.min(from.y, to.y); y <= Math.max(from.y, to.y); y++) {
+        positions.push({ x, y });
+      }
+    }
+  });
+  return positions;
+}
+
+// Read a node's TR/SQ/CR/MA/LB properties
+function sgfToMarkup(properties: Record<string, string[]>): BoardMarkup[] {
+  const markup: BoardMarkup[] = [];
+  (Object.keys(MARKUP_PROPERTIES) as MarkupShape[]).forEach(shape => {
+    const values = properties[MARKUP_PROPERTIES[shape]] || [];
+    if (shape === 'label') {
+      values.forEach(value => {
+        const position = sgfToPosition(value.slice(0, 2));
+        if (position && value[2] === ':') {
+          markup.push({ position, shape, label: value.slice(3) });
+        }
+      });
+    } else {
+      sgfToPositions(values).forEach(position => markup.push({ position, shape }));
+    }
+  });
+  return markup;
+}
+
+// Match an SGF RU value to one of our rulesets (Japanese when unknown)
+function sgfToScoringRule(value: string | undefined): ScoringRule {
+  const rules = (value || '').toLowerCase();
+  if (rules.includes('tromp') || rules.includes('taylor')) return 'tromp-taylor';
+  if (rules.includes('chinese') || rules === 'cn') return 'chinese';
+  if (rules.includes('korean') || rules === 'kr') return 'korean';
+  if (rules.includes('aga')) return 'aga';
+  if (rules.includes('ing') || rules === 'goe') return 'ing';
+  if (rules.includes('new zealand') || rules === 'nz') return 'new-zealand';
+  return 'japanese';
+}
+
+// Build a finished GameState from an SGF game. Every variation goes into moveTree;
+// history, the board and the comments follow the main line (first variation).
+export function importSGF(text: string): GameState {
+  const root = parseSGF(text)[0];
+  const prop = (node: SGFNode, identifier: string): string | undefined => node.properties[identifier]?.[0];
+  
+  const [width, height = width]: number[] = (prop(root, 'SZ') || '19').split(':').map(Number);
+  if (!Number.isInteger(width) || !Number.isInteger(height) || width < 2 || height < 2 || width > 52 || height > 52) {
+    throw new Error(`Unsupported board size: ${prop(root, 'SZ')}`);
+  }
+  const dimensions = { width, height };
+  const isPass = (value: string) => value === '' || (value === 'tt' && width <= 19 && height <= 19);
+  
+  // Setup stones come from the root node
+  let board: Board = createBoard(dimensions);
+  const setColor = (positions: Position[], color: StoneColor) => {
+    const points = positions.filter(position => isWithinBounds(position, dimensions));
+    const stones = board.stones.filter(stone =>
+      !points.some(point => point.x === stone.position.x && point.y === stone.position.y)
+    );
+    board = { ...board, stones: color ? [...stones, ...points.map(position => ({ position, color }))] : stones };
+  };
+  setColor(sgfToPositions(root.properties.AE || []), null);
+  setColor(sgfToPositions(root.properties.AB || []), 'black');
+  setColor(sgfToPositions(root.properties.AW || []), 'white');
+  const setupStones = board.stones;
+  
+  // Moves become tree nodes; nodes without a move only add their comment to the previous move
+  let moveTree = createEmptyMoveTree();
+  const addNode = (node: SGFNode, parentId: number) => {
+    const { properties } = node;
+    let nodeId = parentId;
+    
+    if (node !== root && (properties.AB || properties.AW || properties.AE)) {
+      console.warn('Ignoring SGF setup stones after the first node');
+    }
+    
+    const color: StoneColor = properties.B ? 'black' : properties.W ? 'white' : null;
+    if (color) {
+      const value = (properties.B || properties.W)[0];
+      const position = isPass(value) ? null : sgfToPosition(value);
+      if (!isPass(value) && (!position || !isWithinBounds(position, dimensions))) {
+        throw new Error(`The move ${colorToSGF(color)}[${value}] is not on the ${width}x${height} board`);
+      }
+      moveTree = addTreeMove(goToNode(moveTree, parentId), color, position);
+      nodeId = moveTree.currentId;
+    }
+    
+    if (properties.C) {
+      const existing = moveTree.nodes[nodeId].comment;
+      moveTree = setTreeComment(goToNode(moveTree, nodeId), [existing, ...properties.C].filter(Boolean).join('\n'));
+    }
+    
+    const markup = sgfToMarkup(properties);
+    if (markup.length > 0) {
+      const existing = moveTree.nodes[nodeId].markup || [];
+      moveTree = setTreeMarkup(goToNode(moveTree, nodeId), [...existing, ...markup]);
+    }
+    
+    node.children.forEach(child => addNode(child, nodeId));
+  };
+  addNode(root, MOVE_TREE_ROOT);
+  moveTree = goToNode(moveTree, MOVE_TREE_ROOT);
+  
+  // Replay the main line, refusing a record whose moves break the rules
+  const scoringRule = sgfToScoringRule(prop(root, 'RU'));
+  const history: GameMove[] = [];
+  const comments: Record<number, string> = {};
+  const capturedStones = { black: 0, white: 0 };
+  let startingTurn: StoneColor = prop(root, 'PL') === 'W' ? 'white' : 'black';
+  let nextColor = startingTurn;
+  let lastMove: Position | undefined;
+  let koPosition: Position | undefined;
+  let moveNumber = 0;
+  
+  if (moveTree.nodes[MOVE_TREE_ROOT].comment) {
+    comments[0] = moveTree.nodes[MOVE_TREE_ROOT].comment as string;
+  }
+  
+  let [nextId] = moveTree.nodes[MOVE_TREE_ROOT].children;
+  while (nextId !== undefined) {
+    const { color, position, comment, children } = moveTree.nodes[nextId];
+    if (history.length === 0) {
+      startingTurn = color;
+    } else if (color !== nextColor) {
+      // Our history alternates colors, so two moves in a row by one side become a pass in between
+      history.push({ pass: true, color: nextColor });
+      koPosition = undefined;
+    }
+    
+    moveNumber++;
+    if (position) {
+      const check = checkMove({ board, status: 'playing', currentTurn: color, koPosition, scoringRule }, position, color);
+      if (!check.legal) {
+        throw new Error(`Move ${moveNumber} (${colorToSGF(color)}[${positionToSGF(position)}]) is illegal: ${MOVE_REJECTION_MESSAGES[check.reason]}`);
+      }
+      const result = playMove(board, position, color);
+      board = result.board;
+      koPosition = result.koPosition;
+      capturedStones[color === 'black' ? 'black' : 'white'] += result.capturedCount;
+      capturedStones[color === 'black' ? 'white' : 'black'] += result.suicidePositions.length;
+      history.push(position);
+    } else {
+      history.push({ pass: true, color });
+      koPosition = undefined;
+    }
+    lastMove = position || undefined;
+    nextColor = color === 'black' ? 'white' : 'black';
+    
+    if (comment) {
+      comments[history.length] = comment;
+    }
+    [nextId] = children;
+  }
+  
+  const handicap = Number(prop(root, 'HA')) || 0;
+  const komi = Number(prop(root, 'KM'));
+  const result = prop(root, 'RE');
+  const playedOn = Date.parse((prop(root, 'DT') || '').slice(0, 10)); // First date of DT[YYYY-MM-DD,...]
+  const winner: StoneColor = result?.startsWith('B+') ? 'black' : result?.startsWith('W+') ? 'white' : null;
+  
+  return {
+    id: `sgf-${Date.now()}`,
+    code: '',
+    board,
+    players: [
+      { id: 'sgf-black', username: prop(root, 'PB') || 'Black', color: 'black', rank: prop(root, 'BR') },
+      { id: 'sgf-white', username: prop(root, 'PW') || 'White', color: 'white', rank: prop(root, 'WR') }
+    ],
+    currentTurn: nextColor,
+    capturedStones,
+    history,
+    status: 'finished',
+    winner,
+    result,
+    scoringRule,
+    gameType: handicap >= 2 ? 'handicap' : 'even',
+    timeControl: { timeControl: 0, timePerMove: 0, byoYomiPeriods: 0, byoYomiTime: 0, fischerTime: 0, correspondenceDays: 0 },
+    komi: getKomi(Number.isNaN(komi) ? undefined : komi, handicap, scoringRule),
+    handicap,
+    setupStones,
+    startingTurn,
+    comments,
+    moveTree,
+    lastMove,
+    createdAt: Number.isNaN(playedOn) ? undefined : playedOn
+  };
+}
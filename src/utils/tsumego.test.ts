@@ -0,0 +1,86 @@
+import { STORAGE_KEYS } from '../constants/storage';
+import {
+  getNodeStatus,
+  loadProblem,
+  loadProblemProgress,
+  playProblemMove,
+  recordProblemAttempt,
+  startProblem,
+  TsumegoAttempt
+} from './tsumego';
+import { BUNDLED_PROBLEMS } from './tsumegoProblems';
+
+const killProblem = loadProblem(BUNDLED_PROBLEMS[0].sgf, BUNDLED_PROBLEMS[0].id);
+
+const play = (attempt: TsumegoAttempt, x: number, y: number): TsumegoAttempt => {
+  const result = playProblemMove(killProblem, attempt, { x, y });
+  if (!result.attempt) throw new Error(`Move refused: ${result.reason}`);
+  return result.attempt;
+};
+
+describe('tsumego', () => {
+  it('starts from the setup stones with the side to play', () => {
+    const attempt = startProblem(killProblem);
+
+    expect(killProblem.title).toBe('Kill the straight three');
+    expect(attempt.gameState.board.stones).toHaveLength(12);
+    expect(attempt.gameState.currentTurn).toBe('black');
+    expect(attempt.status).toBe('solving');
+    expect(attempt.comment).toContain('Black to play');
+  });
+
+  it('answers a correct move and solves at the end of the line', () => {
+    const afterVitalPoint = play(startProblem(killProblem), 1, 0);
+
+    expect(afterVitalPoint.status).toBe('solving');
+    expect(afterVitalPoint.gameState.board.stones).toHaveLength(14);
+    expect(afterVitalPoint.gameState.currentTurn).toBe('black');
+
+    const solved = play(afterVitalPoint, 2, 0);
+    expect(solved.status).toBe('solved');
+    expect(solved.gameState.board.stones.every(stone => stone.color === 'black')).toBe(true);
+  });
+
+  it('plays the refutation to a wrong move', () => {
+    const failed = play(startProblem(killProblem), 0, 0);
+
+    expect(failed.status).toBe('failed');
+    expect(failed.comment).toContain('Wrong');
+    expect(failed.gameState.lastMove).toEqual({ x: 1, y: 0 });
+    expect(playProblemMove(killProblem, failed, { x: 2, y: 0 }).attempt).toBe(failed);
+  });
+
+  it('fails moves outside the problem and refuses illegal ones', () => {
+    expect(play(startProblem(killProblem), 8, 8).status).toBe('failed');
+    expect(playProblemMove(killProblem, startProblem(killProblem), { x: 3, y: 0 }).reason).toBe('occupied');
+  });
+
+  it('takes the main line as the solution when no line is marked', () => {
+    const problem = loadProblem('(;SZ[5]AB[ba]AW[aa];W[ab](;B[ac]))', 'unmarked');
+
+    expect(getNodeStatus(problem.tree, 2)).toBe('solved');
+    expect(startProblem(problem).gameState.currentTurn).toBe('white');
+  });
+
+  it('solves every bundled problem along its main line', () => {
+    BUNDLED_PROBLEMS.forEach(({ id, sgf }) => {
+      const problem = loadProblem(sgf, id);
+      let attempt = startProblem(problem);
+      while (attempt.status === 'solving') {
+        const [nextId] = problem.tree.nodes[attempt.nodeId].children;
+        const result = playProblemMove(problem, attempt, problem.tree.nodes[nextId].position!);
+        attempt = result.attempt!;
+      }
+      expect(attempt.status).toBe('solved');
+    });
+  });
+
+  it('keeps progress in localStorage', () => {
+    localStorage.removeItem(STORAGE_KEYS.PROBLEM_PROGRESS);
+
+    const afterFailure = recordProblemAttempt(loadProblemProgress(), 'p1', false);
+    recordProblemAttempt(afterFailure, 'p1', true);
+
+    expect(loadProblemProgress()).toEqual({ p1: { attempts: 2, solved: true } });
+  });
+});
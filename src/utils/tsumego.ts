@@ -0,0 +1,185 @@
+import { GameState, MoveTree, Position } from '../types/go';
+import { createBoard, getBoardDimensions, getOppositeColor, MoveRejectionReason, recordPosition } from '../rules';
+import { STORAGE_KEYS } from '../constants/storage';
+import { applyGoRules } from './goGameLogic';
+import { createMoveTree, getFirstMoveColor, getPathToNode, getStartingStones, MOVE_TREE_ROOT } from './gameTree';
+import { importSGF, parseSGF } from './sgfUtils';
+
+// A life-and-death problem: the setup stones, and the solution and refutations as SGF variations
+export interface TsumegoProblem {
+  id: string;
+  title: string;
+  gameState: GameState;
+  tree: MoveTree;
+}
+
+export type TsumegoStatus = 'solving' | 'solved' | 'failed';
+
+// One try at a problem: the position reached and where it is in the problem's tree
+export interface TsumegoAttempt {
+  gameState: GameState;
+  nodeId: number;
+  status: TsumegoStatus;
+  comment?: string; // Comment on the last move, e.g. why it fails
+}
+
+export interface ProblemProgress {
+  attempts: number;
+  solved: boolean;
+}
+
+// Problem collections mark lines in the comments, e.g. "RIGHT" (goproblems.com) or
+// "Correct". Only capitals count for RIGHT, so "the upper right" is not a verdict.
+const isWrongComment = (comment: string): boolean => /\b(wrong|incorrect)\b/i.test(comment);
+const isCorrectComment = (comment: string): boolean =>
+  !isWrongComment(comment) && (/\bRIGHT\b/.test(comment) || /\bcorrect\b/i.test(comment));
+
+/**
+ * Reads a problem from SGF. Lines whose comment says right or correct are solutions;
+ * a problem without such comments takes its main line as the solution.
+ */
+export const loadProblem = (text: string, id: string): TsumegoProblem => {
+  const gameState = importSGF(text);
+  const title = parseSGF(text)[0].properties.GN?.[0] || 'Problem';
+  const tree = createMoveTree(gameState);
+  if (tree.nodes[MOVE_TREE_ROOT].children.length === 0) {
+    throw new Error('This problem has no solution moves');
+  }
+  return { id, title, gameState, tree };
+};
+
+/**
+ * The problem's starting position, with the side to play to move
+ */
+export const startProblem = (problem: TsumegoProblem): TsumegoAttempt => {
+  const { gameState, tree } = problem;
+  const board = createBoard(getBoardDimensions(gameState.board), getStartingStones(gameState));
+  const toPlay = getFirstMoveColor(gameState);
+
+  return {
+    gameState: {
+      ...gameState,
+      board,
+      currentTurn: toPlay,
+      history: [],
+      capturedStones: { black: 0, white: 0 },
+      koPosition: undefined,
+      positionHistory: recordPosition([], board, toPlay),
+      lastMove: undefined,
+      status: 'playing'
+    },
+    nodeId: MOVE_TREE_ROOT,
+    status: 'solving',
+    comment: tree.nodes[MOVE_TREE_ROOT].comment
+  };
+};
+
+const hasMarkedSolution = (tree: MoveTree): boolean =>
+  Object.keys(tree.nodes).some(id => {
+    const { comment } = tree.nodes[Number(id)];
+    return Number(id) !== MOVE_TREE_ROOT && !!comment && isCorrectComment(comment);
+  });
+
+const isMainLine = (tree: MoveTree, nodeId: number): boolean =>
+  getPathToNode(tree, nodeId).every(id => {
+    const { parentId } = tree.nodes[id];
+    return parentId === null || tree.nodes[parentId].children[0] === id;
+  });
+
+/**
+ * Where a move in the problem's tree leaves the solver: solved on a line marked
+ * correct, failed on one marked wrong or at the end of any other line
+ */
+export const getNodeStatus = (tree: MoveTree, nodeId: number): TsumegoStatus => {
+  const { comment, children } = tree.nodes[nodeId];
+  if (comment && isWrongComment(comment)) return 'failed';
+  if (comment && isCorrectComment(comment)) return 'solved';
+  if (children.length > 0) return 'solving';
+  return !hasMarkedSolution(tree) && isMainLine(tree, nodeId) ? 'solved' : 'failed';
+};
+
+// Plays a move of the problem's tree on the attempt's position; passes just hand over the turn
+const playNode = (problem: TsumegoProblem, attempt: TsumegoAttempt, nodeId: number): TsumegoAttempt => {
+  const node = problem.tree.nodes[nodeId];
+  let gameState: GameState = {
+    ...attempt.gameState,
+    currentTurn: getOppositeColor(node.color),
+    history: [...attempt.gameState.history, { pass: true, color: node.color }],
+    koPosition: undefined,
+    lastMove: undefined
+  };
+  if (node.position) {
+    const result = applyGoRules(node.position, node.color, attempt.gameState);
+    if (result.updatedGameState) gameState = result.updatedGameState;
+  }
+  return { gameState, nodeId, status: getNodeStatus(problem.tree, nodeId), comment: node.comment };
+};
+
+/**
+ * Plays the solver's move. Moves in the problem's tree are answered with the
+ * opponent's first reply, which for a wrong move is the refutation; any move
+ * outside the tree fails. Illegal moves return the reason instead.
+ */
+export const playProblemMove = (
+  problem: TsumegoProblem,
+  attempt: TsumegoAttempt,
+  position: Position
+): { attempt: TsumegoAttempt; reason?: undefined } | { attempt?: undefined; reason: MoveRejectionReason } => {
+  if (attempt.status !== 'solving') return { attempt };
+
+  const color = attempt.gameState.currentTurn;
+  const result = applyGoRules(position, color, attempt.gameState);
+  if (!result.valid || !result.updatedGameState) {
+    return { reason: result.reason || 'occupied' };
+  }
+
+  const { tree } = problem;
+  const nodeId = tree.nodes[attempt.nodeId].children.find(id => {
+    const node = tree.nodes[id];
+    return node.color === color && node.position?.x === position.x && node.position?.y === position.y;
+  });
+  if (nodeId === undefined) {
+    return { attempt: { gameState: result.updatedGameState, nodeId: attempt.nodeId, status: 'failed' } };
+  }
+
+  const afterMove = playNode(problem, attempt, nodeId);
+  const [replyId] = tree.nodes[nodeId].children;
+  if (afterMove.status === 'solved' || replyId === undefined) {
+    return { attempt: afterMove };
+  }
+
+  const afterReply = playNode(problem, afterMove, replyId);
+  return {
+    attempt: afterMove.status === 'failed' ? { ...afterReply, status: 'failed', comment: afterReply.comment || afterMove.comment } : afterReply
+  };
+};
+
+/**
+ * Solved problems and attempt counts, kept in localStorage by problem id
+ */
+export const loadProblemProgress = (): Record<string, ProblemProgress> => {
+  try {
+    return JSON.parse(localStorage.getItem(STORAGE_KEYS.PROBLEM_PROGRESS) || '{}');
+  } catch (e) {
+    console.error('Failed to read problem progress:', e);
+    return {};
+  }
+};
+
+/**
+ * Counts a finished attempt and saves the progress; a problem stays solved once solved
+ */
+export const recordProblemAttempt = (
+  progress: Record<string, ProblemProgress>,
+  problemId: string,
+  solved: boolean
+): Record<string, ProblemProgress> => {
+  const previous = progress[problemId] || { attempts: 0, solved: false };
+  const updated = { ...progress, [problemId]: { attempts: previous.attempts + 1, solved: previous.solved || solved } };
+  try {
+    localStorage.setItem(STORAGE_KEYS.PROBLEM_PROGRESS, JSON.stringify(updated));
+  } catch (e) {
+    console.error('Failed to save problem progress:', e);
+  }
+  return updated;
+};
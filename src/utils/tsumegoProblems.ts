@@ -0,0 +1,33 @@
+// Problems that come with the app, easiest first. Solutions are marked "Correct" in
+// their comments and every wrong first move has a refutation.
+export const BUNDLED_PROBLEMS: { id: string; sgf: string }[] = [
+  {
+    id: 'straight-three-kill',
+    sgf: `(;GM[1]FF[4]SZ[9]GN[Kill the straight three]PL[B]
+C[Black to play. White's eye space is three points in a row. Kill the white group.]
+AB[ea][eb][ac][bc][cc][dc][ec]AW[da][ab][bb][cb][db]
+(;B[ba](;W[aa];B[ca]C[Correct! The middle point was White's only way to make two eyes.])
+(;W[ca];B[aa]C[Correct! The middle point was White's only way to make two eyes.]))
+(;B[aa];W[ba]C[Wrong. White takes the middle point and has two eyes.])
+(;B[ca];W[ba]C[Wrong. White takes the middle point and has two eyes.]))`
+  },
+  {
+    id: 'straight-three-live',
+    sgf: `(;GM[1]FF[4]SZ[9]GN[Live with two eyes]PL[B]
+C[Black to play and live.]
+AB[da][ab][bb][cb][db]AW[ea][eb][ac][bc][cc][dc][ec]
+(;B[ba]C[Correct! Black has two eyes, at A9 and C9.])
+(;B[aa];W[ba]C[Wrong. White takes the vital point and Black has only one eye.])
+(;B[ca];W[ba]C[Wrong. White takes the vital point and Black has only one eye.]))`
+  },
+  {
+    id: 'edge-three-kill',
+    sgf: `(;GM[1]FF[4]SZ[9]GN[White to kill]PL[W]
+C[White to play. Kill the black group on the edge.]
+AB[ba][bb][bc][ad][bd]AW[ca][cb][cc][cd][ae][be][ce]
+(;W[ab](;B[aa];W[ac]C[Correct! Black is captured.])
+(;B[ac];W[aa]C[Correct! Black is captured.]))
+(;W[aa];B[ab]C[Wrong. Black captures and makes two eyes.])
+(;W[ac];B[ab]C[Wrong. Black captures and makes two eyes.]))`
+  }
+];